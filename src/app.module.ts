@@ -15,8 +15,14 @@ import { SipModule } from './modules/sip/sip.module';
 import { WebRtcModule } from './modules/webrtc/webrtc.module';
 import { PhoneModule } from './modules/phone/phone.module';
 import { BatchCallsModule } from './modules/batch-calls/batch-calls.module';
+import { DoNotCallModule } from './modules/do-not-call/do-not-call.module';
 import { KnowledgeBaseModule } from './modules/knowledge-base/knowledge-base.module';
 import { SubscriptionModule } from './modules/subscription/subscription.module';
+import { AppointmentModule } from './modules/appointment/appointment.module';
+import { IvrModule } from './modules/ivr/ivr.module';
+import { HolidayModule } from './modules/holiday/holiday.module';
+import { VoicemailModule } from './modules/voicemail/voicemail.module';
+import { CallQueueModule } from './modules/call-queue/call-queue.module';
 import { AIConversationModule } from './modules/ai-conversation/ai-conversation.module';
 import { MediaModule } from './modules/media/media.module';
 import { AudioStreamModule } from './modules/audio-stream/audio-stream.module';
@@ -57,8 +63,14 @@ import { AudioStreamModule } from './modules/audio-stream/audio-stream.module';
     ConversationModule,
     PhoneModule,
     BatchCallsModule,
+    DoNotCallModule,
     KnowledgeBaseModule,
     SubscriptionModule,
+    AppointmentModule,
+    IvrModule,
+    HolidayModule,
+    VoicemailModule,
+    CallQueueModule,
   ],
   controllers: [AppController],
   providers: [AppService],
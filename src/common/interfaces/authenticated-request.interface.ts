@@ -0,0 +1,17 @@
+import { Request } from 'express';
+import { UserDocument, UserRole } from '../../schemas/user.schema';
+
+/**
+ * User JwtStrategy puts on requests that passed JwtAuthGuard
+ */
+export interface RequestUser {
+  userId: string;
+  email: string;
+  role: UserRole;
+  companyId: string;
+  user: UserDocument;
+}
+
+export interface AuthenticatedRequest extends Request {
+  user: RequestUser;
+}
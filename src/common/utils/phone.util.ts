@@ -0,0 +1,20 @@
+/**
+ * Normalize a phone number to E.164 (+79161234567).
+ * Russian numbers written with a leading 8 or without the country code are
+ * converted to +7. Returns null when the value cannot be a phone number.
+ */
+export function normalizePhoneNumber(value: string): string | null {
+  let digits = value.replace(/\D/g, '');
+
+  if (digits.length === 11 && digits.startsWith('8')) {
+    digits = '7' + digits.slice(1);
+  } else if (digits.length === 10 && !value.trim().startsWith('+')) {
+    digits = '7' + digits;
+  }
+
+  if (digits.length < 11 || digits.length > 15) {
+    return null;
+  }
+
+  return `+${digits}`;
+}
@@ -0,0 +1,53 @@
+import { assertPublicUrl, isInternalAddress } from './public-url.util';
+
+describe('public-url.util', () => {
+  it('should treat loopback, private and link-local addresses as internal', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.10',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      'not-an-ip',
+    ]) {
+      expect(isInternalAddress(address)).toBe(true);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2001:4860:4860::8888']) {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  });
+
+  it('should refuse URLs of internal hosts', async () => {
+    await expect(
+      assertPublicUrl('http://169.254.169.254/latest/meta-data'),
+    ).rejects.toThrow('not a public address');
+    await expect(assertPublicUrl('http://[::1]:3000/')).rejects.toThrow(
+      'not a public address',
+    );
+    // Numeric hosts are normalized by URL before the check
+    await expect(assertPublicUrl('http://2130706433/')).rejects.toThrow(
+      'not a public address',
+    );
+    await expect(assertPublicUrl('http://localhost:27017/')).rejects.toThrow();
+  });
+
+  it('should refuse other schemes', async () => {
+    await expect(assertPublicUrl('file:///etc/passwd')).rejects.toThrow(
+      'Only http(s) URLs are allowed',
+    );
+  });
+
+  it('should accept public IP hosts', async () => {
+    await expect(
+      assertPublicUrl('https://8.8.8.8/api/orders?id=1'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,75 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const INTERNAL_ADDRESSES = new BlockList();
+INTERNAL_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');
+INTERNAL_ADDRESSES.addAddress('::', 'ipv6');
+INTERNAL_ADDRESSES.addAddress('::1', 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Whether an IP address belongs to the server's own or a private network.
+ * IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export function isInternalAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return INTERNAL_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+
+  return INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check that an http(s) URL points at a public host: every address the host
+ * resolves to must be outside internal ranges. Throws an Error with the
+ * reason otherwise.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid URL');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Only http(s) URLs are allowed');
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map(
+        (entry) => entry.address,
+      );
+    } catch {
+      throw new Error(`Host ${host} cannot be resolved`);
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isInternalAddress)) {
+    throw new Error(`Host ${host} is not a public address`);
+  }
+}
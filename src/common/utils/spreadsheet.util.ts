@@ -0,0 +1,50 @@
+import { BadRequestException } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+
+// Header names recognized as the phone column of an uploaded list (compared lowercase)
+export const PHONE_COLUMN_ALIASES = [
+  'phone',
+  'phone number',
+  'phone_number',
+  'phonenumber',
+  'mobile',
+  'телефон',
+  'номер',
+  'номер телефона',
+];
+
+/**
+ * Read the first sheet of an uploaded CSV or XLSX file.
+ * Throws BadRequestException when the file cannot be read or has no sheets.
+ */
+export function readFirstSheet(file: Express.Multer.File): XLSX.WorkSheet {
+  let workbook: XLSX.WorkBook;
+
+  try {
+    workbook = isCsvFile(file)
+      ? // Read CSV as text, so UTF-8 (Cyrillic) and phone numbers stay intact
+        XLSX.read(file.buffer.toString('utf8').replace(/^\uFEFF/, ''), {
+          type: 'string',
+          raw: true,
+        })
+      : XLSX.read(file.buffer, { type: 'buffer' });
+  } catch (error) {
+    throw new BadRequestException(
+      `Failed to read file: ${(error as Error).message}`,
+    );
+  }
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new BadRequestException('File has no sheets');
+  }
+
+  return workbook.Sheets[sheetName];
+}
+
+function isCsvFile(file: Express.Multer.File): boolean {
+  return (
+    file.originalname.toLowerCase().endsWith('.csv') ||
+    file.mimetype === 'text/csv'
+  );
+}
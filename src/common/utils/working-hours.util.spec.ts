@@ -0,0 +1,132 @@
+import { WorkingHours } from '../../schemas/agent.schema';
+import {
+  getWorkingDate,
+  isWithinWorkingHours,
+  localDateTimeToDate,
+} from './working-hours.util';
+
+const MOSCOW = 'Europe/Moscow'; // UTC+3, no DST
+
+describe('working-hours.util', () => {
+  const nightShift: WorkingHours = {
+    enabled: true,
+    timezone: MOSCOW,
+    start: '20:00',
+    end: '04:00',
+    workDays: [1, 2, 3, 4, 5],
+  };
+
+  describe('isWithinWorkingHours', () => {
+    // Moscow times on Friday, Jan 5 and Saturday, Jan 6 2024
+    const friday = (time: string) => new Date(`2024-01-05T${time}+03:00`);
+    const saturday = (time: string) => new Date(`2024-01-06T${time}+03:00`);
+
+    it('should include the start and exclude the end of a daytime window', () => {
+      const dayShift = { ...nightShift, start: '09:00', end: '18:00' };
+
+      expect(isWithinWorkingHours(dayShift, friday('09:00:00'))).toBe(true);
+      expect(isWithinWorkingHours(dayShift, friday('17:59:00'))).toBe(true);
+      expect(isWithinWorkingHours(dayShift, friday('18:00:00'))).toBe(false);
+      expect(isWithinWorkingHours(dayShift, saturday('12:00:00'))).toBe(false);
+    });
+
+    it('should give the early morning of an overnight window to the day it started', () => {
+      expect(isWithinWorkingHours(nightShift, friday('20:00:00'))).toBe(true);
+      expect(isWithinWorkingHours(nightShift, friday('12:00:00'))).toBe(false);
+      // Saturday is not a work day, but the Friday shift runs until 04:00
+      expect(isWithinWorkingHours(nightShift, saturday('03:59:00'))).toBe(true);
+      expect(isWithinWorkingHours(nightShift, saturday('04:00:00'))).toBe(
+        false,
+      );
+      expect(isWithinWorkingHours(nightShift, saturday('21:00:00'))).toBe(
+        false,
+      );
+      // Friday morning continues the Thursday shift
+      expect(isWithinWorkingHours(nightShift, friday('01:00:00'))).toBe(true);
+    });
+
+    it('should check the time in the requested timezone', () => {
+      // Vladivostok is 7 hours ahead of Moscow
+      expect(
+        isWithinWorkingHours(
+          nightShift,
+          friday('13:00:00'),
+          'Asia/Vladivostok',
+        ),
+      ).toBe(true);
+      expect(
+        isWithinWorkingHours(
+          nightShift,
+          friday('21:00:00'),
+          'Asia/Vladivostok',
+        ),
+      ).toBe(false);
+    });
+
+    it('should never restrict disabled working hours', () => {
+      expect(
+        isWithinWorkingHours(
+          { ...nightShift, enabled: false },
+          friday('12:00:00'),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('localDateTimeToDate', () => {
+    it('should follow DST changes of the timezone', () => {
+      expect(
+        localDateTimeToDate(
+          '2024-03-30',
+          '09:00',
+          'Europe/Berlin',
+        ).toISOString(),
+      ).toBe('2024-03-30T08:00:00.000Z');
+      expect(
+        localDateTimeToDate(
+          '2024-03-31',
+          '09:00',
+          'Europe/Berlin',
+        ).toISOString(),
+      ).toBe('2024-03-31T07:00:00.000Z');
+      expect(
+        localDateTimeToDate(
+          '2024-10-27',
+          '09:00',
+          'Europe/Berlin',
+        ).toISOString(),
+      ).toBe('2024-10-27T08:00:00.000Z');
+    });
+  });
+
+  describe('getWorkingDate', () => {
+    it('should count the early morning of an overnight window as the previous day', () => {
+      // 02:00 on Tuesday, Jan 2 in Moscow
+      expect(getWorkingDate(nightShift, new Date('2024-01-01T23:00:00Z'))).toBe(
+        '2024-01-01',
+      );
+      // Across a month and a year boundary
+      expect(getWorkingDate(nightShift, new Date('2023-12-31T22:30:00Z'))).toBe(
+        '2023-12-31',
+      );
+    });
+
+    it('should keep the calendar date in the evening part and outside the window', () => {
+      // 21:00 and 12:00 on Jan 1
+      expect(getWorkingDate(nightShift, new Date('2024-01-01T18:00:00Z'))).toBe(
+        '2024-01-01',
+      );
+      expect(getWorkingDate(nightShift, new Date('2024-01-01T09:00:00Z'))).toBe(
+        '2024-01-01',
+      );
+    });
+
+    it('should use the calendar date for daytime windows', () => {
+      const dayShift = { ...nightShift, start: '09:00', end: '18:00' };
+
+      expect(getWorkingDate(dayShift, new Date('2024-01-01T23:00:00Z'))).toBe(
+        '2024-01-02',
+      );
+    });
+  });
+});
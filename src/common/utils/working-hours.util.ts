@@ -0,0 +1,166 @@
+import { WorkingHours } from '../../schemas/agent.schema';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface LocalTime {
+  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  minutes: number; // minutes since local midnight
+}
+
+/**
+ * Day of week and time of day of a moment in the given IANA timezone
+ */
+export function getLocalTime(date: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * Parse an HH:mm string into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Check whether a moment falls inside working hours.
+ * The window includes `start` and excludes `end`; a window whose end is
+ * before its start spans midnight and belongs to the day it starts on.
+ * Disabled working hours never restrict anything.
+ */
+export function isWithinWorkingHours(
+  workingHours: WorkingHours,
+  date: Date = new Date(),
+  timeZone: string = workingHours.timezone,
+): boolean {
+  if (!workingHours.enabled) {
+    return true;
+  }
+
+  const { dayOfWeek, minutes } = getLocalTime(date, timeZone);
+  const start = parseTimeOfDay(workingHours.start);
+  const end = parseTimeOfDay(workingHours.end);
+
+  if (start <= end) {
+    return (
+      workingHours.workDays.includes(dayOfWeek) &&
+      minutes >= start &&
+      minutes < end
+    );
+  }
+
+  // Overnight window: the early morning part belongs to the previous day
+  if (minutes >= start) {
+    return workingHours.workDays.includes(dayOfWeek);
+  }
+
+  return minutes < end && workingHours.workDays.includes((dayOfWeek + 6) % 7);
+}
+
+/**
+ * Local calendar date (`YYYY-MM-DD`) of the working day a moment belongs to:
+ * the early morning part of an overnight window counts as the day it started on
+ */
+export function getWorkingDate(
+  workingHours: WorkingHours,
+  date: Date = new Date(),
+  timeZone: string = workingHours.timezone,
+): string {
+  const localDate = formatLocalDateTime(date, timeZone).date;
+  const start = parseTimeOfDay(workingHours.start);
+  const end = parseTimeOfDay(workingHours.end);
+
+  if (start <= end || getLocalTime(date, timeZone).minutes >= end) {
+    return localDate;
+  }
+
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day - 1))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Local calendar date and time of a moment in the given IANA timezone,
+ * formatted as `YYYY-MM-DD` and `HH:mm`
+ */
+export function formatLocalDateTime(
+  date: Date,
+  timeZone: string,
+): { date: string; time: string } {
+  const { year, month, day, hour, minute } = getLocalParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hour)}:${pad(minute)}`,
+  };
+}
+
+/**
+ * The moment at which the wall clock of the given timezone shows the local
+ * date (`YYYY-MM-DD`) and time (`HH:mm`)
+ */
+export function localDateTimeToDate(
+  localDate: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, 0, parseTimeOfDay(time));
+
+  // The offset depends on the moment itself; the second pass settles DST changes
+  let result = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  result = asUtc - getTimeZoneOffset(new Date(result), timeZone);
+
+  return new Date(result);
+}
+
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getLocalParts(
+    date,
+    timeZone,
+  );
+  const local = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  return local - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function getLocalParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
@@ -0,0 +1,214 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { AgentTool, ToolHttpMethod } from '../../schemas/agent.schema';
+import { ToolCallLog } from '../../schemas/conversation.schema';
+import { assertPublicUrl } from '../../common/utils/public-url.util';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+// Longest response body read from the service
+const MAX_RESPONSE_BYTES = 64 * 1024;
+// Longest response passed to the model, as serialized JSON
+const MAX_MODEL_RESPONSE = 4000;
+// Longest response kept in the conversation log
+const MAX_LOGGED_RESPONSE = 2000;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export interface AgentToolResult {
+  response: Record<string, any>; // sent back to the model as the toolResponse
+  log: ToolCallLog;
+}
+
+/**
+ * Runs custom agent tools: one HTTP request per call of the tool by the model
+ */
+@Injectable()
+export class AgentToolRunner {
+  private readonly logger = new Logger(AgentToolRunner.name);
+
+  async run(
+    tool: AgentTool,
+    args: Record<string, any>,
+  ): Promise<AgentToolResult> {
+    const calledAt = new Date();
+    const { url, body } = this.buildRequest(tool, args);
+    const log: ToolCallLog = {
+      name: tool.name,
+      method: tool.method,
+      url,
+      arguments: args,
+      success: false,
+      durationMs: 0,
+      calledAt,
+    };
+
+    try {
+      // Checked again on every call: the host may resolve elsewhere since the tool was saved
+      await assertPublicUrl(url);
+
+      const response = await fetch(url, {
+        method: tool.method,
+        headers: this.buildHeaders(tool, body),
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(tool.timeoutMs || DEFAULT_TIMEOUT_MS),
+      });
+      const text = await this.readBody(response);
+      const data = this.limitForModel(this.parseBody(text));
+
+      log.status = response.status;
+      log.success = response.ok;
+      log.response = text.slice(0, MAX_LOGGED_RESPONSE);
+      log.durationMs = Date.now() - calledAt.getTime();
+
+      this.logger.log(
+        `Tool ${tool.name}: ${tool.method} ${url} -> ${response.status} (${log.durationMs} ms)`,
+      );
+
+      return {
+        response: response.ok
+          ? data
+          : { success: false, status: response.status, error: data },
+        log,
+      };
+    } catch (error) {
+      const message =
+        (error as Error).name === 'TimeoutError'
+          ? `No response within ${tool.timeoutMs || DEFAULT_TIMEOUT_MS} ms`
+          : (error as Error).message;
+
+      log.error = message;
+      log.durationMs = Date.now() - calledAt.getTime();
+
+      this.logger.warn(`Tool ${tool.name} failed: ${message}`);
+
+      return {
+        response: { success: false, error: 'The service is unavailable' },
+        log,
+      };
+    }
+  }
+
+  /**
+   * Fill URL placeholders; other arguments go to the query string of
+   * GET/DELETE requests and to the JSON body of the rest
+   */
+  private buildRequest(
+    tool: AgentTool,
+    args: Record<string, any>,
+  ): { url: string; body?: string } {
+    const used = new Set<string>();
+    let url = tool.url.replace(PLACEHOLDER, (_, key: string) => {
+      used.add(key);
+      return encodeURIComponent(this.formatValue(args[key]));
+    });
+
+    if (
+      tool.method !== ToolHttpMethod.GET &&
+      tool.method !== ToolHttpMethod.DELETE
+    ) {
+      return { url, body: JSON.stringify(args) };
+    }
+
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(args)) {
+      if (!used.has(key) && value !== undefined && value !== null) {
+        query.append(key, this.formatValue(value));
+      }
+    }
+
+    const queryString = query.toString();
+    if (queryString) {
+      url += (url.includes('?') ? '&' : '?') + queryString;
+    }
+
+    return { url };
+  }
+
+  private buildHeaders(tool: AgentTool, body?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      ...tool.headers,
+    };
+
+    // The receiver recomputes the HMAC to verify the request came from us
+    if (tool.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = createHmac('sha256', tool.secret)
+        .update(`${timestamp}.${body || ''}`)
+        .digest('hex');
+
+      headers['X-Webhook-Timestamp'] = timestamp;
+      headers['X-Webhook-Signature'] = `sha256=${signature}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Read the body up to MAX_RESPONSE_BYTES and drop the rest
+   */
+  private async readBody(response: Response): Promise<string> {
+    if (!response.body) {
+      return '';
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    while (size < MAX_RESPONSE_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return Buffer.concat(chunks).toString('utf8');
+      }
+      chunks.push(value);
+      size += value.length;
+    }
+
+    await reader.cancel();
+    return Buffer.concat(chunks)
+      .subarray(0, MAX_RESPONSE_BYTES)
+      .toString('utf8');
+  }
+
+  /**
+   * Large responses would crowd the live session context; the model gets
+   * the start of the serialized response instead
+   */
+  private limitForModel(data: Record<string, any>): Record<string, any> {
+    const serialized = JSON.stringify(data);
+    if (serialized.length <= MAX_MODEL_RESPONSE) {
+      return data;
+    }
+
+    return {
+      result: serialized.slice(0, MAX_MODEL_RESPONSE),
+      truncated: true,
+    };
+  }
+
+  /**
+   * The model expects an object; other JSON values and plain text are wrapped
+   */
+  private parseBody(text: string): Record<string, any> {
+    if (!text) {
+      return { success: true };
+    }
+
+    try {
+      const data: unknown = JSON.parse(text);
+      return data !== null && typeof data === 'object' && !Array.isArray(data)
+        ? (data as Record<string, any>)
+        : { result: data };
+    } catch {
+      return { result: text };
+    }
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value as string | number | boolean);
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { AgentToolRunner } from './agent-tool-runner.service';
+
+@Module({
+  providers: [AgentToolRunner],
+  exports: [AgentToolRunner],
+})
+export class AgentToolsModule {}
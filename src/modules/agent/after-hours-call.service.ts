@@ -0,0 +1,165 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { InboundCall, SipService } from '../sip/sip.service';
+import { MediaService } from '../media/media.service';
+import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { LeadService } from '../lead/lead.service';
+import { InboundCallService } from '../call-transfer/inbound-call.service';
+import { VoicemailCallService } from '../voicemail/voicemail-call.service';
+import { AgentService } from './agent.service';
+import {
+  AfterHoursAction,
+  Agent,
+  AgentRecord,
+} from '../../schemas/agent.schema';
+import { CallerType, CallStatus } from '../../schemas/conversation.schema';
+import { ChangedBy } from '../../schemas/lead-history.schema';
+
+// Played outside working hours when the agent has no message of its own
+const AFTER_HOURS_MESSAGE =
+  'Здравствуйте! Сейчас мы не работаем. Пожалуйста, перезвоните в рабочее время.';
+const AFTER_HOURS_VOICEMAIL_GREETING =
+  'Здравствуйте! Сейчас мы не работаем. Оставьте сообщение после сигнала, и мы перезвоним вам в рабочее время.';
+
+/**
+ * Answers inbound calls that reach an agent outside its working hours or on
+ * a company holiday, by the agent's after-hours settings
+ */
+@Injectable()
+export class AfterHoursCallService {
+  private readonly logger = new Logger(AfterHoursCallService.name);
+
+  constructor(
+    private agentService: AgentService,
+    private sipService: SipService,
+    private mediaService: MediaService,
+    private googleCloudService: GoogleCloudService,
+    private conversationService: ConversationService,
+    private leadService: LeadService,
+    private inboundCallService: InboundCallService,
+    private voicemailCallService: VoicemailCallService,
+    @InjectModel(Agent.name) private agentModel: Model<Agent>,
+  ) {}
+
+  /**
+   * Play the closed message and optionally take a message. Returns the
+   * after-hours agent the caller is to be handed to instead, if any.
+   */
+  async handle(
+    call: InboundCall,
+    agent: AgentRecord,
+  ): Promise<AgentRecord | null> {
+    const { session } = call;
+    const { callId } = session;
+    const companyId = agent.companyId;
+    const afterHours = agent.afterHours ?? { action: AfterHoursAction.MESSAGE };
+
+    if (afterHours.action === AfterHoursAction.AGENT) {
+      const afterHoursAgent = await this.agentModel
+        .findOne({ _id: afterHours.agentId, companyId, isActive: true })
+        .lean<AgentRecord>();
+      if (afterHoursAgent) {
+        return afterHoursAgent;
+      }
+      this.logger.warn(
+        `After-hours agent ${afterHours.agentId} is not available, playing the closed message on call ${callId}`,
+      );
+    }
+
+    const conversation = await this.inboundCallService.answer(call, companyId, {
+      callerType: CallerType.IVR,
+      agentId: agent._id.toString(),
+    });
+    await this.conversationService.updateConversation(
+      conversation._id,
+      companyId,
+      { metadata: { afterHours: afterHours.action } },
+    );
+
+    try {
+      if (afterHours.action === AfterHoursAction.VOICEMAIL) {
+        const message = await this.voicemailCallService.takeMessage(
+          session,
+          companyId,
+          conversation._id,
+          afterHours.message || AFTER_HOURS_VOICEMAIL_GREETING,
+        );
+        if (message?.leadId) {
+          await this.scheduleCallback(
+            callId,
+            agent,
+            message.leadId,
+            conversation._id,
+          );
+        }
+        return null;
+      }
+
+      const closedMessage = afterHours.message || AFTER_HOURS_MESSAGE;
+      await this.mediaService.playTTS(
+        callId,
+        await this.googleCloudService.synthesizeSpeech(closedMessage),
+      );
+
+      // The caller hung up during the message
+      if (!this.sipService.getCall(callId)) {
+        await this.conversationService.updateStatus(
+          callId,
+          companyId,
+          CallStatus.MISSED,
+        );
+        return null;
+      }
+
+      await this.conversationService.updateStatus(
+        callId,
+        companyId,
+        CallStatus.COMPLETED,
+      );
+      await this.sipService.hangupCall(callId);
+    } catch (error) {
+      await this.inboundCallService.fail(
+        callId,
+        companyId,
+        `After-hours handling failed on call ${callId}:`,
+        error,
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Schedule a call back to the caller who left an after-hours message at
+   * the start of the agent's next working day
+   */
+  private async scheduleCallback(
+    callId: string,
+    agent: AgentRecord,
+    leadId: Types.ObjectId,
+    conversationId: Types.ObjectId,
+  ): Promise<void> {
+    try {
+      const followUpAt =
+        (await this.agentService.getNextWorkingTime(agent)) ?? new Date();
+
+      await this.leadService.scheduleFollowUp(
+        leadId,
+        agent.companyId,
+        followUpAt,
+        {
+          changedBy: ChangedBy.SYSTEM,
+          conversationId,
+          description: 'Call back after an after-hours voicemail',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to schedule a callback for call ${callId}:`,
+        error,
+      );
+    }
+  }
+}
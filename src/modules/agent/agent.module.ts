@@ -2,10 +2,18 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AgentController } from './agent.controller';
 import { AgentService } from './agent.service';
+import { AfterHoursCallService } from './after-hours-call.service';
 import { Agent, AgentSchema } from '../../schemas/agent.schema';
 import { ConversationSchema } from '../../schemas/conversation.schema';
 import { PhoneNumberSchema } from '../../schemas/phone-number.schema';
 import { GoogleCloudModule } from '../google-cloud/google-cloud.module';
+import { HolidayModule } from '../holiday/holiday.module';
+import { SipModule } from '../sip/sip.module';
+import { MediaModule } from '../media/media.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { LeadModule } from '../lead/lead.module';
+import { CallTransferModule } from '../call-transfer/call-transfer.module';
+import { VoicemailModule } from '../voicemail/voicemail.module';
 
 @Module({
   imports: [
@@ -15,9 +23,16 @@ import { GoogleCloudModule } from '../google-cloud/google-cloud.module';
       { name: 'PhoneNumber', schema: PhoneNumberSchema },
     ]),
     GoogleCloudModule,
+    HolidayModule,
+    SipModule,
+    MediaModule,
+    ConversationModule,
+    LeadModule,
+    CallTransferModule,
+    VoicemailModule,
   ],
   controllers: [AgentController],
-  providers: [AgentService],
-  exports: [AgentService],
+  providers: [AgentService, AfterHoursCallService],
+  exports: [AgentService, AfterHoursCallService],
 })
 export class AgentModule {}
@@ -7,11 +7,35 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Agent, AgentDocument } from '../../schemas/agent.schema';
+import {
+  AfterHoursAction,
+  Agent,
+  AgentDocument,
+  AgentTool,
+} from '../../schemas/agent.schema';
 import { Conversation } from '../../schemas/conversation.schema';
 import { PhoneNumber } from '../../schemas/phone-number.schema';
-import { CreateAgentDto, UpdateAgentDto } from './dto';
+import {
+  CreateAgentDto,
+  UpdateAgentDto,
+  AgentToolDto,
+  AfterHoursDto,
+} from './dto';
 import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+import { HolidayService } from '../holiday/holiday.service';
+import {
+  formatLocalDateTime,
+  getLocalTime,
+  getWorkingDate,
+  isWithinWorkingHours,
+  localDateTimeToDate,
+} from '../../common/utils/working-hours.util';
+import { assertPublicUrl } from '../../common/utils/public-url.util';
+import { BUILT_IN_TOOL_NAMES } from '../gemini-live/gemini-live.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stands in for tool header values in responses; sent back, it keeps the stored value
+const HIDDEN_HEADER_VALUE = '********';
 
 @Injectable()
 export class AgentService {
@@ -22,6 +46,7 @@ export class AgentService {
     @InjectModel('Conversation') private conversationModel: Model<Conversation>,
     @InjectModel('PhoneNumber') private phoneNumberModel: Model<PhoneNumber>,
     private googleCloudService: GoogleCloudService,
+    private holidayService: HolidayService,
   ) {}
 
   /**
@@ -70,6 +95,14 @@ export class AgentService {
       }
     }
 
+    if (createDto.tools) {
+      await this.validateTools(createDto.tools);
+    }
+
+    if (createDto.afterHours) {
+      await this.validateAfterHours(companyId, createDto.afterHours);
+    }
+
     const agent = await this.agentModel.create({
       ...createDto,
       companyId,
@@ -83,7 +116,7 @@ export class AgentService {
 
     this.logger.log(`Agent created: ${agent._id} - ${agent.name}`);
 
-    return agent;
+    return this.toResponse(agent.toObject());
   }
 
   /**
@@ -102,7 +135,7 @@ export class AgentService {
       .sort({ createdAt: -1 })
       .lean();
 
-    return agents;
+    return agents.map((agent) => this.toResponse(agent));
   }
 
   /**
@@ -118,7 +151,7 @@ export class AgentService {
       throw new NotFoundException('Agent not found');
     }
 
-    return agent;
+    return this.toResponse(agent);
   }
 
   /**
@@ -161,12 +194,90 @@ export class AgentService {
       }
     }
 
-    Object.assign(agent, updateDto);
+    const tools =
+      updateDto.tools && this.keepToolSecrets(agent.tools, updateDto.tools);
+    if (tools) {
+      await this.validateTools(tools);
+    }
+
+    if (updateDto.afterHours) {
+      await this.validateAfterHours(companyId, updateDto.afterHours, agentId);
+    }
+
+    Object.assign(agent, updateDto, tools && { tools });
     await agent.save();
 
     this.logger.log(`Agent updated: ${agentId}`);
 
-    return agent;
+    return this.toResponse(agent.toObject());
+  }
+
+  /**
+   * The after-hours agent must be another agent of the same company
+   */
+  private async validateAfterHours(
+    companyId: Types.ObjectId,
+    afterHours: AfterHoursDto,
+    agentId?: Types.ObjectId,
+  ) {
+    if (afterHours.action !== AfterHoursAction.AGENT || !afterHours.agentId) {
+      return;
+    }
+
+    if (agentId?.equals(afterHours.agentId)) {
+      throw new BadRequestException(
+        'An agent cannot be its own after-hours agent',
+      );
+    }
+
+    const exists = await this.agentModel.exists({
+      _id: afterHours.agentId,
+      companyId,
+    });
+    if (!exists) {
+      throw new BadRequestException('After-hours agent not found');
+    }
+  }
+
+  /**
+   * Custom tool names must be unique and must not shadow built-in functions;
+   * tool URLs must point at public hosts
+   */
+  private async validateTools(tools: AgentToolDto[]) {
+    const names = new Set<string>();
+
+    for (const tool of tools) {
+      if (BUILT_IN_TOOL_NAMES.includes(tool.name)) {
+        throw new BadRequestException(`Tool name "${tool.name}" is reserved`);
+      }
+
+      if (names.has(tool.name)) {
+        throw new BadRequestException(`Duplicate tool name "${tool.name}"`);
+      }
+      names.add(tool.name);
+
+      if (tool.parameters && tool.parameters.type !== 'object') {
+        throw new BadRequestException(
+          `Parameters of tool "${tool.name}" must be a JSON schema of type "object"`,
+        );
+      }
+
+      // The host is fixed on save; only the path and query take arguments
+      const origin = /^https?:\/\/[^/?#]*/.exec(tool.url)?.[0] || '';
+      if (origin.includes('{{')) {
+        throw new BadRequestException(
+          `URL host of tool "${tool.name}" cannot contain placeholders`,
+        );
+      }
+
+      try {
+        await assertPublicUrl(origin);
+      } catch (error) {
+        throw new BadRequestException(
+          `URL of tool "${tool.name}": ${(error as Error).message}`,
+        );
+      }
+    }
   }
 
   /**
@@ -186,10 +297,62 @@ export class AgentService {
 
     return {
       message: `Agent ${isActive ? 'activated' : 'deactivated'} successfully`,
-      agent,
+      agent: this.toResponse(agent.toObject()),
     };
   }
 
+  /**
+   * Agent as returned by the API: tool secrets and header values stay on the server
+   */
+  private toResponse<T extends { tools?: AgentTool[] }>(agent: T) {
+    return {
+      ...agent,
+      tools: (agent.tools || []).map(({ secret, headers, ...tool }) => ({
+        ...tool,
+        headers:
+          headers &&
+          Object.fromEntries(
+            Object.keys(headers).map((name) => [name, HIDDEN_HEADER_VALUE]),
+          ),
+        hasSecret: !!secret,
+      })),
+    };
+  }
+
+  /**
+   * Tools edited after a read come back without secrets and with hidden header
+   * values; keep the stored ones of the tool with the same name. An empty
+   * secret removes it.
+   */
+  private keepToolSecrets(
+    stored: AgentTool[],
+    tools: AgentToolDto[],
+  ): AgentToolDto[] {
+    return tools.map((tool) => {
+      const previous = stored.find(
+        (storedTool) => storedTool.name === tool.name,
+      );
+      const headers =
+        tool.headers &&
+        Object.fromEntries(
+          Object.entries(tool.headers)
+            .map(([name, value]) => [
+              name,
+              value === HIDDEN_HEADER_VALUE ? previous?.headers?.[name] : value,
+            ])
+            .filter(
+              (entry): entry is [string, string] => entry[1] !== undefined,
+            ),
+        );
+
+      return {
+        ...tool,
+        headers,
+        secret: (tool.secret ?? previous?.secret) || undefined,
+      };
+    });
+  }
+
   /**
    * Delete agent
    */
@@ -357,7 +520,7 @@ export class AgentService {
   }
 
   /**
-   * Check if agent is available (working hours)
+   * Check if agent is available (active, within working hours and not on a holiday)
    */
   async isAgentAvailable(agentId: Types.ObjectId, companyId: Types.ObjectId): Promise<boolean> {
     const agent = await this.agentModel.findOne({ _id: agentId, companyId });
@@ -366,37 +529,69 @@ export class AgentService {
       return false;
     }
 
-    // If working hours not set, agent is always available
-    if (!agent.workingHours || !agent.workingHours.enabled) {
-      return true;
-    }
+    return this.isWithinSchedule(agent);
+  }
 
-    const now = new Date();
+  /**
+   * Whether the agent takes calls at the given moment: within its working hours
+   * in its timezone and not on a company holiday.
+   * Agents without working hours are always available, holidays included.
+   */
+  async isWithinSchedule(
+    agent: Pick<Agent, 'companyId' | 'workingHours'>,
+    at: Date = new Date(),
+  ): Promise<boolean> {
     const workingHours = agent.workingHours;
 
-    // Check if today is a working day
-    const dayOfWeek = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    if (!workingHours.workDays.includes(dayOfWeek)) {
+    if (!workingHours?.enabled) {
+      return true;
+    }
+
+    if (!isWithinWorkingHours(workingHours, at)) {
       return false;
     }
 
-    // Check if current time is within working hours
-    const currentTime = now.toLocaleTimeString('en-US', {
-      hour12: false,
-      hour: '2-digit',
-      minute: '2-digit',
-      timeZone: workingHours.timezone
-    });
+    // After midnight in an overnight window the shift, and its holiday, began the day before
+    return !(await this.holidayService.isHolidayDate(
+      agent.companyId,
+      getWorkingDate(workingHours, at),
+    ));
+  }
 
-    const [currentHour, currentMinute] = currentTime.split(':').map(Number);
-    const [startHour, startMinute] = workingHours.start.split(':').map(Number);
-    const [endHour, endMinute] = workingHours.end.split(':').map(Number);
+  /**
+   * Start of the agent's next working day after the given moment, skipping
+   * holidays; null when it has no working hours or none within two weeks
+   */
+  async getNextWorkingTime(
+    agent: Pick<Agent, 'companyId' | 'workingHours'>,
+    after: Date = new Date(),
+  ): Promise<Date | null> {
+    const workingHours = agent.workingHours;
 
-    const currentMinutes = currentHour * 60 + currentMinute;
-    const startMinutes = startHour * 60 + startMinute;
-    const endMinutes = endHour * 60 + endMinute;
+    if (!workingHours?.enabled) {
+      return null;
+    }
+
+    const timeZone = workingHours.timezone;
+    for (let days = 0; days <= 14; days++) {
+      const { date } = formatLocalDateTime(
+        new Date(after.getTime() + days * DAY_MS),
+        timeZone,
+      );
+      const start = localDateTimeToDate(date, workingHours.start, timeZone);
+
+      if (
+        start > after &&
+        workingHours.workDays.includes(
+          getLocalTime(start, timeZone).dayOfWeek,
+        ) &&
+        !(await this.holidayService.isHolidayDate(agent.companyId, date))
+      ) {
+        return start;
+      }
+    }
 
-    return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
+    return null;
   }
 
   /**
@@ -417,7 +612,7 @@ export class AgentService {
       }
     }
 
-    return availableAgents;
+    return availableAgents.map((agent) => this.toResponse(agent));
   }
 
   /**
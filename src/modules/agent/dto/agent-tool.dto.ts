@@ -0,0 +1,51 @@
+import {
+  IsNotEmpty,
+  IsString,
+  IsOptional,
+  IsObject,
+  IsEnum,
+  IsInt,
+  Min,
+  Max,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ToolHttpMethod } from '../../../schemas/agent.schema';
+
+export class AgentToolDto {
+  // Gemini function names: letters, digits and underscores
+  @Matches(/^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/, {
+    message:
+      'name must start with a letter or underscore and contain only letters, digits and underscores',
+  })
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  description: string;
+
+  @IsObject()
+  @IsOptional()
+  parameters?: Record<string, any>; // JSON schema of the arguments
+
+  @IsEnum(ToolHttpMethod)
+  method: ToolHttpMethod;
+
+  @Matches(/^https?:\/\/\S+$/, { message: 'url must be an http(s) URL' })
+  url: string; // may contain {{argument}} placeholders
+
+  @IsObject()
+  @IsOptional()
+  headers?: Record<string, string>;
+
+  @IsString()
+  @IsOptional()
+  secret?: string;
+
+  @IsInt()
+  @Min(500)
+  @Max(30000)
+  @IsOptional()
+  timeoutMs?: number;
+}
@@ -10,9 +10,18 @@ import {
   Max,
   IsBoolean,
   IsArray,
+  ArrayMaxSize,
+  IsMongoId,
+  MaxLength,
+  ValidateIf,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { AgentLanguage, GeminiLiveVoice } from '../../../schemas/agent.schema';
+import {
+  AfterHoursAction,
+  AgentLanguage,
+  GeminiLiveVoice,
+} from '../../../schemas/agent.schema';
+import { AgentToolDto } from './agent-tool.dto';
 
 export class VoiceSettingsDto {
   @IsEnum(GeminiLiveVoice)
@@ -76,6 +85,20 @@ export class WorkingHoursDto {
   workDays: number[];
 }
 
+export class AfterHoursDto {
+  @IsEnum(AfterHoursAction)
+  action: AfterHoursAction;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  message?: string;
+
+  @ValidateIf((dto: AfterHoursDto) => dto.action === AfterHoursAction.AGENT)
+  @IsMongoId()
+  agentId?: string;
+}
+
 export class CreateAgentDto {
   @IsString()
   @IsNotEmpty()
@@ -101,6 +124,12 @@ export class CreateAgentDto {
   @IsOptional()
   workingHours?: WorkingHoursDto;
 
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AfterHoursDto)
+  @IsOptional()
+  afterHours?: AfterHoursDto;
+
   @IsString()
   @IsOptional()
   inboundGreetingMessage?: string;
@@ -125,4 +154,11 @@ export class CreateAgentDto {
   @IsString()
   @IsOptional()
   knowledgeBaseId?: string;
+
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => AgentToolDto)
+  @IsOptional()
+  tools?: AgentToolDto[];
 }
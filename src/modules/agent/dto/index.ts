@@ -2,3 +2,4 @@ export * from './create-agent.dto';
 export * from './update-agent.dto';
 export * from './preview-voice.dto';
 export * from './test-agent.dto';
+export * from './agent-tool.dto';
@@ -5,9 +5,16 @@ import {
   ValidateNested,
   IsBoolean,
   IsArray,
+  ArrayMaxSize,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { VoiceSettingsDto, AISettingsDto, WorkingHoursDto } from './create-agent.dto';
+import {
+  VoiceSettingsDto,
+  AISettingsDto,
+  WorkingHoursDto,
+  AfterHoursDto,
+} from './create-agent.dto';
+import { AgentToolDto } from './agent-tool.dto';
 
 export class UpdateAgentDto {
   @IsString()
@@ -36,6 +43,12 @@ export class UpdateAgentDto {
   @IsOptional()
   workingHours?: WorkingHoursDto;
 
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AfterHoursDto)
+  @IsOptional()
+  afterHours?: AfterHoursDto;
+
   @IsString()
   @IsOptional()
   inboundGreetingMessage?: string;
@@ -57,6 +70,13 @@ export class UpdateAgentDto {
   @IsOptional()
   phoneNumbers?: string[];
 
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => AgentToolDto)
+  @IsOptional()
+  tools?: AgentToolDto[];
+
   @IsBoolean()
   @IsOptional()
   isActive?: boolean;
@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { AppointmentService } from './appointment.service';
+import {
+  AppointmentFilterDto,
+  CancelAppointmentDto,
+  CreateAppointmentDto,
+  RescheduleAppointmentDto,
+  TimeRangeDto,
+  UpdateAppointmentSettingsDto,
+} from './dto/appointment.dto';
+import { AppointmentSource } from '../../schemas/appointment.schema';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import type { AuthenticatedRequest } from '../../common/interfaces/authenticated-request.interface';
+
+@Controller('appointments')
+@UseGuards(JwtAuthGuard)
+export class AppointmentController {
+  constructor(private readonly appointmentService: AppointmentService) {}
+
+  /**
+   * List appointments, optionally by time range, status or lead
+   */
+  @Get()
+  async findAll(
+    @Request() req: AuthenticatedRequest,
+    @Query() filter: AppointmentFilterDto,
+  ) {
+    const appointments = await this.appointmentService.findAll(
+      req.user.companyId,
+      filter,
+    );
+
+    return {
+      success: true,
+      data: appointments,
+      count: appointments.length,
+    };
+  }
+
+  /**
+   * Free slots in a time range (the next week by default)
+   */
+  @Get('slots')
+  async findSlots(
+    @Request() req: AuthenticatedRequest,
+    @Query() range: TimeRangeDto,
+  ) {
+    const slots = await this.appointmentService.findAvailableSlots(
+      req.user.companyId,
+      {
+        from: range.from ? new Date(range.from) : undefined,
+        to: range.to ? new Date(range.to) : undefined,
+      },
+    );
+
+    return {
+      success: true,
+      data: slots,
+      count: slots.length,
+    };
+  }
+
+  @Get('settings')
+  async getSettings(@Request() req: AuthenticatedRequest) {
+    const settings = await this.appointmentService.getSettings(
+      req.user.companyId,
+    );
+
+    return {
+      success: true,
+      data: settings,
+    };
+  }
+
+  /**
+   * Change bookable slots: weekly windows, slot length and capacity
+   */
+  @Put('settings')
+  async updateSettings(
+    @Request() req: AuthenticatedRequest,
+    @Body() updateDto: UpdateAppointmentSettingsDto,
+  ) {
+    const settings = await this.appointmentService.updateSettings(
+      req.user.companyId,
+      updateDto,
+    );
+
+    return {
+      success: true,
+      data: settings,
+      message: 'Appointment settings updated successfully',
+    };
+  }
+
+  /**
+   * Book an appointment; a taken or unbookable time is answered with 409
+   * and the nearest free slots
+   */
+  @Post()
+  async create(
+    @Request() req: AuthenticatedRequest,
+    @Body() createDto: CreateAppointmentDto,
+  ) {
+    const appointment = await this.appointmentService.book(
+      req.user.companyId,
+      new Date(createDto.startsAt),
+      {
+        source: AppointmentSource.MANUAL,
+        leadId: createDto.leadId
+          ? new Types.ObjectId(createDto.leadId)
+          : undefined,
+        purpose: createDto.purpose,
+        customerName: createDto.customerName,
+        phoneNumber: createDto.phoneNumber,
+        createdBy: new Types.ObjectId(req.user.userId),
+      },
+    );
+
+    return {
+      success: true,
+      data: appointment,
+      message: 'Appointment booked successfully',
+    };
+  }
+
+  @Get(':id')
+  async findOne(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const appointment = await this.appointmentService.findOne(
+      req.user.companyId,
+      id,
+    );
+
+    return {
+      success: true,
+      data: appointment,
+    };
+  }
+
+  @Patch(':id/reschedule')
+  async reschedule(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() rescheduleDto: RescheduleAppointmentDto,
+  ) {
+    const appointment = await this.appointmentService.reschedule(
+      req.user.companyId,
+      id,
+      new Date(rescheduleDto.startsAt),
+      req.user.userId,
+    );
+
+    return {
+      success: true,
+      data: appointment,
+      message: 'Appointment rescheduled successfully',
+    };
+  }
+
+  @Patch(':id/cancel')
+  async cancel(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() cancelDto: CancelAppointmentDto,
+  ) {
+    const appointment = await this.appointmentService.cancel(
+      req.user.companyId,
+      id,
+      cancelDto.reason,
+    );
+
+    return {
+      success: true,
+      data: appointment,
+      message: 'Appointment cancelled successfully',
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AppointmentService } from './appointment.service';
+import { AppointmentController } from './appointment.controller';
+import { LeadModule } from '../lead/lead.module';
+import {
+  Appointment,
+  AppointmentSchema,
+  AppointmentSettings,
+  AppointmentSettingsSchema,
+} from '../../schemas/appointment.schema';
+import { Company, CompanySchema } from '../../schemas/company.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Appointment.name, schema: AppointmentSchema },
+      { name: AppointmentSettings.name, schema: AppointmentSettingsSchema },
+      { name: Company.name, schema: CompanySchema },
+    ]),
+    LeadModule,
+  ],
+  controllers: [AppointmentController],
+  providers: [AppointmentService],
+  exports: [AppointmentService],
+})
+export class AppointmentModule {}
@@ -0,0 +1,265 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import {
+  AppointmentService,
+  AppointmentUnavailableException,
+} from './appointment.service';
+import { LeadService } from '../lead/lead.service';
+import {
+  Appointment,
+  AppointmentSettings,
+  AppointmentSource,
+} from '../../schemas/appointment.schema';
+import { Company } from '../../schemas/company.schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('AppointmentService', () => {
+  let service: AppointmentService;
+  let settings: AppointmentSettings;
+  let booked: { startsAt: Date; endsAt: Date }[];
+  let appointmentModel: {
+    find: jest.Mock;
+    countDocuments: jest.Mock;
+    create: jest.Mock;
+    deleteOne: jest.Mock;
+  };
+
+  const companyId = new Types.ObjectId();
+  const source = { source: AppointmentSource.MANUAL };
+  const booking = (iso: string) => ({
+    startsAt: new Date(iso),
+    endsAt: new Date(new Date(iso).getTime() + HOUR_MS),
+  });
+
+  beforeEach(async () => {
+    // Monday, March 4 2024, 08:00 UTC
+    jest.useFakeTimers({ now: new Date('2024-03-04T08:00:00Z') });
+
+    settings = {
+      companyId,
+      timezone: 'UTC',
+      slotDurationMinutes: 60,
+      capacity: 1,
+      minNoticeMinutes: 0,
+      bookingHorizonDays: 30,
+      windows: [1, 2, 3, 4, 5].map((dayOfWeek) => ({
+        dayOfWeek,
+        start: '09:00',
+        end: '12:00',
+      })),
+    };
+    booked = [];
+    appointmentModel = {
+      find: jest.fn(() => ({
+        select: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockResolvedValue(booked),
+      })),
+      countDocuments: jest.fn().mockResolvedValue(0),
+      create: jest.fn((data: Record<string, any>) =>
+        Promise.resolve({ _id: new Types.ObjectId(), ...data }),
+      ),
+      deleteOne: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppointmentService,
+        {
+          provide: getModelToken(Appointment.name),
+          useValue: appointmentModel,
+        },
+        {
+          provide: getModelToken(AppointmentSettings.name),
+          useValue: {
+            findOne: jest.fn(() => ({
+              lean: jest.fn().mockResolvedValue(settings),
+            })),
+          },
+        },
+        { provide: getModelToken(Company.name), useValue: {} },
+        {
+          provide: LeadService,
+          useValue: {
+            findByPhone: jest.fn().mockResolvedValue(null),
+            scheduleFollowUp: jest.fn().mockResolvedValue({}),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AppointmentService>(AppointmentService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('findAvailableSlots', () => {
+    it('should keep the local time of slots across a DST change', async () => {
+      settings.timezone = 'Europe/Berlin';
+      settings.windows = [1, 5].map((dayOfWeek) => ({
+        dayOfWeek,
+        start: '09:00',
+        end: '11:00',
+      }));
+
+      const slots = await service.findAvailableSlots(companyId, {
+        from: new Date('2024-03-29T00:00:00Z'),
+        to: new Date('2024-04-02T00:00:00Z'),
+      });
+
+      // 09:00 is UTC+1 on Friday and UTC+2 after the switch on Sunday
+      expect(slots.map((slot) => slot.toISOString())).toEqual([
+        '2024-03-29T08:00:00.000Z',
+        '2024-03-29T09:00:00.000Z',
+        '2024-04-01T07:00:00.000Z',
+        '2024-04-01T08:00:00.000Z',
+      ]);
+    });
+
+    it('should not duplicate slots in the hour skipped by DST', async () => {
+      settings.timezone = 'Europe/Berlin';
+      settings.windows = [{ dayOfWeek: 0, start: '01:00', end: '04:00' }];
+
+      const slots = await service.findAvailableSlots(companyId, {
+        from: new Date('2024-03-30T12:00:00Z'),
+        to: new Date('2024-03-31T12:00:00Z'),
+      });
+
+      // 02:00 does not exist on March 31 and falls onto 03:00
+      expect(slots.map((slot) => slot.toISOString())).toEqual([
+        '2024-03-31T00:00:00.000Z',
+        '2024-03-31T01:00:00.000Z',
+      ]);
+    });
+
+    it('should clip the range to the minimum notice and the horizon', async () => {
+      settings.minNoticeMinutes = 90;
+      settings.bookingHorizonDays = 1;
+
+      const slots = await service.findAvailableSlots(companyId);
+
+      // Now is 08:00: 09:00 is too soon and Tuesday is past the horizon
+      expect(slots.map((slot) => slot.toISOString())).toEqual([
+        '2024-03-04T10:00:00.000Z',
+        '2024-03-04T11:00:00.000Z',
+      ]);
+    });
+
+    it('should leave out slots booked up to capacity', async () => {
+      booked.push(booking('2024-03-04T10:00:00Z'));
+      const range = {
+        from: new Date('2024-03-04T00:00:00Z'),
+        to: new Date('2024-03-05T00:00:00Z'),
+      };
+
+      expect(
+        (await service.findAvailableSlots(companyId, range)).map((s) =>
+          s.getUTCHours(),
+        ),
+      ).toEqual([9, 11]);
+
+      settings.capacity = 2;
+      expect(
+        (await service.findAvailableSlots(companyId, range)).map((s) =>
+          s.getUTCHours(),
+        ),
+      ).toEqual([9, 10, 11]);
+    });
+  });
+
+  describe('book', () => {
+    it('should offer the nearest free slots in chronological order', async () => {
+      booked.push(booking('2024-03-04T11:00:00Z'));
+      appointmentModel.countDocuments.mockResolvedValue(1);
+
+      const error = await service
+        .book(companyId, new Date('2024-03-04T11:00:00Z'), source)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AppointmentUnavailableException);
+      expect((error as AppointmentUnavailableException).reason).toBe(
+        'The slot is already taken',
+      );
+      // 10:00 and 09:00 are nearer than Tuesday 09:00, but listed by time
+      expect(
+        (error as AppointmentUnavailableException).alternatives.map((slot) =>
+          slot.toISOString(),
+        ),
+      ).toEqual([
+        '2024-03-04T09:00:00.000Z',
+        '2024-03-04T10:00:00.000Z',
+        '2024-03-05T09:00:00.000Z',
+      ]);
+      expect(appointmentModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse times outside the slots, the notice or the horizon', async () => {
+      const reasonFor = (iso: string) =>
+        service
+          .book(companyId, new Date(iso), source)
+          .catch((e: AppointmentUnavailableException) => e.reason);
+
+      expect(await reasonFor('2024-03-04T09:30:00Z')).toBe(
+        'The time is outside the bookable slots',
+      );
+      expect(await reasonFor('2024-03-04T07:00:00Z')).toBe(
+        'The time is too soon or in the past',
+      );
+      expect(await reasonFor('2024-04-05T09:00:00Z')).toBe(
+        'The time is too far ahead',
+      );
+    });
+
+    it('should roll back a booking that overbooked the slot', async () => {
+      // Another booking of the last place was saved between check and create
+      appointmentModel.countDocuments
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(2);
+
+      await expect(
+        service.book(companyId, new Date('2024-03-04T10:00:00Z'), source),
+      ).rejects.toThrow(AppointmentUnavailableException);
+
+      const [created] = appointmentModel.create.mock.results;
+      expect(appointmentModel.deleteOne).toHaveBeenCalledWith({
+        _id: ((await created.value) as { _id: Types.ObjectId })._id,
+      });
+    });
+  });
+
+  describe('bookFromCall', () => {
+    it('should return alternatives in the company local time', async () => {
+      settings.timezone = 'Europe/Moscow';
+
+      const result = await service.bookFromCall(companyId, {
+        date: '2024-03-04',
+        time: '10:00',
+        phoneNumber: '+79161234567',
+      });
+
+      // It is 11:00 in Moscow already, so 10:00 is in the past
+      expect(result).toEqual({
+        success: false,
+        reason: 'The time is too soon or in the past',
+        alternatives: [
+          '2024-03-04 11:00',
+          '2024-03-05 09:00',
+          '2024-03-05 10:00',
+        ],
+      });
+    });
+
+    it('should reject malformed dates', async () => {
+      expect(
+        await service.bookFromCall(companyId, {
+          date: '04.03.2024',
+          time: '10:00',
+          phoneNumber: '+79161234567',
+        }),
+      ).toEqual(expect.objectContaining({ success: false }));
+    });
+  });
+});
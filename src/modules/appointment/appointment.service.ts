@@ -0,0 +1,692 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Appointment,
+  AppointmentDocument,
+  AppointmentSettings,
+  AppointmentSettingsDocument,
+  AppointmentSource,
+  AppointmentStatus,
+  BookingWindow,
+} from '../../schemas/appointment.schema';
+import { Company, CompanyDocument } from '../../schemas/company.schema';
+import { ChangedBy } from '../../schemas/lead-history.schema';
+import { LeadService } from '../lead/lead.service';
+import {
+  formatLocalDateTime,
+  localDateTimeToDate,
+  parseTimeOfDay,
+} from '../../common/utils/working-hours.util';
+import {
+  AppointmentFilterDto,
+  UpdateAppointmentSettingsDto,
+} from './dto/appointment.dto';
+
+// Monday to Friday, 09:00-18:00
+const DEFAULT_WINDOWS: BookingWindow[] = [1, 2, 3, 4, 5].map((dayOfWeek) => ({
+  dayOfWeek,
+  start: '09:00',
+  end: '18:00',
+}));
+
+const MAX_ALTERNATIVES = 3;
+// How far from the requested time alternatives are looked for
+const ALTERNATIVES_SEARCH_DAYS = 7;
+const DEFAULT_SLOTS_RANGE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Thrown when the requested time can't be booked; carries the nearest free
+ * slots so the caller can offer them instead
+ */
+export class AppointmentUnavailableException extends ConflictException {
+  constructor(
+    readonly reason: string,
+    readonly alternatives: Date[],
+  ) {
+    super({
+      statusCode: HttpStatus.CONFLICT,
+      error: 'Conflict',
+      message: reason,
+      alternatives,
+    });
+  }
+}
+
+export interface AppointmentBookingDetails {
+  source: AppointmentSource;
+  leadId?: Types.ObjectId;
+  conversationId?: Types.ObjectId;
+  agentId?: Types.ObjectId;
+  purpose?: string;
+  customerName?: string;
+  phoneNumber?: string;
+  createdBy?: Types.ObjectId;
+}
+
+/**
+ * Booking request of the scheduleAppointment tool, in the company's local time
+ */
+export interface CallBookingRequest {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  purpose?: string;
+  phoneNumber: string;
+  agentId?: Types.ObjectId;
+  conversationId?: Types.ObjectId;
+  leadId?: Types.ObjectId;
+}
+
+/**
+ * Appointments booked with a company: bookable slots, conflict checks and
+ * the follow-up of the lead the appointment is for
+ */
+@Injectable()
+export class AppointmentService {
+  private readonly logger = new Logger(AppointmentService.name);
+
+  constructor(
+    @InjectModel(Appointment.name)
+    private appointmentModel: Model<AppointmentDocument>,
+    @InjectModel(AppointmentSettings.name)
+    private settingsModel: Model<AppointmentSettingsDocument>,
+    @InjectModel(Company.name) private companyModel: Model<CompanyDocument>,
+    private leadService: LeadService,
+  ) {}
+
+  /**
+   * Booking settings of a company; companies that never saved any get the
+   * defaults in the company timezone
+   */
+  async getSettings(
+    companyId: string | Types.ObjectId,
+  ): Promise<AppointmentSettings> {
+    const id = new Types.ObjectId(companyId);
+    const settings = await this.settingsModel
+      .findOne({ companyId: id })
+      .lean<AppointmentSettings>();
+
+    if (settings) {
+      return settings;
+    }
+
+    const company = await this.companyModel
+      .findById(id)
+      .select('settings')
+      .lean();
+
+    return new this.settingsModel({
+      companyId: id,
+      timezone: company?.settings?.timezone || 'UTC',
+      windows: DEFAULT_WINDOWS,
+    }).toObject();
+  }
+
+  async updateSettings(
+    companyId: string | Types.ObjectId,
+    updateDto: UpdateAppointmentSettingsDto,
+  ): Promise<AppointmentSettings> {
+    for (const window of updateDto.windows || []) {
+      if (parseTimeOfDay(window.start) >= parseTimeOfDay(window.end)) {
+        throw new BadRequestException(
+          'Booking window must end after it starts',
+        );
+      }
+    }
+
+    const current = await this.getSettings(companyId);
+
+    return this.settingsModel
+      .findOneAndUpdate(
+        { companyId: new Types.ObjectId(companyId) },
+        {
+          $set: {
+            timezone: updateDto.timezone ?? current.timezone,
+            slotDurationMinutes:
+              updateDto.slotDurationMinutes ?? current.slotDurationMinutes,
+            capacity: updateDto.capacity ?? current.capacity,
+            minNoticeMinutes:
+              updateDto.minNoticeMinutes ?? current.minNoticeMinutes,
+            bookingHorizonDays:
+              updateDto.bookingHorizonDays ?? current.bookingHorizonDays,
+            windows: updateDto.windows ?? current.windows,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .lean<AppointmentSettings>();
+  }
+
+  /**
+   * Free slots in a range, earliest first. The range defaults to the next
+   * week and is clipped to the minimum notice and the booking horizon.
+   */
+  async findAvailableSlots(
+    companyId: string | Types.ObjectId,
+    range: { from?: Date; to?: Date } = {},
+  ): Promise<Date[]> {
+    const settings = await this.getSettings(companyId);
+    const earliest = this.earliestStart(settings);
+    const from = range.from && range.from > earliest ? range.from : earliest;
+    const to = new Date(
+      Math.min(
+        (
+          range.to ||
+          new Date(from.getTime() + DEFAULT_SLOTS_RANGE_DAYS * DAY_MS)
+        ).getTime(),
+        this.latestStart(settings).getTime(),
+      ),
+    );
+
+    return this.findFreeSlots(settings, from, to);
+  }
+
+  /**
+   * Book a slot. Throws AppointmentUnavailableException with alternatives
+   * when the time is not a free slot.
+   */
+  async book(
+    companyId: string | Types.ObjectId,
+    startsAt: Date,
+    details: AppointmentBookingDetails,
+  ): Promise<AppointmentDocument> {
+    const settings = await this.getSettings(companyId);
+
+    if (details.leadId) {
+      const lead = await this.leadService.getLeadById(
+        details.leadId,
+        settings.companyId,
+      );
+      details = {
+        ...details,
+        customerName:
+          details.customerName ||
+          [lead.firstName, lead.lastName].filter(Boolean).join(' '),
+        phoneNumber: details.phoneNumber || lead.phone,
+      };
+    }
+
+    return this.createBooking(settings, startsAt, details);
+  }
+
+  /**
+   * Book the time asked for by the scheduleAppointment tool. The result goes
+   * back to the model: the booking, or why it failed and the free slots
+   * nearest to the requested time.
+   */
+  async bookFromCall(
+    companyId: string | Types.ObjectId,
+    request: CallBookingRequest,
+  ): Promise<Record<string, any>> {
+    if (!LOCAL_DATE.test(request.date) || !TIME_OF_DAY.test(request.time)) {
+      return {
+        success: false,
+        error: 'Expected the date as YYYY-MM-DD and the time as HH:mm',
+      };
+    }
+
+    const settings = await this.getSettings(companyId);
+    const startsAt = localDateTimeToDate(
+      request.date,
+      request.time,
+      settings.timezone,
+    );
+
+    // Inbound calls are not linked to a lead; look it up by the caller's number
+    let leadId = request.leadId;
+    let customerName: string | undefined;
+    if (!leadId) {
+      const lead = await this.leadService.findByPhone(
+        settings.companyId,
+        request.phoneNumber,
+      );
+      leadId = lead?._id as Types.ObjectId | undefined;
+      customerName = lead
+        ? [lead.firstName, lead.lastName].filter(Boolean).join(' ')
+        : undefined;
+    }
+
+    try {
+      const appointment = await this.createBooking(settings, startsAt, {
+        source: AppointmentSource.AI_AGENT,
+        leadId,
+        conversationId: request.conversationId,
+        agentId: request.agentId,
+        purpose: request.purpose,
+        customerName,
+        phoneNumber: request.phoneNumber,
+      });
+
+      return {
+        success: true,
+        appointmentId: (appointment._id as Types.ObjectId).toString(),
+        date: request.date,
+        time: request.time,
+        durationMinutes: settings.slotDurationMinutes,
+      };
+    } catch (error) {
+      if (!(error instanceof AppointmentUnavailableException)) {
+        throw error;
+      }
+
+      return {
+        success: false,
+        reason: error.reason,
+        alternatives: error.alternatives.map((slot) => {
+          const local = formatLocalDateTime(slot, settings.timezone);
+          return `${local.date} ${local.time}`;
+        }),
+      };
+    }
+  }
+
+  async findAll(
+    companyId: string | Types.ObjectId,
+    filter: AppointmentFilterDto = {},
+  ): Promise<AppointmentDocument[]> {
+    const query: Record<string, any> = {
+      companyId: new Types.ObjectId(companyId),
+    };
+
+    if (filter.status) {
+      query.status = filter.status;
+    }
+
+    if (filter.leadId) {
+      query.leadId = new Types.ObjectId(filter.leadId);
+    }
+
+    if (filter.from || filter.to) {
+      query.startsAt = {
+        ...(filter.from && { $gte: new Date(filter.from) }),
+        ...(filter.to && { $lt: new Date(filter.to) }),
+      };
+    }
+
+    return this.appointmentModel
+      .find(query)
+      .populate('leadId', 'firstName lastName phone')
+      .sort({ startsAt: 1 })
+      .exec();
+  }
+
+  async findOne(
+    companyId: string | Types.ObjectId,
+    id: string,
+  ): Promise<AppointmentDocument> {
+    const appointment = await this.appointmentModel.findOne({
+      _id: new Types.ObjectId(id),
+      companyId: new Types.ObjectId(companyId),
+    });
+
+    if (!appointment) {
+      throw new NotFoundException('Appointment not found');
+    }
+
+    return appointment;
+  }
+
+  /**
+   * Move a scheduled appointment to another free slot
+   */
+  async reschedule(
+    companyId: string | Types.ObjectId,
+    id: string,
+    startsAt: Date,
+    userId?: string,
+  ): Promise<AppointmentDocument> {
+    const appointment = await this.findScheduled(companyId, id);
+    const settings = await this.getSettings(companyId);
+    const previous = {
+      startsAt: appointment.startsAt,
+      endsAt: appointment.endsAt,
+    };
+
+    await this.assertBookable(
+      settings,
+      startsAt,
+      appointment._id as Types.ObjectId,
+    );
+
+    appointment.startsAt = startsAt;
+    appointment.endsAt = this.slotEnd(settings, startsAt);
+    appointment.rescheduledFrom = previous.startsAt;
+    await appointment.save();
+
+    await this.assertNotOverbooked(settings, appointment, async () => {
+      appointment.startsAt = previous.startsAt;
+      appointment.endsAt = previous.endsAt;
+      await appointment.save();
+    });
+
+    if (appointment.leadId) {
+      await this.leadService.scheduleFollowUp(
+        appointment.leadId,
+        appointment.companyId,
+        startsAt,
+        {
+          changedBy: userId ? ChangedBy.USER : ChangedBy.SYSTEM,
+          userId: userId ? new Types.ObjectId(userId) : undefined,
+          description: `Appointment rescheduled to ${this.describe(settings, startsAt)}`,
+          metadata: { appointmentId: appointment._id },
+        },
+      );
+    }
+
+    this.logger.log(
+      `Appointment ${id} rescheduled to ${startsAt.toISOString()}`,
+    );
+
+    return appointment;
+  }
+
+  async cancel(
+    companyId: string | Types.ObjectId,
+    id: string,
+    reason?: string,
+  ): Promise<AppointmentDocument> {
+    const appointment = await this.findScheduled(companyId, id);
+
+    appointment.status = AppointmentStatus.CANCELLED;
+    appointment.cancelledAt = new Date();
+    appointment.cancelReason = reason;
+    await appointment.save();
+
+    this.logger.log(`Appointment ${id} cancelled`);
+
+    return appointment;
+  }
+
+  private async createBooking(
+    settings: AppointmentSettings,
+    startsAt: Date,
+    details: AppointmentBookingDetails,
+  ): Promise<AppointmentDocument> {
+    await this.assertBookable(settings, startsAt);
+
+    const appointment = await this.appointmentModel.create({
+      ...details,
+      companyId: settings.companyId,
+      startsAt,
+      endsAt: this.slotEnd(settings, startsAt),
+      status: AppointmentStatus.SCHEDULED,
+    });
+
+    await this.assertNotOverbooked(settings, appointment, async () => {
+      await this.appointmentModel.deleteOne({ _id: appointment._id });
+    });
+
+    if (details.leadId) {
+      await this.leadService.scheduleFollowUp(
+        details.leadId,
+        settings.companyId,
+        startsAt,
+        {
+          changedBy:
+            details.source === AppointmentSource.AI_AGENT
+              ? ChangedBy.AI
+              : ChangedBy.USER,
+          userId: details.createdBy,
+          conversationId: details.conversationId,
+          description: `Appointment booked for ${this.describe(settings, startsAt)}`,
+          metadata: { appointmentId: appointment._id },
+        },
+      );
+    }
+
+    this.logger.log(
+      `Appointment ${(appointment._id as Types.ObjectId).toString()} booked for ${startsAt.toISOString()}`,
+    );
+
+    return appointment;
+  }
+
+  /**
+   * Reject times that are not a free slot within the notice and the horizon
+   */
+  private async assertBookable(
+    settings: AppointmentSettings,
+    startsAt: Date,
+    excludeId?: Types.ObjectId,
+  ): Promise<void> {
+    let reason: string | undefined;
+
+    if (startsAt < this.earliestStart(settings)) {
+      reason = 'The time is too soon or in the past';
+    } else if (startsAt > this.latestStart(settings)) {
+      reason = 'The time is too far ahead';
+    } else if (!this.isSlotStart(settings, startsAt)) {
+      reason = 'The time is outside the bookable slots';
+    } else if (
+      (await this.countOverlapping(settings, startsAt, excludeId)) >=
+      settings.capacity
+    ) {
+      reason = 'The slot is already taken';
+    }
+
+    if (reason) {
+      throw new AppointmentUnavailableException(
+        reason,
+        await this.suggestAlternatives(settings, startsAt, excludeId),
+      );
+    }
+  }
+
+  /**
+   * Two bookings of the last place in a slot may pass the check at the same
+   * time; the one that finds the slot overbooked after saving rolls back
+   */
+  private async assertNotOverbooked(
+    settings: AppointmentSettings,
+    appointment: AppointmentDocument,
+    rollback: () => Promise<void>,
+  ): Promise<void> {
+    const count = await this.countOverlapping(settings, appointment.startsAt);
+
+    if (count <= settings.capacity) {
+      return;
+    }
+
+    await rollback();
+
+    throw new AppointmentUnavailableException(
+      'The slot is already taken',
+      await this.suggestAlternatives(
+        settings,
+        appointment.startsAt,
+        appointment._id as Types.ObjectId,
+      ),
+    );
+  }
+
+  /**
+   * Free slots nearest to the requested time, in chronological order
+   */
+  private async suggestAlternatives(
+    settings: AppointmentSettings,
+    requested: Date,
+    excludeId?: Types.ObjectId,
+  ): Promise<Date[]> {
+    const earliest = this.earliestStart(settings);
+    const searchFrom = new Date(
+      Math.max(
+        requested.getTime() - ALTERNATIVES_SEARCH_DAYS * DAY_MS,
+        earliest.getTime(),
+      ),
+    );
+    const searchTo = new Date(
+      Math.min(
+        Math.max(requested.getTime(), earliest.getTime()) +
+          ALTERNATIVES_SEARCH_DAYS * DAY_MS,
+        this.latestStart(settings).getTime(),
+      ),
+    );
+
+    const slots = await this.findFreeSlots(
+      settings,
+      searchFrom,
+      searchTo,
+      excludeId,
+    );
+    const distance = (slot: Date) =>
+      Math.abs(slot.getTime() - requested.getTime());
+
+    return slots
+      .filter((slot) => slot.getTime() !== requested.getTime())
+      .sort((a, b) => distance(a) - distance(b))
+      .slice(0, MAX_ALTERNATIVES)
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  private async findFreeSlots(
+    settings: AppointmentSettings,
+    from: Date,
+    to: Date,
+    excludeId?: Types.ObjectId,
+  ): Promise<Date[]> {
+    if (from >= to) {
+      return [];
+    }
+
+    const booked = await this.appointmentModel
+      .find({
+        companyId: settings.companyId,
+        status: AppointmentStatus.SCHEDULED,
+        startsAt: { $lt: this.slotEnd(settings, to) },
+        endsAt: { $gt: from },
+        ...(excludeId && { _id: { $ne: excludeId } }),
+      })
+      .select('startsAt endsAt')
+      .lean();
+
+    return this.generateSlots(settings, from, to).filter((slot) => {
+      const end = this.slotEnd(settings, slot);
+      const taken = booked.filter(
+        (appointment) =>
+          appointment.startsAt < end && appointment.endsAt > slot,
+      ).length;
+
+      return taken < settings.capacity;
+    });
+  }
+
+  /**
+   * Starts of the slots of the booking windows within [from, to)
+   */
+  private generateSlots(
+    settings: AppointmentSettings,
+    from: Date,
+    to: Date,
+  ): Date[] {
+    const slots = new Set<number>();
+    const [year, month, day] = formatLocalDateTime(from, settings.timezone)
+      .date.split('-')
+      .map(Number);
+
+    for (let offset = 0; ; offset++) {
+      const calendarDay = new Date(Date.UTC(year, month - 1, day + offset));
+      const localDate = calendarDay.toISOString().slice(0, 10);
+
+      if (localDateTimeToDate(localDate, '00:00', settings.timezone) >= to) {
+        break;
+      }
+
+      const windows = settings.windows.filter(
+        (window) => window.dayOfWeek === calendarDay.getUTCDay(),
+      );
+
+      for (const window of windows) {
+        const end = parseTimeOfDay(window.end);
+
+        for (
+          let minutes = parseTimeOfDay(window.start);
+          minutes + settings.slotDurationMinutes <= end;
+          minutes += settings.slotDurationMinutes
+        ) {
+          const slot = localDateTimeToDate(
+            localDate,
+            this.formatTimeOfDay(minutes),
+            settings.timezone,
+          );
+
+          if (slot >= from && slot < to) {
+            slots.add(slot.getTime());
+          }
+        }
+      }
+    }
+
+    return [...slots].sort((a, b) => a - b).map((time) => new Date(time));
+  }
+
+  private isSlotStart(settings: AppointmentSettings, startsAt: Date): boolean {
+    return (
+      this.generateSlots(settings, startsAt, new Date(startsAt.getTime() + 1))
+        .length > 0
+    );
+  }
+
+  private countOverlapping(
+    settings: AppointmentSettings,
+    startsAt: Date,
+    excludeId?: Types.ObjectId,
+  ): Promise<number> {
+    return this.appointmentModel.countDocuments({
+      companyId: settings.companyId,
+      status: AppointmentStatus.SCHEDULED,
+      startsAt: { $lt: this.slotEnd(settings, startsAt) },
+      endsAt: { $gt: startsAt },
+      ...(excludeId && { _id: { $ne: excludeId } }),
+    });
+  }
+
+  private async findScheduled(
+    companyId: string | Types.ObjectId,
+    id: string,
+  ): Promise<AppointmentDocument> {
+    const appointment = await this.findOne(companyId, id);
+
+    if (appointment.status !== AppointmentStatus.SCHEDULED) {
+      throw new BadRequestException(
+        `Appointment is ${appointment.status} and can't be changed`,
+      );
+    }
+
+    return appointment;
+  }
+
+  private earliestStart(settings: AppointmentSettings): Date {
+    return new Date(Date.now() + settings.minNoticeMinutes * 60 * 1000);
+  }
+
+  private latestStart(settings: AppointmentSettings): Date {
+    return new Date(Date.now() + settings.bookingHorizonDays * DAY_MS);
+  }
+
+  private slotEnd(settings: AppointmentSettings, startsAt: Date): Date {
+    return new Date(
+      startsAt.getTime() + settings.slotDurationMinutes * 60 * 1000,
+    );
+  }
+
+  private describe(settings: AppointmentSettings, date: Date): string {
+    const local = formatLocalDateTime(date, settings.timezone);
+    return `${local.date} ${local.time} (${settings.timezone})`;
+  }
+
+  private formatTimeOfDay(minutes: number): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+  }
+}
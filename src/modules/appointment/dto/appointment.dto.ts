@@ -0,0 +1,125 @@
+import {
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { AppointmentStatus } from '../../../schemas/appointment.schema';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateAppointmentDto {
+  @IsDateString()
+  startsAt: string;
+
+  @IsMongoId()
+  @IsOptional()
+  leadId?: string;
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  purpose?: string;
+
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  customerName?: string;
+
+  @IsString()
+  @IsOptional()
+  phoneNumber?: string;
+}
+
+export class RescheduleAppointmentDto {
+  @IsDateString()
+  startsAt: string;
+}
+
+export class CancelAppointmentDto {
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
+
+export class TimeRangeDto {
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+}
+
+export class AppointmentFilterDto extends TimeRangeDto {
+  @IsEnum(AppointmentStatus)
+  @IsOptional()
+  status?: AppointmentStatus;
+
+  @IsMongoId()
+  @IsOptional()
+  leadId?: string;
+}
+
+export class BookingWindowDto {
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek: number;
+
+  @Matches(TIME_OF_DAY, { message: 'start must be in HH:mm format' })
+  start: string;
+
+  @Matches(TIME_OF_DAY, { message: 'end must be in HH:mm format' })
+  end: string;
+}
+
+export class UpdateAppointmentSettingsDto {
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @IsInt()
+  @Min(5)
+  @Max(480)
+  @IsOptional()
+  slotDurationMinutes?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  capacity?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(10080)
+  @IsOptional()
+  minNoticeMinutes?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  bookingHorizonDays?: number;
+
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => BookingWindowDto)
+  @IsOptional()
+  windows?: BookingWindowDto[];
+}
@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  AudioPipelineService,
+  SIP_CODECS,
+  parsePcmSampleRate,
+  pcmMimeType,
+} from './audio-pipeline.service';
+import { decodeG711, encodeG711 } from './g711.codec';
+import { G722Decoder, G722Encoder } from './g722.codec';
+import { Resampler } from './resampler';
+
+/**
+ * Synthetic sine tone as 16-bit PCM samples
+ */
+function tone(
+  frequency: number,
+  sampleRate: number,
+  durationMs: number,
+  amplitude = 8000,
+): Int16Array {
+  const length = Math.round((sampleRate * durationMs) / 1000);
+  return Int16Array.from({ length }, (_, i) =>
+    Math.round(
+      amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate),
+    ),
+  );
+}
+
+/**
+ * Amplitude of a single frequency component (Goertzel algorithm).
+ * The edges are skipped so filter warm-up does not skew the result.
+ */
+function amplitudeAt(
+  samples: Int16Array,
+  frequency: number,
+  sampleRate: number,
+): number {
+  const skip = Math.floor(samples.length / 4);
+  const window = samples.subarray(skip, samples.length - skip);
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+
+  let s1 = 0;
+  let s2 = 0;
+  for (const sample of window) {
+    const s0 = sample + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+
+  const power = s1 * s1 + s2 * s2 - coeff * s1 * s2;
+  return (2 * Math.sqrt(Math.max(power, 0))) / window.length;
+}
+
+function toBuffer(samples: Int16Array): Buffer {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+}
+
+function toSamples(buffer: Buffer): Int16Array {
+  return Int16Array.from({ length: buffer.length / 2 }, (_, i) =>
+    buffer.readInt16LE(i * 2),
+  );
+}
+
+describe('AudioPipelineService', () => {
+  let service: AudioPipelineService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AudioPipelineService],
+    }).compile();
+
+    service = module.get<AudioPipelineService>(AudioPipelineService);
+  });
+
+  describe('detectCodec', () => {
+    const sdp = (payloadTypes: string, extra = '') =>
+      [
+        'v=0',
+        'o=- 0 0 IN IP4 10.0.0.1',
+        's=-',
+        'c=IN IP4 10.0.0.1',
+        't=0 0',
+        `m=audio 30000 RTP/AVP ${payloadTypes}`,
+        extra,
+        'a=rtpmap:101 telephone-event/8000',
+        'a=sendrecv',
+      ].join('\r\n');
+
+    it('should pick the first payload type of the answer', () => {
+      expect(service.detectCodec(sdp('8 0 101')).name).toBe('PCMA');
+      expect(service.detectCodec(sdp('0 8 101')).name).toBe('PCMU');
+    });
+
+    it('should detect G.722 with its real 16 kHz sample rate', () => {
+      const codec = service.detectCodec(sdp('9 101', 'a=rtpmap:9 G722/8000'));
+
+      expect(codec.name).toBe('G722');
+      expect(codec.sampleRate).toBe(16000);
+    });
+
+    it('should resolve dynamic payload types through rtpmap', () => {
+      const codec = service.detectCodec(sdp('101 96', 'a=rtpmap:96 PCMA/8000'));
+
+      expect(codec).toEqual({ ...SIP_CODECS.PCMA, payloadType: 96 });
+    });
+
+    it('should fall back to PCMU without a usable SDP', () => {
+      expect(service.detectCodec(undefined).name).toBe('PCMU');
+      expect(service.detectCodec(sdp('101')).name).toBe('PCMU');
+    });
+  });
+
+  describe('MIME types', () => {
+    it('should label PCM with its sample rate', () => {
+      expect(pcmMimeType(16000)).toBe('audio/pcm;rate=16000');
+      expect(parsePcmSampleRate('audio/pcm;rate=24000', 16000)).toBe(24000);
+      expect(parsePcmSampleRate('audio/pcm', 24000)).toBe(24000);
+    });
+  });
+
+  describe('codecs', () => {
+    it.each(['ulaw', 'alaw'] as const)(
+      'should round-trip a 1 kHz tone through G.711 %s',
+      (law) => {
+        const input = tone(1000, 8000, 200);
+        const output = decodeG711(encodeG711(input, law), law);
+
+        expect(output).toHaveLength(input.length);
+        expect(amplitudeAt(output, 1000, 8000)).toBeCloseTo(8000, -3);
+      },
+    );
+
+    it('should round-trip a tone through G.722 at 16 kHz', () => {
+      const input = tone(1000, 16000, 400);
+      const encoder = new G722Encoder();
+      const decoder = new G722Decoder();
+
+      const payload = encoder.encode(input);
+      const output = decoder.decode(payload);
+
+      expect(payload).toHaveLength(input.length / 2);
+      expect(output).toHaveLength(input.length);
+      expect(amplitudeAt(output, 1000, 16000)).toBeGreaterThan(8000 * 0.8);
+      expect(amplitudeAt(output, 1000, 16000)).toBeLessThan(8000 * 1.2);
+    });
+
+    it('should keep wideband content that G.711 cannot carry', () => {
+      const input = tone(6000, 16000, 400);
+      const output = new G722Decoder().decode(new G722Encoder().encode(input));
+
+      expect(amplitudeAt(output, 6000, 16000)).toBeGreaterThan(8000 * 0.5);
+    });
+  });
+
+  describe('Resampler', () => {
+    it('should upsample 8 kHz to 16 kHz keeping pitch and level', () => {
+      const output = new Resampler(8000, 16000).process(tone(440, 8000, 400));
+
+      expect(output).toHaveLength(6400);
+      expect(amplitudeAt(output, 440, 16000)).toBeCloseTo(8000, -3);
+    });
+
+    it('should downsample 24 kHz to 8 kHz keeping pitch and level', () => {
+      const output = new Resampler(24000, 8000).process(tone(1000, 24000, 400));
+
+      expect(output).toHaveLength(3200);
+      expect(amplitudeAt(output, 1000, 8000)).toBeCloseTo(8000, -3);
+    });
+
+    it('should filter out tones above the new Nyquist frequency', () => {
+      // 6 kHz would alias to 2 kHz at 8 kHz without a low-pass filter
+      const output = new Resampler(24000, 8000).process(tone(6000, 24000, 400));
+
+      expect(amplitudeAt(output, 2000, 8000)).toBeLessThan(8000 * 0.01);
+    });
+
+    it('should give the same result for chunked and whole input', () => {
+      const input = tone(700, 24000, 300);
+      const whole = new Resampler(24000, 16000).process(input);
+
+      const chunked = new Resampler(24000, 16000);
+      const parts: number[] = [];
+      for (let i = 0; i < input.length; i += 480) {
+        parts.push(...chunked.process(input.subarray(i, i + 480)));
+      }
+
+      expect(Int16Array.from(parts)).toEqual(whole);
+    });
+  });
+
+  describe('AudioPipeline', () => {
+    it('should convert PCMA caller audio to 16 kHz for Gemini', () => {
+      const pipeline = service.createPipeline(SIP_CODECS.PCMA);
+      const payload = encodeG711(tone(500, 8000, 400), 'alaw');
+
+      const sipPcm = pipeline.decodeSip(payload);
+      const geminiPcm = toSamples(pipeline.toGemini(sipPcm));
+
+      expect(pipeline.geminiInputMimeType).toBe('audio/pcm;rate=16000');
+      expect(geminiPcm).toHaveLength(6400);
+      expect(amplitudeAt(geminiPcm, 500, 16000)).toBeCloseTo(8000, -3);
+    });
+
+    it('should convert 24 kHz Gemini audio to PCMU without changing pitch', () => {
+      const pipeline = service.createPipeline(SIP_CODECS.PCMU);
+      const geminiPcm = toBuffer(tone(800, 24000, 400));
+
+      const sipPcm = pipeline.fromGemini(geminiPcm, 'audio/pcm;rate=24000');
+      const payload = pipeline.encodeSip(sipPcm);
+      const heard = decodeG711(payload, 'ulaw');
+
+      // 400 ms at 8 kHz - the sped-up playback came from skipping this step
+      expect(payload).toHaveLength(3200);
+      expect(amplitudeAt(heard, 800, 8000)).toBeCloseTo(8000, -3);
+    });
+
+    it('should convert Gemini audio to G.722 at 16 kHz', () => {
+      const pipeline = service.createPipeline(SIP_CODECS.G722);
+
+      const sipPcm = pipeline.fromGemini(toBuffer(tone(1000, 24000, 400)));
+      const payload = pipeline.encodeSip(sipPcm);
+
+      expect(pipeline.sipSampleRate).toBe(16000);
+      expect(payload).toHaveLength(3200);
+    });
+  });
+});
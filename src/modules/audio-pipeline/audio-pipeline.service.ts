@@ -0,0 +1,194 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { decodeG711, encodeG711 } from './g711.codec';
+import { G722Decoder, G722Encoder } from './g722.codec';
+import { Resampler } from './resampler';
+
+export type SipCodecName = 'PCMU' | 'PCMA' | 'G722';
+
+export interface SipCodec {
+  name: SipCodecName;
+  payloadType: number;
+  sampleRate: number; // actual audio rate (G.722 is 16 kHz despite its 8000 RTP clock)
+}
+
+export const SIP_CODECS: Record<SipCodecName, SipCodec> = {
+  PCMU: { name: 'PCMU', payloadType: 0, sampleRate: 8000 },
+  PCMA: { name: 'PCMA', payloadType: 8, sampleRate: 8000 },
+  G722: { name: 'G722', payloadType: 9, sampleRate: 16000 },
+};
+
+// Gemini Live expects 16 kHz input and produces 24 kHz output
+export const GEMINI_INPUT_SAMPLE_RATE = 16000;
+export const GEMINI_OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * Build a raw PCM MIME type labelled with its sample rate
+ */
+export function pcmMimeType(sampleRate: number): string {
+  return `audio/pcm;rate=${sampleRate}`;
+}
+
+/**
+ * Read the sample rate from a MIME type such as "audio/pcm;rate=24000"
+ */
+export function parsePcmSampleRate(
+  mimeType: string | undefined,
+  fallback: number,
+): number {
+  const match = mimeType?.match(/rate=(\d+)/);
+  return match ? parseInt(match[1], 10) : fallback;
+}
+
+/**
+ * Converts one call's audio between its SIP codec and Gemini's PCM formats.
+ * Codec and resampler state is per stream - create one pipeline per call.
+ */
+export class AudioPipeline {
+  readonly geminiInputMimeType = pcmMimeType(GEMINI_INPUT_SAMPLE_RATE);
+
+  private readonly g722Decoder?: G722Decoder;
+  private readonly g722Encoder?: G722Encoder;
+  private readonly inputResampler: Resampler;
+  private outputResampler: Resampler | null = null;
+
+  constructor(readonly codec: SipCodec) {
+    if (codec.name === 'G722') {
+      this.g722Decoder = new G722Decoder();
+      this.g722Encoder = new G722Encoder();
+    }
+
+    this.inputResampler = new Resampler(
+      codec.sampleRate,
+      GEMINI_INPUT_SAMPLE_RATE,
+    );
+  }
+
+  /**
+   * SIP sample rate of the decoded PCM (used for recordings)
+   */
+  get sipSampleRate(): number {
+    return this.codec.sampleRate;
+  }
+
+  /**
+   * Decode a SIP payload into 16-bit PCM at the codec's sample rate
+   */
+  decodeSip(payload: Buffer): Buffer {
+    return toBuffer(this.decode(payload));
+  }
+
+  /**
+   * Resample decoded SIP PCM to the 16 kHz PCM Gemini expects
+   */
+  toGemini(sipPcm: Buffer): Buffer {
+    return toBuffer(this.inputResampler.process(toSamples(sipPcm)));
+  }
+
+  /**
+   * Resample Gemini output PCM to the SIP codec's sample rate
+   */
+  fromGemini(pcm: Buffer, mimeType?: string): Buffer {
+    const rate = parsePcmSampleRate(mimeType, GEMINI_OUTPUT_SAMPLE_RATE);
+
+    if (!this.outputResampler || this.outputResampler.inputRate !== rate) {
+      this.outputResampler = new Resampler(rate, this.codec.sampleRate);
+    }
+
+    return toBuffer(this.outputResampler.process(toSamples(pcm)));
+  }
+
+  /**
+   * Encode PCM at the codec's sample rate into a SIP payload
+   */
+  encodeSip(sipPcm: Buffer): Buffer {
+    const samples = toSamples(sipPcm);
+
+    switch (this.codec.name) {
+      case 'PCMU':
+        return encodeG711(samples, 'ulaw');
+      case 'PCMA':
+        return encodeG711(samples, 'alaw');
+      case 'G722':
+        return this.g722Encoder!.encode(samples);
+    }
+  }
+
+  private decode(payload: Buffer): Int16Array {
+    switch (this.codec.name) {
+      case 'PCMU':
+        return decodeG711(payload, 'ulaw');
+      case 'PCMA':
+        return decodeG711(payload, 'alaw');
+      case 'G722':
+        return this.g722Decoder!.decode(payload);
+    }
+  }
+}
+
+@Injectable()
+export class AudioPipelineService {
+  private readonly logger = new Logger(AudioPipelineService.name);
+
+  /**
+   * Find the negotiated audio codec in an SDP (the first supported payload
+   * type of the audio m-line). Falls back to PCMU when the SDP is missing.
+   */
+  detectCodec(sdp: string | undefined | null): SipCodec {
+    if (!sdp) {
+      return SIP_CODECS.PCMU;
+    }
+
+    const mediaLine = sdp.match(/^m=audio\s+\d+\s+\S+\s+([\d\s]+)$/m);
+    if (!mediaLine) {
+      this.logger.warn('No audio m-line in SDP, assuming PCMU');
+      return SIP_CODECS.PCMU;
+    }
+
+    // Dynamic payload types are named by a=rtpmap lines
+    const rtpmap = new Map<number, string>();
+    for (const match of sdp.matchAll(/^a=rtpmap:(\d+)\s+([\w.-]+)\//gm)) {
+      rtpmap.set(parseInt(match[1], 10), match[2].toUpperCase());
+    }
+
+    const payloadTypes = mediaLine[1].trim().split(/\s+/).map(Number);
+
+    for (const payloadType of payloadTypes) {
+      const name =
+        rtpmap.get(payloadType) ||
+        Object.values(SIP_CODECS).find((c) => c.payloadType === payloadType)
+          ?.name;
+
+      if (name && name in SIP_CODECS) {
+        return { ...SIP_CODECS[name as SipCodecName], payloadType };
+      }
+    }
+
+    this.logger.warn(
+      `No supported codec in SDP payload types [${payloadTypes.join(', ')}], assuming PCMU`,
+    );
+    return SIP_CODECS.PCMU;
+  }
+
+  /**
+   * Create the audio pipeline for a single call
+   */
+  createPipeline(codec: SipCodec = SIP_CODECS.PCMU): AudioPipeline {
+    return new AudioPipeline(codec);
+  }
+}
+
+function toSamples(buffer: Buffer): Int16Array {
+  const samples = new Int16Array(Math.floor(buffer.length / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = buffer.readInt16LE(i * 2);
+  }
+  return samples;
+}
+
+function toBuffer(samples: Int16Array): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], i * 2);
+  }
+  return buffer;
+}
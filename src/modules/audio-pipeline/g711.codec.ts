@@ -0,0 +1,109 @@
+/**
+ * G.711 μ-law (PCMU) and A-law (PCMA) companding.
+ * Based on the public domain Sun Microsystems reference implementation.
+ */
+
+const ULAW_BIAS = 0x84;
+const ULAW_CLIP = 32635;
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+function ulawToLinear(ulaw: number): number {
+  const value = ~ulaw & 0xff;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const sample = (((mantissa << 3) + ULAW_BIAS) << exponent) - ULAW_BIAS;
+
+  return value & 0x80 ? -sample : sample;
+}
+
+function linearToUlaw(pcm: number): number {
+  let sample = pcm;
+  let sign = 0;
+
+  if (sample < 0) {
+    sign = 0x80;
+    sample = -sample;
+  }
+  if (sample > ULAW_CLIP) sample = ULAW_CLIP;
+  sample += ULAW_BIAS;
+
+  let exponent = 7;
+  let mask = 0x4000;
+  while ((sample & mask) === 0 && exponent > 0) {
+    exponent--;
+    mask >>= 1;
+  }
+
+  const mantissa = (sample >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+function alawToLinear(alaw: number): number {
+  const value = alaw ^ 0x55;
+  const segment = (value & 0x70) >> 4;
+  let sample = (value & 0x0f) << 4;
+
+  if (segment === 0) {
+    sample += 8;
+  } else {
+    sample += 0x108;
+    if (segment > 1) sample <<= segment - 1;
+  }
+
+  return value & 0x80 ? sample : -sample;
+}
+
+function linearToAlaw(pcm: number): number {
+  let sample = pcm >> 3;
+  let mask: number;
+
+  if (sample >= 0) {
+    mask = 0xd5;
+  } else {
+    mask = 0x55;
+    sample = -sample - 1;
+  }
+
+  const segment = ALAW_SEGMENT_ENDS.findIndex((end) => sample <= end);
+  if (segment === -1) {
+    return 0x7f ^ mask;
+  }
+
+  const mantissa =
+    segment < 2 ? (sample >> 1) & 0x0f : (sample >> segment) & 0x0f;
+  return ((segment << 4) | mantissa) ^ mask;
+}
+
+// Decoding is a plain lookup
+const ULAW_TABLE = Int16Array.from({ length: 256 }, (_, i) => ulawToLinear(i));
+const ALAW_TABLE = Int16Array.from({ length: 256 }, (_, i) => alawToLinear(i));
+
+export type G711Law = 'ulaw' | 'alaw';
+
+/**
+ * Decode G.711 bytes into 16-bit PCM samples
+ */
+export function decodeG711(payload: Buffer, law: G711Law): Int16Array {
+  const table = law === 'ulaw' ? ULAW_TABLE : ALAW_TABLE;
+  const samples = new Int16Array(payload.length);
+
+  for (let i = 0; i < payload.length; i++) {
+    samples[i] = table[payload[i]];
+  }
+
+  return samples;
+}
+
+/**
+ * Encode 16-bit PCM samples into G.711 bytes
+ */
+export function encodeG711(samples: Int16Array, law: G711Law): Buffer {
+  const encode = law === 'ulaw' ? linearToUlaw : linearToAlaw;
+  const payload = Buffer.alloc(samples.length);
+
+  for (let i = 0; i < samples.length; i++) {
+    payload[i] = encode(samples[i]);
+  }
+
+  return payload;
+}
@@ -0,0 +1,291 @@
+/**
+ * G.722 sub-band ADPCM codec (64 kbit/s mode, 16 kHz audio).
+ * Port of the public domain reference code by Steve Underwood,
+ * which is based on the CMU implementation of ITU-T G.722.
+ */
+
+const QMF_COEFFS = [3, -11, 12, 32, -210, 951, 3876, -805, 362, -156, 53, -11];
+
+const Q6 = [
+  0, 35, 72, 110, 150, 190, 233, 276, 323, 370, 422, 473, 530, 587, 650, 714,
+  786, 858, 940, 1023, 1121, 1219, 1339, 1458, 1612, 1765, 1980, 2195, 2557,
+  2919, 0, 0,
+];
+const ILN = [
+  0, 63, 62, 31, 30, 29, 28, 27, 26, 25, 24, 23, 22, 21, 20, 19, 18, 17, 16, 15,
+  14, 13, 12, 11, 10, 9, 8, 7, 6, 5, 4, 0,
+];
+const ILP = [
+  0, 61, 60, 59, 58, 57, 56, 55, 54, 53, 52, 51, 50, 49, 48, 47, 46, 45, 44, 43,
+  42, 41, 40, 39, 38, 37, 36, 35, 34, 33, 32, 0,
+];
+const WL = [-60, -30, 58, 172, 334, 538, 1198, 3042];
+const RL42 = [0, 7, 6, 5, 4, 3, 2, 1, 7, 6, 5, 4, 3, 2, 1, 0];
+const ILB = [
+  2048, 2093, 2139, 2186, 2233, 2282, 2332, 2383, 2435, 2489, 2543, 2599, 2656,
+  2714, 2774, 2834, 2896, 2960, 3025, 3091, 3158, 3228, 3298, 3371, 3444, 3520,
+  3597, 3676, 3756, 3838, 3922, 4008,
+];
+const QM4 = [
+  0, -20456, -12896, -8968, -6288, -4240, -2584, -1200, 20456, 12896, 8968,
+  6288, 4240, 2584, 1200, 0,
+];
+const QM6 = [
+  -136, -136, -136, -136, -24808, -21904, -19008, -16704, -14984, -13512,
+  -12280, -11192, -10232, -9360, -8576, -7856, -7192, -6576, -6000, -5456,
+  -4944, -4464, -4008, -3576, -3168, -2776, -2400, -2032, -1688, -1360, -1040,
+  -728, 24808, 21904, 19008, 16704, 14984, 13512, 12280, 11192, 10232, 9360,
+  8576, 7856, 7192, 6576, 6000, 5456, 4944, 4464, 4008, 3576, 3168, 2776, 2400,
+  2032, 1688, 1360, 1040, 728, 432, 136, -432, -136,
+];
+const QM2 = [-7408, -1616, 7408, 1616];
+const IHN = [0, 1, 0];
+const IHP = [0, 3, 2];
+const WH = [0, -214, 798];
+const RH2 = [2, 1, 2, 1];
+
+interface BandState {
+  s: number;
+  sp: number;
+  sz: number;
+  r: number[];
+  a: number[];
+  ap: number[];
+  p: number[];
+  d: number[];
+  b: number[];
+  bp: number[];
+  sg: number[];
+  nb: number;
+  det: number;
+}
+
+function saturate(value: number): number {
+  if (value > 32767) return 32767;
+  if (value < -32768) return -32768;
+  return value;
+}
+
+function createBand(det: number): BandState {
+  return {
+    s: 0,
+    sp: 0,
+    sz: 0,
+    r: [0, 0, 0],
+    a: [0, 0, 0],
+    ap: [0, 0, 0],
+    p: [0, 0, 0],
+    d: [0, 0, 0, 0, 0, 0, 0],
+    b: [0, 0, 0, 0, 0, 0, 0],
+    bp: [0, 0, 0, 0, 0, 0, 0],
+    sg: [0, 0, 0, 0, 0, 0, 0],
+    nb: 0,
+    det,
+  };
+}
+
+/**
+ * Shared adaptive predictor and quantizer scale state of both directions
+ */
+abstract class G722State {
+  protected band: [BandState, BandState] = [createBand(32), createBand(8)];
+  protected qmf: number[] = new Array<number>(24).fill(0);
+
+  /**
+   * Block 4: reconstruct the signal and update the pole/zero predictors
+   */
+  protected block4(band: BandState, d: number): void {
+    band.d[0] = d;
+    band.r[0] = saturate(band.s + d);
+    band.p[0] = saturate(band.sz + d);
+
+    // UPPOL2
+    for (let i = 0; i < 3; i++) {
+      band.sg[i] = band.p[i] >> 15;
+    }
+    let wd1 = saturate(band.a[1] * 4);
+    let wd2 = band.sg[0] === band.sg[1] ? -wd1 : wd1;
+    if (wd2 > 32767) wd2 = 32767;
+    let wd3 = (wd2 >> 7) + (band.sg[0] === band.sg[2] ? 128 : -128);
+    wd3 += (band.a[2] * 32512) >> 15;
+    band.ap[2] = Math.max(-12288, Math.min(12288, wd3));
+
+    // UPPOL1
+    band.sg[0] = band.p[0] >> 15;
+    band.sg[1] = band.p[1] >> 15;
+    wd1 = band.sg[0] === band.sg[1] ? 192 : -192;
+    wd2 = (band.a[1] * 32640) >> 15;
+    band.ap[1] = saturate(wd1 + wd2);
+    wd3 = saturate(15360 - band.ap[2]);
+    if (band.ap[1] > wd3) band.ap[1] = wd3;
+    else if (band.ap[1] < -wd3) band.ap[1] = -wd3;
+
+    // UPZERO
+    wd1 = d === 0 ? 0 : 128;
+    band.sg[0] = d >> 15;
+    for (let i = 1; i < 7; i++) {
+      band.sg[i] = band.d[i] >> 15;
+      wd2 = band.sg[i] === band.sg[0] ? wd1 : -wd1;
+      wd3 = (band.b[i] * 32640) >> 15;
+      band.bp[i] = saturate(wd2 + wd3);
+    }
+
+    // DELAYA
+    for (let i = 6; i > 0; i--) {
+      band.d[i] = band.d[i - 1];
+      band.b[i] = band.bp[i];
+    }
+    for (let i = 2; i > 0; i--) {
+      band.r[i] = band.r[i - 1];
+      band.p[i] = band.p[i - 1];
+      band.a[i] = band.ap[i];
+    }
+
+    // FILTEP
+    wd1 = saturate(band.r[1] + band.r[1]);
+    wd1 = (band.a[1] * wd1) >> 15;
+    wd2 = saturate(band.r[2] + band.r[2]);
+    wd2 = (band.a[2] * wd2) >> 15;
+    band.sp = saturate(wd1 + wd2);
+
+    // FILTEZ
+    band.sz = 0;
+    for (let i = 6; i > 0; i--) {
+      wd1 = saturate(band.d[i] + band.d[i]);
+      band.sz += (band.b[i] * wd1) >> 15;
+    }
+    band.sz = saturate(band.sz);
+
+    // PREDIC
+    band.s = saturate(band.sp + band.sz);
+  }
+
+  /**
+   * Blocks 3L/3H: adapt the quantizer scale factor
+   */
+  protected adaptScale(
+    band: BandState,
+    weight: number,
+    maxNb: number,
+    shift: number,
+  ): void {
+    const nb = ((band.nb * 127) >> 7) + weight;
+    band.nb = Math.max(0, Math.min(maxNb, nb));
+
+    const wd1 = (band.nb >> 6) & 31;
+    const wd2 = shift - (band.nb >> 11);
+    const wd3 = wd2 < 0 ? ILB[wd1] << -wd2 : ILB[wd1] >> wd2;
+    band.det = wd3 << 2;
+  }
+}
+
+/**
+ * Encodes 16 kHz PCM into G.722 (one byte per two samples).
+ * Keeps state between calls, so feed it consecutive chunks of one stream.
+ */
+export class G722Encoder extends G722State {
+  // Odd sample left over from the previous chunk
+  private pending: number | null = null;
+
+  encode(samples: Int16Array): Buffer {
+    const input: number[] = [];
+    if (this.pending !== null) input.push(this.pending);
+    for (const sample of samples) input.push(sample);
+
+    this.pending = input.length % 2 === 1 ? input.pop()! : null;
+
+    const output = Buffer.alloc(input.length / 2);
+    const [low, high] = this.band;
+
+    for (let j = 0, n = 0; j < input.length; j += 2, n++) {
+      // Transmit QMF: split into low and high sub-bands
+      this.qmf.splice(0, 2);
+      this.qmf.push(input[j], input[j + 1]);
+
+      let sumEven = 0;
+      let sumOdd = 0;
+      for (let i = 0; i < 12; i++) {
+        sumOdd += this.qmf[2 * i] * QMF_COEFFS[i];
+        sumEven += this.qmf[2 * i + 1] * QMF_COEFFS[11 - i];
+      }
+      const xlow = (sumEven + sumOdd) >> 14;
+      const xhigh = (sumEven - sumOdd) >> 14;
+
+      // Low band: 6-bit quantizer
+      const el = saturate(xlow - low.s);
+      let wd = el >= 0 ? el : -(el + 1);
+      let i = 1;
+      for (; i < 30; i++) {
+        if (wd < (Q6[i] * low.det) >> 12) break;
+      }
+      const ilow = el < 0 ? ILN[i] : ILP[i];
+
+      const ril = ilow >> 2;
+      const dlow = (low.det * QM4[ril]) >> 15;
+      this.adaptScale(low, WL[RL42[ril]], 18432, 8);
+      this.block4(low, dlow);
+
+      // High band: 2-bit quantizer
+      const eh = saturate(xhigh - high.s);
+      wd = eh >= 0 ? eh : -(eh + 1);
+      const mih = wd >= (564 * high.det) >> 12 ? 2 : 1;
+      const ihigh = eh < 0 ? IHN[mih] : IHP[mih];
+
+      const dhigh = (high.det * QM2[ihigh]) >> 15;
+      this.adaptScale(high, WH[RH2[ihigh]], 22528, 10);
+      this.block4(high, dhigh);
+
+      output[n] = (ihigh << 6) | ilow;
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Decodes G.722 into 16 kHz PCM (two samples per byte)
+ */
+export class G722Decoder extends G722State {
+  decode(payload: Buffer): Int16Array {
+    const output = new Int16Array(payload.length * 2);
+    const [low, high] = this.band;
+
+    for (let j = 0; j < payload.length; j++) {
+      const code = payload[j];
+      const ilow = code & 0x3f;
+      const ihigh = (code >> 6) & 0x03;
+
+      // Low band reconstruction uses all 6 bits
+      const dlow6 = (low.det * QM6[ilow]) >> 15;
+      const rlow = Math.max(-16384, Math.min(16383, low.s + dlow6));
+
+      // Predictor adaptation uses the 4 most significant bits
+      const ril = ilow >> 2;
+      const dlow = (low.det * QM4[ril]) >> 15;
+      this.adaptScale(low, WL[RL42[ril]], 18432, 8);
+      this.block4(low, dlow);
+
+      // High band
+      const dhigh = (high.det * QM2[ihigh]) >> 15;
+      const rhigh = Math.max(-16384, Math.min(16383, dhigh + high.s));
+      this.adaptScale(high, WH[RH2[ihigh]], 22528, 10);
+      this.block4(high, dhigh);
+
+      // Receive QMF: merge the sub-bands back into 16 kHz
+      this.qmf.splice(0, 2);
+      this.qmf.push(rlow + rhigh, rlow - rhigh);
+
+      let xout1 = 0;
+      let xout2 = 0;
+      for (let i = 0; i < 12; i++) {
+        xout2 += this.qmf[2 * i] * QMF_COEFFS[i];
+        xout1 += this.qmf[2 * i + 1] * QMF_COEFFS[11 - i];
+      }
+
+      output[j * 2] = saturate(xout1 >> 11);
+      output[j * 2 + 1] = saturate(xout2 >> 11);
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Streaming rational resampler (polyphase windowed-sinc FIR).
+ *
+ * Converts between sample rates by an L/M ratio with a low-pass filter
+ * at the lower Nyquist frequency, so upsampling does not leave images
+ * and downsampling does not alias. Keeps filter history between chunks,
+ * so one instance must be used per audio stream.
+ */
+export class Resampler {
+  private readonly up: number;
+  private readonly down: number;
+  private readonly coefficients: Float64Array;
+  private history: number[];
+  // Position of the next output sample, on the upsampled time axis
+  private position: number;
+
+  constructor(
+    readonly inputRate: number,
+    readonly outputRate: number,
+    private readonly tapsPerPhase: number = 32,
+  ) {
+    const divisor = gcd(inputRate, outputRate);
+    this.up = outputRate / divisor;
+    this.down = inputRate / divisor;
+    this.coefficients = this.designFilter();
+    this.history = new Array<number>(tapsPerPhase).fill(0);
+    this.position = tapsPerPhase * this.up;
+  }
+
+  get isPassthrough(): boolean {
+    return this.inputRate === this.outputRate;
+  }
+
+  process(input: Int16Array): Int16Array {
+    if (this.isPassthrough) {
+      return input;
+    }
+
+    const samples = this.history.concat(Array.from(input));
+    const taps = this.coefficients.length;
+    const output: number[] = [];
+
+    while (Math.floor(this.position / this.up) < samples.length) {
+      const newest = Math.floor(this.position / this.up);
+      const oldest = Math.max(
+        0,
+        Math.ceil((this.position - taps + 1) / this.up),
+      );
+
+      let acc = 0;
+      for (let i = newest; i >= oldest; i--) {
+        acc += this.coefficients[this.position - i * this.up] * samples[i];
+      }
+
+      output.push(Math.max(-32768, Math.min(32767, Math.round(acc))));
+      this.position += this.down;
+    }
+
+    // Keep only the samples the filter still needs
+    const consumed = samples.length - this.tapsPerPhase;
+    this.history = samples.slice(consumed);
+    this.position -= consumed * this.up;
+
+    return Int16Array.from(output);
+  }
+
+  /**
+   * Blackman-windowed sinc low-pass at 90% of the lower Nyquist frequency
+   */
+  private designFilter(): Float64Array {
+    const taps = this.tapsPerPhase * this.up;
+    const upsampledRate = this.inputRate * this.up;
+    const cutoff =
+      (0.9 * Math.min(this.inputRate, this.outputRate)) / 2 / upsampledRate;
+    const center = (taps - 1) / 2;
+    const coefficients = new Float64Array(taps);
+
+    for (let n = 0; n < taps; n++) {
+      const x = n - center;
+      const sinc =
+        x === 0
+          ? 2 * cutoff
+          : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+      const window =
+        0.42 -
+        0.5 * Math.cos((2 * Math.PI * n) / (taps - 1)) +
+        0.08 * Math.cos((4 * Math.PI * n) / (taps - 1));
+
+      // Gain of L compensates for the zeros inserted when upsampling
+      coefficients[n] = sinc * window * this.up;
+    }
+
+    return coefficients;
+  }
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
@@ -0,0 +1,71 @@
+import { Types } from 'mongoose';
+import { pickAgentVariant } from './agent-variant.util';
+import { AgentVariant } from '../../schemas/batch-call.schema';
+
+describe('pickAgentVariant', () => {
+  // Fixed, so the split checked below is the same on every run
+  const batchCallId = new Types.ObjectId('65f1c0de0000000000000001');
+  const variants: AgentVariant[] = [
+    { name: 'A', agentId: new Types.ObjectId(), weight: 70 },
+    { name: 'B', agentId: new Types.ObjectId(), weight: 30 },
+  ];
+  const phone = (index: number) => `+7900${String(index).padStart(7, '0')}`;
+
+  it('should split recipients by the variant weights', () => {
+    const counts: Record<string, number> = { A: 0, B: 0 };
+    for (let i = 0; i < 10000; i++) {
+      counts[pickAgentVariant(variants, batchCallId, phone(i))!.name]++;
+    }
+
+    // 3 standard deviations of a 70/30 split of 10000 are about 140
+    expect(counts.A).toBeGreaterThan(6850);
+    expect(counts.A).toBeLessThan(7150);
+  });
+
+  it('should keep a recipient in the same variant however the number is written', () => {
+    const variant = pickAgentVariant(variants, batchCallId, '+79161234567');
+
+    expect(pickAgentVariant(variants, batchCallId, '89161234567')).toBe(
+      variant,
+    );
+    expect(
+      pickAgentVariant(variants, batchCallId.toString(), '+7 916 123-45-67'),
+    ).toBe(variant);
+  });
+
+  it('should split differently in another campaign', () => {
+    const other = new Types.ObjectId();
+    let moved = 0;
+    for (let i = 0; i < 200; i++) {
+      if (
+        pickAgentVariant(variants, batchCallId, phone(i)) !==
+        pickAgentVariant(variants, other, phone(i))
+      ) {
+        moved++;
+      }
+    }
+
+    expect(moved).toBeGreaterThan(0);
+  });
+
+  it('should never pick a variant with zero weight', () => {
+    const withDisabled = [
+      ...variants,
+      { ...variants[0], name: 'C', weight: 0 },
+    ];
+
+    for (let i = 0; i < 1000; i++) {
+      expect(
+        pickAgentVariant(withDisabled, batchCallId, phone(i))!.name,
+      ).not.toBe('C');
+    }
+  });
+
+  it('should fall back to the first variant when all weights are zero', () => {
+    const unweighted = variants.map((v) => ({ ...v, weight: 0 }));
+
+    expect(pickAgentVariant(unweighted, batchCallId, phone(1))).toBe(
+      unweighted[0],
+    );
+  });
+});
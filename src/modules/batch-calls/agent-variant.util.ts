@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { AgentVariant } from '../../schemas/batch-call.schema';
+import { normalizePhoneNumber } from '../../common/utils/phone.util';
+
+/**
+ * Pick the agent variant of a recipient by the variant weights.
+ * The choice only depends on the campaign and the phone number, so a
+ * recipient always lands in the same variant.
+ */
+export function pickAgentVariant(
+  variants: AgentVariant[],
+  batchCallId: Types.ObjectId | string,
+  phoneNumber: string,
+): AgentVariant | undefined {
+  const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+  if (totalWeight <= 0) {
+    return variants[0];
+  }
+
+  const key = `${batchCallId.toString()}:${normalizePhoneNumber(phoneNumber) || phoneNumber}`;
+  const hash = createHash('sha256').update(key).digest();
+  // Uniform point in [0, totalWeight)
+  const point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight;
+    if (point < cumulative) {
+      return variant;
+    }
+  }
+
+  return variants[variants.length - 1];
+}
@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import * as XLSX from 'xlsx';
+import {
+  BatchCallReportService,
+  meanTest,
+  proportionTest,
+} from './batch-call-report.service';
+import { BatchCallsService } from './batch-calls.service';
+import { Conversation } from '../../schemas/conversation.schema';
+import { Lead, LeadStatus } from '../../schemas/lead.schema';
+import { LeadHistory } from '../../schemas/lead-history.schema';
+import {
+  BatchCallStatus,
+  RecipientCallStatus,
+} from '../../schemas/batch-call.schema';
+
+describe('BatchCallReportService', () => {
+  let service: BatchCallReportService;
+  let conversations: Record<string, any>[];
+
+  const companyId = new Types.ObjectId();
+  const leadId = new Types.ObjectId();
+  const answeredId = new Types.ObjectId();
+  const shortId = new Types.ObjectId();
+  const failedId = new Types.ObjectId();
+
+  const batchCall = {
+    _id: new Types.ObjectId(),
+    companyId,
+    name: 'Весна 2024',
+    status: BatchCallStatus.COMPLETED,
+    agentVariants: [],
+    recipients: [
+      {
+        phoneNumber: '+79001110001',
+        name: 'Анна',
+        leadId,
+        status: RecipientCallStatus.COMPLETED,
+        attemptsCount: 2,
+        conversationId: answeredId,
+        answeredAt: new Date('2024-03-01T10:00:00Z'),
+        // The first attempt was not answered
+        attempts: [
+          { conversationId: failedId },
+          { conversationId: answeredId },
+        ],
+        customVariables: { Status: 'VIP', city: 'Казань' },
+      },
+      {
+        phoneNumber: '+79001110002',
+        status: RecipientCallStatus.COMPLETED,
+        attemptsCount: 1,
+        conversationId: shortId,
+        answeredAt: new Date('2024-03-01T11:00:00Z'),
+        attempts: [{ conversationId: shortId }],
+        customVariables: {},
+      },
+      {
+        phoneNumber: '+79001110003',
+        status: RecipientCallStatus.FAILED,
+        attemptsCount: 3,
+        failureReason: 'No answer',
+        attempts: [],
+        customVariables: {},
+      },
+      {
+        phoneNumber: '+79001110004',
+        status: RecipientCallStatus.PENDING,
+        attemptsCount: 0,
+        attempts: [],
+        customVariables: {},
+      },
+    ],
+  };
+
+  const query = (result: unknown) => ({
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    conversations = [
+      {
+        _id: answeredId,
+        duration: 130,
+        aiAnalysis: {
+          callOutcome: 'interested',
+          sentiment: 'positive',
+          summary: 'Хочет демо',
+        },
+      },
+      {
+        _id: shortId,
+        duration: 50,
+        aiAnalysis: { callOutcome: 'not_interested', sentiment: 'negative' },
+      },
+      { _id: failedId, duration: 0 },
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BatchCallReportService,
+        {
+          provide: getModelToken(Conversation.name),
+          useValue: { find: jest.fn(() => query(conversations)) },
+        },
+        {
+          provide: getModelToken(Lead.name),
+          useValue: {
+            find: jest.fn(() =>
+              query([{ _id: leadId, status: LeadStatus.QUALIFIED }]),
+            ),
+          },
+        },
+        {
+          provide: getModelToken(LeadHistory.name),
+          useValue: { aggregate: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: BatchCallsService,
+          useValue: { findOne: jest.fn().mockResolvedValue(batchCall) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BatchCallReportService>(BatchCallReportService);
+  });
+
+  it('should compute answer rate, durations and billed minutes', async () => {
+    const report = await service.getReport(companyId.toString(), 'id');
+
+    expect(report.recipients).toEqual(
+      expect.objectContaining({
+        total: 4,
+        [RecipientCallStatus.COMPLETED]: 2,
+        [RecipientCallStatus.FAILED]: 1,
+        [RecipientCallStatus.PENDING]: 1,
+      }),
+    );
+    expect(report.totalAttempts).toBe(6);
+    expect(report.answeredCount).toBe(2);
+    // 2 of the 3 dialed recipients answered
+    expect(report.answerRate).toBe(66.7);
+    expect(report.averageDuration).toBe(90);
+    // 130 s and 50 s are each rounded up to whole minutes
+    expect(report.minutesConsumed).toBe(4);
+  });
+
+  it('should count outcomes and sentiment of every attempt', async () => {
+    const report = await service.getReport(companyId.toString(), 'id');
+
+    expect(report.callOutcomes).toEqual({
+      interested: 1,
+      not_interested: 1,
+      unknown: 1,
+    });
+    expect(report.sentiment).toEqual({
+      positive: 1,
+      negative: 1,
+      unknown: 1,
+    });
+    expect(report.variants).toBeUndefined();
+  });
+
+  it('should export one row per recipient with the last answered call', async () => {
+    const { filename, content } = await service.export(
+      companyId.toString(),
+      'id',
+      'csv',
+    );
+    const rows = XLSX.utils.sheet_to_json<Record<string, any>>(
+      XLSX.read(content.toString('utf8').replace(/^\uFEFF/, ''), {
+        type: 'string',
+        raw: true,
+      }).Sheets.Sheet1,
+    );
+
+    expect(filename).toBe('Весна_2024-report.csv');
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toEqual(
+      expect.objectContaining({
+        'Phone number': '+79001110001',
+        Name: 'Анна',
+        Status: RecipientCallStatus.COMPLETED,
+        'Duration, s': '130',
+        Outcome: 'interested',
+        Summary: 'Хочет демо',
+        'Lead status': LeadStatus.QUALIFIED,
+      }),
+    );
+    expect(rows[2]['Failure reason']).toBe('No answer');
+  });
+
+  it('should not let custom variables overwrite computed columns', async () => {
+    const { content } = await service.export(
+      companyId.toString(),
+      'id',
+      'xlsx',
+    );
+    const workbook = XLSX.read(content, { type: 'buffer' });
+    const [row] = XLSX.utils.sheet_to_json<Record<string, any>>(
+      workbook.Sheets.Recipients,
+    );
+
+    expect(row.Status).toBe(RecipientCallStatus.COMPLETED);
+    expect(row['Variable: Status']).toBe('VIP');
+    expect(row['Variable: city']).toBe('Казань');
+  });
+});
+
+describe('proportionTest', () => {
+  it('should match the two-proportion z-test', () => {
+    // 50/100 vs 65/100: z = 2.1456, p = 0.0319
+    expect(proportionTest(50, 100, 65, 100)).toEqual({
+      pValue: 0.0319,
+      significant: true,
+    });
+    // 450/1000 vs 550/1000: z = 4.49
+    expect(proportionTest(450, 1000, 550, 1000)).toEqual({
+      pValue: 0,
+      significant: true,
+    });
+  });
+
+  it('should not call small differences significant', () => {
+    // 10/20 vs 12/20: z = 0.636, p = 0.525
+    expect(proportionTest(10, 20, 12, 20)).toEqual({
+      pValue: 0.525,
+      significant: false,
+    });
+    expect(proportionTest(30, 60, 30, 60)).toEqual({
+      pValue: 1,
+      significant: false,
+    });
+  });
+
+  it('should skip the test without dialed recipients', () => {
+    expect(proportionTest(0, 0, 5, 10)).toBeUndefined();
+  });
+});
+
+describe('meanTest', () => {
+  it('should match the Welch test in the normal approximation', () => {
+    // Means 3 and 5, variances 2.5: standard error 1, z = 2, p = 0.0455
+    expect(meanTest([1, 2, 3, 4, 5], [3, 4, 5, 6, 7])).toEqual({
+      pValue: 0.0455,
+      significant: true,
+    });
+  });
+
+  it('should handle samples without variance', () => {
+    expect(meanTest([50, 50], [50, 50])).toEqual({
+      pValue: 1,
+      significant: false,
+    });
+    expect(meanTest([40, 40], [60, 60])).toEqual({
+      pValue: 0,
+      significant: true,
+    });
+  });
+
+  it('should need at least two values on each side', () => {
+    expect(meanTest([50], [60, 70])).toBeUndefined();
+  });
+});
@@ -0,0 +1,505 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as XLSX from 'xlsx';
+import {
+  AgentVariant,
+  BatchCallDocument,
+  BatchCallRecipient,
+  BatchCallStatus,
+  RecipientCallStatus,
+} from '../../schemas/batch-call.schema';
+import {
+  Conversation,
+  ConversationDocument,
+} from '../../schemas/conversation.schema';
+import { Lead, LeadDocument, LeadStatus } from '../../schemas/lead.schema';
+import {
+  ChangeType,
+  LeadHistory,
+  LeadHistoryDocument,
+} from '../../schemas/lead-history.schema';
+import { BatchCallsService } from './batch-calls.service';
+
+export type ReportFormat = 'csv' | 'xlsx';
+
+export interface BatchCallReport {
+  batchCallId: string;
+  name: string;
+  status: BatchCallStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  recipients: Record<RecipientCallStatus, number> & { total: number };
+  totalAttempts: number;
+  answeredCount: number;
+  answerRate: number; // % of dialed recipients that answered
+  averageDuration: number; // seconds per answered call
+  minutesConsumed: number; // billed minutes, each call rounded up
+  callOutcomes: Record<string, number>;
+  sentiment: Record<string, number>;
+  leadStatusChanges: Record<string, number>; // leads that moved, by their new status
+  variants?: AgentVariantReport[]; // A/B test campaigns only
+}
+
+export interface SignificanceTest {
+  pValue: number;
+  significant: boolean; // p < 0.05
+}
+
+export interface AgentVariantReport {
+  name: string;
+  agentId: string;
+  weight: number;
+  recipients: number;
+  dialed: number;
+  answered: number;
+  answerRate: number;
+  averageDuration: number;
+  callOutcomes: Record<string, number>;
+  averageDealProbability: number | null;
+  // Difference from the first variant; not set for the first variant itself
+  answerRateTest?: SignificanceTest;
+  dealProbabilityTest?: SignificanceTest;
+}
+
+const SIGNIFICANCE_LEVEL = 0.05;
+
+type ReportConversation = Pick<
+  Conversation,
+  'duration' | 'aiAnalysis' | 'status'
+> & { _id: Types.ObjectId };
+
+/**
+ * Campaign result statistics and per-recipient exports
+ */
+@Injectable()
+export class BatchCallReportService {
+  constructor(
+    @InjectModel(Conversation.name)
+    private conversationModel: Model<ConversationDocument>,
+    @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
+    @InjectModel(LeadHistory.name)
+    private leadHistoryModel: Model<LeadHistoryDocument>,
+    private batchCallsService: BatchCallsService,
+  ) {}
+
+  async getReport(companyId: string, id: string): Promise<BatchCallReport> {
+    const batchCall = await this.batchCallsService.findOne(companyId, id);
+    const conversations = await this.loadConversations(batchCall);
+    const leadStatusChanges = await this.countLeadStatusChanges(batchCall);
+
+    const recipients = {
+      total: batchCall.recipients.length,
+      ...(Object.fromEntries(
+        Object.values(RecipientCallStatus).map((status) => [status, 0]),
+      ) as Record<RecipientCallStatus, number>),
+    };
+    let totalAttempts = 0;
+    let dialedCount = 0;
+
+    for (const recipient of batchCall.recipients) {
+      recipients[recipient.status]++;
+      totalAttempts += recipient.attemptsCount || 0;
+
+      if (recipient.attemptsCount > 0 || recipient.conversationId) {
+        dialedCount++;
+      }
+    }
+
+    // Every attempt that reached the callee has its own conversation
+    const answered = [...conversations.values()].filter(
+      (conversation) => conversation.duration > 0,
+    );
+    const totalDuration = answered.reduce((sum, c) => sum + c.duration, 0);
+    const answeredRecipients = batchCall.recipients.filter(
+      (recipient) => recipient.answeredAt,
+    ).length;
+
+    return {
+      batchCallId: (batchCall._id as Types.ObjectId).toString(),
+      name: batchCall.name,
+      status: batchCall.status,
+      startedAt: batchCall.startedAt,
+      completedAt: batchCall.completedAt,
+      recipients,
+      totalAttempts,
+      answeredCount: answeredRecipients,
+      answerRate: dialedCount
+        ? Math.round((answeredRecipients / dialedCount) * 1000) / 10
+        : 0,
+      averageDuration: answered.length
+        ? Math.round(totalDuration / answered.length)
+        : 0,
+      minutesConsumed: answered.reduce(
+        (sum, c) => sum + Math.ceil(c.duration / 60),
+        0,
+      ),
+      callOutcomes: this.countBy(
+        conversations.values(),
+        (c) => c.aiAnalysis?.callOutcome,
+      ),
+      sentiment: this.countBy(
+        conversations.values(),
+        (c) => c.aiAnalysis?.sentiment,
+      ),
+      leadStatusChanges,
+      variants:
+        batchCall.agentVariants?.length > 0
+          ? this.compareVariants(batchCall, conversations)
+          : undefined,
+    };
+  }
+
+  /**
+   * Per-variant results of an A/B test, each tested against the first variant
+   */
+  private compareVariants(
+    batchCall: BatchCallDocument,
+    conversations: Map<string, ReportConversation>,
+  ): AgentVariantReport[] {
+    const stats = batchCall.agentVariants.map((variant: AgentVariant) => {
+      const recipients = batchCall.recipients.filter(
+        (recipient) => recipient.variant === variant.name,
+      );
+      const calls = recipients.flatMap((recipient) =>
+        this.conversationsOf(recipient, conversations),
+      );
+      const answeredCalls = calls.filter((c) => c.duration > 0);
+      const dealProbabilities = calls
+        .map((c) => c.aiAnalysis?.dealProbability)
+        .filter((p): p is number => typeof p === 'number');
+
+      return {
+        variant,
+        dialed: recipients.filter(
+          (r) => r.attemptsCount > 0 || r.conversationId,
+        ).length,
+        answered: recipients.filter((r) => r.answeredAt).length,
+        recipients,
+        calls,
+        answeredCalls,
+        dealProbabilities,
+      };
+    });
+
+    const [control] = stats;
+
+    return stats.map((s, index) => ({
+      name: s.variant.name,
+      agentId: s.variant.agentId.toString(),
+      weight: s.variant.weight,
+      recipients: s.recipients.length,
+      dialed: s.dialed,
+      answered: s.answered,
+      answerRate: s.dialed
+        ? Math.round((s.answered / s.dialed) * 1000) / 10
+        : 0,
+      averageDuration: s.answeredCalls.length
+        ? Math.round(
+            s.answeredCalls.reduce((sum, c) => sum + c.duration, 0) /
+              s.answeredCalls.length,
+          )
+        : 0,
+      callOutcomes: this.countBy(s.calls, (c) => c.aiAnalysis?.callOutcome),
+      averageDealProbability: s.dealProbabilities.length
+        ? Math.round(mean(s.dealProbabilities) * 10) / 10
+        : null,
+      ...(index > 0 && {
+        answerRateTest: proportionTest(
+          control.answered,
+          control.dialed,
+          s.answered,
+          s.dialed,
+        ),
+        dealProbabilityTest: meanTest(
+          control.dealProbabilities,
+          s.dealProbabilities,
+        ),
+      }),
+    }));
+  }
+
+  /**
+   * Conversations of every attempt of a recipient
+   */
+  private conversationsOf(
+    recipient: BatchCallRecipient,
+    conversations: Map<string, ReportConversation>,
+  ): ReportConversation[] {
+    const ids = new Set(
+      [recipient, ...(recipient.attempts || [])]
+        .map(({ conversationId }) => conversationId?.toString())
+        .filter((id): id is string => !!id),
+    );
+
+    return [...ids]
+      .map((id) => conversations.get(id))
+      .filter((c): c is ReportConversation => !!c);
+  }
+
+  /**
+   * One row per recipient with the result of its last answered call
+   */
+  async export(
+    companyId: string,
+    id: string,
+    format: ReportFormat,
+  ): Promise<{ filename: string; contentType: string; content: Buffer }> {
+    const batchCall = await this.batchCallsService.findOne(companyId, id);
+    const conversations = await this.loadConversations(batchCall);
+    const leadStatuses = await this.loadLeadStatuses(batchCall);
+
+    const rows = batchCall.recipients.map((recipient) => {
+      const conversation = recipient.conversationId
+        ? conversations.get(recipient.conversationId.toString())
+        : undefined;
+      const analysis = conversation?.aiAnalysis;
+      const customer = analysis?.extractedCustomerData;
+
+      return {
+        'Phone number': recipient.phoneNumber,
+        Name: recipient.name || '',
+        ...(batchCall.agentVariants?.length > 0 && {
+          Variant: recipient.variant || '',
+        }),
+        Status: recipient.status,
+        Attempts: recipient.attemptsCount || 0,
+        'Last call at': this.formatDate(recipient.calledAt),
+        'Answered at': this.formatDate(recipient.answeredAt),
+        'Duration, s': conversation?.duration ?? '',
+        'Failure reason': recipient.failureReason || '',
+        Outcome: analysis?.callOutcome || '',
+        Sentiment: analysis?.sentiment || '',
+        Summary: analysis?.summary || '',
+        'Next steps': analysis?.nextSteps?.join('; ') || '',
+        'Customer name': customer?.name || '',
+        'Customer email': customer?.email || '',
+        'Customer phone': customer?.phone || '',
+        Budget: customer?.budget || '',
+        Preferences: customer?.preferences?.join('; ') || '',
+        'Special requirements': customer?.specialRequirements || '',
+        'Best time to call': customer?.bestTimeToCall || '',
+        'Lead status': recipient.leadId
+          ? leadStatuses.get(recipient.leadId.toString()) || ''
+          : '',
+        // Prefixed so a variable named like a column cannot overwrite it
+        ...Object.fromEntries(
+          Object.entries(recipient.customVariables || {}).map(
+            ([name, value]) => [`Variable: ${name}`, value],
+          ),
+        ),
+      };
+    });
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(rows),
+      'Recipients',
+    );
+
+    const filename = `${batchCall.name.replace(/[^\p{L}\p{N}_-]+/gu, '_')}-report.${format}`;
+
+    if (format === 'csv') {
+      // BOM so Excel opens Cyrillic text in UTF-8
+      const csv = XLSX.utils.sheet_to_csv(workbook.Sheets.Recipients);
+      return {
+        filename,
+        contentType: 'text/csv; charset=utf-8',
+        content: Buffer.from('\uFEFF' + csv, 'utf8'),
+      };
+    }
+
+    return {
+      filename,
+      contentType:
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content: XLSX.write(workbook, {
+        type: 'buffer',
+        bookType: 'xlsx',
+      }) as Buffer,
+    };
+  }
+
+  /**
+   * Conversations of all attempts, by conversation ID
+   */
+  private async loadConversations(
+    batchCall: BatchCallDocument,
+  ): Promise<Map<string, ReportConversation>> {
+    const ids = new Set<string>();
+
+    for (const recipient of batchCall.recipients) {
+      const attempts = [recipient, ...(recipient.attempts || [])];
+
+      for (const { conversationId } of attempts) {
+        if (conversationId) ids.add(conversationId.toString());
+      }
+    }
+
+    const conversations = await this.conversationModel
+      .find({ _id: { $in: [...ids].map((id) => new Types.ObjectId(id)) } })
+      .select('duration aiAnalysis status')
+      .lean<ReportConversation[]>();
+
+    return new Map(conversations.map((c) => [c._id.toString(), c]));
+  }
+
+  /**
+   * Current status of the campaign's leads, by lead ID
+   */
+  private async loadLeadStatuses(
+    batchCall: BatchCallDocument,
+  ): Promise<Map<string, LeadStatus>> {
+    const leadIds = batchCall.recipients
+      .map((recipient: BatchCallRecipient) => recipient.leadId)
+      .filter((leadId): leadId is Types.ObjectId => !!leadId);
+
+    if (leadIds.length === 0) {
+      return new Map();
+    }
+
+    const leads = await this.leadModel
+      .find({ _id: { $in: leadIds }, companyId: batchCall.companyId })
+      .select('status')
+      .lean<{ _id: Types.ObjectId; status: LeadStatus }[]>();
+
+    return new Map(leads.map((lead) => [lead._id.toString(), lead.status]));
+  }
+
+  /**
+   * Leads whose status changed since the campaign started, counted by
+   * their latest status (taken from the lead history)
+   */
+  private async countLeadStatusChanges(
+    batchCall: BatchCallDocument,
+  ): Promise<Record<string, number>> {
+    const leadIds = batchCall.recipients
+      .map((recipient) => recipient.leadId)
+      .filter((leadId): leadId is Types.ObjectId => !!leadId);
+
+    if (leadIds.length === 0 || !batchCall.startedAt) {
+      return {};
+    }
+
+    const changes = await this.leadHistoryModel.aggregate<{
+      _id: LeadStatus;
+      count: number;
+    }>([
+      {
+        $match: {
+          leadId: { $in: leadIds },
+          companyId: batchCall.companyId,
+          changeType: ChangeType.STATUS_CHANGE,
+          createdAt: { $gte: batchCall.startedAt },
+        },
+      },
+      { $sort: { createdAt: 1 } },
+      { $group: { _id: '$leadId', status: { $last: '$newStatus' } } },
+      { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+
+    return Object.fromEntries(changes.map((c) => [c._id, c.count]));
+  }
+
+  private countBy<T>(
+    items: Iterable<T>,
+    key: (item: T) => string | undefined,
+  ): Record<string, number> {
+    const counts: Record<string, number> = {};
+
+    for (const item of items) {
+      const value = key(item) || 'unknown';
+      counts[value] = (counts[value] || 0) + 1;
+    }
+
+    return counts;
+  }
+
+  private formatDate(date?: Date): string {
+    return date ? date.toISOString() : '';
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Two-sided two-proportion z-test
+ */
+export function proportionTest(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number,
+): SignificanceTest | undefined {
+  if (totalA === 0 || totalB === 0) return undefined;
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / totalA + 1 / totalB),
+  );
+  const difference = successesA / totalA - successesB / totalB;
+
+  return toSignificance(difference, standardError);
+}
+
+/**
+ * Two-sided Welch test of the difference of means, normal approximation
+ */
+export function meanTest(
+  a: number[],
+  b: number[],
+): SignificanceTest | undefined {
+  if (a.length < 2 || b.length < 2) return undefined;
+
+  const variance = (values: number[]) => {
+    const m = mean(values);
+    return (
+      values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1)
+    );
+  };
+  const standardError = Math.sqrt(
+    variance(a) / a.length + variance(b) / b.length,
+  );
+
+  return toSignificance(mean(a) - mean(b), standardError);
+}
+
+function toSignificance(
+  difference: number,
+  standardError: number,
+): SignificanceTest {
+  let pValue: number;
+
+  if (standardError === 0) {
+    pValue = difference === 0 ? 1 : 0;
+  } else {
+    const z = Math.abs(difference / standardError);
+    pValue = 2 * (1 - normalCdf(z));
+  }
+
+  return {
+    pValue: Math.round(pValue * 10000) / 10000,
+    significant: pValue < SIGNIFICANCE_LEVEL,
+  };
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 7.1.26, error below 1e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t *
+          (-0.284496736 +
+            t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-x * x);
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
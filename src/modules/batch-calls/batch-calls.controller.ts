@@ -10,25 +10,49 @@ import {
   UseGuards,
   Request,
   ParseIntPipe,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  Res,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
 import { BatchCallsService } from './batch-calls.service';
+import { RecipientImportService } from './recipient-import.service';
+import { BatchCallReportService } from './batch-call-report.service';
+import { CampaignSegmentService } from './campaign-segment.service';
+import { PromptTemplateService } from '../prompt-template/prompt-template.service';
 import { CreateBatchCallDto } from './dto/create-batch-call.dto';
 import { UpdateBatchCallDto } from './dto/update-batch-call.dto';
+import { ImportRecipientsDto } from './dto/import-recipients.dto';
+import { TemplatePreviewDto } from './dto/template-preview.dto';
+import { LeadSegmentDto } from './dto/lead-segment.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import type { AuthenticatedRequest } from '../../common/interfaces/authenticated-request.interface';
 
 @Controller('phone/batch-calls')
 @UseGuards(JwtAuthGuard)
 export class BatchCallsController {
-  constructor(private readonly batchCallsService: BatchCallsService) {}
+  constructor(
+    private readonly batchCallsService: BatchCallsService,
+    private readonly recipientImportService: RecipientImportService,
+    private readonly promptTemplateService: PromptTemplateService,
+    private readonly batchCallReportService: BatchCallReportService,
+    private readonly campaignSegmentService: CampaignSegmentService,
+  ) {}
 
   /**
    * Create a new batch call
    */
   @Post()
-  async create(@Request() req, @Body() createBatchCallDto: CreateBatchCallDto) {
+  async create(
+    @Request() req: AuthenticatedRequest,
+    @Body() createBatchCallDto: CreateBatchCallDto,
+  ) {
     const batchCall = await this.batchCallsService.create(
       req.user.companyId,
       createBatchCallDto,
+      req.user.userId,
     );
 
     return {
@@ -38,12 +62,99 @@ export class BatchCallsController {
     };
   }
 
+  /**
+   * Parse a CSV/XLSX contact list into recipients with a row-by-row report.
+   * Nothing is created: the recipients are passed to the create request.
+   */
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file'))
+  importRecipients(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importRecipientsDto: ImportRecipientsDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    const allowedExtensions = ['.csv', '.xlsx', '.xls'];
+    const filename = file.originalname.toLowerCase();
+
+    if (!allowedExtensions.some((ext) => filename.endsWith(ext))) {
+      throw new BadRequestException(
+        'Invalid file type. Allowed types: CSV, XLSX, XLS',
+      );
+    }
+
+    // Validate file size (max 10MB)
+    const maxSize = 10 * 1024 * 1024; // 10MB
+    if (file.size > maxSize) {
+      throw new BadRequestException('File size exceeds 10MB limit');
+    }
+
+    const report = this.recipientImportService.parse(
+      file,
+      importRecipientsDto.mapping,
+    );
+
+    return {
+      success: true,
+      data: report,
+      message: `${report.validCount} of ${report.totalRows} rows are ready to import`,
+    };
+  }
+
+  /**
+   * Show which leads a lead segment matches before creating the campaign
+   */
+  @Post('segment/preview')
+  async previewSegment(
+    @Request() req: AuthenticatedRequest,
+    @Body() leadSegmentDto: LeadSegmentDto,
+  ) {
+    const preview = await this.campaignSegmentService.preview(
+      req.user.companyId,
+      leadSegmentDto,
+    );
+
+    return {
+      success: true,
+      data: preview,
+      message: `${preview.total} lead(s) match the segment`,
+    };
+  }
+
+  /**
+   * Render the agent's prompt and greetings for a sample recipient
+   */
+  @Post('preview')
+  async previewTemplates(
+    @Request() req: AuthenticatedRequest,
+    @Body() templatePreviewDto: TemplatePreviewDto,
+  ) {
+    const { recipient } = templatePreviewDto;
+    const preview = await this.promptTemplateService.preview(
+      req.user.companyId,
+      templatePreviewDto.agentId,
+      {
+        leadId: recipient.leadId,
+        phoneNumber: recipient.phoneNumber,
+        name: recipient.name,
+        customVariables: recipient.customVariables,
+      },
+    );
+
+    return {
+      success: true,
+      data: preview,
+    };
+  }
+
   /**
    * Get all batch calls
    */
   @Get()
   async findAll(
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
     @Query('page_size', new ParseIntPipe({ optional: true })) pageSize?: number,
   ) {
     const batchCalls = await this.batchCallsService.findAll(
@@ -62,8 +173,11 @@ export class BatchCallsController {
    * Get a single batch call
    */
   @Get(':id')
-  async findOne(@Request() req, @Param('id') id: string) {
-    const batchCall = await this.batchCallsService.findOne(req.user.companyId, id);
+  async findOne(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const batchCall = await this.batchCallsService.findOne(
+      req.user.companyId,
+      id,
+    );
 
     return {
       success: true,
@@ -71,12 +185,61 @@ export class BatchCallsController {
     };
   }
 
+  /**
+   * Get campaign results: answer rate, durations, outcomes and lead progress
+   */
+  @Get(':id/report')
+  async getReport(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ) {
+    const report = await this.batchCallReportService.getReport(
+      req.user.companyId,
+      id,
+    );
+
+    return {
+      success: true,
+      data: report,
+    };
+  }
+
+  /**
+   * Download campaign results as CSV or XLSX, one row per recipient
+   */
+  @Get(':id/report/export')
+  async exportReport(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Query('format') format: string = 'xlsx',
+    @Res() res: Response,
+  ) {
+    if (format !== 'csv' && format !== 'xlsx') {
+      throw new BadRequestException(
+        'Invalid format. Allowed formats: csv, xlsx',
+      );
+    }
+
+    const file = await this.batchCallReportService.export(
+      req.user.companyId,
+      id,
+      format,
+    );
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+    );
+    res.send(file.content);
+  }
+
   /**
    * Update a batch call
    */
   @Patch(':id')
   async update(
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
     @Param('id') id: string,
     @Body() updateBatchCallDto: UpdateBatchCallDto,
   ) {
@@ -97,7 +260,7 @@ export class BatchCallsController {
    * Delete a batch call
    */
   @Delete(':id')
-  async remove(@Request() req, @Param('id') id: string) {
+  async remove(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
     await this.batchCallsService.remove(req.user.companyId, id);
 
     return {
@@ -110,8 +273,12 @@ export class BatchCallsController {
    * Cancel a batch call
    */
   @Post(':id/cancel')
-  async cancel(@Request() req, @Param('id') id: string) {
-    const batchCall = await this.batchCallsService.cancel(req.user.companyId, id);
+  async cancel(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const batchCall = await this.batchCallsService.cancel(
+      req.user.companyId,
+      id,
+      req.user.userId,
+    );
 
     return {
       success: true,
@@ -119,4 +286,60 @@ export class BatchCallsController {
       message: 'Batch call cancelled successfully',
     };
   }
+
+  /**
+   * Pause a running batch call
+   */
+  @Post(':id/pause')
+  async pause(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const batchCall = await this.batchCallsService.pause(
+      req.user.companyId,
+      id,
+      req.user.userId,
+    );
+
+    return {
+      success: true,
+      data: batchCall,
+      message: 'Batch call paused successfully',
+    };
+  }
+
+  /**
+   * Resume a paused batch call
+   */
+  @Post(':id/resume')
+  async resume(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const batchCall = await this.batchCallsService.resume(
+      req.user.companyId,
+      id,
+      req.user.userId,
+    );
+
+    return {
+      success: true,
+      data: batchCall,
+      message: 'Batch call resumed successfully',
+    };
+  }
+
+  /**
+   * Get the activity log of a batch call
+   */
+  @Get(':id/activity')
+  async getActivityLog(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ) {
+    const activityLog = await this.batchCallsService.getActivityLog(
+      req.user.companyId,
+      id,
+    );
+
+    return {
+      success: true,
+      data: activityLog,
+      count: activityLog.length,
+    };
+  }
 }
@@ -2,18 +2,55 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { BatchCallsController } from './batch-calls.controller';
 import { BatchCallsService } from './batch-calls.service';
+import { CampaignDialerService } from './campaign-dialer.service';
+import { RecipientImportService } from './recipient-import.service';
+import { BatchCallReportService } from './batch-call-report.service';
+import { CampaignSegmentService } from './campaign-segment.service';
 import { BatchCall, BatchCallSchema } from '../../schemas/batch-call.schema';
+import {
+  PhoneNumber,
+  PhoneNumberSchema,
+} from '../../schemas/phone-number.schema';
+import { Lead, LeadSchema } from '../../schemas/lead.schema';
+import {
+  LeadHistory,
+  LeadHistorySchema,
+} from '../../schemas/lead-history.schema';
+import { Company, CompanySchema } from '../../schemas/company.schema';
+import {
+  Conversation,
+  ConversationSchema,
+} from '../../schemas/conversation.schema';
 import { PhoneModule } from '../phone/phone.module';
+import { SipModule } from '../sip/sip.module';
+import { PromptTemplateModule } from '../prompt-template/prompt-template.module';
+import { DoNotCallModule } from '../do-not-call/do-not-call.module';
+import { LeadModule } from '../lead/lead.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: BatchCall.name, schema: BatchCallSchema },
+      { name: PhoneNumber.name, schema: PhoneNumberSchema },
+      { name: Lead.name, schema: LeadSchema },
+      { name: LeadHistory.name, schema: LeadHistorySchema },
+      { name: Company.name, schema: CompanySchema },
+      { name: Conversation.name, schema: ConversationSchema },
     ]),
     PhoneModule,
+    SipModule,
+    PromptTemplateModule,
+    DoNotCallModule,
+    LeadModule,
   ],
   controllers: [BatchCallsController],
-  providers: [BatchCallsService],
+  providers: [
+    BatchCallsService,
+    CampaignDialerService,
+    RecipientImportService,
+    BatchCallReportService,
+    CampaignSegmentService,
+  ],
   exports: [BatchCallsService],
 })
 export class BatchCallsModule {}
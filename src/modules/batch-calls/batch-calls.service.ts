@@ -1,11 +1,31 @@
 import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Cron, CronExpression } from '@nestjs/schedule';
-import { BatchCall, BatchCallDocument, BatchCallStatus, RecipientCallStatus } from '../../schemas/batch-call.schema';
+import {
+  BatchCall,
+  BatchCallDocument,
+  BatchCallEvent,
+  BatchCallEventType,
+  BatchCallStatus,
+  AgentVariant,
+  LeadSegment,
+  MachineDetectionAction,
+  RecipientCallStatus,
+} from '../../schemas/batch-call.schema';
+import { Company, CompanyDocument } from '../../schemas/company.schema';
+import { WorkingHours } from '../../schemas/agent.schema';
+import { parseTimeOfDay } from '../../common/utils/working-hours.util';
 import { CreateBatchCallDto } from './dto/create-batch-call.dto';
 import { UpdateBatchCallDto } from './dto/update-batch-call.dto';
-import { PhoneService } from '../phone/phone.service';
+import { CallingWindowDto } from './dto/calling-window.dto';
+import { LeadSegmentDto } from './dto/lead-segment.dto';
+import { AgentVariantDto } from './dto/agent-variant.dto';
+import { pickAgentVariant } from './agent-variant.util';
+import { CampaignDialerService } from './campaign-dialer.service';
+import {
+  DoNotCallService,
+  DO_NOT_CALL_REASON,
+} from '../do-not-call/do-not-call.service';
 
 @Injectable()
 export class BatchCallsService {
@@ -13,7 +33,9 @@ export class BatchCallsService {
 
   constructor(
     @InjectModel(BatchCall.name) private batchCallModel: Model<BatchCallDocument>,
-    private phoneService: PhoneService,
+    @InjectModel(Company.name) private companyModel: Model<CompanyDocument>,
+    private campaignDialerService: CampaignDialerService,
+    private doNotCallService: DoNotCallService,
   ) {}
 
   /**
@@ -22,22 +44,71 @@ export class BatchCallsService {
   async create(
     companyId: string,
     createBatchCallDto: CreateBatchCallDto,
+    userId?: string,
   ): Promise<BatchCallDocument> {
+    // Lead segment campaigns get their recipients when they start
+    const recipients = createBatchCallDto.recipients || [];
+    const agentVariants = this.toAgentVariants(
+      createBatchCallDto.agentVariants || [],
+    );
+    const batchCallId = new Types.ObjectId();
+
+    // Numbers on the do-not-call list are skipped from the start
+    const blocked = await this.doNotCallService.findBlocked(
+      companyId,
+      recipients.map((recipient) => recipient.phoneNumber),
+    );
+
     const batchCall = new this.batchCallModel({
+      _id: batchCallId,
       companyId: new Types.ObjectId(companyId),
       name: createBatchCallDto.name,
-      agentId: new Types.ObjectId(createBatchCallDto.agentId),
+      agentId:
+        agentVariants.length > 0
+          ? agentVariants[0].agentId
+          : new Types.ObjectId(createBatchCallDto.agentId),
+      agentVariants,
       phoneNumberId: new Types.ObjectId(createBatchCallDto.phoneNumberId),
       scheduledTime: createBatchCallDto.scheduledTime ? new Date(createBatchCallDto.scheduledTime) : undefined,
-      totalRecipientsCount: createBatchCallDto.recipients.length,
-      recipients: createBatchCallDto.recipients.map(recipient => ({
+      callingWindow: createBatchCallDto.callingWindow
+        ? await this.resolveCallingWindow(
+            companyId,
+            createBatchCallDto.callingWindow,
+          )
+        : undefined,
+      retryPolicy: createBatchCallDto.retryPolicy,
+      machineDetection: createBatchCallDto.machineDetection,
+      leadSegment: createBatchCallDto.leadSegment
+        ? this.toLeadSegment(createBatchCallDto.leadSegment)
+        : undefined,
+      totalRecipientsCount: recipients.length,
+      recipients: recipients.map((recipient) => ({
         phoneNumber: recipient.phoneNumber,
+        name: recipient.name,
         leadId: recipient.leadId ? new Types.ObjectId(recipient.leadId) : undefined,
-        status: RecipientCallStatus.PENDING,
+        timezone: recipient.timezone,
+        variant: pickAgentVariant(
+          agentVariants,
+          batchCallId,
+          recipient.phoneNumber,
+        )?.name,
+        ...(blocked.has(recipient.phoneNumber)
+          ? {
+              status: RecipientCallStatus.DO_NOT_CALL,
+              failureReason: DO_NOT_CALL_REASON,
+            }
+          : { status: RecipientCallStatus.PENDING }),
         customVariables: recipient.customVariables || {},
       })),
+      activityLog: [this.createEvent(BatchCallEventType.CREATED, userId)],
     });
 
+    if (blocked.size > 0) {
+      this.logger.log(
+        `Batch call ${createBatchCallDto.name}: ${blocked.size} recipient(s) on the do-not-call list`,
+      );
+    }
+
     return batchCall.save();
   }
 
@@ -99,16 +170,112 @@ export class BatchCallsService {
       batchCall.scheduledTime = new Date(updateBatchCallDto.scheduledTime);
     }
 
+    if (updateBatchCallDto.callingWindow) {
+      batchCall.callingWindow = await this.resolveCallingWindow(
+        companyId,
+        updateBatchCallDto.callingWindow,
+      );
+    }
+
+    if (updateBatchCallDto.leadSegment) {
+      batchCall.leadSegment = this.toLeadSegment(
+        updateBatchCallDto.leadSegment,
+      );
+    }
+
+    if (updateBatchCallDto.machineDetection) {
+      batchCall.machineDetection = {
+        ...updateBatchCallDto.machineDetection,
+        action:
+          updateBatchCallDto.machineDetection.action ??
+          MachineDetectionAction.HANG_UP,
+      };
+    }
+
     return batchCall.save();
   }
 
+  /**
+   * Validate the variants of an A/B test
+   */
+  private toAgentVariants(variants: AgentVariantDto[]): AgentVariant[] {
+    const names = new Set(variants.map((variant) => variant.name));
+
+    if (names.size !== variants.length) {
+      throw new BadRequestException('Agent variant names must be unique');
+    }
+
+    if (
+      variants.length > 0 &&
+      !variants.some((variant) => (variant.weight ?? 1) > 0)
+    ) {
+      throw new BadRequestException(
+        'At least one agent variant must have a positive weight',
+      );
+    }
+
+    return variants.map((variant) => ({
+      name: variant.name,
+      agentId: new Types.ObjectId(variant.agentId),
+      weight: variant.weight ?? 1,
+    }));
+  }
+
+  private toLeadSegment(leadSegment: LeadSegmentDto): LeadSegment {
+    return {
+      ...leadSegment,
+      assignedTo: leadSegment.assignedTo
+        ? new Types.ObjectId(leadSegment.assignedTo)
+        : undefined,
+      dynamic: leadSegment.dynamic ?? false,
+    };
+  }
+
+  /**
+   * Validate the calling window and fill in its timezone from company settings when not set
+   */
+  private async resolveCallingWindow(
+    companyId: string,
+    callingWindow: CallingWindowDto,
+  ): Promise<WorkingHours> {
+    // An end before the start is an overnight window; an equal one never opens
+    if (
+      parseTimeOfDay(callingWindow.start) === parseTimeOfDay(callingWindow.end)
+    ) {
+      throw new BadRequestException(
+        'Calling window must not end when it starts',
+      );
+    }
+
+    let timezone = callingWindow.timezone;
+
+    if (!timezone) {
+      const company = await this.companyModel
+        .findById(companyId)
+        .select('settings')
+        .lean();
+      timezone = company?.settings?.timezone || 'UTC';
+    }
+
+    return {
+      enabled: callingWindow.enabled,
+      timezone,
+      start: callingWindow.start,
+      end: callingWindow.end,
+      workDays: callingWindow.workDays,
+    };
+  }
+
   /**
    * Delete a batch call
    */
   async remove(companyId: string, id: string): Promise<void> {
     const batchCall = await this.findOne(companyId, id);
 
-    if (batchCall.status === BatchCallStatus.IN_PROGRESS) {
+    if (
+      batchCall.status === BatchCallStatus.IN_PROGRESS ||
+      batchCall.status === BatchCallStatus.PAUSED
+    ) {
       throw new BadRequestException('Cannot delete batch call in progress');
     }
 
@@ -125,7 +292,11 @@ export class BatchCallsService {
   /**
    * Cancel a batch call
    */
-  async cancel(companyId: string, id: string): Promise<BatchCallDocument> {
+  async cancel(
+    companyId: string,
+    id: string,
+    userId?: string,
+  ): Promise<BatchCallDocument> {
     const batchCall = await this.findOne(companyId, id);
 
     if (batchCall.status === BatchCallStatus.COMPLETED) {
@@ -146,90 +317,117 @@ export class BatchCallsService {
 
     batchCall.status = BatchCallStatus.CANCELLED;
     batchCall.completedAt = new Date();
+    batchCall.activityLog.push(
+      this.createEvent(BatchCallEventType.CANCELLED, userId),
+    );
 
     return batchCall.save();
   }
 
   /**
-   * Process scheduled batch calls
-   * Runs every minute to check for scheduled calls
+   * Pause a running batch call: calls in progress finish, no new recipients are dialed
    */
-  @Cron(CronExpression.EVERY_MINUTE)
-  async processScheduledBatchCalls() {
-    try {
-      const now = new Date();
-
-      const scheduledCalls = await this.batchCallModel.find({
-        status: BatchCallStatus.SCHEDULED,
-        scheduledTime: { $lte: now },
-      });
-
-      for (const batchCall of scheduledCalls) {
-        await this.processBatchCall(batchCall);
-      }
-    } catch (error) {
-      this.logger.error(`Error processing scheduled batch calls: ${error.message}`, error.stack);
+  async pause(
+    companyId: string,
+    id: string,
+    userId?: string,
+  ): Promise<BatchCallDocument> {
+    const batchCall = await this.changeStatus(
+      companyId,
+      id,
+      BatchCallStatus.IN_PROGRESS,
+      BatchCallStatus.PAUSED,
+      this.createEvent(BatchCallEventType.PAUSED, userId),
+    );
+
+    if (!batchCall) {
+      throw new BadRequestException('Can only pause batch calls in progress');
     }
+
+    this.logger.log(`Batch call paused: ${id}`);
+
+    return batchCall;
   }
 
   /**
-   * Process a single batch call
+   * Resume a paused batch call
    */
-  private async processBatchCall(batchCall: BatchCallDocument) {
-    try {
-      this.logger.log(`Starting batch call: ${batchCall._id}`);
-
-      batchCall.status = BatchCallStatus.IN_PROGRESS;
-      batchCall.startedAt = new Date();
-      await batchCall.save();
-
-      const companyId = batchCall.companyId.toString();
-
-      for (const recipient of batchCall.recipients) {
-        if (recipient.status !== RecipientCallStatus.PENDING) {
-          continue;
-        }
-
-        try {
-          recipient.status = RecipientCallStatus.CALLING;
-          recipient.calledAt = new Date();
-          await batchCall.save();
-
-          // Make outbound call
-          const result = await this.phoneService.makeOutboundCall(companyId, {
-            agent_id: batchCall.agentId.toString(),
-            agent_phone_number_id: batchCall.phoneNumberId.toString(),
-            to_number: recipient.phoneNumber,
-            lead_id: recipient.leadId?.toString(),
-          });
-
-          recipient.status = RecipientCallStatus.COMPLETED;
-          recipient.conversationId = new Types.ObjectId(result.data.conversation_id);
-          batchCall.completedCallsCount++;
-
-          this.logger.log(`Call completed for ${recipient.phoneNumber}`);
-        } catch (error) {
-          this.logger.error(`Failed to call ${recipient.phoneNumber}: ${error.message}`);
-          recipient.status = RecipientCallStatus.FAILED;
-          batchCall.failedCallsCount++;
-        }
-
-        await batchCall.save();
-
-        // Small delay between calls to avoid overwhelming the system
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-
-      batchCall.status = BatchCallStatus.COMPLETED;
-      batchCall.completedAt = new Date();
-      await batchCall.save();
+  async resume(
+    companyId: string,
+    id: string,
+    userId?: string,
+  ): Promise<BatchCallDocument> {
+    const batchCall = await this.changeStatus(
+      companyId,
+      id,
+      BatchCallStatus.PAUSED,
+      BatchCallStatus.IN_PROGRESS,
+      this.createEvent(BatchCallEventType.RESUMED, userId),
+    );
 
-      this.logger.log(`Batch call completed: ${batchCall._id}`);
-    } catch (error) {
-      this.logger.error(`Error processing batch call ${batchCall._id}: ${error.message}`, error.stack);
-      batchCall.status = BatchCallStatus.COMPLETED;
-      batchCall.completedAt = new Date();
-      await batchCall.save();
+    if (!batchCall) {
+      throw new BadRequestException('Can only resume paused batch calls');
     }
+
+    this.logger.log(`Batch call resumed: ${id}`);
+
+    // Fill the free call slots right away instead of waiting for the next tick
+    void this.campaignDialerService.dial();
+
+    return batchCall;
+  }
+
+  /**
+   * Get the activity log of a batch call, oldest event first
+   */
+  async getActivityLog(
+    companyId: string,
+    id: string,
+  ): Promise<BatchCallEvent[]> {
+    const batchCall = await this.findOne(companyId, id);
+
+    return batchCall.activityLog;
+  }
+
+  /**
+   * Atomically move a batch call between statuses and log the event.
+   * Returns null if the batch call is not in the expected status.
+   */
+  private async changeStatus(
+    companyId: string,
+    id: string,
+    from: BatchCallStatus,
+    to: BatchCallStatus,
+    event: BatchCallEvent,
+  ): Promise<BatchCallDocument | null> {
+    // Throws NotFoundException for unknown or foreign batch calls
+    await this.findOne(companyId, id);
+
+    return this.batchCallModel.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(id),
+        companyId: new Types.ObjectId(companyId),
+        status: from,
+      },
+      {
+        $set: { status: to },
+        $push: { activityLog: event },
+      },
+      { new: true },
+    );
+  }
+
+  private createEvent(
+    type: BatchCallEventType,
+    userId?: string,
+  ): BatchCallEvent {
+    return {
+      type,
+      occurredAt: new Date(),
+      userId:
+        userId && Types.ObjectId.isValid(userId)
+          ? new Types.ObjectId(userId)
+          : undefined,
+    };
   }
 }
@@ -0,0 +1,839 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  BatchCall,
+  BatchCallDocument,
+  BatchCallRecipient,
+  BatchCallEventType,
+  BatchCallStatus,
+  CallAttempt,
+  CallAttemptOutcome,
+  RecipientCallStatus,
+} from '../../schemas/batch-call.schema';
+import { Lead, LeadDocument } from '../../schemas/lead.schema';
+import { AnsweredBy } from '../../schemas/conversation.schema';
+import {
+  PhoneNumber,
+  PhoneNumberDocument,
+} from '../../schemas/phone-number.schema';
+import { isWithinWorkingHours } from '../../common/utils/working-hours.util';
+import { PhoneService } from '../phone/phone.service';
+import { CampaignSegmentService } from './campaign-segment.service';
+import { SipService, CallSession } from '../sip/sip.service';
+import {
+  DoNotCallService,
+  DoNotCallException,
+  DO_NOT_CALL_REASON,
+} from '../do-not-call/do-not-call.service';
+
+// Recipients whose call is currently in progress
+const ACTIVE_RECIPIENT_STATUSES = [
+  RecipientCallStatus.CALLING,
+  RecipientCallStatus.RINGING,
+  RecipientCallStatus.ANSWERED,
+];
+
+// Recipient-facing description of an unanswered attempt
+const OUTCOME_DESCRIPTIONS: Record<string, string> = {
+  [CallAttemptOutcome.BUSY]: 'Line is busy',
+  [CallAttemptOutcome.NO_ANSWER]: 'No answer',
+  [CallAttemptOutcome.FAILED]: 'Call could not be connected',
+  [CallAttemptOutcome.MACHINE]: 'Answered by an answering machine',
+};
+
+// How often a dynamic lead segment is checked for new leads
+const SEGMENT_SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Map the final SIP response of an unanswered call to an attempt outcome
+ */
+function classifyFailure(sipStatus?: number): CallAttemptOutcome {
+  switch (sipStatus) {
+    case 486: // Busy Here
+    case 600: // Busy Everywhere
+    case 603: // Decline
+      return CallAttemptOutcome.BUSY;
+    case 408: // Request Timeout
+    case 480: // Temporarily Unavailable
+    case 487: // Request Terminated (ring timeout)
+      return CallAttemptOutcome.NO_ANSWER;
+    default:
+      return CallAttemptOutcome.FAILED;
+  }
+}
+
+type CampaignRef = Pick<
+  BatchCall,
+  | 'companyId'
+  | 'agentId'
+  | 'phoneNumberId'
+  | 'callingWindow'
+  | 'leadSegment'
+  | 'segmentSyncedAt'
+  | 'agentVariants'
+  | 'machineDetection'
+> & { _id: Types.ObjectId };
+
+// Recipient filter of a campaign limited to recipients inside the calling window
+type RecipientFilter = Record<string, any>;
+
+/**
+ * Dials batch call recipients in parallel up to the concurrency limits
+ * (phone number sipConfig.maxSessions, company sipConfig.maxConcurrentCalls
+ * and the SIP trunk limit) and follows each call through its SIP events.
+ * Unanswered recipients, and those whose answering machine picked up, are
+ * requeued according to the campaign retry policy; every attempt is recorded
+ * on the recipient. Recipients are only dialed
+ * inside the campaign calling window, in their own local time, and never
+ * when their number is on the company do-not-call list. Lead segment
+ * campaigns take their recipients from the leads when they start; dynamic
+ * segments keep adding new matching leads and run until cancelled.
+ *
+ * All state lives in MongoDB and is changed with atomic updates, so
+ * campaigns continue where they stopped after a restart.
+ */
+@Injectable()
+export class CampaignDialerService implements OnModuleInit {
+  private readonly logger = new Logger(CampaignDialerService.name);
+
+  // SIP Call-ID -> batch call ID for calls placed by the dialer
+  private dialedCalls: Map<string, Types.ObjectId> = new Map();
+  // Placed calls until makeOutboundCall settles; a call only counts as active
+  // in SipService once its DB checks are done, so these hold its trunk session
+  private startingCalls: Set<string> = new Set();
+
+  private isDialing = false;
+  private dialAgain = false;
+
+  constructor(
+    @InjectModel(BatchCall.name)
+    private batchCallModel: Model<BatchCallDocument>,
+    @InjectModel(PhoneNumber.name)
+    private phoneNumberModel: Model<PhoneNumberDocument>,
+    @InjectModel(Lead.name)
+    private leadModel: Model<LeadDocument>,
+    private phoneService: PhoneService,
+    private sipService: SipService,
+    private doNotCallService: DoNotCallService,
+    private campaignSegmentService: CampaignSegmentService,
+  ) {
+    this.sipService.on('call:ringing', (session: CallSession) => {
+      void this.handleRinging(session);
+    });
+
+    this.sipService.on('call:connected', (session: CallSession) => {
+      void this.handleAnswered(session);
+    });
+
+    this.sipService.on('call:ended', (session: CallSession) => {
+      void this.handleAttemptFinished(
+        session.callId,
+        session.answeredBy === AnsweredBy.MACHINE
+          ? CallAttemptOutcome.MACHINE
+          : CallAttemptOutcome.ANSWERED,
+      );
+    });
+
+    this.sipService.on('call:failed', (session: CallSession) => {
+      void this.handleAttemptFinished(
+        session.callId,
+        classifyFailure(session.failureStatus),
+        { sipStatus: session.failureStatus },
+      );
+    });
+  }
+
+  async onModuleInit() {
+    try {
+      await this.recoverInterruptedCampaigns();
+    } catch (error) {
+      this.logger.error(
+        `Failed to recover interrupted campaigns: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Start due campaigns and fill free call slots.
+   * Also triggered whenever a campaign call finishes.
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async dial(): Promise<void> {
+    if (this.isDialing) {
+      this.dialAgain = true;
+      return;
+    }
+
+    this.isDialing = true;
+
+    try {
+      do {
+        this.dialAgain = false;
+
+        await this.startScheduledCampaigns();
+
+        const campaigns = await this.batchCallModel
+          .find({ status: BatchCallStatus.IN_PROGRESS })
+          .select(
+            'companyId agentId phoneNumberId callingWindow leadSegment segmentSyncedAt agentVariants machineDetection',
+          )
+          .lean<CampaignRef[]>();
+
+        for (const campaign of campaigns) {
+          await this.fillCampaign(campaign);
+        }
+      } while (this.dialAgain);
+    } catch (error) {
+      this.logger.error(
+        `Error dialing batch calls: ${(error as Error).message}`,
+        (error as Error).stack,
+      );
+    } finally {
+      this.isDialing = false;
+    }
+  }
+
+  /**
+   * Move scheduled campaigns whose time has come to IN_PROGRESS
+   */
+  private async startScheduledCampaigns(): Promise<void> {
+    const now = new Date();
+
+    const result = await this.batchCallModel.updateMany(
+      {
+        status: BatchCallStatus.SCHEDULED,
+        scheduledTime: { $lte: now },
+      },
+      {
+        $set: { status: BatchCallStatus.IN_PROGRESS, startedAt: now },
+        $push: {
+          activityLog: { type: BatchCallEventType.STARTED, occurredAt: now },
+        },
+      },
+    );
+
+    if (result.modifiedCount > 0) {
+      this.logger.log(`Started ${result.modifiedCount} batch call(s)`);
+    }
+  }
+
+  /**
+   * Dial pending recipients of a campaign while call slots are available
+   */
+  private async fillCampaign(campaign: CampaignRef): Promise<void> {
+    const phoneNumber = await this.phoneNumberModel.findById(
+      campaign.phoneNumberId,
+    );
+
+    if (!phoneNumber || !phoneNumber.isActive) {
+      this.logger.warn(
+        `Batch call ${campaign._id.toString()}: phone number is missing or inactive, waiting`,
+      );
+      return;
+    }
+
+    if (this.isSegmentSyncDue(campaign)) {
+      await this.campaignSegmentService.syncRecipients(campaign._id);
+    }
+
+    const windowFilter = await this.getCallingWindowFilter(campaign);
+    if (!windowFilter) {
+      // Nobody can be called right now; the campaign resumes when the window opens
+      return;
+    }
+
+    await this.skipDoNotCallRecipients(campaign);
+
+    while (!this.sipService.isMaxSessionsReached(this.countStartingCalls())) {
+      if (!(await this.phoneService.reserveCallSlot(phoneNumber))) {
+        return;
+      }
+
+      const recipient = await this.claimNextRecipient(
+        campaign._id,
+        windowFilter,
+      );
+
+      if (!recipient) {
+        await this.phoneService.releaseCallSlot(phoneNumber);
+        await this.completeIfFinished(campaign._id);
+        return;
+      }
+
+      this.placeCall(campaign, recipient);
+    }
+  }
+
+  /**
+   * A segment is resolved once when the campaign starts;
+   * a dynamic one is checked again every SEGMENT_SYNC_INTERVAL_MS
+   */
+  private isSegmentSyncDue(campaign: CampaignRef): boolean {
+    if (!campaign.leadSegment) return false;
+    if (!campaign.segmentSyncedAt) return true;
+
+    return (
+      campaign.leadSegment.dynamic &&
+      Date.now() - campaign.segmentSyncedAt.getTime() >=
+        SEGMENT_SYNC_INTERVAL_MS
+    );
+  }
+
+  /**
+   * Restrict dialing to recipients whose local time is inside the calling window.
+   * Returns null when the window is closed for every recipient timezone.
+   */
+  private async getCallingWindowFilter(
+    campaign: CampaignRef,
+  ): Promise<RecipientFilter | null> {
+    const callingWindow = campaign.callingWindow;
+    if (!callingWindow?.enabled) {
+      return {};
+    }
+
+    const now = new Date();
+    const recipientTimezones: string[] = await this.batchCallModel.distinct(
+      'recipients.timezone',
+      { _id: campaign._id },
+    );
+
+    const openTimezones: (string | null)[] = recipientTimezones.filter(
+      (timezone) => isWithinWorkingHours(callingWindow, now, timezone),
+    );
+
+    // Recipients without a timezone follow the campaign timezone
+    if (isWithinWorkingHours(callingWindow, now)) {
+      openTimezones.push(null);
+    }
+
+    if (openTimezones.length === 0) {
+      return null;
+    }
+
+    return { timezone: { $in: openTimezones } };
+  }
+
+  /**
+   * Mark pending recipients whose number was put on the do-not-call list
+   * after the campaign was created, so they are never claimed
+   */
+  private async skipDoNotCallRecipients(campaign: CampaignRef): Promise<void> {
+    const [pending] = await this.batchCallModel.aggregate<{
+      phoneNumbers: string[];
+    }>([
+      { $match: { _id: campaign._id } },
+      {
+        $project: {
+          phoneNumbers: {
+            $map: {
+              input: {
+                $filter: {
+                  input: '$recipients',
+                  cond: { $eq: ['$$this.status', RecipientCallStatus.PENDING] },
+                },
+              },
+              in: '$$this.phoneNumber',
+            },
+          },
+        },
+      },
+    ]);
+
+    const blocked = await this.doNotCallService.findBlocked(
+      campaign.companyId,
+      pending?.phoneNumbers || [],
+    );
+
+    if (blocked.size === 0) return;
+
+    await this.batchCallModel.updateOne(
+      { _id: campaign._id },
+      {
+        $set: {
+          'recipients.$[recipient].status': RecipientCallStatus.DO_NOT_CALL,
+          'recipients.$[recipient].failureReason': DO_NOT_CALL_REASON,
+        },
+      },
+      {
+        arrayFilters: [
+          {
+            'recipient.status': RecipientCallStatus.PENDING,
+            'recipient.phoneNumber': { $in: [...blocked] },
+          },
+        ],
+      },
+    );
+
+    this.logger.log(
+      `Batch call ${campaign._id.toString()}: skipped ${blocked.size} number(s) on the do-not-call list`,
+    );
+  }
+
+  /**
+   * Atomically move the next pending recipient whose retry is due to CALLING,
+   * assign it the Call-ID of the upcoming call and open a new attempt
+   */
+  private async claimNextRecipient(
+    batchCallId: Types.ObjectId,
+    windowFilter: RecipientFilter,
+  ): Promise<BatchCallRecipient | null> {
+    const callId = this.sipService.generateCallId();
+    const now = new Date();
+    const attempt: CallAttempt = { callId, startedAt: now };
+
+    const batchCall = await this.batchCallModel
+      .findOneAndUpdate(
+        {
+          _id: batchCallId,
+          status: BatchCallStatus.IN_PROGRESS,
+          recipients: {
+            $elemMatch: {
+              status: RecipientCallStatus.PENDING,
+              nextAttemptAt: { $not: { $gt: now } },
+              ...windowFilter,
+            },
+          },
+        },
+        {
+          $set: {
+            'recipients.$.status': RecipientCallStatus.CALLING,
+            'recipients.$.callId': callId,
+            'recipients.$.calledAt': now,
+          },
+          $unset: {
+            'recipients.$.endedAt': '',
+            'recipients.$.failureReason': '',
+          },
+          $inc: { 'recipients.$.attemptsCount': 1 },
+          $push: { 'recipients.$.attempts': attempt },
+        },
+        {
+          new: true,
+          projection: { recipients: { $elemMatch: { callId } } },
+        },
+      )
+      .lean();
+
+    const recipient = batchCall?.recipients[0];
+    if (!recipient) return null;
+
+    if (recipient.leadId) {
+      await this.recordLeadContact(recipient.leadId, now);
+    }
+
+    return recipient;
+  }
+
+  /**
+   * Keep the lead's contact counters in step with the attempts made
+   */
+  private async recordLeadContact(
+    leadId: Types.ObjectId,
+    contactedAt: Date,
+  ): Promise<void> {
+    try {
+      await this.leadModel.updateOne(
+        { _id: leadId },
+        {
+          $inc: { contactAttempts: 1 },
+          $set: { lastContactedAt: contactedAt },
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to update contact attempts of lead ${leadId.toString()}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Start the call without waiting for it: progress is tracked via SIP events
+   */
+  private placeCall(
+    campaign: CampaignRef,
+    recipient: BatchCallRecipient,
+  ): void {
+    const callId = recipient.callId!;
+    this.dialedCalls.set(callId, campaign._id);
+    this.startingCalls.add(callId);
+
+    this.logger.log(
+      `Batch call ${campaign._id.toString()}: dialing ${recipient.phoneNumber} (${callId})`,
+    );
+
+    this.phoneService
+      .makeOutboundCall(
+        campaign.companyId.toString(),
+        {
+          agent_id: this.getRecipientAgentId(campaign, recipient).toString(),
+          agent_phone_number_id: campaign.phoneNumberId.toString(),
+          to_number: recipient.phoneNumber,
+          lead_id: recipient.leadId?.toString(),
+        },
+        {
+          callId,
+          slotReserved: true,
+          recipient: {
+            name: recipient.name,
+            customVariables: recipient.customVariables,
+          },
+          machineDetection: campaign.machineDetection?.enabled
+            ? campaign.machineDetection
+            : undefined,
+        },
+      )
+      .then((result) => {
+        const conversationId = new Types.ObjectId(result.data.conversation_id);
+
+        return this.updateAttempt(
+          callId,
+          [...ACTIVE_RECIPIENT_STATUSES, RecipientCallStatus.COMPLETED],
+          { conversationId },
+          { conversationId },
+        );
+      })
+      .catch((error) =>
+        // Covers failures before the SIP call started (no call:failed event)
+        error instanceof DoNotCallException
+          ? this.handleDoNotCall(callId)
+          : this.handleAttemptFinished(
+              callId,
+              CallAttemptOutcome.FAILED,
+              { failureReason: (error as Error).message },
+              [RecipientCallStatus.CALLING],
+            ),
+      )
+      .finally(() => this.startingCalls.delete(callId));
+  }
+
+  /**
+   * Placed calls that do not hold a SIP session yet
+   */
+  private countStartingCalls(): number {
+    return [...this.startingCalls].filter(
+      (callId) => !this.sipService.getCall(callId),
+    ).length;
+  }
+
+  /**
+   * The number was put on the do-not-call list after it was claimed:
+   * close the attempt and never call the recipient again
+   */
+  private async handleDoNotCall(callId: string): Promise<void> {
+    const batchCallId = this.dialedCalls.get(callId);
+    if (!batchCallId) return;
+
+    try {
+      const endedAt = new Date();
+      const updated = await this.updateAttempt(
+        callId,
+        [RecipientCallStatus.CALLING],
+        {
+          status: RecipientCallStatus.DO_NOT_CALL,
+          endedAt,
+          failureReason: DO_NOT_CALL_REASON,
+        },
+        {
+          outcome: CallAttemptOutcome.FAILED,
+          endedAt,
+          failureReason: DO_NOT_CALL_REASON,
+        },
+      );
+
+      if (!updated) return;
+
+      this.dialedCalls.delete(callId);
+      await this.completeIfFinished(batchCallId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record result of batch call ${callId}: ${(error as Error).message}`,
+      );
+    }
+
+    void this.dial();
+  }
+
+  /**
+   * The agent of the recipient's A/B variant, or the campaign agent
+   */
+  private getRecipientAgentId(
+    campaign: CampaignRef,
+    recipient: BatchCallRecipient,
+  ): Types.ObjectId {
+    const variant = campaign.agentVariants?.find(
+      (v) => v.name === recipient.variant,
+    );
+
+    return variant?.agentId || campaign.agentId;
+  }
+
+  private async handleRinging(session: CallSession): Promise<void> {
+    if (!this.dialedCalls.has(session.callId)) return;
+
+    await this.updateAttempt(session.callId, [RecipientCallStatus.CALLING], {
+      status: RecipientCallStatus.RINGING,
+    });
+  }
+
+  private async handleAnswered(session: CallSession): Promise<void> {
+    if (!this.dialedCalls.has(session.callId)) return;
+
+    const answeredAt = session.answeredAt || new Date();
+
+    await this.updateAttempt(
+      session.callId,
+      [RecipientCallStatus.CALLING, RecipientCallStatus.RINGING],
+      { status: RecipientCallStatus.ANSWERED, answeredAt },
+      { answeredAt },
+    );
+  }
+
+  /**
+   * Close the current attempt of a recipient: complete it, schedule a retry
+   * or give up, then free its place for the next one
+   */
+  private async handleAttemptFinished(
+    callId: string,
+    outcome: CallAttemptOutcome,
+    details: { sipStatus?: number; failureReason?: string } = {},
+    fromStatuses: RecipientCallStatus[] = ACTIVE_RECIPIENT_STATUSES,
+  ): Promise<void> {
+    const batchCallId = this.dialedCalls.get(callId);
+    if (!batchCallId) return;
+
+    try {
+      const endedAt = new Date();
+      let updated: boolean;
+
+      if (outcome === CallAttemptOutcome.ANSWERED) {
+        updated = await this.updateAttempt(
+          callId,
+          fromStatuses,
+          { status: RecipientCallStatus.COMPLETED, endedAt },
+          { outcome, endedAt },
+          { completedCallsCount: 1 },
+        );
+      } else {
+        const failureReason =
+          details.failureReason ||
+          OUTCOME_DESCRIPTIONS[outcome] +
+            (details.sipStatus ? ` (SIP ${details.sipStatus})` : '');
+        const attempt = {
+          outcome,
+          endedAt,
+          failureReason,
+          ...(details.sipStatus && { sipStatus: details.sipStatus }),
+        };
+        const nextAttemptAt = await this.getNextAttemptTime(
+          batchCallId,
+          callId,
+          outcome,
+        );
+
+        updated = nextAttemptAt
+          ? await this.updateAttempt(
+              callId,
+              fromStatuses,
+              {
+                status: RecipientCallStatus.PENDING,
+                nextAttemptAt,
+                endedAt,
+                failureReason,
+              },
+              attempt,
+            )
+          : await this.updateAttempt(
+              callId,
+              fromStatuses,
+              { status: RecipientCallStatus.FAILED, endedAt, failureReason },
+              attempt,
+              { failedCallsCount: 1 },
+            );
+
+        if (updated && nextAttemptAt) {
+          this.logger.log(
+            `Batch call ${batchCallId.toString()}: ${failureReason} on ${callId}, retrying at ${nextAttemptAt.toISOString()}`,
+          );
+        }
+      }
+
+      if (!updated) return;
+
+      this.dialedCalls.delete(callId);
+      await this.completeIfFinished(batchCallId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record result of batch call ${callId}: ${(error as Error).message}`,
+      );
+    }
+
+    // A slot is free now - dial the next recipient right away
+    void this.dial();
+  }
+
+  /**
+   * When the recipient may be called again under the campaign retry policy,
+   * or null once the outcome is final or attempts are exhausted
+   */
+  private async getNextAttemptTime(
+    batchCallId: Types.ObjectId,
+    callId: string,
+    outcome: CallAttemptOutcome,
+  ): Promise<Date | null> {
+    const batchCall = await this.batchCallModel
+      .findById(batchCallId, {
+        retryPolicy: 1,
+        recipients: { $elemMatch: { callId } },
+      })
+      .lean();
+
+    const policy = batchCall?.retryPolicy;
+    const recipient = batchCall?.recipients[0];
+
+    if (
+      !policy ||
+      !recipient ||
+      !policy.retryOn.includes(outcome) ||
+      recipient.attemptsCount >= policy.maxAttempts
+    ) {
+      return null;
+    }
+
+    const delayMinutes =
+      policy.retryIntervalMinutes *
+      Math.pow(policy.backoffMultiplier || 1, recipient.attemptsCount - 1);
+
+    return new Date(Date.now() + delayMinutes * 60 * 1000);
+  }
+
+  /**
+   * Atomically update the recipient of a call, and optionally its attempt,
+   * if the recipient is in one of the given states
+   */
+  private async updateAttempt(
+    callId: string,
+    fromStatuses: RecipientCallStatus[],
+    recipient: Partial<BatchCallRecipient>,
+    attempt?: Partial<CallAttempt>,
+    inc?: Record<string, number>,
+  ): Promise<boolean> {
+    const set: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(recipient)) {
+      set[`recipients.$[recipient].${key}`] = value;
+    }
+    for (const [key, value] of Object.entries(attempt || {})) {
+      set[`recipients.$[recipient].attempts.$[attempt].${key}`] = value;
+    }
+
+    const result = await this.batchCallModel.updateOne(
+      {
+        recipients: {
+          $elemMatch: { callId, status: { $in: fromStatuses } },
+        },
+      },
+      { $set: set, ...(inc && { $inc: inc }) },
+      {
+        arrayFilters: [
+          { 'recipient.callId': callId },
+          ...(attempt ? [{ 'attempt.callId': callId }] : []),
+        ],
+      },
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Mark a running campaign as completed once no recipient is pending or in a call.
+   * Dynamic segment campaigns wait for new leads instead.
+   */
+  private async completeIfFinished(batchCallId: Types.ObjectId): Promise<void> {
+    const now = new Date();
+
+    const result = await this.batchCallModel.updateOne(
+      {
+        _id: batchCallId,
+        status: BatchCallStatus.IN_PROGRESS,
+        'leadSegment.dynamic': { $ne: true },
+        recipients: {
+          $not: {
+            $elemMatch: {
+              status: {
+                $in: [
+                  RecipientCallStatus.PENDING,
+                  ...ACTIVE_RECIPIENT_STATUSES,
+                ],
+              },
+            },
+          },
+        },
+      },
+      {
+        $set: { status: BatchCallStatus.COMPLETED, completedAt: now },
+        $push: {
+          activityLog: { type: BatchCallEventType.COMPLETED, occurredAt: now },
+        },
+      },
+    );
+
+    if (result.modifiedCount > 0) {
+      this.logger.log(`Batch call completed: ${batchCallId.toString()}`);
+    }
+  }
+
+  /**
+   * Calls do not survive a restart: requeue recipients that were still
+   * being dialed and close the ones that had already been answered
+   */
+  private async recoverInterruptedCampaigns(): Promise<void> {
+    const campaigns = await this.batchCallModel.find({
+      status: { $in: [BatchCallStatus.IN_PROGRESS, BatchCallStatus.PAUSED] },
+      'recipients.status': { $in: ACTIVE_RECIPIENT_STATUSES },
+    });
+
+    for (const campaign of campaigns) {
+      let requeued = 0;
+      let interrupted = 0;
+
+      for (const recipient of campaign.recipients) {
+        const attempt = recipient.attempts?.[recipient.attempts.length - 1];
+
+        if (
+          recipient.status === RecipientCallStatus.CALLING ||
+          recipient.status === RecipientCallStatus.RINGING
+        ) {
+          // The interrupted attempt stays in the history; the recipient is dialed again
+          if (attempt && !attempt.outcome) {
+            attempt.outcome = CallAttemptOutcome.FAILED;
+            attempt.endedAt = new Date();
+            attempt.failureReason = 'Call interrupted by server restart';
+          }
+          recipient.status = RecipientCallStatus.PENDING;
+          recipient.callId = undefined;
+          requeued++;
+        } else if (recipient.status === RecipientCallStatus.ANSWERED) {
+          recipient.status = RecipientCallStatus.COMPLETED;
+          recipient.endedAt = new Date();
+          recipient.failureReason = 'Call interrupted by server restart';
+          if (attempt && !attempt.outcome) {
+            attempt.outcome = CallAttemptOutcome.ANSWERED;
+            attempt.endedAt = recipient.endedAt;
+            attempt.failureReason = recipient.failureReason;
+          }
+          campaign.completedCallsCount++;
+          interrupted++;
+        }
+      }
+
+      await campaign.save();
+
+      this.logger.log(
+        `Batch call ${(campaign._id as Types.ObjectId).toString()} resumed: ${requeued} recipient(s) requeued, ${interrupted} interrupted call(s) closed`,
+      );
+    }
+  }
+}
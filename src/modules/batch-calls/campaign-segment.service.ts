@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  BatchCall,
+  BatchCallDocument,
+  BatchCallRecipient,
+  LeadSegment,
+  RecipientCallStatus,
+} from '../../schemas/batch-call.schema';
+import { Lead, LeadDocument } from '../../schemas/lead.schema';
+import { normalizePhoneNumber } from '../../common/utils/phone.util';
+import { LeadService } from '../lead/lead.service';
+import {
+  DoNotCallService,
+  DO_NOT_CALL_REASON,
+} from '../do-not-call/do-not-call.service';
+import { LeadSegmentDto } from './dto/lead-segment.dto';
+import { pickAgentVariant } from './agent-variant.util';
+
+// Same limit as a recipient import
+const MAX_RECIPIENTS = 10000;
+
+type SegmentLead = Pick<Lead, 'firstName' | 'lastName' | 'phone'> & {
+  _id: Types.ObjectId;
+};
+
+/**
+ * Turns the lead segment of a campaign into recipients
+ */
+@Injectable()
+export class CampaignSegmentService {
+  private readonly logger = new Logger(CampaignSegmentService.name);
+
+  constructor(
+    @InjectModel(BatchCall.name)
+    private batchCallModel: Model<BatchCallDocument>,
+    @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
+    private leadService: LeadService,
+    private doNotCallService: DoNotCallService,
+  ) {}
+
+  /**
+   * How many leads a segment matches right now, with a sample of them
+   */
+  async preview(
+    companyId: string,
+    segment: LeadSegmentDto,
+  ): Promise<{ total: number; leads: SegmentLead[] }> {
+    const query = this.buildQuery(new Types.ObjectId(companyId), segment);
+
+    const [total, leads] = await Promise.all([
+      this.leadModel.countDocuments(query),
+      this.leadModel
+        .find(query)
+        .select('firstName lastName phone status score tags nextFollowUpAt')
+        .sort({ createdAt: 1 })
+        .limit(20)
+        .lean<SegmentLead[]>(),
+    ]);
+
+    return { total, leads };
+  }
+
+  /**
+   * Add leads of the campaign segment that are not recipients yet.
+   * Leads are linked by leadId, so their fields reach the agent templates.
+   * Returns the number of recipients added.
+   */
+  async syncRecipients(batchCallId: Types.ObjectId): Promise<number> {
+    const batchCall = await this.batchCallModel
+      .findById(batchCallId)
+      .select(
+        'companyId leadSegment agentVariants recipients.leadId recipients.phoneNumber',
+      )
+      .lean();
+
+    if (!batchCall?.leadSegment) {
+      return 0;
+    }
+
+    const now = new Date();
+    const knownLeadIds = batchCall.recipients
+      .map((recipient) => recipient.leadId)
+      .filter((leadId): leadId is Types.ObjectId => !!leadId);
+    const knownPhones = new Set(
+      batchCall.recipients.map((recipient) =>
+        this.phoneKey(recipient.phoneNumber),
+      ),
+    );
+    const limit = MAX_RECIPIENTS - batchCall.recipients.length;
+
+    const leads =
+      limit > 0
+        ? await this.leadModel
+            .find({
+              ...this.buildQuery(batchCall.companyId, batchCall.leadSegment),
+              _id: { $nin: knownLeadIds },
+            })
+            .select('firstName lastName phone')
+            .sort({ createdAt: 1 })
+            .limit(limit)
+            .lean<SegmentLead[]>()
+        : [];
+
+    // The same person may be a lead twice; call each number once
+    const newLeads = leads.filter((lead) => {
+      const key = this.phoneKey(lead.phone);
+      if (knownPhones.has(key)) return false;
+      knownPhones.add(key);
+      return true;
+    });
+
+    const blocked = await this.doNotCallService.findBlocked(
+      batchCall.companyId,
+      newLeads.map((lead) => lead.phone),
+    );
+
+    const recipients: Partial<BatchCallRecipient>[] = newLeads.map((lead) => ({
+      phoneNumber: lead.phone,
+      name: `${lead.firstName} ${lead.lastName}`.trim(),
+      leadId: lead._id,
+      variant: pickAgentVariant(
+        batchCall.agentVariants || [],
+        batchCallId,
+        lead.phone,
+      )?.name,
+      ...(blocked.has(lead.phone)
+        ? {
+            status: RecipientCallStatus.DO_NOT_CALL,
+            failureReason: DO_NOT_CALL_REASON,
+          }
+        : { status: RecipientCallStatus.PENDING }),
+      customVariables: {},
+    }));
+
+    await this.batchCallModel.updateOne(
+      { _id: batchCallId },
+      {
+        $set: { segmentSyncedAt: now },
+        ...(recipients.length > 0 && {
+          $push: { recipients: { $each: recipients } },
+          $inc: { totalRecipientsCount: recipients.length },
+        }),
+      },
+    );
+
+    if (recipients.length > 0) {
+      this.logger.log(
+        `Batch call ${batchCallId.toString()}: added ${recipients.length} recipient(s) from the lead segment`,
+      );
+    }
+
+    return recipients.length;
+  }
+
+  private buildQuery(
+    companyId: Types.ObjectId,
+    segment: LeadSegment | LeadSegmentDto,
+  ) {
+    return {
+      ...this.leadService.buildLeadQuery(companyId, {
+        status: segment.status,
+        source: segment.source,
+        tags: segment.tags,
+        minScore: segment.minScore,
+        maxScore: segment.maxScore,
+        followUpDue: segment.followUpDue,
+        assignedTo: segment.assignedTo
+          ? new Types.ObjectId(segment.assignedTo)
+          : undefined,
+      }),
+      isActive: true,
+    };
+  }
+
+  private phoneKey(phoneNumber: string): string {
+    return normalizePhoneNumber(phoneNumber) || phoneNumber;
+  }
+}
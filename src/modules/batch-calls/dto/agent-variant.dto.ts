@@ -0,0 +1,24 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class AgentVariantDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @IsMongoId()
+  agentId: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  weight?: number;
+}
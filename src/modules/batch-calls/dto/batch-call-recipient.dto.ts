@@ -1,14 +1,29 @@
-import { IsString, IsNotEmpty, IsMongoId, IsOptional, IsObject } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsMongoId,
+  IsOptional,
+  IsObject,
+  IsTimeZone,
+} from 'class-validator';
 
 export class BatchCallRecipientDto {
   @IsString()
   @IsNotEmpty()
   phoneNumber: string;
 
+  @IsString()
+  @IsOptional()
+  name?: string;
+
   @IsMongoId()
   @IsOptional()
   leadId?: string;
 
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
   @IsObject()
   @IsOptional()
   customVariables?: Record<string, any>;
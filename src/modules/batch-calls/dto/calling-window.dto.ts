@@ -0,0 +1,38 @@
+import {
+  IsBoolean,
+  IsOptional,
+  IsTimeZone,
+  Matches,
+  IsArray,
+  ArrayNotEmpty,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Calling window in the WorkingHours shape; the timezone defaults to the company timezone
+ */
+export class CallingWindowDto {
+  @IsBoolean()
+  enabled: boolean;
+
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @Matches(TIME_OF_DAY, { message: 'start must be in HH:mm format' })
+  start: string;
+
+  @Matches(TIME_OF_DAY, { message: 'end must be in HH:mm format' })
+  end: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  workDays: number[];
+}
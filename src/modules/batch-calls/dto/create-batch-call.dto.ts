@@ -1,15 +1,39 @@
-import { IsString, IsNotEmpty, IsMongoId, IsOptional, IsArray, ValidateNested, IsDateString } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsMongoId,
+  IsOptional,
+  IsArray,
+  ValidateNested,
+  IsDateString,
+  ValidateIf,
+  ArrayMinSize,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { BatchCallRecipientDto } from './batch-call-recipient.dto';
+import { RetryPolicyDto } from './retry-policy.dto';
+import { CallingWindowDto } from './calling-window.dto';
+import { LeadSegmentDto } from './lead-segment.dto';
+import { MachineDetectionDto } from './machine-detection.dto';
+import { AgentVariantDto } from './agent-variant.dto';
 
 export class CreateBatchCallDto {
   @IsString()
   @IsNotEmpty()
   name: string;
 
+  // Optional for an A/B test, where the first variant becomes the campaign agent
+  @ValidateIf((dto: CreateBatchCallDto) => !dto.agentVariants)
   @IsMongoId()
   @IsNotEmpty()
-  agentId: string;
+  agentId?: string;
+
+  @IsArray()
+  @ArrayMinSize(2)
+  @ValidateNested({ each: true })
+  @Type(() => AgentVariantDto)
+  @IsOptional()
+  agentVariants?: AgentVariantDto[];
 
   @IsMongoId()
   @IsNotEmpty()
@@ -19,8 +43,33 @@ export class CreateBatchCallDto {
   @IsOptional()
   scheduledTime?: string;
 
+  // Optional when the campaign calls a lead segment
+  @ValidateIf(
+    (dto: CreateBatchCallDto) =>
+      !dto.leadSegment || dto.recipients !== undefined,
+  )
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => BatchCallRecipientDto)
-  recipients: BatchCallRecipientDto[];
+  recipients?: BatchCallRecipientDto[];
+
+  @ValidateNested()
+  @Type(() => LeadSegmentDto)
+  @IsOptional()
+  leadSegment?: LeadSegmentDto;
+
+  @ValidateNested()
+  @Type(() => CallingWindowDto)
+  @IsOptional()
+  callingWindow?: CallingWindowDto;
+
+  @ValidateNested()
+  @Type(() => RetryPolicyDto)
+  @IsOptional()
+  retryPolicy?: RetryPolicyDto;
+
+  @ValidateNested()
+  @Type(() => MachineDetectionDto)
+  @IsOptional()
+  machineDetection?: MachineDetectionDto;
 }
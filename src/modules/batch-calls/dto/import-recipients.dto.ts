@@ -0,0 +1,40 @@
+import { IsString, IsOptional, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+/**
+ * Which spreadsheet columns hold the recipient fields.
+ * Unmapped columns become customVariables.
+ */
+export class RecipientColumnMappingDto {
+  @IsString()
+  @IsOptional()
+  phone?: string;
+
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  leadId?: string;
+
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+}
+
+export class ImportRecipientsDto {
+  // Sent as a JSON string next to the file in multipart/form-data
+  @Transform(({ value }): unknown => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  })
+  @ValidateNested()
+  @Type(() => RecipientColumnMappingDto)
+  @IsOptional()
+  mapping?: RecipientColumnMappingDto;
+}
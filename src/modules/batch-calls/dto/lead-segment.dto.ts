@@ -0,0 +1,54 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsArray,
+  IsString,
+  IsInt,
+  IsBoolean,
+  IsMongoId,
+  Min,
+  Max,
+} from 'class-validator';
+import { LeadSource, LeadStatus } from '../../../schemas/lead.schema';
+
+/**
+ * Lead filters of a campaign; the same set as the lead list supports
+ */
+export class LeadSegmentDto {
+  @IsEnum(LeadStatus)
+  @IsOptional()
+  status?: LeadStatus;
+
+  @IsEnum(LeadSource)
+  @IsOptional()
+  source?: LeadSource;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  minScore?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  maxScore?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  followUpDue?: boolean;
+
+  @IsMongoId()
+  @IsOptional()
+  assignedTo?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  dynamic?: boolean;
+}
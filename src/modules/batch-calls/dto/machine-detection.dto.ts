@@ -0,0 +1,29 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { MachineDetectionAction } from '../../../schemas/batch-call.schema';
+
+export class MachineDetectionDto {
+  @IsBoolean()
+  enabled: boolean;
+
+  @IsEnum(MachineDetectionAction)
+  @IsOptional()
+  action?: MachineDetectionAction;
+
+  // Required to leave a voicemail; may use {{variables}}
+  @ValidateIf(
+    (dto: MachineDetectionDto) =>
+      dto.action === MachineDetectionAction.LEAVE_VOICEMAIL,
+  )
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  voicemailMessage?: string;
+}
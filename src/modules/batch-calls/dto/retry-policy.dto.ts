@@ -0,0 +1,41 @@
+import {
+  IsInt,
+  IsOptional,
+  IsArray,
+  IsIn,
+  IsNumber,
+  Min,
+  Max,
+} from 'class-validator';
+import { CallAttemptOutcome } from '../../../schemas/batch-call.schema';
+
+export const RETRYABLE_OUTCOMES = [
+  CallAttemptOutcome.BUSY,
+  CallAttemptOutcome.NO_ANSWER,
+  CallAttemptOutcome.FAILED,
+  CallAttemptOutcome.MACHINE,
+];
+
+export class RetryPolicyDto {
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  @IsOptional()
+  maxAttempts?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  retryIntervalMinutes?: number;
+
+  @IsNumber()
+  @Min(1)
+  @Max(10)
+  @IsOptional()
+  backoffMultiplier?: number;
+
+  @IsArray()
+  @IsIn(RETRYABLE_OUTCOMES, { each: true })
+  @IsOptional()
+  retryOn?: CallAttemptOutcome[];
+}
@@ -0,0 +1,13 @@
+import { IsMongoId, IsNotEmpty, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { BatchCallRecipientDto } from './batch-call-recipient.dto';
+
+export class TemplatePreviewDto {
+  @IsMongoId()
+  @IsNotEmpty()
+  agentId: string;
+
+  @ValidateNested()
+  @Type(() => BatchCallRecipientDto)
+  recipient: BatchCallRecipientDto;
+}
@@ -1,4 +1,13 @@
-import { IsString, IsOptional, IsDateString } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsDateString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { CallingWindowDto } from './calling-window.dto';
+import { LeadSegmentDto } from './lead-segment.dto';
+import { MachineDetectionDto } from './machine-detection.dto';
 
 export class UpdateBatchCallDto {
   @IsString()
@@ -8,4 +17,19 @@ export class UpdateBatchCallDto {
   @IsDateString()
   @IsOptional()
   scheduledTime?: string;
+
+  @ValidateNested()
+  @Type(() => CallingWindowDto)
+  @IsOptional()
+  callingWindow?: CallingWindowDto;
+
+  @ValidateNested()
+  @Type(() => LeadSegmentDto)
+  @IsOptional()
+  leadSegment?: LeadSegmentDto;
+
+  @ValidateNested()
+  @Type(() => MachineDetectionDto)
+  @IsOptional()
+  machineDetection?: MachineDetectionDto;
 }
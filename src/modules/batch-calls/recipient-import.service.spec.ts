@@ -0,0 +1,159 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import * as XLSX from 'xlsx';
+import { RecipientImportService } from './recipient-import.service';
+
+function csvFile(content: string, name = 'contacts.csv'): Express.Multer.File {
+  return {
+    originalname: name,
+    mimetype: 'text/csv',
+    buffer: Buffer.from(content, 'utf8'),
+  } as Express.Multer.File;
+}
+
+describe('RecipientImportService', () => {
+  let service: RecipientImportService;
+
+  beforeEach(() => {
+    service = new RecipientImportService();
+  });
+
+  it('should recognize Russian headers and normalize phone numbers', () => {
+    const report = service.parse(
+      csvFile(
+        '\uFEFFТелефон,ФИО,Город\n8 (916) 123-45-67,Иван Петров,Казань\n9161234568,,\n',
+      ),
+    );
+
+    expect(report.mapping).toEqual({
+      phone: 'Телефон',
+      name: 'ФИО',
+      leadId: undefined,
+      timezone: undefined,
+    });
+    expect(report.recipients).toEqual([
+      {
+        phoneNumber: '+79161234567',
+        name: 'Иван Петров',
+        leadId: undefined,
+        timezone: undefined,
+        customVariables: { Город: 'Казань' },
+      },
+      {
+        phoneNumber: '+79161234568',
+        name: undefined,
+        leadId: undefined,
+        timezone: undefined,
+        customVariables: {},
+      },
+    ]);
+  });
+
+  it('should report invalid and duplicate rows with their row numbers', () => {
+    const leadId = new Types.ObjectId().toString();
+    const report = service.parse(
+      csvFile(
+        [
+          'phone,lead_id,tz',
+          `+79161234567,${leadId},Europe/Moscow`,
+          ',,',
+          ',,Asia/Almaty',
+          '12345,not-an-id,Mars/Olympus',
+          '8 916 123 45 67,,',
+        ].join('\n'),
+      ),
+    );
+
+    expect(report).toEqual(
+      expect.objectContaining({
+        totalRows: 4, // the blank row is skipped
+        validCount: 1,
+        invalidCount: 2,
+        duplicateCount: 1,
+      }),
+    );
+    expect(report.recipients[0]).toEqual(
+      expect.objectContaining({ leadId, timezone: 'Europe/Moscow' }),
+    );
+    expect(report.rows).toEqual([
+      { row: 2, status: 'valid', phoneNumber: '+79161234567', errors: [] },
+      // Row numbers of the file, counting the blank row 3
+      { row: 4, status: 'invalid', errors: ['Phone number is empty'] },
+      {
+        row: 5,
+        status: 'invalid',
+        errors: [
+          'Invalid phone number: 12345',
+          'Invalid lead id: not-an-id',
+          'Unknown timezone: Mars/Olympus',
+        ],
+      },
+      {
+        row: 6,
+        status: 'duplicate',
+        phoneNumber: '+79161234567',
+        errors: ['Duplicate of an earlier row with +79161234567'],
+      },
+    ]);
+  });
+
+  it('should use an explicit column mapping over the aliases', () => {
+    const report = service.parse(
+      csvFile('Контакт,phone\n+79161234567,ignored\n'),
+      { phone: 'Контакт' },
+    );
+
+    expect(report.recipients[0].phoneNumber).toBe('+79161234567');
+    expect(report.recipients[0].customVariables).toEqual({ phone: 'ignored' });
+  });
+
+  it('should reject a mapping to a missing column and files without a phone column', () => {
+    expect(() =>
+      service.parse(csvFile('phone\n+79161234567\n'), { name: 'Имя' }),
+    ).toThrow('Column "Имя" mapped to name is not in the file');
+    expect(() => service.parse(csvFile('email,city\na@b.ru,Москва\n'))).toThrow(
+      'Phone number column not found. Columns in file: email, city',
+    );
+  });
+
+  it('should read XLSX files', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ['Mobile', 'Name'],
+        ['+7 916 123-45-67', 'Анна'],
+      ]),
+      'Sheet1',
+    );
+    const file = {
+      originalname: 'contacts.xlsx',
+      mimetype:
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      buffer: XLSX.write(workbook, {
+        type: 'buffer',
+        bookType: 'xlsx',
+      }) as Buffer,
+    } as Express.Multer.File;
+
+    const report = service.parse(file);
+
+    expect(report.recipients).toEqual([
+      expect.objectContaining({ phoneNumber: '+79161234567', name: 'Анна' }),
+    ]);
+  });
+
+  it('should refuse files over 10000 rows', () => {
+    const rows = Array.from(
+      { length: 10001 },
+      (_, i) => `+7916${String(i).padStart(7, '0')}`,
+    );
+
+    expect(() => service.parse(csvFile(['phone', ...rows].join('\n')))).toThrow(
+      new BadRequestException('File has 10001 rows, the limit is 10000'),
+    );
+    expect(
+      service.parse(csvFile(['phone', ...rows.slice(1)].join('\n'))).validCount,
+    ).toBe(10000);
+  });
+});
@@ -0,0 +1,217 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import * as XLSX from 'xlsx';
+import { normalizePhoneNumber } from '../../common/utils/phone.util';
+import {
+  PHONE_COLUMN_ALIASES,
+  readFirstSheet,
+} from '../../common/utils/spreadsheet.util';
+import { BatchCallRecipientDto } from './dto/batch-call-recipient.dto';
+import { RecipientColumnMappingDto } from './dto/import-recipients.dto';
+
+export type RecipientField = keyof RecipientColumnMappingDto;
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportRowReport {
+  row: number; // spreadsheet row number, the header is row 1
+  status: ImportRowStatus;
+  phoneNumber?: string;
+  errors: string[];
+}
+
+export interface RecipientImportReport {
+  totalRows: number;
+  validCount: number;
+  invalidCount: number;
+  duplicateCount: number;
+  columns: string[];
+  mapping: RecipientColumnMappingDto;
+  recipients: BatchCallRecipientDto[];
+  rows: ImportRowReport[];
+}
+
+// Header names recognized when no explicit mapping is given (compared lowercase)
+const COLUMN_ALIASES: Record<RecipientField, string[]> = {
+  phone: PHONE_COLUMN_ALIASES,
+  name: ['name', 'full name', 'full_name', 'имя', 'фио', 'клиент'],
+  leadId: ['lead id', 'lead_id', 'leadid'],
+  timezone: ['timezone', 'time zone', 'tz', 'часовой пояс'],
+};
+
+const MAX_ROWS = 10000;
+
+/**
+ * Turns a CSV or XLSX contact list into batch call recipients
+ * and reports the problems of every row
+ */
+@Injectable()
+export class RecipientImportService {
+  private readonly logger = new Logger(RecipientImportService.name);
+
+  /**
+   * Parse an uploaded file and validate its rows.
+   * Nothing is saved: the returned recipients are meant for CreateBatchCallDto.
+   */
+  parse(
+    file: Express.Multer.File,
+    mapping: RecipientColumnMappingDto = {},
+  ): RecipientImportReport {
+    const records = this.readRecords(file);
+
+    if (records.length > MAX_ROWS) {
+      throw new BadRequestException(
+        `File has ${records.length} rows, the limit is ${MAX_ROWS}`,
+      );
+    }
+
+    const columns = records.length > 0 ? Object.keys(records[0]) : [];
+    const resolvedMapping = this.resolveMapping(columns, mapping);
+
+    if (!resolvedMapping.phone) {
+      throw new BadRequestException(
+        `Phone number column not found. Columns in file: ${columns.join(', ') || 'none'}`,
+      );
+    }
+
+    const mappedColumns = new Set(Object.values(resolvedMapping));
+    const seenPhones = new Set<string>();
+    const recipients: BatchCallRecipientDto[] = [];
+    const rows: ImportRowReport[] = [];
+
+    records.forEach((record, index) => {
+      const value = (field: RecipientField) => {
+        const column = resolvedMapping[field];
+        return column ? String(record[column] ?? '').trim() : '';
+      };
+
+      // Blank rows are skipped, so the position in `records` may lag behind
+      const row = ((record.__rowNum__ as number | undefined) ?? index + 1) + 1;
+      const errors: string[] = [];
+
+      const rawPhone = value('phone');
+      const phoneNumber = rawPhone ? normalizePhoneNumber(rawPhone) : null;
+      if (!rawPhone) {
+        errors.push('Phone number is empty');
+      } else if (!phoneNumber) {
+        errors.push(`Invalid phone number: ${rawPhone}`);
+      }
+
+      const leadId = value('leadId');
+      if (leadId && !Types.ObjectId.isValid(leadId)) {
+        errors.push(`Invalid lead id: ${leadId}`);
+      }
+
+      const timezone = value('timezone');
+      if (timezone && !this.isValidTimezone(timezone)) {
+        errors.push(`Unknown timezone: ${timezone}`);
+      }
+
+      if (errors.length > 0) {
+        rows.push({
+          row,
+          status: 'invalid',
+          phoneNumber: phoneNumber || undefined,
+          errors,
+        });
+        return;
+      }
+
+      if (seenPhones.has(phoneNumber!)) {
+        rows.push({
+          row,
+          status: 'duplicate',
+          phoneNumber: phoneNumber!,
+          errors: [`Duplicate of an earlier row with ${phoneNumber}`],
+        });
+        return;
+      }
+
+      seenPhones.add(phoneNumber!);
+
+      const customVariables: Record<string, any> = {};
+      for (const column of columns) {
+        const cell = String(record[column] ?? '').trim();
+        if (!mappedColumns.has(column) && cell) {
+          customVariables[column] = cell;
+        }
+      }
+
+      recipients.push({
+        phoneNumber: phoneNumber!,
+        name: value('name') || undefined,
+        leadId: leadId || undefined,
+        timezone: timezone || undefined,
+        customVariables,
+      });
+      rows.push({ row, status: 'valid', phoneNumber: phoneNumber!, errors });
+    });
+
+    const report: RecipientImportReport = {
+      totalRows: records.length,
+      validCount: recipients.length,
+      invalidCount: rows.filter((r) => r.status === 'invalid').length,
+      duplicateCount: rows.filter((r) => r.status === 'duplicate').length,
+      columns,
+      mapping: resolvedMapping,
+      recipients,
+      rows,
+    };
+
+    this.logger.log(
+      `Imported ${file.originalname}: ${report.validCount} valid, ${report.invalidCount} invalid, ${report.duplicateCount} duplicate row(s)`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Read the first sheet as objects keyed by the header row
+   */
+  private readRecords(file: Express.Multer.File): Record<string, any>[] {
+    return XLSX.utils.sheet_to_json<Record<string, any>>(readFirstSheet(file), {
+      raw: false,
+      defval: '',
+      blankrows: false,
+    });
+  }
+
+  /**
+   * Combine the explicit mapping with columns recognized by their header
+   */
+  private resolveMapping(
+    columns: string[],
+    mapping: RecipientColumnMappingDto,
+  ): RecipientColumnMappingDto {
+    const resolved: RecipientColumnMappingDto = {};
+
+    for (const field of Object.keys(COLUMN_ALIASES) as RecipientField[]) {
+      const column = mapping[field];
+
+      if (column) {
+        if (!columns.includes(column)) {
+          throw new BadRequestException(
+            `Column "${column}" mapped to ${field} is not in the file`,
+          );
+        }
+        resolved[field] = column;
+        continue;
+      }
+
+      resolved[field] = columns.find((c) =>
+        COLUMN_ALIASES[field].includes(c.trim().toLowerCase()),
+      );
+    }
+
+    return resolved;
+  }
+
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  CallQueueDistributor,
+  QueueCandidate,
+  estimateWaitSeconds,
+} from './call-queue-distributor.service';
+import { QueueStrategy } from '../../schemas/call-queue.schema';
+
+function candidate(
+  managerId: string,
+  idleMinutes: number,
+  callsToday: number,
+): QueueCandidate {
+  return {
+    managerId,
+    managerName: `Manager ${managerId}`,
+    idleSince: new Date(Date.now() - idleMinutes * 60000),
+    callsToday,
+  };
+}
+
+describe('CallQueueDistributor', () => {
+  let distributor: CallQueueDistributor;
+
+  const candidates = [
+    candidate('b', 5, 3),
+    candidate('a', 1, 1),
+    candidate('c', 10, 1),
+  ];
+  const ids = (ordered: QueueCandidate[]) => ordered.map((c) => c.managerId);
+
+  beforeEach(() => {
+    distributor = new CallQueueDistributor();
+  });
+
+  it('should offer the call to the longest idle manager first', () => {
+    const ordered = distributor.orderCandidates(
+      'queue-1',
+      QueueStrategy.LONGEST_IDLE,
+      candidates,
+    );
+
+    expect(ids(ordered)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should prefer fewer calls today and break ties by idle time', () => {
+    const ordered = distributor.orderCandidates(
+      'queue-1',
+      QueueStrategy.LEAST_CALLS,
+      candidates,
+    );
+
+    expect(ids(ordered)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('should rotate round-robin after the last assigned manager', () => {
+    const order = () =>
+      ids(
+        distributor.orderCandidates(
+          'queue-1',
+          QueueStrategy.ROUND_ROBIN,
+          candidates,
+        ),
+      );
+
+    expect(order()).toEqual(['a', 'b', 'c']);
+
+    distributor.recordAssignment('queue-1', 'a');
+    expect(order()).toEqual(['b', 'c', 'a']);
+
+    distributor.recordAssignment('queue-1', 'c');
+    expect(order()).toEqual(['a', 'b', 'c']);
+
+    // Assignments in other queues do not move this one
+    distributor.recordAssignment('queue-2', 'a');
+    expect(order()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep callers in arrival order and skip those being rung for', () => {
+    expect(distributor.enqueue('queue-1', 'call-1')).toBe(1);
+    expect(distributor.enqueue('queue-1', 'call-2')).toBe(2);
+
+    expect(distributor.isNext('queue-1', 'call-1')).toBe(true);
+    expect(distributor.isNext('queue-1', 'call-2')).toBe(false);
+
+    distributor.setRinging('queue-1', 'call-1', true);
+    expect(distributor.isNext('queue-1', 'call-2')).toBe(true);
+
+    distributor.dequeue('queue-1', 'call-1');
+    expect(distributor.getWaiting('queue-1').map((c) => c.callId)).toEqual([
+      'call-2',
+    ]);
+  });
+
+  it('should estimate the wait from position and online managers', () => {
+    expect(estimateWaitSeconds(1, 2, 120)).toBe(120);
+    expect(estimateWaitSeconds(3, 2, 120)).toBe(240);
+    // No manager online still gives an estimate
+    expect(estimateWaitSeconds(2, 0, 120)).toBe(240);
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { QueueStrategy } from '../../schemas/call-queue.schema';
+
+export interface QueueCandidate {
+  managerId: string;
+  managerName: string;
+  idleSince: Date; // end of the last call, or sign-in when later
+  callsToday: number;
+}
+
+export interface WaitingCall {
+  callId: string;
+  enqueuedAt: Date;
+  ringing: boolean; // a manager is being rung for this caller
+}
+
+/**
+ * Estimated wait of the caller at the given position: each free manager
+ * takes one caller per average call length
+ */
+export function estimateWaitSeconds(
+  position: number,
+  managers: number,
+  averageHandleSeconds: number,
+): number {
+  return (
+    Math.ceil(Math.max(position, 1) / Math.max(managers, 1)) *
+    averageHandleSeconds
+  );
+}
+
+/**
+ * Callers waiting in each call queue, in arrival order, and the choice of
+ * the manager who gets the next one
+ */
+@Injectable()
+export class CallQueueDistributor {
+  private waiting: Map<string, WaitingCall[]> = new Map(); // by queue ID
+  private lastAssigned: Map<string, string> = new Map(); // queue ID -> manager ID
+
+  /**
+   * Add a caller to the end of the queue; returns their position
+   */
+  enqueue(queueId: string, callId: string): number {
+    const calls = this.waiting.get(queueId) || [];
+    calls.push({ callId, enqueuedAt: new Date(), ringing: false });
+    this.waiting.set(queueId, calls);
+
+    return calls.length;
+  }
+
+  dequeue(queueId: string, callId: string): void {
+    const calls = (this.waiting.get(queueId) || []).filter(
+      (call) => call.callId !== callId,
+    );
+
+    if (calls.length > 0) {
+      this.waiting.set(queueId, calls);
+    } else {
+      this.waiting.delete(queueId);
+    }
+  }
+
+  setRinging(queueId: string, callId: string, ringing: boolean): void {
+    const call = this.waiting
+      .get(queueId)
+      ?.find((waiting) => waiting.callId === callId);
+
+    if (call) {
+      call.ringing = ringing;
+    }
+  }
+
+  /**
+   * Whether the caller is first in line among those nobody is ringing for,
+   * so one unanswered manager does not hold up everyone behind
+   */
+  isNext(queueId: string, callId: string): boolean {
+    const next = this.waiting.get(queueId)?.find((call) => !call.ringing);
+    return next?.callId === callId;
+  }
+
+  getWaiting(queueId: string): WaitingCall[] {
+    return [...(this.waiting.get(queueId) || [])];
+  }
+
+  recordAssignment(queueId: string, managerId: string): void {
+    this.lastAssigned.set(queueId, managerId);
+  }
+
+  /**
+   * Free managers in the order the queue's strategy offers them the call
+   */
+  orderCandidates(
+    queueId: string,
+    strategy: QueueStrategy,
+    candidates: QueueCandidate[],
+  ): QueueCandidate[] {
+    const byIdle = (a: QueueCandidate, b: QueueCandidate) =>
+      a.idleSince.getTime() - b.idleSince.getTime();
+
+    switch (strategy) {
+      case QueueStrategy.ROUND_ROBIN: {
+        const sorted = [...candidates].sort((a, b) =>
+          a.managerId.localeCompare(b.managerId),
+        );
+        const last = this.lastAssigned.get(queueId);
+        const next = last
+          ? sorted.findIndex((candidate) => candidate.managerId > last)
+          : 0;
+
+        return next > 0
+          ? [...sorted.slice(next), ...sorted.slice(0, next)]
+          : sorted;
+      }
+      case QueueStrategy.LEAST_CALLS:
+        return [...candidates].sort(
+          (a, b) => a.callsToday - b.callsToday || byIdle(a, b),
+        );
+      default:
+        return [...candidates].sort(byIdle);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { CallQueueService } from './call-queue.service';
+import { CreateCallQueueDto, UpdateCallQueueDto } from './dto/call-queue.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import type { AuthenticatedRequest } from '../../common/interfaces/authenticated-request.interface';
+import { UserRole } from '../../schemas/user.schema';
+
+@Controller('call-queues')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CallQueueController {
+  constructor(private readonly callQueueService: CallQueueService) {}
+
+  @Get()
+  async findAll(@Request() req: AuthenticatedRequest) {
+    const queues = await this.callQueueService.findAll(req.user.companyId);
+
+    return {
+      success: true,
+      data: queues,
+      count: queues.length,
+    };
+  }
+
+  /**
+   * Create a call queue; its phone numbers are answered by the queue from then on
+   */
+  @Post()
+  @Roles(UserRole.COMPANY_ADMIN)
+  async create(
+    @Request() req: AuthenticatedRequest,
+    @Body() createDto: CreateCallQueueDto,
+  ) {
+    const queue = await this.callQueueService.create(
+      req.user.companyId,
+      createDto,
+      req.user.userId,
+    );
+
+    return {
+      success: true,
+      data: queue,
+      message: 'Call queue created successfully',
+    };
+  }
+
+  /**
+   * Statistics of all queues over a period, with the callers waiting now
+   */
+  @Get('stats')
+  async getStats(
+    @Request() req: AuthenticatedRequest,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    const stats = await this.callQueueService.getStats(req.user.companyId, {
+      startDate,
+      endDate,
+    });
+
+    return {
+      success: true,
+      data: stats,
+      count: stats.length,
+    };
+  }
+
+  @Get(':id')
+  async findOne(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const queue = await this.callQueueService.findOne(req.user.companyId, id);
+
+    return {
+      success: true,
+      data: queue,
+    };
+  }
+
+  @Get(':id/stats')
+  async getQueueStats(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    const [stats] = await this.callQueueService.getStats(req.user.companyId, {
+      queueId: id,
+      startDate,
+      endDate,
+    });
+
+    return {
+      success: true,
+      data: stats,
+    };
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.COMPANY_ADMIN)
+  async update(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateCallQueueDto,
+  ) {
+    const queue = await this.callQueueService.update(
+      req.user.companyId,
+      id,
+      updateDto,
+    );
+
+    return {
+      success: true,
+      data: queue,
+      message: 'Call queue updated successfully',
+    };
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.COMPANY_ADMIN)
+  async remove(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    await this.callQueueService.remove(req.user.companyId, id);
+
+    return {
+      success: true,
+      message: 'Call queue deleted successfully',
+    };
+  }
+}
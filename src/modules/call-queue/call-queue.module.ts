@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CallQueueService } from './call-queue.service';
+import { CallQueueDistributor } from './call-queue-distributor.service';
+import { QueueCallService } from './queue-call.service';
+import { CallQueueController } from './call-queue.controller';
+import { CallQueue, CallQueueSchema } from '../../schemas/call-queue.schema';
+import {
+  Conversation,
+  ConversationSchema,
+} from '../../schemas/conversation.schema';
+import { Agent, AgentSchema } from '../../schemas/agent.schema';
+import { SipModule } from '../sip/sip.module';
+import { MediaModule } from '../media/media.module';
+import { GoogleCloudModule } from '../google-cloud/google-cloud.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { CallTransferModule } from '../call-transfer/call-transfer.module';
+import { VoicemailModule } from '../voicemail/voicemail.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CallQueue.name, schema: CallQueueSchema },
+      { name: Conversation.name, schema: ConversationSchema },
+      { name: Agent.name, schema: AgentSchema },
+    ]),
+    SipModule,
+    MediaModule,
+    GoogleCloudModule,
+    ConversationModule,
+    CallTransferModule,
+    VoicemailModule,
+  ],
+  controllers: [CallQueueController],
+  providers: [CallQueueService, CallQueueDistributor, QueueCallService],
+  exports: [CallQueueService, CallQueueDistributor, QueueCallService],
+})
+export class CallQueueModule {}
@@ -0,0 +1,378 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  CallQueue,
+  CallQueueDocument,
+  QueueOverflowAction,
+} from '../../schemas/call-queue.schema';
+import {
+  Conversation,
+  ConversationDocument,
+} from '../../schemas/conversation.schema';
+import { Agent, AgentDocument } from '../../schemas/agent.schema';
+import { normalizePhoneNumber } from '../../common/utils/phone.util';
+import { CallQueueDistributor } from './call-queue-distributor.service';
+import {
+  CreateCallQueueDto,
+  QueueOverflowDto,
+  UpdateCallQueueDto,
+} from './dto/call-queue.dto';
+
+// Assumed call length until a queue has answered calls of its own
+const DEFAULT_HANDLE_SECONDS = 180;
+const HANDLE_TIME_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ManagerActivity {
+  lastCallEndedAt?: Date;
+  callsToday: number;
+}
+
+/**
+ * Call queues of a company, the numbers they answer and their statistics
+ */
+@Injectable()
+export class CallQueueService {
+  private readonly logger = new Logger(CallQueueService.name);
+
+  constructor(
+    @InjectModel(CallQueue.name)
+    private callQueueModel: Model<CallQueueDocument>,
+    @InjectModel(Conversation.name)
+    private conversationModel: Model<ConversationDocument>,
+    @InjectModel(Agent.name) private agentModel: Model<AgentDocument>,
+    private distributor: CallQueueDistributor,
+  ) {}
+
+  async create(
+    companyId: string,
+    createDto: CreateCallQueueDto,
+    userId?: string,
+  ): Promise<CallQueueDocument> {
+    if (createDto.overflow) {
+      await this.validateOverflow(companyId, createDto.overflow);
+    }
+
+    const phoneNumbers = this.normalizeNumbers(createDto.phoneNumbers || []);
+    if (createDto.isActive ?? true) {
+      await this.assertNumbersFree(phoneNumbers);
+    }
+
+    const queue = await this.callQueueModel.create({
+      ...createDto,
+      companyId: new Types.ObjectId(companyId),
+      phoneNumbers,
+      createdBy: userId ? new Types.ObjectId(userId) : undefined,
+    });
+
+    this.logger.log(
+      `Call queue ${queue.name} created for company ${companyId}`,
+    );
+
+    return queue;
+  }
+
+  async findAll(companyId: string): Promise<CallQueueDocument[]> {
+    return this.callQueueModel
+      .find({ companyId: new Types.ObjectId(companyId) })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findOne(companyId: string, id: string): Promise<CallQueueDocument> {
+    const queue = await this.callQueueModel.findOne({
+      _id: new Types.ObjectId(id),
+      companyId: new Types.ObjectId(companyId),
+    });
+
+    if (!queue) {
+      throw new NotFoundException('Call queue not found');
+    }
+
+    return queue;
+  }
+
+  async update(
+    companyId: string,
+    id: string,
+    updateDto: UpdateCallQueueDto,
+  ): Promise<CallQueueDocument> {
+    const queue = await this.findOne(companyId, id);
+
+    if (updateDto.overflow) {
+      await this.validateOverflow(companyId, updateDto.overflow);
+    }
+
+    const { phoneNumbers, ...changes } = updateDto;
+    Object.assign(queue, changes);
+
+    if (phoneNumbers) {
+      queue.phoneNumbers = this.normalizeNumbers(phoneNumbers);
+    }
+
+    if ((phoneNumbers || updateDto.isActive) && queue.isActive) {
+      await this.assertNumbersFree(
+        queue.phoneNumbers,
+        queue._id as Types.ObjectId,
+      );
+    }
+
+    await queue.save();
+
+    return queue;
+  }
+
+  async remove(companyId: string, id: string): Promise<void> {
+    const queue = await this.findOne(companyId, id);
+    await queue.deleteOne();
+
+    this.logger.log(`Call queue ${queue.name} deleted`);
+  }
+
+  /**
+   * Active queue answering calls to one of our phone numbers, if any
+   */
+  async findForNumber(phoneNumber: string): Promise<CallQueueDocument | null> {
+    const phones = [phoneNumber, normalizePhoneNumber(phoneNumber)].filter(
+      (phone): phone is string => !!phone,
+    );
+
+    return this.callQueueModel.findOne({
+      phoneNumbers: { $in: phones },
+      isActive: true,
+    });
+  }
+
+  async findActive(
+    companyId: Types.ObjectId,
+    id: string,
+  ): Promise<CallQueueDocument | null> {
+    return this.callQueueModel.findOne({
+      _id: new Types.ObjectId(id),
+      companyId,
+      isActive: true,
+    });
+  }
+
+  /**
+   * When each manager's last call ended and how many calls they took today
+   */
+  async getManagerActivity(
+    companyId: Types.ObjectId,
+    managerIds: string[],
+  ): Promise<Map<string, ManagerActivity>> {
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    const rows = await this.conversationModel.aggregate<{
+      _id: Types.ObjectId;
+      lastCallEndedAt?: Date;
+      callsToday: number;
+    }>([
+      {
+        $match: {
+          companyId,
+          managerId: { $in: managerIds.map((id) => new Types.ObjectId(id)) },
+        },
+      },
+      {
+        $group: {
+          _id: '$managerId',
+          lastCallEndedAt: { $max: '$endedAt' },
+          callsToday: {
+            $sum: { $cond: [{ $gte: ['$startedAt', startOfDay] }, 1, 0] },
+          },
+        },
+      },
+    ]);
+
+    return new Map(
+      rows.map((row) => [
+        row._id.toString(),
+        {
+          lastCallEndedAt: row.lastCallEndedAt || undefined,
+          callsToday: row.callsToday,
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Average length of the queue's answered calls over the last week
+   */
+  async getAverageHandleSeconds(queueId: Types.ObjectId): Promise<number> {
+    const [row] = await this.conversationModel.aggregate<{
+      seconds: number | null;
+    }>([
+      {
+        $match: {
+          'queue.queueId': queueId,
+          'queue.outcome': 'answered',
+          startedAt: { $gte: new Date(Date.now() - HANDLE_TIME_WINDOW_MS) },
+          endedAt: { $exists: true },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          seconds: {
+            $avg: {
+              $divide: [{ $subtract: ['$endedAt', '$queue.answeredAt'] }, 1000],
+            },
+          },
+        },
+      },
+    ]);
+
+    return row?.seconds ? Math.round(row.seconds) : DEFAULT_HANDLE_SECONDS;
+  }
+
+  /**
+   * Calls, outcomes and waits per queue over a period, with the callers
+   * waiting right now
+   */
+  async getStats(
+    companyId: string,
+    filters: { queueId?: string; startDate?: string; endDate?: string } = {},
+  ) {
+    const company = new Types.ObjectId(companyId);
+    const queues = filters.queueId
+      ? [await this.findOne(companyId, filters.queueId)]
+      : await this.findAll(companyId);
+
+    const match: Record<string, any> = {
+      companyId: company,
+      'queue.queueId': { $in: queues.map((queue) => queue._id) },
+    };
+    if (filters.startDate || filters.endDate) {
+      match.startedAt = {
+        ...(filters.startDate && { $gte: new Date(filters.startDate) }),
+        ...(filters.endDate && { $lte: new Date(filters.endDate) }),
+      };
+    }
+
+    const outcomeCount = (outcome: string) => ({
+      $sum: { $cond: [{ $eq: ['$queue.outcome', outcome] }, 1, 0] },
+    });
+    const rows = await this.conversationModel.aggregate<{
+      _id: Types.ObjectId;
+      calls: number;
+      answered: number;
+      abandoned: number;
+      overflowed: number;
+      averageWaitSeconds: number | null;
+      averageAnswerSeconds: number | null;
+      maxWaitSeconds: number | null;
+    }>([
+      { $match: match },
+      {
+        $group: {
+          _id: '$queue.queueId',
+          calls: { $sum: 1 },
+          answered: outcomeCount('answered'),
+          abandoned: outcomeCount('abandoned'),
+          overflowed: outcomeCount('overflow'),
+          averageWaitSeconds: { $avg: '$queue.waitSeconds' },
+          averageAnswerSeconds: {
+            $avg: {
+              $cond: [
+                { $eq: ['$queue.outcome', 'answered'] },
+                '$queue.waitSeconds',
+                null,
+              ],
+            },
+          },
+          maxWaitSeconds: { $max: '$queue.waitSeconds' },
+        },
+      },
+    ]);
+
+    const now = Date.now();
+    return queues.map((queue) => {
+      const queueId = queue._id as Types.ObjectId;
+      const row = rows.find((r) => r._id.equals(queueId));
+      const waiting = this.distributor.getWaiting(queueId.toString());
+
+      return {
+        queueId,
+        name: queue.name,
+        strategy: queue.strategy,
+        calls: row?.calls ?? 0,
+        answered: row?.answered ?? 0,
+        abandoned: row?.abandoned ?? 0,
+        overflowed: row?.overflowed ?? 0,
+        answerRate: row?.calls
+          ? Math.round((row.answered / row.calls) * 100)
+          : 0,
+        averageWaitSeconds: Math.round(row?.averageWaitSeconds ?? 0),
+        averageAnswerSeconds: Math.round(row?.averageAnswerSeconds ?? 0),
+        maxWaitSeconds: row?.maxWaitSeconds ?? 0,
+        waitingNow: waiting.length,
+        longestWaitingSeconds: waiting.length
+          ? Math.round((now - waiting[0].enqueuedAt.getTime()) / 1000)
+          : 0,
+      };
+    });
+  }
+
+  /**
+   * Overflow agents must be agents of the company
+   */
+  private async validateOverflow(
+    companyId: string,
+    overflow: QueueOverflowDto,
+  ): Promise<void> {
+    if (overflow.action !== QueueOverflowAction.AGENT) {
+      return;
+    }
+
+    const exists = await this.agentModel.exists({
+      _id: new Types.ObjectId(overflow.agentId),
+      companyId: new Types.ObjectId(companyId),
+    });
+    if (!exists) {
+      throw new BadRequestException('Overflow agent not found');
+    }
+  }
+
+  private normalizeNumbers(phoneNumbers: string[]): string[] {
+    return [
+      ...new Set(
+        phoneNumbers.map((phone) => normalizePhoneNumber(phone) || phone),
+      ),
+    ];
+  }
+
+  /**
+   * A phone number is answered by one active queue at most
+   */
+  private async assertNumbersFree(
+    phoneNumbers: string[],
+    exceptQueueId?: Types.ObjectId,
+  ): Promise<void> {
+    if (phoneNumbers.length === 0) {
+      return;
+    }
+
+    const taken = await this.callQueueModel
+      .findOne({
+        phoneNumbers: { $in: phoneNumbers },
+        isActive: true,
+        ...(exceptQueueId && { _id: { $ne: exceptQueueId } }),
+      })
+      .select('name')
+      .lean();
+
+    if (taken) {
+      throw new ConflictException(
+        `Phone number is already answered by call queue ${taken.name}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  QueueOverflowAction,
+  QueueStrategy,
+} from '../../../schemas/call-queue.schema';
+
+export class QueueOverflowDto {
+  @IsEnum(QueueOverflowAction)
+  action: QueueOverflowAction;
+
+  @ValidateIf(
+    (dto: QueueOverflowDto) => dto.action === QueueOverflowAction.AGENT,
+  )
+  @IsMongoId()
+  agentId?: string;
+}
+
+export class CreateCallQueueDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsString({ each: true })
+  @IsArray()
+  @IsOptional()
+  phoneNumbers?: string[];
+
+  @IsMongoId({ each: true })
+  @IsArray()
+  @IsOptional()
+  managerIds?: string[];
+
+  @IsEnum(QueueStrategy)
+  @IsOptional()
+  strategy?: QueueStrategy;
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  holdMusicUrl?: string;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  holdMessage?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  announceWaitTime?: boolean;
+
+  @IsInt()
+  @Min(5)
+  @Max(120)
+  @IsOptional()
+  ringTimeoutSeconds?: number;
+
+  @IsInt()
+  @Min(10)
+  @Max(3600)
+  @IsOptional()
+  maxWaitSeconds?: number;
+
+  @ValidateNested()
+  @Type(() => QueueOverflowDto)
+  @IsOptional()
+  overflow?: QueueOverflowDto;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export class UpdateCallQueueDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @IsString({ each: true })
+  @IsArray()
+  @IsOptional()
+  phoneNumbers?: string[];
+
+  @IsMongoId({ each: true })
+  @IsArray()
+  @IsOptional()
+  managerIds?: string[];
+
+  @IsEnum(QueueStrategy)
+  @IsOptional()
+  strategy?: QueueStrategy;
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  holdMusicUrl?: string;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  holdMessage?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  announceWaitTime?: boolean;
+
+  @IsInt()
+  @Min(5)
+  @Max(120)
+  @IsOptional()
+  ringTimeoutSeconds?: number;
+
+  @IsInt()
+  @Min(10)
+  @Max(3600)
+  @IsOptional()
+  maxWaitSeconds?: number;
+
+  @ValidateNested()
+  @Type(() => QueueOverflowDto)
+  @IsOptional()
+  overflow?: QueueOverflowDto;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,363 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { InboundCall, SipService } from '../sip/sip.service';
+import { MediaService } from '../media/media.service';
+import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+import { ConversationService } from '../conversation/conversation.service';
+import {
+  CallTransferService,
+  TransferConversation,
+  TransferTarget,
+} from '../call-transfer/call-transfer.service';
+import { ManagerPresenceService } from '../call-transfer/manager-presence.service';
+import { InboundCallService } from '../call-transfer/inbound-call.service';
+import { VoicemailCallService } from '../voicemail/voicemail-call.service';
+import { DEFAULT_VOICEMAIL_GREETING } from '../voicemail/voicemail.service';
+import { CallQueueService } from './call-queue.service';
+import {
+  CallQueueDistributor,
+  QueueCandidate,
+  estimateWaitSeconds,
+} from './call-queue-distributor.service';
+import {
+  CallQueueDocument,
+  QueueOverflowAction,
+} from '../../schemas/call-queue.schema';
+import {
+  CallerType,
+  CallStatus,
+  QueueLog,
+} from '../../schemas/conversation.schema';
+import { Agent, AgentRecord } from '../../schemas/agent.schema';
+
+// Spoken between pauses to queued callers when the queue has no hold music
+const QUEUE_HOLD_MESSAGE =
+  'Пожалуйста, оставайтесь на линии, менеджер скоро ответит.';
+const QUEUE_HOLD_PAUSE = 'silence_stream://8000';
+const QUEUE_CLOSED_MESSAGE =
+  'К сожалению, все менеджеры сейчас заняты. Пожалуйста, перезвоните позже.';
+// How often a waiting caller looks for a free manager
+const QUEUE_POLL_MS = 2000;
+// A manager who let a queued call ring out is offered it again after this long
+const QUEUE_MISSED_COOLDOWN_MS = 30000;
+
+/**
+ * Holds inbound callers in call queues and offers them to the queue's
+ * managers by its strategy
+ */
+@Injectable()
+export class QueueCallService {
+  private readonly logger = new Logger(QueueCallService.name);
+
+  constructor(
+    private sipService: SipService,
+    private mediaService: MediaService,
+    private googleCloudService: GoogleCloudService,
+    private conversationService: ConversationService,
+    private callQueueService: CallQueueService,
+    private callQueueDistributor: CallQueueDistributor,
+    private callTransferService: CallTransferService,
+    private managerPresence: ManagerPresenceService,
+    private inboundCallService: InboundCallService,
+    private voicemailCallService: VoicemailCallService,
+    @InjectModel(Agent.name) private agentModel: Model<Agent>,
+  ) {}
+
+  /**
+   * Put an inbound caller on hold in a call queue and offer them to the free
+   * managers of the queue's group by its strategy. Callers nobody answers in
+   * time, or who wait while no manager is online, overflow.
+   * Returns the overflow agent the caller is to be handed to, if any.
+   */
+  async handle(
+    call: InboundCall,
+    queue: CallQueueDocument,
+    ivrConversation?: TransferConversation,
+  ): Promise<AgentRecord | null> {
+    const { session } = call;
+    const { callId } = session;
+    const companyId = queue.companyId;
+    const queueId = (queue._id as Types.ObjectId).toString();
+
+    // Callers routed here by an IVR menu are already answered
+    const conversation =
+      ivrConversation ??
+      (await this.inboundCallService.answer(call, companyId, {
+        callerType: CallerType.QUEUE,
+      }));
+
+    const position = this.callQueueDistributor.enqueue(queueId, callId);
+    const queueLog: QueueLog = {
+      queueId: queue._id as Types.ObjectId,
+      queueName: queue.name,
+      enqueuedAt: new Date(),
+      waitSeconds: 0,
+      outcome: 'abandoned',
+    };
+    const hold = { playing: true };
+    let holdMusic: Promise<void> = Promise.resolve();
+    let answeredBy: TransferTarget | null = null;
+
+    try {
+      await this.callTransferService.requestTransfer(conversation._id, {
+        reason: `Queue: ${queue.name}`,
+      });
+
+      const online = this.managerPresence.forCompany(
+        companyId,
+        queue.managerIds,
+      );
+      const free = online.filter((manager) =>
+        this.callTransferService.isManagerFree(manager),
+      ).length;
+      if (online.length > 0 && queue.announceWaitTime && position > free) {
+        const handleSeconds =
+          await this.callQueueService.getAverageHandleSeconds(
+            queue._id as Types.ObjectId,
+          );
+        const minutes = Math.max(
+          1,
+          Math.round(
+            estimateWaitSeconds(position, online.length, handleSeconds) / 60,
+          ),
+        );
+        const announcement =
+          `Все менеджеры сейчас заняты. Ваш номер в очереди: ${position}. ` +
+          `Примерное время ожидания — ${minutes} мин. Пожалуйста, оставайтесь на линии.`;
+        await this.mediaService.playTTS(
+          callId,
+          await this.googleCloudService.synthesizeSpeech(announcement),
+        );
+      }
+
+      const holdAudio =
+        queue.holdMusicUrl ||
+        (await this.googleCloudService.synthesizeSpeech(
+          queue.holdMessage || QUEUE_HOLD_MESSAGE,
+        ));
+      holdMusic = this.playHold(callId, holdAudio, hold);
+
+      const deadline =
+        queueLog.enqueuedAt.getTime() + queue.maxWaitSeconds * 1000;
+      const missedAt = new Map<string, number>(); // manager ID -> when they missed this caller
+
+      // Nobody online in the group: overflow right away instead of waiting out the limit
+      while (
+        this.sipService.getCall(callId) &&
+        Date.now() < deadline &&
+        this.managerPresence.forCompany(companyId, queue.managerIds).length > 0
+      ) {
+        const target = this.callQueueDistributor.isNext(queueId, callId)
+          ? await this.pickManager(queue, missedAt)
+          : null;
+        if (!target) {
+          await new Promise((resolve) => setTimeout(resolve, QUEUE_POLL_MS));
+          continue;
+        }
+
+        // Callers behind may take other free managers while this one rings
+        this.callQueueDistributor.setRinging(queueId, callId, true);
+        const connected = await this.callTransferService.offer(
+          {
+            callId,
+            companyId,
+            conversation,
+            target,
+            ringTimeoutSeconds: queue.ringTimeoutSeconds,
+            onAnswered: async () => {
+              hold.playing = false;
+              await this.mediaService.stopPlayback(callId);
+            },
+          },
+          {
+            phoneNumber: session.phoneNumber,
+            reason: `Queue: ${queue.name}`,
+            transcript: [],
+          },
+        );
+        this.callQueueDistributor.setRinging(queueId, callId, false);
+
+        if (connected) {
+          answeredBy = target;
+          break;
+        }
+
+        missedAt.set(target.managerId, Date.now());
+      }
+    } catch (error) {
+      if (this.sipService.getCall(callId)) {
+        this.logger.error(
+          `Call queue ${queue.name} failed on call ${callId}:`,
+          error,
+        );
+      }
+    }
+
+    hold.playing = false;
+    if (!answeredBy) {
+      await this.mediaService.stopPlayback(callId);
+    }
+    await holdMusic;
+    this.callQueueDistributor.dequeue(queueId, callId);
+
+    const callerLeft = !this.sipService.getCall(callId);
+    queueLog.waitSeconds = Math.round(
+      (Date.now() - queueLog.enqueuedAt.getTime()) / 1000,
+    );
+    if (answeredBy) {
+      this.callQueueDistributor.recordAssignment(queueId, answeredBy.managerId);
+      queueLog.outcome = 'answered';
+      queueLog.answeredAt = new Date();
+      queueLog.managerId = new Types.ObjectId(answeredBy.managerId);
+    } else if (!callerLeft) {
+      queueLog.outcome = 'overflow';
+      queueLog.overflowAction = queue.overflow?.action;
+    }
+
+    const overflowAgent =
+      queueLog.outcome === 'overflow' &&
+      queue.overflow?.action === QueueOverflowAction.AGENT
+        ? await this.agentModel
+            .findOne({ _id: queue.overflow.agentId, companyId, isActive: true })
+            .lean<AgentRecord>()
+        : null;
+
+    try {
+      await this.conversationService.setQueueLog(
+        conversation._id,
+        companyId,
+        queueLog,
+        overflowAgent?._id,
+      );
+
+      // Connected; CallTransferService closes the conversation when the call ends
+      if (answeredBy) {
+        return null;
+      }
+
+      if (callerLeft) {
+        await this.conversationService.updateStatus(
+          callId,
+          companyId,
+          CallStatus.MISSED,
+        );
+        return null;
+      }
+
+      this.logger.log(
+        `Call ${callId} overflows call queue ${queue.name} after ${queueLog.waitSeconds}s`,
+      );
+
+      if (overflowAgent) {
+        this.inboundCallService.release(callId);
+        return overflowAgent;
+      }
+
+      switch (queue.overflow?.action) {
+        case QueueOverflowAction.HANGUP:
+          await this.mediaService.playTTS(
+            callId,
+            await this.googleCloudService.synthesizeSpeech(
+              QUEUE_CLOSED_MESSAGE,
+            ),
+          );
+          await this.conversationService.updateStatus(
+            callId,
+            companyId,
+            CallStatus.MISSED,
+          );
+          await this.sipService.hangupCall(callId);
+          return null;
+        default:
+          // Voicemail, also when the overflow agent is no longer available
+          await this.voicemailCallService.takeMessage(
+            session,
+            companyId,
+            conversation._id,
+            DEFAULT_VOICEMAIL_GREETING,
+          );
+          return null;
+      }
+    } catch (error) {
+      await this.inboundCallService.fail(
+        callId,
+        companyId,
+        `Failed to overflow call ${callId} from queue ${queue.name}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Loop the hold music, or the hold message with pauses, until `hold.playing` is cleared
+   */
+  private async playHold(
+    callId: string,
+    audio: string | Buffer,
+    hold: { playing: boolean },
+  ): Promise<void> {
+    while (hold.playing && this.mediaService.isEndpointActive(callId)) {
+      try {
+        if (typeof audio === 'string') {
+          await this.mediaService.playAudio(callId, audio);
+        } else {
+          await this.mediaService.playTTS(callId, audio);
+          await this.mediaService.playAudio(callId, QUEUE_HOLD_PAUSE);
+        }
+      } catch {
+        // The caller hung up
+        return;
+      }
+    }
+  }
+
+  /**
+   * Free manager of the queue's group who gets the next caller, by the queue's strategy;
+   * those who just let this caller ring out sit out QUEUE_MISSED_COOLDOWN_MS
+   */
+  private async pickManager(
+    queue: CallQueueDocument,
+    missedAt: Map<string, number>,
+  ): Promise<TransferTarget | null> {
+    const sessions = this.callTransferService
+      .freeManagers(queue.companyId, queue.managerIds)
+      .filter(
+        (session) =>
+          Date.now() - (missedAt.get(session.managerId) ?? 0) >=
+          QUEUE_MISSED_COOLDOWN_MS,
+      );
+    if (sessions.length === 0) {
+      return null;
+    }
+
+    const activity = await this.callQueueService.getManagerActivity(
+      queue.companyId,
+      sessions.map((session) => session.managerId),
+    );
+    const candidates: QueueCandidate[] = sessions.map((session) => {
+      const { lastCallEndedAt, callsToday = 0 } =
+        activity.get(session.managerId) || {};
+      return {
+        managerId: session.managerId,
+        managerName: session.managerName,
+        idleSince:
+          lastCallEndedAt && lastCallEndedAt > session.registeredAt
+            ? lastCallEndedAt
+            : session.registeredAt,
+        callsToday,
+      };
+    });
+
+    const ordered = this.callQueueDistributor.orderCandidates(
+      (queue._id as Types.ObjectId).toString(),
+      queue.strategy,
+      candidates,
+    );
+    return this.callTransferService.findAvailableManager(
+      queue.companyId,
+      ordered,
+    );
+  }
+}
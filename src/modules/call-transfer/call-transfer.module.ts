@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CallTransferService } from './call-transfer.service';
+import { ManagerPresenceService } from './manager-presence.service';
+import { InboundCallService } from './inbound-call.service';
+import { SipModule } from '../sip/sip.module';
+import { MediaModule } from '../media/media.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { ConversationSchema } from '../../schemas/conversation.schema';
+import { ManagerSchema } from '../../schemas/manager.schema';
+import { UserSchema } from '../../schemas/user.schema';
+import { LeadSchema } from '../../schemas/lead.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: 'Conversation', schema: ConversationSchema },
+      { name: 'Manager', schema: ManagerSchema },
+      { name: 'User', schema: UserSchema },
+      { name: 'Lead', schema: LeadSchema },
+    ]),
+    SipModule,
+    MediaModule,
+    ConversationModule,
+  ],
+  providers: [CallTransferService, ManagerPresenceService, InboundCallService],
+  exports: [CallTransferService, ManagerPresenceService, InboundCallService],
+})
+export class CallTransferModule {}
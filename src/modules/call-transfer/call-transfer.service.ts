@@ -0,0 +1,474 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { SipService, CallSession } from '../sip/sip.service';
+import { MediaService } from '../media/media.service';
+import { BridgeTranscriptSegment } from '../gemini-live/sip-gemini-bridge.service';
+import { normalizePhoneNumber } from '../../common/utils/phone.util';
+import {
+  CallerType,
+  CallSegment,
+  CallStatus,
+  ConversationDocument,
+  TransferStatus,
+} from '../../schemas/conversation.schema';
+import { ManagerDocument } from '../../schemas/manager.schema';
+import { UserDocument } from '../../schemas/user.schema';
+import { LeadDocument } from '../../schemas/lead.schema';
+import {
+  ManagerPresenceService,
+  ManagerSession,
+} from './manager-presence.service';
+
+// Said by the AI agent while the manager's phone rings
+export const TRANSFER_HOLD_MESSAGE =
+  'Соединяю вас с менеджером, пожалуйста, оставайтесь на линии.';
+
+export interface TransferTarget {
+  managerId: string;
+  managerName: string;
+  phone: string;
+}
+
+export interface TransferConversation {
+  _id: Types.ObjectId;
+  startedAt: Date;
+  agentId?: Types.ObjectId;
+  leadId?: Types.ObjectId;
+}
+
+export interface ConnectParams {
+  callId: string;
+  companyId: Types.ObjectId;
+  conversation: TransferConversation;
+  target: TransferTarget;
+  onAnswered: () => Promise<void>;
+  ringTimeoutSeconds?: number; // instead of TRANSFER_RING_TIMEOUT_SECONDS
+}
+
+// What the manager sees on their screen while their phone rings
+export interface TransferOffer {
+  phoneNumber: string;
+  reason?: string;
+  summary?: string;
+  transcript: BridgeTranscriptSegment[];
+}
+
+interface ActiveTransfer {
+  callId: string; // customer leg
+  managerCallId?: string;
+  companyId: Types.ObjectId;
+  conversation: TransferConversation;
+  target: TransferTarget;
+}
+
+/**
+ * Hands AI, IVR and queued calls over to managers: dials the manager's phone, bridges the
+ * media of both legs and records the hand-off on the conversation
+ */
+@Injectable()
+export class CallTransferService {
+  private readonly logger = new Logger(CallTransferService.name);
+  private transfers: Map<string, ActiveTransfer> = new Map(); // by customer call ID
+  private ringTimeout: number;
+  private callbackDelayMinutes: number;
+
+  constructor(
+    private configService: ConfigService,
+    private sipService: SipService,
+    private mediaService: MediaService,
+    private managerPresence: ManagerPresenceService,
+    @InjectModel('Conversation')
+    private conversationModel: Model<ConversationDocument>,
+    @InjectModel('Manager') private managerModel: Model<ManagerDocument>,
+    @InjectModel('User') private userModel: Model<UserDocument>,
+    @InjectModel('Lead') private leadModel: Model<LeadDocument>,
+  ) {
+    this.ringTimeout = parseInt(
+      this.configService.get<string>('TRANSFER_RING_TIMEOUT_SECONDS') || '30',
+    );
+    this.callbackDelayMinutes = parseInt(
+      this.configService.get<string>('TRANSFER_CALLBACK_DELAY_MINUTES') || '30',
+    );
+
+    // Hanging up either leg of a transferred call ends the other one
+    this.sipService.on('call:ended', (session: CallSession) => {
+      void this.handleCallEnded(session);
+    });
+  }
+
+  isTransferring(callId: string): boolean {
+    return this.transfers.has(callId);
+  }
+
+  isManagerBusy(managerId: string): boolean {
+    for (const transfer of this.transfers.values()) {
+      if (transfer.target.managerId === managerId) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  isManagerFree(session: ManagerSession): boolean {
+    return !session.currentCallId && !this.isManagerBusy(session.managerId);
+  }
+
+  /**
+   * Online managers of a company, or of a group of them, not on a call or taking a transfer
+   */
+  freeManagers(
+    companyId: Types.ObjectId,
+    managerIds: string[] = [],
+  ): ManagerSession[] {
+    return this.managerPresence
+      .forCompany(companyId, managerIds)
+      .filter((session) => this.isManagerFree(session));
+  }
+
+  /**
+   * First of the given online managers who may take calls and has a phone
+   */
+  async findAvailableManager(
+    companyId: Types.ObjectId,
+    candidates: { managerId: string; managerName: string }[],
+  ): Promise<TransferTarget | null> {
+    const candidateIds = candidates
+      .filter((candidate) => Types.ObjectId.isValid(candidate.managerId))
+      .map((candidate) => new Types.ObjectId(candidate.managerId));
+
+    if (candidateIds.length === 0) {
+      return null;
+    }
+
+    const [managers, users] = await Promise.all([
+      this.managerModel
+        .find({
+          companyId,
+          userId: { $in: candidateIds },
+          isActive: true,
+          'permissions.canMakeCallsAsAgent': true,
+        })
+        .select('userId')
+        .lean(),
+      this.userModel
+        .find({ _id: { $in: candidateIds }, phone: { $nin: [null, ''] } })
+        .select('phone')
+        .lean<{ _id: Types.ObjectId; phone: string }[]>(),
+    ]);
+
+    const allowed = new Set(
+      managers.map((manager) => manager.userId.toString()),
+    );
+    const phones = new Map(
+      users.map((user) => [user._id.toString(), user.phone]),
+    );
+
+    const candidate = candidates.find(
+      (c) => allowed.has(c.managerId) && phones.has(c.managerId),
+    );
+
+    return candidate
+      ? { ...candidate, phone: phones.get(candidate.managerId) as string }
+      : null;
+  }
+
+  /**
+   * Record that the caller asked for a human
+   */
+  async requestTransfer(
+    conversationId: Types.ObjectId,
+    details: { reason?: string; summary?: string },
+  ): Promise<void> {
+    await this.conversationModel.updateOne(
+      { _id: conversationId },
+      {
+        $set: {
+          transfer: {
+            status: TransferStatus.REQUESTED,
+            reason: details.reason,
+            summary: details.summary,
+            requestedAt: new Date(),
+          },
+        },
+      },
+    );
+  }
+
+  /**
+   * Dial the manager and, once they answer, bridge them with the caller.
+   * `onAnswered` runs before the bridge so the AI can let go of the call.
+   * Returns false when the manager did not pick up in time.
+   */
+  async connect(params: ConnectParams): Promise<boolean> {
+    const { callId, companyId, conversation, target } = params;
+    const transfer: ActiveTransfer = {
+      callId,
+      companyId,
+      conversation,
+      target,
+    };
+    this.transfers.set(callId, transfer);
+
+    this.logger.log(
+      `Transferring call ${callId} to manager ${target.managerId} (${target.phone})`,
+    );
+
+    let managerLeg: CallSession;
+    try {
+      managerLeg = await this.sipService.makeCall(target.phone, undefined, {
+        companyId: companyId.toString(),
+        transferOf: callId,
+        ringTimeout: params.ringTimeoutSeconds ?? this.ringTimeout,
+        // The list protects customers, not the manager's own phone
+        skipDoNotCall: true,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Manager ${target.managerId} did not answer the transfer of call ${callId}: ${(error as Error).message}`,
+      );
+      this.transfers.delete(callId);
+      return false;
+    }
+
+    transfer.managerCallId = managerLeg.callId;
+
+    // The caller may have hung up while the manager's phone was ringing
+    if (!this.sipService.getCall(callId)) {
+      this.logger.log(`Call ${callId} ended before the manager answered`);
+      this.transfers.delete(callId);
+      await this.hangup(managerLeg.callId);
+      return false;
+    }
+
+    try {
+      await params.onAnswered();
+      await this.mediaService.bridgeEndpoints(callId, managerLeg.callId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to bridge call ${callId} to the manager:`,
+        error,
+      );
+      this.transfers.delete(callId);
+      await this.hangup(managerLeg.callId);
+      return false;
+    }
+
+    const connectedAt = new Date();
+    const segments: CallSegment[] = [
+      {
+        handledBy: CallerType.HUMAN_MANAGER,
+        managerId: new Types.ObjectId(target.managerId),
+        managerName: target.managerName,
+        startedAt: connectedAt,
+      },
+    ];
+    // Calls routed to managers by an IVR menu had no AI part
+    if (conversation.agentId) {
+      segments.unshift({
+        handledBy: CallerType.AI_AGENT,
+        agentId: conversation.agentId,
+        startedAt: conversation.startedAt,
+        endedAt: connectedAt,
+      });
+    }
+
+    await this.conversationModel.updateOne(
+      { _id: conversation._id },
+      {
+        $set: {
+          'transfer.status': TransferStatus.CONNECTED,
+          'transfer.managerId': new Types.ObjectId(target.managerId),
+          'transfer.managerName': target.managerName,
+          'transfer.managerCallId': managerLeg.callId,
+          'transfer.connectedAt': connectedAt,
+          managerId: new Types.ObjectId(target.managerId),
+          managerName: target.managerName,
+        },
+        $push: { callSegments: { $each: segments } },
+      },
+    );
+
+    this.logger.log(`Call ${callId} connected to manager ${target.managerId}`);
+
+    return true;
+  }
+
+  /**
+   * Show the call on the manager's screen, connect it and tell them whether
+   * it was put through
+   */
+  async offer(params: ConnectParams, offer: TransferOffer): Promise<boolean> {
+    const { callId, conversation, target } = params;
+
+    this.managerPresence.notify(target.managerId, 'call:transfer', {
+      callId,
+      conversationId: conversation._id,
+      ...offer,
+    });
+
+    const connected = await this.connect(params);
+    this.managerPresence.notify(
+      target.managerId,
+      connected ? 'call:transfer:connected' : 'call:transfer:missed',
+      { callId },
+    );
+
+    return connected;
+  }
+
+  /**
+   * Ring the online managers of a company, or of an IVR group, one by one
+   * until one answers; false when nobody did or the caller hung up
+   */
+  async ringManagers(
+    session: CallSession,
+    companyId: Types.ObjectId,
+    conversation: TransferConversation,
+    reason: string,
+    managerIds: string[] = [],
+  ): Promise<boolean> {
+    const { callId } = session;
+    const tried = new Set<string>();
+
+    await this.requestTransfer(conversation._id, { reason });
+
+    while (this.sipService.getCall(callId)) {
+      const candidates = this.freeManagers(companyId, managerIds).filter(
+        (candidate) => !tried.has(candidate.managerId),
+      );
+      const target = await this.findAvailableManager(companyId, candidates);
+      if (!target) {
+        this.logger.log(`No manager available for call ${callId}`);
+        return false;
+      }
+      tried.add(target.managerId);
+
+      const connected = await this.offer(
+        {
+          callId,
+          companyId,
+          conversation,
+          target,
+          onAnswered: () => Promise.resolve(),
+        },
+        { phoneNumber: session.phoneNumber, reason, transcript: [] },
+      );
+      if (connected) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Nobody took the call: schedule a callback on the conversation and its lead
+   */
+  async scheduleCallback(
+    companyId: Types.ObjectId,
+    conversation: TransferConversation,
+    phoneNumber: string,
+  ): Promise<Date> {
+    const callbackAt = new Date(
+      Date.now() + this.callbackDelayMinutes * 60 * 1000,
+    );
+
+    await this.conversationModel.updateOne(
+      { _id: conversation._id },
+      {
+        $set: {
+          nextFollowUp: callbackAt,
+          'transfer.status': TransferStatus.CALLBACK_SCHEDULED,
+          'transfer.callbackAt': callbackAt,
+        },
+      },
+    );
+
+    const phones = [phoneNumber, normalizePhoneNumber(phoneNumber)].filter(
+      (phone): phone is string => !!phone,
+    );
+    await this.leadModel.updateOne(
+      conversation.leadId
+        ? { _id: conversation.leadId, companyId }
+        : { companyId, phone: { $in: phones } },
+      { $set: { nextFollowUpAt: callbackAt } },
+    );
+
+    this.logger.log(
+      `Callback to ${phoneNumber} scheduled for ${callbackAt.toISOString()}`,
+    );
+
+    return callbackAt;
+  }
+
+  /**
+   * Close the manager segment and end the other leg of a transferred call
+   */
+  private async handleCallEnded(session: CallSession): Promise<void> {
+    const transfer = [...this.transfers.values()].find(
+      (t) =>
+        t.managerCallId &&
+        (t.callId === session.callId || t.managerCallId === session.callId),
+    );
+
+    if (!transfer?.managerCallId) {
+      return;
+    }
+
+    this.transfers.delete(transfer.callId);
+
+    const otherCallId =
+      session.callId === transfer.callId
+        ? transfer.managerCallId
+        : transfer.callId;
+    await this.hangup(otherCallId);
+
+    const endedAt = session.endedAt || new Date();
+
+    try {
+      await this.conversationModel.updateOne(
+        { _id: transfer.conversation._id },
+        {
+          $set: {
+            status: CallStatus.COMPLETED,
+            endedAt,
+            duration:
+              (endedAt.getTime() -
+                new Date(transfer.conversation.startedAt).getTime()) /
+              1000,
+            'callSegments.$[human].endedAt': endedAt,
+          },
+        },
+        {
+          arrayFilters: [
+            {
+              'human.handledBy': CallerType.HUMAN_MANAGER,
+              'human.endedAt': { $exists: false },
+            },
+          ],
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to close the transferred call ${transfer.callId}:`,
+        error,
+      );
+    }
+
+    this.logger.log(`Transferred call ${transfer.callId} ended`);
+  }
+
+  private async hangup(callId: string): Promise<void> {
+    if (!this.sipService.getCall(callId)) {
+      return;
+    }
+
+    try {
+      await this.sipService.hangupCall(callId);
+    } catch (error) {
+      this.logger.error(`Failed to hang up call ${callId}:`, error);
+    }
+  }
+}
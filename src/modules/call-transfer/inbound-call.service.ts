@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CallSession, InboundCall, SipService } from '../sip/sip.service';
+import { MediaService } from '../media/media.service';
+import { ConversationService } from '../conversation/conversation.service';
+import {
+  CallDirection,
+  CallerType,
+  CallStatus,
+} from '../../schemas/conversation.schema';
+import { TransferConversation } from './call-transfer.service';
+
+/**
+ * Answers the inbound calls that IVR menus, call queues, voicemail and
+ * after-hours messages take, and releases their Freeswitch endpoint when
+ * the caller hangs up on the prompt
+ */
+@Injectable()
+export class InboundCallService {
+  private readonly logger = new Logger(InboundCallService.name);
+  private promptCalls: Set<string> = new Set(); // calls whose media endpoint is released here
+
+  constructor(
+    private sipService: SipService,
+    private mediaService: MediaService,
+    private conversationService: ConversationService,
+  ) {
+    this.sipService.on('call:ended', (session: CallSession) => {
+      void this.handleCallEnded(session);
+    });
+  }
+
+  /**
+   * Connect the caller to Freeswitch and open the conversation of the call
+   */
+  async answer(
+    call: InboundCall,
+    companyId: Types.ObjectId,
+    details: { callerType: CallerType; agentId?: string },
+  ): Promise<TransferConversation> {
+    const { session } = call;
+
+    const mediaEndpoint = await this.mediaService.connectCaller(
+      session.callId,
+      call.req,
+      call.res,
+    );
+    this.sipService.attachDialog(session.callId, mediaEndpoint.dialog);
+    this.promptCalls.add(session.callId);
+
+    const conversation = await this.conversationService.createConversation(
+      companyId,
+      {
+        callId: session.callId,
+        phoneNumber: session.phoneNumber,
+        direction: CallDirection.INBOUND,
+        ...details,
+        startedAt: session.startedAt.toISOString(),
+      },
+    );
+    await this.conversationService.updateStatus(
+      session.callId,
+      companyId,
+      CallStatus.ONGOING,
+    );
+
+    return {
+      _id: conversation._id as Types.ObjectId,
+      startedAt: conversation.startedAt,
+    };
+  }
+
+  /**
+   * Hand the endpoint over: an AI agent or the voicemail recording releases it
+   */
+  release(callId: string): void {
+    this.promptCalls.delete(callId);
+  }
+
+  /**
+   * Close a call whose routing failed: missed when the caller already hung
+   * up, otherwise failed and hung up
+   */
+  async fail(
+    callId: string,
+    companyId: Types.ObjectId,
+    message: string,
+    error: unknown,
+  ): Promise<void> {
+    const callerLeft = !this.sipService.getCall(callId);
+    if (!callerLeft) {
+      this.logger.error(message, error);
+    }
+
+    await this.conversationService.updateStatus(
+      callId,
+      companyId,
+      callerLeft ? CallStatus.MISSED : CallStatus.FAILED,
+    );
+    if (!callerLeft) {
+      await this.sipService.hangupCall(callId);
+    }
+  }
+
+  private async handleCallEnded(session: CallSession): Promise<void> {
+    if (this.promptCalls.delete(session.callId)) {
+      await this.mediaService.destroyEndpoint(session.callId);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { Socket } from 'socket.io';
+
+export interface ManagerSession {
+  socket: Socket;
+  managerId: string;
+  managerName: string;
+  companyId: Types.ObjectId;
+  registeredAt: Date;
+  currentCallId?: string;
+  isRecording: boolean;
+  audioChunks: Buffer[];
+}
+
+/**
+ * Managers connected to the WebRTC gateway, by manager ID. Calls are offered
+ * to them and they are told about voicemail messages and callbacks here.
+ */
+@Injectable()
+export class ManagerPresenceService {
+  private sessions: Map<string, ManagerSession> = new Map();
+
+  register(session: ManagerSession): void {
+    this.sessions.set(session.managerId, session);
+  }
+
+  unregister(managerId: string): void {
+    this.sessions.delete(managerId);
+  }
+
+  get(managerId: string): ManagerSession | undefined {
+    return this.sessions.get(managerId);
+  }
+
+  findBySocket(socket: Socket): ManagerSession | undefined {
+    return this.list().find((session) => session.socket.id === socket.id);
+  }
+
+  list(): ManagerSession[] {
+    return [...this.sessions.values()];
+  }
+
+  /**
+   * Registered managers of a company, or of a group of its managers when IDs are given
+   */
+  forCompany(
+    companyId: Types.ObjectId,
+    managerIds: string[] = [],
+  ): ManagerSession[] {
+    return this.list().filter(
+      (session) =>
+        session.companyId.equals(companyId) &&
+        (managerIds.length === 0 || managerIds.includes(session.managerId)),
+    );
+  }
+
+  notify(managerId: string, event: string, payload: object): void {
+    this.sessions.get(managerId)?.socket.emit(event, payload);
+  }
+
+  notifyCompany(companyId: Types.ObjectId, event: string, payload: object) {
+    for (const session of this.forCompany(companyId)) {
+      session.socket.emit(event, payload);
+    }
+  }
+}
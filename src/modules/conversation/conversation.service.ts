@@ -6,13 +6,17 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
 import {
   Conversation,
   ConversationDocument,
   CallStatus,
   CallerType,
   CallDirection,
+  ToolCallLog,
+  MachineDetection,
+  IvrLog,
+  QueueLog,
 } from '../../schemas/conversation.schema';
 import {
   CreateConversationDto,
@@ -136,7 +140,7 @@ export class ConversationService {
       endDate?: string;
     },
   ) {
-    const query: any = { companyId };
+    const query: FilterQuery<ConversationDocument> = { companyId };
 
     if (filters) {
       if (filters.status) query.status = filters.status;
@@ -149,13 +153,14 @@ export class ConversationService {
       if (filters.phoneNumber) query.phoneNumber = filters.phoneNumber;
 
       if (filters.startDate || filters.endDate) {
-        query.startedAt = {};
+        const startedAt: { $gte?: Date; $lte?: Date } = {};
         if (filters.startDate) {
-          query.startedAt.$gte = new Date(filters.startDate);
+          startedAt.$gte = new Date(filters.startDate);
         }
         if (filters.endDate) {
-          query.startedAt.$lte = new Date(filters.endDate);
+          startedAt.$lte = new Date(filters.endDate);
         }
+        query.startedAt = startedAt;
       }
     }
 
@@ -195,6 +200,80 @@ export class ConversationService {
     return conversation;
   }
 
+  /**
+   * Append custom tool calls made by the AI agent during the call
+   */
+  async appendToolCalls(
+    conversationId: Types.ObjectId,
+    companyId: Types.ObjectId,
+    toolCalls: ToolCallLog[],
+  ) {
+    if (toolCalls.length === 0) {
+      return;
+    }
+
+    await this.conversationModel.updateOne(
+      { _id: conversationId, companyId },
+      { $push: { toolCalls: { $each: toolCalls } } },
+    );
+  }
+
+  /**
+   * Record who answered an outbound call, a person or an answering machine
+   */
+  async setMachineDetection(
+    conversationId: Types.ObjectId,
+    companyId: Types.ObjectId,
+    machineDetection: MachineDetection,
+  ) {
+    await this.conversationModel.updateOne(
+      { _id: conversationId, companyId },
+      { $set: { machineDetection } },
+    );
+  }
+
+  /**
+   * Record the caller's path through the IVR menu; a call the menu handed
+   * to an AI agent becomes that agent's call
+   */
+  async setIvrLog(
+    conversationId: Types.ObjectId,
+    companyId: Types.ObjectId,
+    ivr: IvrLog,
+    agentId?: Types.ObjectId,
+  ) {
+    await this.conversationModel.updateOne(
+      { _id: conversationId, companyId },
+      {
+        $set: {
+          ivr,
+          ...(agentId && { callerType: CallerType.AI_AGENT, agentId }),
+        },
+      },
+    );
+  }
+
+  /**
+   * Record how long the caller waited in a call queue and how the wait ended;
+   * a call that overflowed to an AI agent becomes that agent's call
+   */
+  async setQueueLog(
+    conversationId: Types.ObjectId,
+    companyId: Types.ObjectId,
+    queue: QueueLog,
+    agentId?: Types.ObjectId,
+  ) {
+    await this.conversationModel.updateOne(
+      { _id: conversationId, companyId },
+      {
+        $set: {
+          queue,
+          ...(agentId && { callerType: CallerType.AI_AGENT, agentId }),
+        },
+      },
+    );
+  }
+
   /**
    * Update conversation status
    */
@@ -231,6 +310,7 @@ export class ConversationService {
         CallStatus.MISSED,
         CallStatus.NO_ANSWER,
         CallStatus.BUSY,
+        CallStatus.VOICEMAIL,
       ].includes(status)
     ) {
       conversation.endedAt = new Date();
@@ -384,19 +464,20 @@ export class ConversationService {
     endDate?: string;
     callerType?: CallerType;
   }) {
-    const query: any = { companyId };
+    const query: FilterQuery<ConversationDocument> = { companyId };
 
     if (filters) {
       if (filters.callerType) query.callerType = filters.callerType;
 
       if (filters.startDate || filters.endDate) {
-        query.startedAt = {};
+        const startedAt: { $gte?: Date; $lte?: Date } = {};
         if (filters.startDate) {
-          query.startedAt.$gte = new Date(filters.startDate);
+          startedAt.$gte = new Date(filters.startDate);
         }
         if (filters.endDate) {
-          query.startedAt.$lte = new Date(filters.endDate);
+          startedAt.$lte = new Date(filters.endDate);
         }
+        query.startedAt = startedAt;
       }
     }
 
@@ -412,6 +493,11 @@ export class ConversationService {
       status: { $in: [CallStatus.FAILED, CallStatus.MISSED, CallStatus.NO_ANSWER] },
     });
 
+    const voicemailCalls = await this.conversationModel.countDocuments({
+      ...query,
+      status: CallStatus.VOICEMAIL,
+    });
+
     const conversations = await this.conversationModel.find({
       ...query,
       status: CallStatus.COMPLETED,
@@ -444,6 +530,7 @@ export class ConversationService {
       totalCalls,
       completedCalls,
       failedCalls,
+      voicemailCalls,
       successRate:
         totalCalls > 0 ? ((completedCalls / totalCalls) * 100).toFixed(2) : 0,
       averageDuration,
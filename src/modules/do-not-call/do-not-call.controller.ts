@@ -0,0 +1,207 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  ParseIntPipe,
+  ParseEnumPipe,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { DoNotCallService } from './do-not-call.service';
+import {
+  AddDoNotCallDto,
+  BulkAddDoNotCallDto,
+  UpdateDoNotCallDto,
+} from './dto/do-not-call.dto';
+import { DoNotCallSource } from '../../schemas/do-not-call.schema';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import type { AuthenticatedRequest } from '../../common/interfaces/authenticated-request.interface';
+
+@Controller('phone/do-not-call')
+@UseGuards(JwtAuthGuard)
+export class DoNotCallController {
+  constructor(private readonly doNotCallService: DoNotCallService) {}
+
+  /**
+   * Add a number to the do-not-call list
+   */
+  @Post()
+  async add(
+    @Request() req: AuthenticatedRequest,
+    @Body() addDto: AddDoNotCallDto,
+  ) {
+    const entry = await this.doNotCallService.add(
+      req.user.companyId,
+      addDto,
+      DoNotCallSource.MANUAL,
+      { addedBy: req.user.userId },
+    );
+
+    return {
+      success: true,
+      data: entry,
+      message: 'Number added to the do-not-call list',
+    };
+  }
+
+  /**
+   * Add a list of numbers
+   */
+  @Post('bulk')
+  async bulkAdd(
+    @Request() req: AuthenticatedRequest,
+    @Body() bulkAddDto: BulkAddDoNotCallDto,
+  ) {
+    const result = await this.doNotCallService.bulkAdd(
+      req.user.companyId,
+      bulkAddDto.phoneNumbers,
+      DoNotCallSource.IMPORT,
+      { reason: bulkAddDto.reason, addedBy: req.user.userId },
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: `${result.added} number(s) added to the do-not-call list`,
+    };
+  }
+
+  /**
+   * Import numbers from a CSV/XLSX file
+   */
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file'))
+  async importFile(
+    @Request() req: AuthenticatedRequest,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() updateDto: UpdateDoNotCallDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    const allowedExtensions = ['.csv', '.xlsx', '.xls'];
+    const filename = file.originalname.toLowerCase();
+
+    if (!allowedExtensions.some((ext) => filename.endsWith(ext))) {
+      throw new BadRequestException(
+        'Invalid file type. Allowed types: CSV, XLSX, XLS',
+      );
+    }
+
+    // Validate file size (max 10MB)
+    const maxSize = 10 * 1024 * 1024; // 10MB
+    if (file.size > maxSize) {
+      throw new BadRequestException('File size exceeds 10MB limit');
+    }
+
+    const result = await this.doNotCallService.importFile(
+      req.user.companyId,
+      file,
+      { reason: updateDto.reason, addedBy: req.user.userId },
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: `${result.added} number(s) added to the do-not-call list`,
+    };
+  }
+
+  /**
+   * List numbers on the do-not-call list
+   */
+  @Get()
+  async findAll(
+    @Request() req: AuthenticatedRequest,
+    @Query('search') search?: string,
+    @Query('source', new ParseEnumPipe(DoNotCallSource, { optional: true }))
+    source?: DoNotCallSource,
+    @Query('page_size', new ParseIntPipe({ optional: true })) pageSize?: number,
+  ) {
+    const entries = await this.doNotCallService.findAll(req.user.companyId, {
+      search,
+      source,
+      pageSize,
+    });
+
+    return {
+      success: true,
+      data: entries,
+      count: entries.length,
+    };
+  }
+
+  /**
+   * Check whether a number is on the list
+   */
+  @Get('check/:phoneNumber')
+  async check(
+    @Request() req: AuthenticatedRequest,
+    @Param('phoneNumber') phoneNumber: string,
+  ) {
+    const blocked = await this.doNotCallService.isBlocked(
+      req.user.companyId,
+      phoneNumber,
+    );
+
+    return {
+      success: true,
+      data: { phoneNumber, blocked },
+    };
+  }
+
+  @Get(':id')
+  async findOne(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const entry = await this.doNotCallService.findOne(req.user.companyId, id);
+
+    return {
+      success: true,
+      data: entry,
+    };
+  }
+
+  /**
+   * Change the reason of an entry
+   */
+  @Patch(':id')
+  async update(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateDoNotCallDto,
+  ) {
+    const entry = await this.doNotCallService.update(
+      req.user.companyId,
+      id,
+      updateDto,
+    );
+
+    return {
+      success: true,
+      data: entry,
+      message: 'Do-not-call entry updated successfully',
+    };
+  }
+
+  /**
+   * Remove a number from the list, allowing calls to it again
+   */
+  @Delete(':id')
+  async remove(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    await this.doNotCallService.remove(req.user.companyId, id);
+
+    return {
+      success: true,
+      message: 'Number removed from the do-not-call list',
+    };
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DoNotCallService } from './do-not-call.service';
+import { DoNotCallController } from './do-not-call.controller';
+import {
+  DoNotCallEntry,
+  DoNotCallEntrySchema,
+} from '../../schemas/do-not-call.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: DoNotCallEntry.name, schema: DoNotCallEntrySchema },
+    ]),
+  ],
+  controllers: [DoNotCallController],
+  providers: [DoNotCallService],
+  exports: [DoNotCallService],
+})
+export class DoNotCallModule {}
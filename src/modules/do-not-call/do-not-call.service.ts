@@ -0,0 +1,314 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as XLSX from 'xlsx';
+import { normalizePhoneNumber } from '../../common/utils/phone.util';
+import {
+  PHONE_COLUMN_ALIASES,
+  readFirstSheet,
+} from '../../common/utils/spreadsheet.util';
+import {
+  DoNotCallEntry,
+  DoNotCallEntryDocument,
+  DoNotCallSource,
+} from '../../schemas/do-not-call.schema';
+import { AddDoNotCallDto, UpdateDoNotCallDto } from './dto/do-not-call.dto';
+
+// Failure reason of call recipients skipped because of the list
+export const DO_NOT_CALL_REASON = 'Number is on the do-not-call list';
+
+/**
+ * Thrown when an outbound call targets a number on the do-not-call list
+ */
+export class DoNotCallException extends ForbiddenException {
+  constructor(phoneNumber: string) {
+    super(`Номер ${phoneNumber} находится в списке запрета звонков`);
+  }
+}
+
+export interface DoNotCallImportResult {
+  added: number;
+  alreadyListed: number;
+  invalid: string[]; // values that are not phone numbers
+}
+
+export interface DoNotCallFilter {
+  search?: string;
+  source?: DoNotCallSource;
+  pageSize?: number;
+}
+
+/**
+ * Company-wide list of numbers that must never be called
+ */
+@Injectable()
+export class DoNotCallService {
+  private readonly logger = new Logger(DoNotCallService.name);
+
+  constructor(
+    @InjectModel(DoNotCallEntry.name)
+    private doNotCallModel: Model<DoNotCallEntryDocument>,
+  ) {}
+
+  /**
+   * Check whether a number is on the company's list
+   */
+  async isBlocked(
+    companyId: string | Types.ObjectId,
+    phoneNumber: string,
+  ): Promise<boolean> {
+    const entry = await this.doNotCallModel.exists({
+      companyId: new Types.ObjectId(companyId),
+      phoneNumber: this.normalize(phoneNumber),
+    });
+
+    return !!entry;
+  }
+
+  /**
+   * Throw DoNotCallException if the number must not be called
+   */
+  async assertCallable(
+    companyId: string | Types.ObjectId,
+    phoneNumber: string,
+  ): Promise<void> {
+    if (await this.isBlocked(companyId, phoneNumber)) {
+      this.logger.warn(
+        `Blocked outbound call to ${phoneNumber}: do-not-call list`,
+      );
+      throw new DoNotCallException(phoneNumber);
+    }
+  }
+
+  /**
+   * Which of the given numbers are on the list (returned as given)
+   */
+  async findBlocked(
+    companyId: string | Types.ObjectId,
+    phoneNumbers: string[],
+  ): Promise<Set<string>> {
+    if (phoneNumbers.length === 0) {
+      return new Set();
+    }
+
+    const entries = await this.doNotCallModel
+      .find({
+        companyId: new Types.ObjectId(companyId),
+        phoneNumber: { $in: phoneNumbers.map((p) => this.normalize(p)) },
+      })
+      .select('phoneNumber')
+      .lean();
+    const blocked = new Set(entries.map((entry) => entry.phoneNumber));
+
+    return new Set(phoneNumbers.filter((p) => blocked.has(this.normalize(p))));
+  }
+
+  async findAll(
+    companyId: string,
+    filter: DoNotCallFilter = {},
+  ): Promise<DoNotCallEntryDocument[]> {
+    const query: Record<string, any> = {
+      companyId: new Types.ObjectId(companyId),
+    };
+
+    if (filter.source) {
+      query.source = filter.source;
+    }
+
+    if (filter.search) {
+      const digits = filter.search.replace(/\D/g, '');
+      if (digits) {
+        query.phoneNumber = { $regex: digits };
+      }
+    }
+
+    return this.doNotCallModel
+      .find(query)
+      .sort({ createdAt: -1 })
+      .limit(filter.pageSize || 50)
+      .exec();
+  }
+
+  async findOne(
+    companyId: string,
+    id: string,
+  ): Promise<DoNotCallEntryDocument> {
+    const entry = await this.doNotCallModel.findOne({
+      _id: new Types.ObjectId(id),
+      companyId: new Types.ObjectId(companyId),
+    });
+
+    if (!entry) {
+      throw new NotFoundException('Do-not-call entry not found');
+    }
+
+    return entry;
+  }
+
+  /**
+   * Add a number to the list. A number that is already listed keeps its
+   * original reason and source.
+   */
+  async add(
+    companyId: string | Types.ObjectId,
+    addDto: AddDoNotCallDto,
+    source: DoNotCallSource,
+    details: {
+      addedBy?: string;
+      conversationId?: string | Types.ObjectId;
+    } = {},
+  ): Promise<DoNotCallEntryDocument> {
+    const phoneNumber = normalizePhoneNumber(addDto.phoneNumber);
+
+    if (!phoneNumber) {
+      throw new BadRequestException(
+        `Invalid phone number: ${addDto.phoneNumber}`,
+      );
+    }
+
+    const entry = await this.doNotCallModel.findOneAndUpdate(
+      { companyId: new Types.ObjectId(companyId), phoneNumber },
+      {
+        $setOnInsert: {
+          reason: addDto.reason,
+          source,
+          addedBy: details.addedBy
+            ? new Types.ObjectId(details.addedBy)
+            : undefined,
+          conversationId: details.conversationId
+            ? new Types.ObjectId(details.conversationId)
+            : undefined,
+        },
+      },
+      { upsert: true, new: true },
+    );
+
+    this.logger.log(`Added ${phoneNumber} to the do-not-call list (${source})`);
+
+    return entry;
+  }
+
+  /**
+   * Add many numbers at once, skipping those already listed
+   */
+  async bulkAdd(
+    companyId: string,
+    phoneNumbers: string[],
+    source: DoNotCallSource,
+    details: { reason?: string; addedBy?: string } = {},
+  ): Promise<DoNotCallImportResult> {
+    const invalid: string[] = [];
+    const normalized = new Set<string>();
+
+    for (const value of phoneNumbers) {
+      const phoneNumber = normalizePhoneNumber(value);
+      if (phoneNumber) {
+        normalized.add(phoneNumber);
+      } else {
+        invalid.push(value);
+      }
+    }
+
+    if (normalized.size === 0) {
+      return { added: 0, alreadyListed: 0, invalid };
+    }
+
+    const result = await this.doNotCallModel.bulkWrite(
+      [...normalized].map((phoneNumber) => ({
+        updateOne: {
+          filter: { companyId: new Types.ObjectId(companyId), phoneNumber },
+          update: {
+            $setOnInsert: {
+              reason: details.reason,
+              source,
+              addedBy: details.addedBy
+                ? new Types.ObjectId(details.addedBy)
+                : undefined,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+
+    this.logger.log(
+      `Added ${result.upsertedCount} of ${normalized.size} number(s) to the do-not-call list (${source})`,
+    );
+
+    return {
+      added: result.upsertedCount,
+      alreadyListed: normalized.size - result.upsertedCount,
+      invalid,
+    };
+  }
+
+  /**
+   * Import numbers from a CSV/XLSX file: the column with a phone header,
+   * or the first column when no header is recognized
+   */
+  async importFile(
+    companyId: string,
+    file: Express.Multer.File,
+    details: { reason?: string; addedBy?: string } = {},
+  ): Promise<DoNotCallImportResult> {
+    return this.bulkAdd(
+      companyId,
+      this.readPhoneNumbers(file),
+      DoNotCallSource.IMPORT,
+      details,
+    );
+  }
+
+  async update(
+    companyId: string,
+    id: string,
+    updateDto: UpdateDoNotCallDto,
+  ): Promise<DoNotCallEntryDocument> {
+    const entry = await this.findOne(companyId, id);
+
+    if (updateDto.reason !== undefined) {
+      entry.reason = updateDto.reason;
+    }
+
+    return entry.save();
+  }
+
+  async remove(companyId: string, id: string): Promise<void> {
+    const entry = await this.findOne(companyId, id);
+    await entry.deleteOne();
+
+    this.logger.log(`Removed ${entry.phoneNumber} from the do-not-call list`);
+  }
+
+  private readPhoneNumbers(file: Express.Multer.File): string[] {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(readFirstSheet(file), {
+      header: 1,
+      raw: false,
+      defval: '',
+      blankrows: false,
+    });
+    // Cells are formatted strings (raw: false)
+    const cell = (value: unknown) =>
+      typeof value === 'string' ? value.trim() : '';
+
+    const header = rows[0] || [];
+    const phoneColumn = header.findIndex((value) =>
+      PHONE_COLUMN_ALIASES.includes(cell(value).toLowerCase()),
+    );
+    const column = Math.max(phoneColumn, 0);
+    const dataRows = phoneColumn >= 0 ? rows.slice(1) : rows;
+
+    return dataRows.map((row) => cell(row[column])).filter(Boolean);
+  }
+
+  private normalize(phoneNumber: string): string {
+    return normalizePhoneNumber(phoneNumber) || phoneNumber;
+  }
+}
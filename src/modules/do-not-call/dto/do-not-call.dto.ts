@@ -0,0 +1,40 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  MaxLength,
+} from 'class-validator';
+
+export class AddDoNotCallDto {
+  @IsString()
+  @IsNotEmpty()
+  phoneNumber: string;
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
+
+export class BulkAddDoNotCallDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(10000)
+  @IsString({ each: true })
+  phoneNumbers: string[];
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
+
+export class UpdateDoNotCallDto {
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
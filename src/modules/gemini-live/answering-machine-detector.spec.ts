@@ -0,0 +1,138 @@
+import { AnsweringMachineDetector } from './answering-machine-detector';
+import {
+  AnsweredBy,
+  MachineDetection,
+} from '../../schemas/conversation.schema';
+
+const SAMPLE_RATE = 8000;
+
+function samplesFor(durationMs: number): number {
+  return Math.round((SAMPLE_RATE * durationMs) / 1000);
+}
+
+function silence(durationMs: number): Buffer {
+  return Buffer.alloc(samplesFor(durationMs) * 2);
+}
+
+/**
+ * Speech-like sound: spiky noise from a fixed seed, so tests are repeatable
+ */
+function speech(durationMs: number, seed = 1): Buffer {
+  const buffer = Buffer.alloc(samplesFor(durationMs) * 2);
+  let state = seed;
+  for (let i = 0; i < buffer.length / 2; i++) {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    const u = (state / 2 ** 31) * 2 - 1;
+    buffer.writeInt16LE(Math.round(12000 * u ** 3), i * 2);
+  }
+  return buffer;
+}
+
+function tone(frequency: number, durationMs: number): Buffer {
+  const buffer = Buffer.alloc(samplesFor(durationMs) * 2);
+  for (let i = 0; i < buffer.length / 2; i++) {
+    const sample = 8000 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    buffer.writeInt16LE(Math.round(sample), i * 2);
+  }
+  return buffer;
+}
+
+describe('AnsweringMachineDetector', () => {
+  let detector: AnsweringMachineDetector;
+
+  beforeEach(() => {
+    detector = new AnsweringMachineDetector(SAMPLE_RATE);
+  });
+
+  it('should take a short greeting followed by a pause for a person', () => {
+    expect(detector.process(silence(300))).toBeNull();
+    expect(detector.process(speech(600))).toBeNull();
+
+    const verdict = detector.process(silence(1000));
+
+    expect(verdict).toMatchObject({
+      answeredBy: AnsweredBy.HUMAN,
+      cue: 'short_greeting',
+    });
+  });
+
+  it('should take a long greeting for a machine', () => {
+    const verdict = detector.process(speech(3000));
+
+    expect(verdict).toMatchObject({
+      answeredBy: AnsweredBy.MACHINE,
+      cue: 'long_greeting',
+    });
+    expect(verdict?.detectedAfterMs).toBeLessThan(2000);
+  });
+
+  it('should take several words for a machine', () => {
+    const words = [speech(200, 1), silence(200), speech(200, 2), silence(200)];
+    expect(detector.process(Buffer.concat(words))).toBeNull();
+
+    const verdict = detector.process(speech(200, 3));
+
+    expect(verdict).toMatchObject({
+      answeredBy: AnsweredBy.MACHINE,
+      cue: 'many_words',
+    });
+  });
+
+  it('should take long initial silence for a machine', () => {
+    const verdict = detector.process(silence(3000));
+
+    expect(verdict).toMatchObject({
+      answeredBy: AnsweredBy.MACHINE,
+      cue: 'initial_silence',
+      detectedAfterMs: 2500,
+    });
+  });
+
+  it('should recognize the beep and tell when it is over', () => {
+    const verdict = detector.process(tone(1000, 400));
+
+    expect(verdict).toMatchObject({
+      answeredBy: AnsweredBy.MACHINE,
+      cue: 'beep',
+    });
+    expect(detector.isGreetingOver(tone(1000, 200))).toBe(false);
+    expect(detector.isGreetingOver(silence(100))).toBe(true);
+  });
+
+  it('should tell a machine greeting without a beep is over after a pause', () => {
+    detector.process(speech(2000));
+
+    expect(detector.isGreetingOver(speech(1000))).toBe(false);
+    expect(detector.isGreetingOver(silence(1000))).toBe(false);
+    expect(detector.isGreetingOver(silence(600))).toBe(true);
+  });
+
+  it('should give up after the analysis time', () => {
+    let verdict: MachineDetection | null = null;
+    for (let i = 0; i < 30 && !verdict; i++) {
+      // Alternate words and pauses too short for either verdict
+      verdict = detector.process(
+        Buffer.concat([speech(60, i + 1), silence(140)]),
+      );
+    }
+
+    expect(verdict).toMatchObject({
+      answeredBy: AnsweredBy.UNKNOWN,
+      cue: 'timeout',
+      detectedAfterMs: 5000,
+    });
+  });
+
+  it('should analyze chunks that do not line up with frames', () => {
+    const audio = speech(3000);
+    let verdict: MachineDetection | null = null;
+    for (let offset = 0; offset < audio.length && !verdict; offset += 242) {
+      verdict = detector.process(audio.subarray(offset, offset + 242));
+    }
+
+    expect(verdict).toMatchObject({
+      answeredBy: AnsweredBy.MACHINE,
+      cue: 'long_greeting',
+    });
+  });
+});
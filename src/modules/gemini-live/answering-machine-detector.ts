@@ -0,0 +1,222 @@
+import {
+  AnsweredBy,
+  MachineDetection,
+  MachineDetectionCue,
+} from '../../schemas/conversation.schema';
+
+export interface MachineDetectionOptions {
+  initialSilenceMs: number; // silence before anyone speaks
+  greetingMs: number; // longest greeting a person says
+  afterGreetingSilenceMs: number; // pause a person leaves after their greeting
+  minWordMs: number; // shorter bursts of sound are noise
+  betweenWordsSilenceMs: number; // pause that separates two words
+  maxWords: number; // people rarely say more before waiting for an answer
+  totalAnalysisMs: number;
+  silenceThreshold: number; // mean absolute amplitude of a silent frame
+  beepMs: number; // how long a steady tone lasts to count as the beep
+  endOfGreetingSilenceMs: number; // pause that ends a machine greeting without a beep
+}
+
+export const DEFAULT_MACHINE_DETECTION_OPTIONS: MachineDetectionOptions = {
+  initialSilenceMs: 2500,
+  greetingMs: 1500,
+  afterGreetingSilenceMs: 800,
+  minWordMs: 100,
+  betweenWordsSilenceMs: 50,
+  maxWords: 3,
+  totalAnalysisMs: 5000,
+  silenceThreshold: 256,
+  beepMs: 200,
+  endOfGreetingSilenceMs: 1500,
+};
+
+const FRAME_MS = 20;
+// Frequency range of voicemail beeps
+const BEEP_MIN_HZ = 400;
+const BEEP_MAX_HZ = 2500;
+// Frame-to-frame frequency drift of a steady tone (zero-crossing counts jitter by one)
+const BEEP_FREQUENCY_TOLERANCE = 0.1;
+// Mean to peak amplitude of a sine is 2/pi; speech is far spikier
+const MIN_TONE_FLATNESS = 0.55;
+
+/**
+ * Tells a person from an answering machine by the first seconds of the
+ * callee's audio, the way classic AMD does: people answer with a short
+ * greeting and wait, machines talk at length, start with silence or beep.
+ *
+ * Audio is analyzed in 20 ms frames of 16-bit PCM at the SIP codec rate.
+ * A frame is silent when its mean amplitude is below the threshold; a run of
+ * sine-like frames with the same zero-crossing frequency is a tone.
+ */
+export class AnsweringMachineDetector {
+  private readonly options: MachineDetectionOptions;
+  private readonly frameSamples: number;
+  private remainder: Buffer = Buffer.alloc(0);
+  private verdict: MachineDetection | null = null;
+
+  private elapsedMs = 0;
+  private silenceMs = 0; // current run of silence
+  private wordMs = 0; // current run of sound
+  private voicedMs = 0; // all sound since the greeting started
+  private words = 0;
+  private inWord = false;
+  private toneMs = 0;
+  private toneFrequency = 0;
+  private beepHeard = false;
+
+  constructor(
+    readonly sampleRate: number = 8000,
+    options: Partial<MachineDetectionOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_MACHINE_DETECTION_OPTIONS, ...options };
+    this.frameSamples = Math.round((sampleRate * FRAME_MS) / 1000);
+  }
+
+  /**
+   * Analyze callee audio; returns the verdict once there is one
+   */
+  process(pcm: Buffer): MachineDetection | null {
+    this.forEachFrame(pcm, (frame) => {
+      if (!this.verdict) {
+        this.verdict = this.analyze(frame);
+      }
+    });
+
+    return this.verdict;
+  }
+
+  /**
+   * After a machine verdict: whether the greeting is over and a message may
+   * be left, i.e. the beep has ended or the machine has gone quiet
+   */
+  isGreetingOver(pcm: Buffer): boolean {
+    let over = false;
+
+    this.forEachFrame(pcm, (frame) => {
+      const { silent, tonal } = this.measure(frame);
+
+      if (this.toneMs >= this.options.beepMs) {
+        this.beepHeard = true;
+      }
+
+      over ||=
+        (this.beepHeard && !tonal) ||
+        (silent && this.silenceMs >= this.options.endOfGreetingSilenceMs);
+    });
+
+    return over;
+  }
+
+  private analyze(frame: Buffer): MachineDetection | null {
+    this.elapsedMs += FRAME_MS;
+    const { silent } = this.measure(frame);
+
+    if (this.toneMs >= this.options.beepMs) {
+      this.beepHeard = true;
+      return this.decide(AnsweredBy.MACHINE, 'beep');
+    }
+
+    if (silent) {
+      if (this.inWord && this.silenceMs >= this.options.betweenWordsSilenceMs) {
+        this.inWord = false;
+      }
+
+      if (this.words === 0 && this.silenceMs >= this.options.initialSilenceMs) {
+        return this.decide(AnsweredBy.MACHINE, 'initial_silence');
+      }
+
+      if (
+        this.words > 0 &&
+        this.silenceMs >= this.options.afterGreetingSilenceMs
+      ) {
+        return this.decide(AnsweredBy.HUMAN, 'short_greeting');
+      }
+    } else {
+      this.voicedMs += FRAME_MS;
+
+      if (!this.inWord && this.wordMs >= this.options.minWordMs) {
+        this.inWord = true;
+        this.words++;
+
+        if (this.words >= this.options.maxWords) {
+          return this.decide(AnsweredBy.MACHINE, 'many_words');
+        }
+      }
+
+      if (this.words > 0 && this.voicedMs >= this.options.greetingMs) {
+        return this.decide(AnsweredBy.MACHINE, 'long_greeting');
+      }
+    }
+
+    if (this.elapsedMs >= this.options.totalAnalysisMs) {
+      return this.decide(AnsweredBy.UNKNOWN, 'timeout');
+    }
+
+    return null;
+  }
+
+  /**
+   * Classify a frame and update the silence, sound and tone runs
+   */
+  private measure(frame: Buffer): { silent: boolean; tonal: boolean } {
+    const samples = frame.length / 2;
+    let amplitude = 0;
+    let peak = 0;
+    let crossings = 0;
+    let previous = frame.readInt16LE(0);
+
+    for (let i = 0; i < samples; i++) {
+      const sample = frame.readInt16LE(i * 2);
+      amplitude += Math.abs(sample);
+      peak = Math.max(peak, Math.abs(sample));
+      if (sample >= 0 !== previous >= 0) crossings++;
+      previous = sample;
+    }
+
+    const mean = amplitude / samples;
+    const silent = mean < this.options.silenceThreshold;
+    const frequency = (crossings * this.sampleRate) / (2 * samples);
+    const tonal =
+      !silent &&
+      mean / peak >= MIN_TONE_FLATNESS &&
+      frequency >= BEEP_MIN_HZ &&
+      frequency <= BEEP_MAX_HZ &&
+      Math.abs(frequency - this.toneFrequency) <=
+        this.toneFrequency * BEEP_FREQUENCY_TOLERANCE;
+
+    if (silent) {
+      this.silenceMs += FRAME_MS;
+      this.wordMs = 0;
+    } else {
+      this.silenceMs = 0;
+      this.wordMs += FRAME_MS;
+    }
+
+    this.toneMs = tonal ? this.toneMs + FRAME_MS : 0;
+    this.toneFrequency = silent ? 0 : frequency;
+
+    return { silent, tonal };
+  }
+
+  private decide(
+    answeredBy: AnsweredBy,
+    cue: MachineDetectionCue,
+  ): MachineDetection {
+    return { answeredBy, cue, detectedAfterMs: this.elapsedMs };
+  }
+
+  /**
+   * Split audio into whole frames; a partial frame waits for the next chunk
+   */
+  private forEachFrame(pcm: Buffer, handle: (frame: Buffer) => void): void {
+    const data = Buffer.concat([this.remainder, pcm]);
+    const frameBytes = this.frameSamples * 2;
+    let offset = 0;
+
+    for (; offset + frameBytes <= data.length; offset += frameBytes) {
+      handle(data.subarray(offset, offset + frameBytes));
+    }
+
+    this.remainder = data.subarray(offset);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Side of the call a recorded sample belongs to.
+ * The caller is written to the left channel, the agent to the right one.
+ */
+export type RecordingChannel = 'caller' | 'agent';
+
+interface RecordingTrack {
+  chunks: Buffer[];
+  samples: number; // samples written so far, including silence
+}
+
+/**
+ * Records both sides of a call into a time-aligned stereo WAV file.
+ *
+ * Audio is written as 16-bit little-endian PCM at the SIP codec rate (8 kHz
+ * for G.711, 16 kHz for G.722). Each channel keeps its own write position;
+ * gaps between chunks are filled with silence, so a sample at offset N on
+ * either channel was heard N / sampleRate seconds into the call.
+ */
+export class CallRecorder {
+  static readonly MIME_TYPE = 'audio/wav';
+
+  // Gaps shorter than this are treated as network jitter, not silence
+  private static readonly JITTER_TOLERANCE_MS = 60;
+
+  private tracks: Record<RecordingChannel, RecordingTrack> = {
+    caller: { chunks: [], samples: 0 },
+    agent: { chunks: [], samples: 0 },
+  };
+
+  constructor(
+    private readonly startedAt: number = Date.now(),
+    readonly sampleRate: number = 8000,
+  ) {}
+
+  /**
+   * Record caller audio that has just been received (it ended "now")
+   */
+  writeCaller(pcm: Buffer, receivedAt: number = Date.now()): void {
+    const samples = Math.floor(pcm.length / 2);
+    this.write('caller', pcm, this.toSamples(receivedAt) - samples);
+  }
+
+  /**
+   * Record agent audio that is about to be played (it starts "now",
+   * or right after the agent audio that is still queued for playback)
+   */
+  writeAgent(pcm: Buffer, sentAt: number = Date.now()): void {
+    this.write('agent', pcm, this.toSamples(sentAt));
+  }
+
+  /**
+   * Recording length in seconds
+   */
+  get duration(): number {
+    const samples = Math.max(
+      this.tracks.caller.samples,
+      this.tracks.agent.samples,
+    );
+    return samples / this.sampleRate;
+  }
+
+  get isEmpty(): boolean {
+    return this.tracks.caller.samples === 0 && this.tracks.agent.samples === 0;
+  }
+
+  /**
+   * Build the stereo WAV file (caller left, agent right)
+   */
+  toWav(): Buffer {
+    const left = Buffer.concat(this.tracks.caller.chunks);
+    const right = Buffer.concat(this.tracks.agent.chunks);
+    const frames = Math.max(left.length, right.length) / 2;
+
+    const data = Buffer.alloc(frames * 4);
+    for (let i = 0; i < frames; i++) {
+      const offset = i * 2;
+      data.writeInt16LE(
+        offset < left.length ? left.readInt16LE(offset) : 0,
+        i * 4,
+      );
+      data.writeInt16LE(
+        offset < right.length ? right.readInt16LE(offset) : 0,
+        i * 4 + 2,
+      );
+    }
+
+    return Buffer.concat([this.wavHeader(data.length), data]);
+  }
+
+  /**
+   * Append audio to a channel, padding with silence up to its start position
+   */
+  private write(
+    channel: RecordingChannel,
+    pcm: Buffer,
+    startSample: number,
+  ): void {
+    const samples = Math.floor(pcm.length / 2);
+    if (samples === 0) return;
+
+    const track = this.tracks[channel];
+    const tolerance =
+      (CallRecorder.JITTER_TOLERANCE_MS * this.sampleRate) / 1000;
+    const gap = startSample - track.samples;
+
+    if (gap > tolerance) {
+      track.chunks.push(Buffer.alloc(gap * 2));
+      track.samples += gap;
+    }
+
+    track.chunks.push(pcm.subarray(0, samples * 2));
+    track.samples += samples;
+  }
+
+  private toSamples(time: number): number {
+    return Math.max(
+      0,
+      Math.round(((time - this.startedAt) * this.sampleRate) / 1000),
+    );
+  }
+
+  /**
+   * 44-byte RIFF header for 16-bit stereo PCM
+   */
+  private wavHeader(dataLength: number): Buffer {
+    const channels = 2;
+    const bitsPerSample = 16;
+    const blockAlign = (channels * bitsPerSample) / 8;
+    const byteRate = this.sampleRate * blockAlign;
+
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + dataLength, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16); // fmt chunk size
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(this.sampleRate, 24);
+    header.writeUInt32LE(byteRate, 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(bitsPerSample, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(dataLength, 40);
+
+    return header;
+  }
+}
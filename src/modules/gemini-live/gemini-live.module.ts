@@ -1,11 +1,19 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { GeminiLiveService } from './gemini-live.service';
-import { SipGeminiBridge } from './sip-gemini-bridge.service';
+import { SipGeminiBridgeFactory } from './sip-gemini-bridge.service';
+import { KnowledgeBaseModule } from '../knowledge-base/knowledge-base.module';
+import { AudioPipelineModule } from '../audio-pipeline/audio-pipeline.module';
+import { AgentToolsModule } from '../agent-tools/agent-tools.module';
 
 @Module({
-  imports: [ConfigModule],
-  providers: [GeminiLiveService, SipGeminiBridge],
-  exports: [GeminiLiveService, SipGeminiBridge],
+  imports: [
+    ConfigModule,
+    KnowledgeBaseModule,
+    AudioPipelineModule,
+    AgentToolsModule,
+  ],
+  providers: [GeminiLiveService, SipGeminiBridgeFactory],
+  exports: [GeminiLiveService, SipGeminiBridgeFactory],
 })
 export class GeminiLiveModule {}
\ No newline at end of file
@@ -1,7 +1,54 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
 import { WebSocket } from 'ws';
 import { EventEmitter } from 'events';
 import { ConfigService } from '@nestjs/config';
+import { KnowledgeSearchService } from '../knowledge-base/knowledge-search.service';
+import { AgentToolRunner } from '../agent-tools/agent-tool-runner.service';
+import { AgentTool } from '../../schemas/agent.schema';
+import { formatLocalDateTime } from '../../common/utils/working-hours.util';
+
+// Functions declared by the service itself; custom agent tools cannot reuse these names
+export const BUILT_IN_TOOL_NAMES = [
+  'searchKnowledgeBase',
+  'scheduleAppointment',
+  'transferToHuman',
+  'endCall',
+  'sendDtmf',
+  'holdCall',
+];
+
+export interface GeminiKnowledgeBase {
+  id: string;
+  name: string;
+  documentTitles: string[];
+}
+
+export interface TransferToHumanArgs {
+  reason?: string;
+  summary?: string;
+}
+
+export interface ScheduleAppointmentArgs {
+  date?: string; // YYYY-MM-DD
+  time?: string; // HH:mm
+  purpose?: string;
+}
+
+/**
+ * Actions on the phone call the model may trigger; provided by whoever owns the call
+ */
+export interface GeminiCallActions {
+  transferToHuman?: (args: TransferToHumanArgs) => Promise<any>;
+  endCall?: (args: { reason?: string }) => Promise<any>;
+  sendDtmf?: (args: { digits?: string }) => Promise<any>;
+  holdCall?: (args: { onHold?: boolean }) => Promise<any>;
+  scheduleAppointment?: (args: ScheduleAppointmentArgs) => Promise<any>;
+}
+
+// Arguments of any of the call actions
+type GeminiCallActionArgs = Parameters<
+  NonNullable<GeminiCallActions[keyof GeminiCallActions]>
+>[0];
 
 export interface GeminiLiveConfig {
   agentId: string;
@@ -19,15 +66,36 @@ export interface GeminiLiveConfig {
     fallback?: string;
     ending?: string;
   };
-  knowledgeBase?: any;
+  knowledgeBase?: GeminiKnowledgeBase | null;
   temperature?: number;
+  callActions?: GeminiCallActions;
+  customTools?: AgentTool[]; // HTTP tools configured on the agent
+  timeZone?: string; // IANA timezone of the dates the model talks about
 }
 
 export interface AudioChunk {
   data: Buffer;
+  mimeType?: string;
+  timestamp: number;
+}
+
+// Payload of the inputTranscription, outputTranscription and transcript events
+export interface TranscriptChunk {
+  text: string;
   timestamp: number;
 }
 
+// Part of a model turn sent by Gemini Live
+interface GeminiContentPart {
+  text?: string;
+  inlineData?: { data: string; mimeType?: string };
+}
+
+// toolCall message sent by Gemini Live
+interface GeminiToolCall {
+  functionCalls: { id: string; name: string; args?: Record<string, any> }[];
+}
+
 @Injectable()
 export class GeminiLiveService extends EventEmitter {
   private readonly logger = new Logger(GeminiLiveService.name);
@@ -36,8 +104,13 @@ export class GeminiLiveService extends EventEmitter {
   private isConnected: boolean = false;
   private audioQueue: AudioChunk[] = [];
   private transcriptBuffer: string = '';
+  private config: GeminiLiveConfig | null = null;
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    @Optional() private knowledgeSearchService?: KnowledgeSearchService,
+    @Optional() private agentToolRunner?: AgentToolRunner,
+  ) {
     super();
   }
 
@@ -45,6 +118,8 @@ export class GeminiLiveService extends EventEmitter {
    * Connect to Gemini Live API via WebSocket
    */
   async connect(config: GeminiLiveConfig): Promise<void> {
+    this.config = config;
+
     return new Promise((resolve, reject) => {
       try {
         const apiKey = this.configService.get<string>('GEMINI_API_KEY');
@@ -122,6 +197,9 @@ export class GeminiLiveService extends EventEmitter {
           topK: 40,
         },
         tools: this.buildTools(config),
+        // Transcribe both the caller's speech and the model's spoken replies
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
       },
     };
 
@@ -183,10 +261,46 @@ export class GeminiLiveService extends EventEmitter {
       }
     }
 
-    // Add knowledge base context if available
+    // Describe the knowledge base; content is retrieved on demand via the searchKnowledgeBase tool
     if (config.knowledgeBase) {
-      prompt += '\n\nCompany Knowledge Base:\n';
-      prompt += JSON.stringify(config.knowledgeBase, null, 2);
+      prompt += `\n\nCompany Knowledge Base "${config.knowledgeBase.name}" contains these documents:`;
+      for (const title of config.knowledgeBase.documentTitles) {
+        prompt += `\n- ${title}`;
+      }
+      prompt +=
+        '\nWhenever the customer asks about products, prices, policies or any company facts, call the searchKnowledgeBase tool and answer using the returned excerpts. Mention the document title when quoting it. Do not invent facts that are not in the excerpts.';
+    }
+
+    if (config.callActions?.transferToHuman) {
+      prompt +=
+        '\n\nIf the customer asks to speak with a person or you cannot help them, call the transferToHuman tool with the reason and a short summary of the conversation so far. Follow the instructions in its response.';
+    }
+
+    if (config.callActions?.endCall) {
+      prompt +=
+        '\n\nWhen the conversation is over and you have said goodbye, call the endCall tool with the reason. Do not keep talking after that.';
+    }
+
+    if (config.callActions?.sendDtmf) {
+      prompt +=
+        '\n\nIf you reach an automated phone menu, use the sendDtmf tool to press the keys it asks for.';
+    }
+
+    if (config.callActions?.scheduleAppointment) {
+      const timeZone = config.timeZone || 'UTC';
+      const now = new Date();
+      const weekday = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'long',
+      }).format(now);
+      prompt += `\n\nToday is ${weekday}, ${formatLocalDateTime(now, timeZone).date} (timezone ${timeZone}).`;
+      prompt +=
+        ' When the customer wants an appointment, agree on a date and time and call the scheduleAppointment tool. If the time is not available, offer the alternatives from its response.';
+    }
+
+    if (config.callActions?.holdCall) {
+      prompt +=
+        '\n\nUse the holdCall tool to put the customer on hold when they agree to wait, and to take them off hold when you resume.';
     }
 
     // Add conversation guidelines
@@ -228,41 +342,164 @@ export class GeminiLiveService extends EventEmitter {
       });
     }
 
-    // Add appointment scheduling tool
-    tools.push({
-      functionDeclarations: [
-        {
-          name: 'scheduleAppointment',
-          description: 'Schedule an appointment or callback',
-          parameters: {
-            type: 'object',
-            properties: {
-              date: {
-                type: 'string',
-                description: 'Preferred date',
+    // Add appointment booking when the call owner supports it
+    if (config.callActions?.scheduleAppointment) {
+      tools.push({
+        functionDeclarations: [
+          {
+            name: 'scheduleAppointment',
+            description: 'Book an appointment in the company calendar',
+            parameters: {
+              type: 'object',
+              properties: {
+                date: {
+                  type: 'string',
+                  description: 'Date in YYYY-MM-DD format',
+                },
+                time: {
+                  type: 'string',
+                  description: 'Local start time in HH:mm format',
+                },
+                purpose: {
+                  type: 'string',
+                  description: 'Purpose of the appointment',
+                },
               },
-              time: {
-                type: 'string',
-                description: 'Preferred time',
+              required: ['date', 'time'],
+            },
+          },
+        ],
+      });
+    }
+
+    // Add hand-off to a live manager when the call owner supports it
+    if (config.callActions?.transferToHuman) {
+      tools.push({
+        functionDeclarations: [
+          {
+            name: 'transferToHuman',
+            description: 'Transfer the call to a live manager',
+            parameters: {
+              type: 'object',
+              properties: {
+                reason: {
+                  type: 'string',
+                  description: 'Why the customer needs a manager',
+                },
+                summary: {
+                  type: 'string',
+                  description:
+                    'Short summary of the conversation so far for the manager',
+                },
               },
-              purpose: {
-                type: 'string',
-                description: 'Purpose of the appointment',
+              required: ['reason', 'summary'],
+            },
+          },
+        ],
+      });
+    }
+
+    // Add call control tools when the call owner supports them
+    if (config.callActions?.endCall) {
+      tools.push({
+        functionDeclarations: [
+          {
+            name: 'endCall',
+            description: 'Hang up the call after the conversation is finished',
+            parameters: {
+              type: 'object',
+              properties: {
+                reason: {
+                  type: 'string',
+                  description:
+                    'Why the call is ending, e.g. "goal reached" or "customer not interested"',
+                },
               },
+              required: ['reason'],
             },
-            required: ['date', 'time'],
           },
-        },
-      ],
-    });
+        ],
+      });
+    }
+
+    if (config.callActions?.sendDtmf) {
+      tools.push({
+        functionDeclarations: [
+          {
+            name: 'sendDtmf',
+            description:
+              'Press phone keys, e.g. to navigate an automated phone menu',
+            parameters: {
+              type: 'object',
+              properties: {
+                digits: {
+                  type: 'string',
+                  description: 'Keys to press: digits 0-9, * and #',
+                },
+              },
+              required: ['digits'],
+            },
+          },
+        ],
+      });
+    }
+
+    if (config.callActions?.holdCall) {
+      tools.push({
+        functionDeclarations: [
+          {
+            name: 'holdCall',
+            description: 'Put the call on hold or take it off hold',
+            parameters: {
+              type: 'object',
+              properties: {
+                onHold: {
+                  type: 'boolean',
+                  description:
+                    'true to put the call on hold, false to resume it',
+                },
+              },
+              required: ['onHold'],
+            },
+          },
+        ],
+      });
+    }
+
+    // Add the agent's custom HTTP tools
+    if (config.customTools?.length) {
+      tools.push({
+        functionDeclarations: config.customTools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          ...(tool.parameters && { parameters: tool.parameters }),
+        })),
+      });
+    }
 
     return tools;
   }
 
+  /**
+   * Send a text message to the model as if from the user side,
+   * e.g. to tell it what happened on the call
+   */
+  sendText(text: string): void {
+    this.send({
+      clientContent: {
+        turns: [{ role: 'user', parts: [{ text }] }],
+        turnComplete: true,
+      },
+    });
+  }
+
   /**
    * Send audio chunk to Gemini Live
    */
-  async sendAudio(audioBuffer: Buffer): Promise<void> {
+  async sendAudio(
+    audioBuffer: Buffer,
+    mimeType: string = 'audio/pcm;rate=16000',
+  ): Promise<void> {
     if (!this.isConnected || !this.ws) {
       throw new Error('Not connected to Gemini Live');
     }
@@ -274,7 +511,7 @@ export class GeminiLiveService extends EventEmitter {
       realtimeInput: {
         mediaChunks: [
           {
-            mimeType: 'audio/pcm',
+            mimeType,
             data: audioBase64,
           },
         ],
@@ -295,7 +532,7 @@ export class GeminiLiveService extends EventEmitter {
       if (message.serverContent) {
         this.handleServerContent(message.serverContent);
       } else if (message.toolCall) {
-        this.handleToolCall(message.toolCall);
+        this.handleToolCall(message.toolCall as GeminiToolCall);
       } else if (message.setupComplete) {
         this.logger.log('Setup complete, ready for conversation');
         this.emit('ready');
@@ -311,7 +548,7 @@ export class GeminiLiveService extends EventEmitter {
   private handleServerContent(content: any): void {
     // Handle text response
     if (content.modelTurn?.parts) {
-      for (const part of content.modelTurn.parts) {
+      for (const part of content.modelTurn.parts as GeminiContentPart[]) {
         if (part.text) {
           this.transcriptBuffer += part.text;
           this.emit('transcript', {
@@ -333,6 +570,27 @@ export class GeminiLiveService extends EventEmitter {
       }
     }
 
+    const { inputTranscription, outputTranscription } = content as {
+      inputTranscription?: { text?: string };
+      outputTranscription?: { text?: string };
+    };
+
+    // Handle transcription of the caller's audio
+    if (inputTranscription?.text) {
+      this.emit('inputTranscription', {
+        text: inputTranscription.text,
+        timestamp: Date.now(),
+      });
+    }
+
+    // Handle transcription of the model's audio
+    if (outputTranscription?.text) {
+      this.emit('outputTranscription', {
+        text: outputTranscription.text,
+        timestamp: Date.now(),
+      });
+    }
+
     // Handle turn complete
     if (content.turnComplete) {
       this.emit('turnComplete', {
@@ -351,60 +609,130 @@ export class GeminiLiveService extends EventEmitter {
   /**
    * Handle tool calls (function calling)
    */
-  private handleToolCall(toolCall: any): void {
+  private handleToolCall(toolCall: GeminiToolCall): void {
     this.emit('toolCall', toolCall);
 
-    // Process tool call and send response
-    this.processToolCall(toolCall).then((result) => {
-      const response = {
+    const sendResponse = (response: unknown) =>
+      this.send({
         toolResponse: {
-          functionCalls: [
-            {
-              id: toolCall.functionCalls[0].id,
-              response: result,
-            },
-          ],
+          functionCalls: [{ id: toolCall.functionCalls[0].id, response }],
         },
-      };
-      this.send(response);
-    }).catch((error) => {
-      this.logger.error('Failed to process tool call:', error);
-    });
+      });
+
+    // Process tool call and send response
+    this.processToolCall(toolCall)
+      .then(sendResponse)
+      .catch((error) => {
+        // The model waits for every call it made, so a failure is answered too
+        this.logger.error('Failed to process tool call:', error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
   }
 
   /**
    * Process tool calls (implement actual functionality)
    */
-  private async processToolCall(toolCall: any): Promise<any> {
-    const functionName = toolCall.functionCalls[0].name;
-    const args = toolCall.functionCalls[0].args;
+  private async processToolCall(toolCall: GeminiToolCall): Promise<any> {
+    const { name: functionName, args = {} } = toolCall.functionCalls[0];
 
     switch (functionName) {
       case 'searchKnowledgeBase':
-        // Implement knowledge base search
-        return {
-          results: [
-            {
-              title: 'Sample Result',
-              content: 'This would be actual knowledge base content',
-              relevance: 0.95,
-            },
-          ],
-        };
+        return this.searchKnowledgeBase((args as { query?: string }).query);
 
       case 'scheduleAppointment':
-        // Implement appointment scheduling
-        return {
-          success: true,
-          appointmentId: `apt-${Date.now()}`,
-          message: 'Appointment scheduled successfully',
-        };
+      case 'transferToHuman':
+      case 'endCall':
+      case 'sendDtmf':
+      case 'holdCall':
+        return this.runCallAction(functionName, args);
+
+      default: {
+        const customTool = this.config?.customTools?.find(
+          (tool) => tool.name === functionName,
+        );
+        if (customTool) {
+          return this.runCustomTool(customTool, args);
+        }
 
-      default:
         return {
           error: `Unknown function: ${functionName}`,
         };
+      }
+    }
+  }
+
+  /**
+   * Run an action on the phone call through the handler given in the config
+   */
+  private async runCallAction(
+    name: keyof GeminiCallActions,
+    args: GeminiCallActionArgs,
+  ): Promise<any> {
+    const action = this.config?.callActions?.[name] as
+      | ((args: GeminiCallActionArgs) => Promise<any>)
+      | undefined;
+
+    if (!action) {
+      return {
+        success: false,
+        message: `${name} is not available on this call`,
+      };
+    }
+
+    return action(args);
+  }
+
+  /**
+   * Call the client's system for a custom tool; the call is reported for the conversation log
+   */
+  private async runCustomTool(
+    tool: AgentTool,
+    args: Record<string, any>,
+  ): Promise<any> {
+    if (!this.agentToolRunner) {
+      return { success: false, message: 'Custom tools are not available' };
+    }
+
+    const { response, log } = await this.agentToolRunner.run(tool, args);
+    this.emit('customToolCall', log);
+
+    return response;
+  }
+
+  /**
+   * Retrieve the top matching knowledge base chunks for the model
+   */
+  private async searchKnowledgeBase(query?: string): Promise<any> {
+    const knowledgeBase = this.config?.knowledgeBase;
+
+    if (!knowledgeBase || !this.knowledgeSearchService) {
+      return { results: [], message: 'Knowledge base is not available' };
+    }
+
+    if (!query) {
+      return { error: 'Query is required' };
     }
+
+    const topK = parseInt(
+      this.configService.get<string>('KNOWLEDGE_BASE_TOP_K') || '3',
+    );
+    const results = await this.knowledgeSearchService.search(
+      knowledgeBase.id,
+      query,
+      topK,
+    );
+
+    this.logger.log(
+      `Knowledge base search "${query}" returned ${results.length} result(s)`,
+    );
+
+    return {
+      results: results.map((result) => ({
+        title: result.title,
+        content: result.content,
+        score: result.score,
+      })),
+    };
   }
 
   /**
@@ -1,36 +1,128 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { GeminiLiveService, GeminiLiveConfig } from './gemini-live.service';
+import {
+  GeminiLiveService,
+  GeminiLiveConfig,
+  GeminiCallActions,
+  AudioChunk,
+  TranscriptChunk,
+} from './gemini-live.service';
+import { KnowledgeSearchService } from '../knowledge-base/knowledge-search.service';
+import { AgentToolRunner } from '../agent-tools/agent-tool-runner.service';
+import type { FreeswitchEndpoint } from '../media/media.service';
+import {
+  AnsweredBy,
+  MachineDetection,
+  ToolCallLog,
+} from '../../schemas/conversation.schema';
+import {
+  MachineDetectionAction,
+  MachineDetectionSettings,
+} from '../../schemas/batch-call.schema';
+import { CallRecorder } from './call-recorder';
+import { AnsweringMachineDetector } from './answering-machine-detector';
+import {
+  AudioPipeline,
+  AudioPipelineService,
+  SipCodec,
+} from '../audio-pipeline/audio-pipeline.service';
 import { EventEmitter } from 'events';
 import * as transform from 'stream';
 
+export interface BridgeTranscriptSegment {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number; // seconds from the start of the call
+  confidence: number;
+}
+
+// Payload of 'bridgeEnded': what the call owner needs to save the conversation
+export interface BridgeEndedEvent {
+  handedOff: boolean; // the call continues with a manager
+  endCallReason: string | null;
+  machineDetection: MachineDetection | null;
+  duration: number; // seconds
+  transcriptSegments: BridgeTranscriptSegment[];
+  toolCalls: ToolCallLog[];
+  recording: Buffer | null; // stereo WAV: caller left, agent right
+  recordingMimeType: string;
+}
+
+interface PendingTurn {
+  text: string;
+  timestamp: number;
+  source: 'transcription' | 'text';
+}
+
+/**
+ * Control over the SIP leg of the call, provided by the call owner
+ */
+export interface SipCallControl {
+  hangup(): Promise<void>;
+  sendDtmf(digits: string): Promise<void>;
+  hold(onHold: boolean): Promise<void>;
+}
+
 export interface BridgeConfig extends GeminiLiveConfig {
   sipCallId: string;
   phoneNumber: string;
   direction: 'inbound' | 'outbound';
+  codec?: SipCodec; // negotiated SIP codec; read from the endpoint SDP when omitted
+  callControl?: SipCallControl; // enables the endCall, sendDtmf and holdCall tools
+  machineDetection?: MachineDetectionSettings; // outbound only; the voicemail message is already rendered
 }
 
+// After endCall, wait for the model to finish its reply before hanging up
+const END_CALL_MAX_WAIT_MS = 10000;
+// Time for the last reply to play out after the turn is complete
+const END_CALL_GRACE_MS = 2000;
+const DTMF_DIGITS = /^[0-9*#A-D]+$/;
+// Longest wait for the end of a machine greeting before leaving the voicemail anyway
+const VOICEMAIL_GREETING_MAX_WAIT_MS = 20000;
+// Hang up even if the model never finishes the voicemail message
+const VOICEMAIL_MAX_DURATION_MS = 30000;
+const VOICEMAIL_INSTRUCTION =
+  'The call was answered by an answering machine and it is recording now. Say the following voicemail message word for word, and nothing else:';
+
 /**
  * Bridge between SIP media stream and Gemini Live API
- * Handles audio format conversion and bidirectional streaming
+ * Handles audio format conversion and bidirectional streaming.
+ * One instance per call - create it with SipGeminiBridgeFactory.
  */
-@Injectable()
 export class SipGeminiBridge extends EventEmitter {
-  private readonly logger = new Logger(SipGeminiBridge.name);
+  private readonly logger: Logger;
   private geminiService: GeminiLiveService | null = null;
   private sipEndpoint: any = null;
+  private audioPipeline: AudioPipeline | null = null;
   private isActive: boolean = false;
   private audioBuffer: Buffer[] = [];
-  private recordingBuffer: Buffer[] = [];
+  private recorder: CallRecorder | null = null;
   private conversationStartTime: Date | null = null;
-  private transcriptSegments: Array<{
-    role: 'user' | 'assistant';
-    text: string;
-    timestamp: number;
-  }> = [];
-
-  constructor(private configService: ConfigService) {
+  private transcriptSegments: BridgeTranscriptSegment[] = [];
+  private toolCalls: ToolCallLog[] = [];
+  private callControl: SipCallControl | null = null;
+  private isOnHold: boolean = false;
+  private endCallReason: string | null = null; // set when the agent ended the call
+  private hangupTimer: NodeJS.Timeout | null = null;
+  private machineDetector: AnsweringMachineDetector | null = null; // set while screening the callee
+  private machineDetectionSettings: MachineDetectionSettings | null = null;
+  private machineDetection: MachineDetection | null = null;
+  private heldCallerAudio: Buffer[] = []; // kept from the model until a person is detected
+  private voicemailTimer: NodeJS.Timeout | null = null; // waiting for the machine greeting to end
+
+  // Transcription arrives in fragments; these collect the current turn of each side
+  private pendingUserTurn: PendingTurn | null = null;
+  private pendingAssistantTurn: PendingTurn | null = null;
+
+  constructor(
+    private configService: ConfigService,
+    private knowledgeSearchService: KnowledgeSearchService,
+    private audioPipelineService: AudioPipelineService,
+    private agentToolRunner: AgentToolRunner,
+    readonly sipCallId: string,
+  ) {
     super();
+    this.logger = new Logger(`${SipGeminiBridge.name}:${sipCallId}`);
   }
 
   /**
@@ -41,16 +133,44 @@ export class SipGeminiBridge extends EventEmitter {
       this.logger.log(`Starting SIP-Gemini bridge for call ${config.sipCallId}`);
       this.sipEndpoint = sipEndpoint;
       this.conversationStartTime = new Date();
+
+      // Convert between the negotiated SIP codec and Gemini's PCM rates
+      const codec =
+        config.codec ||
+        this.audioPipelineService.detectCodec(
+          (sipEndpoint as FreeswitchEndpoint | null)?.local.sdp,
+        );
+      this.audioPipeline = this.audioPipelineService.createPipeline(codec);
+      this.logger.log(`SIP codec: ${codec.name} (${codec.sampleRate} Hz)`);
+
+      this.recorder = new CallRecorder(
+        this.conversationStartTime.getTime(),
+        codec.sampleRate,
+      );
       this.isActive = true;
+      this.callControl = config.callControl || null;
+
+      // Outbound calls are screened for answering machines before the model hears the callee
+      if (config.direction === 'outbound' && config.machineDetection?.enabled) {
+        this.machineDetectionSettings = config.machineDetection;
+        this.machineDetector = new AnsweringMachineDetector(codec.sampleRate);
+      }
 
       // Create new Gemini Live service instance
-      this.geminiService = new GeminiLiveService(this.configService);
+      this.geminiService = new GeminiLiveService(
+        this.configService,
+        this.knowledgeSearchService,
+        this.agentToolRunner,
+      );
 
       // Set up Gemini Live event handlers
       this.setupGeminiHandlers();
 
       // Connect to Gemini Live
-      await this.geminiService.connect(config);
+      await this.geminiService.connect({
+        ...config,
+        callActions: { ...config.callActions, ...this.buildCallActions() },
+      });
 
       // Set up SIP audio handlers
       this.setupSipHandlers();
@@ -74,43 +194,71 @@ export class SipGeminiBridge extends EventEmitter {
     if (!this.geminiService) return;
 
     // Handle audio from Gemini (to be sent to SIP)
-    this.geminiService.on('audio', async (audioData: any) => {
+    this.geminiService.on('audio', (audioData: AudioChunk) => {
       try {
-        // Convert audio format if needed (Gemini uses PCM, SIP might use different codec)
-        const convertedAudio = await this.convertAudioForSip(audioData.data);
+        if (!this.sipEndpoint || !this.isActive || !this.audioPipeline) return;
 
-        // Send to SIP endpoint
-        if (this.sipEndpoint && this.isActive) {
-          this.sipEndpoint.write(convertedAudio);
+        // Resample Gemini output (24 kHz) to the SIP rate, then encode
+        const sipPcm = this.audioPipeline.fromGemini(
+          audioData.data,
+          audioData.mimeType,
+        );
+        this.sipEndpoint.write(this.audioPipeline.encodeSip(sipPcm));
 
-          // Store for recording
-          this.recordingBuffer.push(convertedAudio);
-        }
+        // Record the agent side (right channel)
+        this.recorder?.writeAgent(sipPcm);
       } catch (error) {
         this.logger.error('Failed to send audio to SIP:', error);
       }
     });
 
-    // Handle transcripts
-    this.geminiService.on('transcript', (transcript: any) => {
-      this.transcriptSegments.push({
-        role: transcript.role || 'assistant',
-        text: transcript.text,
-        timestamp: transcript.timestamp,
-      });
+    // Handle caller speech transcription
+    this.geminiService.on('inputTranscription', (data: TranscriptChunk) => {
+      this.appendToTurn('user', data.text, data.timestamp, 'transcription');
+      this.emit('transcript', { ...data, role: 'user' });
+    });
+
+    // Handle transcription of the assistant's spoken reply
+    this.geminiService.on('outputTranscription', (data: TranscriptChunk) => {
+      this.flushTurn('user');
+      this.appendToTurn(
+        'assistant',
+        data.text,
+        data.timestamp,
+        'transcription',
+      );
+      this.emit('transcript', { ...data, role: 'assistant' });
+    });
 
+    // Handle text parts (used only when no output transcription is available)
+    this.geminiService.on('transcript', (transcript: TranscriptChunk) => {
+      this.flushTurn('user');
+      this.appendToTurn(
+        'assistant',
+        transcript.text,
+        transcript.timestamp,
+        'text',
+      );
       this.emit('transcript', transcript);
       this.logger.debug(`Assistant: ${transcript.text}`);
     });
 
     // Handle turn completion
     this.geminiService.on('turnComplete', (data: any) => {
+      this.flushTurn('user');
+      this.flushTurn('assistant');
       this.emit('turnComplete', data);
+
+      // The goodbye or the voicemail message is complete; hang up once it has played
+      if (this.endCallReason !== null || this.machineDetection?.voicemailLeft) {
+        this.scheduleHangup(END_CALL_GRACE_MS);
+      }
     });
 
     // Handle interruptions
     this.geminiService.on('interrupted', () => {
       this.logger.log('User interrupted the assistant');
+      this.flushTurn('assistant');
       this.emit('interrupted');
     });
 
@@ -120,6 +268,11 @@ export class SipGeminiBridge extends EventEmitter {
       this.emit('toolCall', toolCall);
     });
 
+    // Keep custom tool calls for the conversation log
+    this.geminiService.on('customToolCall', (log: ToolCallLog) => {
+      this.toolCalls.push(log);
+    });
+
     // Handle errors
     this.geminiService.on('error', (error: any) => {
       this.logger.error('Gemini Live error:', error);
@@ -133,6 +286,62 @@ export class SipGeminiBridge extends EventEmitter {
     });
   }
 
+  /**
+   * Append a transcription fragment to the current turn of a speaker.
+   * Output transcription takes precedence over model text parts.
+   */
+  private appendToTurn(
+    role: 'user' | 'assistant',
+    text: string,
+    timestamp: number,
+    source: PendingTurn['source'],
+  ): void {
+    if (!text) return;
+
+    const key = role === 'user' ? 'pendingUserTurn' : 'pendingAssistantTurn';
+    const pending = this[key];
+
+    if (!pending) {
+      this[key] = { text, timestamp, source };
+      return;
+    }
+
+    if (pending.source === source) {
+      pending.text += text;
+    } else if (source === 'transcription') {
+      // Replace text parts with the transcription of what was actually spoken
+      this[key] = { text, timestamp: pending.timestamp, source };
+    }
+  }
+
+  /**
+   * Close the current turn of a speaker and store it as a transcript segment
+   */
+  private flushTurn(role: 'user' | 'assistant'): void {
+    const key = role === 'user' ? 'pendingUserTurn' : 'pendingAssistantTurn';
+    const pending = this[key];
+    this[key] = null;
+
+    const text = pending?.text.replace(/\s+/g, ' ').trim();
+    if (!pending || !text) return;
+
+    const startTime =
+      this.conversationStartTime?.getTime() || pending.timestamp;
+
+    this.transcriptSegments.push({
+      role,
+      text,
+      timestamp: Math.max(
+        0,
+        Math.round((pending.timestamp - startTime) / 10) / 100,
+      ),
+      // Gemini Live does not report recognition confidence
+      confidence: 1,
+    });
+
+    this.logger.debug(`${role === 'user' ? 'Caller' : 'Assistant'}: ${text}`);
+  }
+
   /**
    * Set up handlers for SIP audio stream
    */
@@ -143,23 +352,31 @@ export class SipGeminiBridge extends EventEmitter {
     const audioProcessor = new transform.Transform({
       transform: async (chunk: Buffer, encoding: string, callback: transform.TransformCallback) => {
         try {
-          if (this.isActive && this.geminiService) {
+          // Caller audio is not forwarded while the call is on hold
+          if (this.isActive && this.geminiService && !this.isOnHold) {
             // Buffer audio chunks to send in larger segments
             this.audioBuffer.push(chunk);
 
             // Send to Gemini when we have enough data (e.g., 100ms of audio)
-            if (this.audioBuffer.length >= 10) {
+            if (this.audioBuffer.length >= 10 && this.audioPipeline) {
               const audioData = Buffer.concat(this.audioBuffer);
               this.audioBuffer = [];
 
-              // Convert audio format for Gemini (SIP codec to PCM)
-              const pcmAudio = await this.convertAudioForGemini(audioData);
-
-              // Send to Gemini Live
-              await this.geminiService.sendAudio(pcmAudio);
-
-              // Store for recording
-              this.recordingBuffer.push(audioData);
+              // Decode the SIP codec and resample to the 16 kHz Gemini expects
+              const sipPcm = this.audioPipeline.decodeSip(audioData);
+              const geminiPcm = this.audioPipeline.toGemini(sipPcm);
+
+              if (this.machineDetector) {
+                await this.screenCallee(sipPcm, geminiPcm);
+              } else {
+                await this.geminiService.sendAudio(
+                  geminiPcm,
+                  this.audioPipeline.geminiInputMimeType,
+                );
+              }
+
+              // Record the caller side (left channel)
+              this.recorder?.writeCaller(sipPcm);
             }
           }
           callback();
@@ -186,93 +403,190 @@ export class SipGeminiBridge extends EventEmitter {
   }
 
   /**
-   * Convert audio from SIP codec to PCM for Gemini
-   * SIP typically uses G.711 (PCMU/PCMA) or G.722
+   * Answering-machine detection: the callee's audio is held back from the
+   * model until a person is detected. A machine is hung up on, or gets the
+   * voicemail message once its greeting is over.
    */
-  private async convertAudioForGemini(audioData: Buffer): Promise<Buffer> {
-    // For now, assume SIP is sending PCMU (G.711 μ-law)
-    // In production, detect codec from SDP and convert accordingly
+  private async screenCallee(sipPcm: Buffer, geminiPcm: Buffer): Promise<void> {
+    const detector = this.machineDetector;
+    if (!detector || !this.geminiService || !this.audioPipeline) return;
+
+    if (this.machineDetection) {
+      // Answered by a machine; speak once its beep or greeting is over
+      if (this.voicemailTimer && detector.isGreetingOver(sipPcm)) {
+        this.leaveVoicemail();
+      }
+      return;
+    }
 
-    // G.711 μ-law to Linear PCM conversion
-    const pcmBuffer = Buffer.alloc(audioData.length * 2); // PCM is 16-bit
+    this.heldCallerAudio.push(geminiPcm);
 
-    for (let i = 0; i < audioData.length; i++) {
-      const sample = this.mulawToPcm(audioData[i]);
-      pcmBuffer.writeInt16LE(sample, i * 2);
-    }
+    const verdict = detector.process(sipPcm);
+    if (!verdict) return;
 
-    return pcmBuffer;
-  }
+    this.machineDetection = verdict;
+    this.logger.log(
+      `Call answered by ${verdict.answeredBy} (${verdict.cue} after ${verdict.detectedAfterMs} ms)`,
+    );
+    this.emit('machineDetection', verdict);
 
-  /**
-   * Convert audio from Gemini PCM to SIP codec
-   */
-  private async convertAudioForSip(pcmData: Buffer): Promise<Buffer> {
-    // Convert Linear PCM to G.711 μ-law for SIP
-    const mulawBuffer = Buffer.alloc(pcmData.length / 2);
+    const heldAudio = Buffer.concat(this.heldCallerAudio);
+    this.heldCallerAudio = [];
 
-    for (let i = 0; i < pcmData.length; i += 2) {
-      const sample = pcmData.readInt16LE(i);
-      mulawBuffer[i / 2] = this.pcmToMulaw(sample);
+    if (verdict.answeredBy !== AnsweredBy.MACHINE) {
+      // Let the model hear the greeting it was held back from
+      this.machineDetector = null;
+      await this.geminiService.sendAudio(
+        heldAudio,
+        this.audioPipeline.geminiInputMimeType,
+      );
+      return;
     }
 
-    return mulawBuffer;
+    const settings = this.machineDetectionSettings;
+    if (
+      settings?.action === MachineDetectionAction.LEAVE_VOICEMAIL &&
+      settings.voicemailMessage
+    ) {
+      this.voicemailTimer = setTimeout(
+        () => this.leaveVoicemail(),
+        VOICEMAIL_GREETING_MAX_WAIT_MS,
+      );
+    } else {
+      this.scheduleHangup(0);
+    }
   }
 
   /**
-   * μ-law to PCM conversion
+   * Have the model speak the voicemail message, then hang up
    */
-  private mulawToPcm(mulaw: number): number {
-    const BIAS = 0x84;
-    const CLIP = 32635;
+  private leaveVoicemail(): void {
+    if (this.voicemailTimer) {
+      clearTimeout(this.voicemailTimer);
+      this.voicemailTimer = null;
+    }
 
-    mulaw = ~mulaw;
-    const sign = mulaw & 0x80;
-    const exponent = (mulaw >> 4) & 0x07;
-    const mantissa = mulaw & 0x0F;
+    const message = this.machineDetectionSettings?.voicemailMessage;
+    if (!this.geminiService || !this.machineDetection || !message) return;
 
-    let sample = (mantissa << 3) + BIAS;
-    sample = sample << exponent;
+    this.machineDetection.voicemailLeft = true;
+    this.logger.log('Leaving a voicemail message');
+    this.geminiService.sendText(`${VOICEMAIL_INSTRUCTION}\n\n"${message}"`);
 
-    return sign ? -sample : sample;
+    // Hang up after the message, or after a while if the model stays silent
+    this.scheduleHangup(VOICEMAIL_MAX_DURATION_MS);
   }
 
   /**
-   * PCM to μ-law conversion
+   * endCall, sendDtmf and holdCall tools, when the SIP leg can be controlled
    */
-  private pcmToMulaw(pcm: number): number {
-    const BIAS = 0x84;
-    const CLIP = 32635;
-    const MAX = 0x1FFF;
-
-    let sign = 0;
-    if (pcm < 0) {
-      sign = 0x80;
-      pcm = -pcm;
-    }
+  private buildCallActions(): GeminiCallActions {
+    const callControl = this.callControl;
+    if (!callControl) return {};
 
-    if (pcm > CLIP) pcm = CLIP;
+    return {
+      endCall: ({ reason }) => {
+        if (this.endCallReason !== null) {
+          return Promise.resolve({
+            success: true,
+            message: 'The call is already ending',
+          });
+        }
 
-    pcm += BIAS;
+        this.endCallReason = reason || 'not specified';
+        this.logger.log(`Agent ended the call: ${this.endCallReason}`);
 
-    let exponent = 7;
-    for (let expMask = 0x4000; (pcm & expMask) === 0 && exponent > 0; exponent--, expMask >>= 1) {}
+        // Hang up after the current reply, or after a while if the model stays silent
+        this.scheduleHangup(END_CALL_MAX_WAIT_MS);
 
-    const mantissa = (pcm >> (exponent + 3)) & 0x0F;
-    const mulaw = ~(sign | (exponent << 4) | mantissa);
+        return Promise.resolve({
+          success: true,
+          message:
+            'The call will end after your current reply. Do not say anything else.',
+        });
+      },
 
-    return mulaw & 0xFF;
+      sendDtmf: async ({ digits }) => {
+        const keys = (digits || '').replace(/\s/g, '').toUpperCase();
+        if (!DTMF_DIGITS.test(keys)) {
+          return {
+            success: false,
+            message: 'Digits may contain only 0-9, *, # and A-D',
+          };
+        }
+
+        try {
+          await callControl.sendDtmf(keys);
+          return { success: true, digits: keys };
+        } catch (error) {
+          this.logger.error(`Failed to send DTMF ${keys}:`, error);
+          return { success: false, message: 'Failed to send the keys' };
+        }
+      },
+
+      holdCall: async ({ onHold }) => {
+        const hold = onHold !== false;
+        if (hold === this.isOnHold) {
+          return { success: true, onHold: hold };
+        }
+
+        try {
+          await callControl.hold(hold);
+          this.isOnHold = hold;
+          this.logger.log(hold ? 'Call put on hold' : 'Call taken off hold');
+          return { success: true, onHold: hold };
+        } catch (error) {
+          this.logger.error(
+            `Failed to ${hold ? 'hold' : 'resume'} the call:`,
+            error,
+          );
+          return { success: false, message: 'Failed to change the hold state' };
+        }
+      },
+    };
+  }
+
+  /**
+   * Hang up the SIP leg after a delay; a later call replaces the pending one
+   */
+  private scheduleHangup(delayMs: number): void {
+    if (this.hangupTimer) {
+      clearTimeout(this.hangupTimer);
+    }
+
+    this.hangupTimer = setTimeout(() => {
+      this.hangupTimer = null;
+      this.callControl?.hangup().catch((error) => {
+        this.logger.error('Failed to hang up the call:', error);
+      });
+    }, delayMs);
   }
 
   /**
-   * Stop the bridge and clean up
+   * Stop the bridge and clean up.
+   * With handedOff the call continues without the AI (e.g. transferred to a manager);
+   * the SIP endpoint is left up either way.
    */
-  async stop(): Promise<void> {
+  async stop(options: { handedOff?: boolean } = {}): Promise<void> {
     if (!this.isActive) return;
 
-    this.logger.log('Stopping SIP-Gemini bridge');
+    this.logger.log(
+      options.handedOff
+        ? 'Handing the call off from Gemini'
+        : 'Stopping SIP-Gemini bridge',
+    );
     this.isActive = false;
 
+    if (this.hangupTimer) {
+      clearTimeout(this.hangupTimer);
+      this.hangupTimer = null;
+    }
+
+    if (this.voicemailTimer) {
+      clearTimeout(this.voicemailTimer);
+      this.voicemailTimer = null;
+    }
+
     // Disconnect from Gemini
     if (this.geminiService) {
       this.geminiService.disconnect();
@@ -287,22 +601,60 @@ export class SipGeminiBridge extends EventEmitter {
       this.sipEndpoint = null;
     }
 
+    // Keep any turn that was still in progress when the call ended
+    this.flushTurn('user');
+    this.flushTurn('assistant');
+
     // Emit conversation ended event with data
     const duration = this.conversationStartTime
       ? (Date.now() - this.conversationStartTime.getTime()) / 1000
       : 0;
 
-    this.emit('bridgeEnded', {
+    const ended: BridgeEndedEvent = {
+      handedOff: !!options.handedOff,
+      endCallReason: this.endCallReason,
+      machineDetection: this.machineDetection,
       duration,
       transcriptSegments: this.transcriptSegments,
-      recordingBuffer: Buffer.concat(this.recordingBuffer),
-    });
+      toolCalls: this.toolCalls,
+      recording:
+        this.recorder && !this.recorder.isEmpty ? this.recorder.toWav() : null,
+      recordingMimeType: CallRecorder.MIME_TYPE,
+    };
+    this.emit('bridgeEnded', ended);
 
     // Clear buffers
     this.audioBuffer = [];
-    this.recordingBuffer = [];
+    this.recorder = null;
+    this.audioPipeline = null;
     this.transcriptSegments = [];
+    this.toolCalls = [];
     this.conversationStartTime = null;
+    this.pendingUserTurn = null;
+    this.pendingAssistantTurn = null;
+    this.callControl = null;
+    this.isOnHold = false;
+    this.endCallReason = null;
+    this.machineDetector = null;
+    this.machineDetectionSettings = null;
+    this.machineDetection = null;
+    this.heldCallerAudio = [];
+  }
+
+  /**
+   * Transcript of the conversation so far
+   */
+  getTranscript(): BridgeTranscriptSegment[] {
+    return [...this.transcriptSegments];
+  }
+
+  /**
+   * Tell the model about an event on the call it should react to
+   */
+  notify(text: string): void {
+    if (!this.isActive || !this.geminiService) return;
+
+    this.geminiService.sendText(text);
   }
 
   /**
@@ -315,7 +667,34 @@ export class SipGeminiBridge extends EventEmitter {
         ? (Date.now() - this.conversationStartTime.getTime()) / 1000
         : 0,
       transcriptCount: this.transcriptSegments.length,
-      recordingSize: this.recordingBuffer.reduce((acc, buf) => acc + buf.length, 0),
+      recordingDuration: this.recorder?.duration || 0,
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Creates isolated SipGeminiBridge instances so concurrent calls
+ * never share audio buffers, transcripts or event listeners
+ */
+@Injectable()
+export class SipGeminiBridgeFactory {
+  constructor(
+    private configService: ConfigService,
+    private knowledgeSearchService: KnowledgeSearchService,
+    private audioPipelineService: AudioPipelineService,
+    private agentToolRunner: AgentToolRunner,
+  ) {}
+
+  /**
+   * Create a new bridge for a single SIP call
+   */
+  create(sipCallId: string): SipGeminiBridge {
+    return new SipGeminiBridge(
+      this.configService,
+      this.knowledgeSearchService,
+      this.audioPipelineService,
+      this.agentToolRunner,
+      sipCallId,
+    );
+  }
+}
@@ -9,6 +9,21 @@ import { Readable } from 'stream';
 import { SentimentType } from '../../schemas/conversation.schema';
 import * as path from 'path';
 
+/** Result of analyzeConversation */
+export interface ConversationAnalysis {
+  summary: string;
+  sentiment: SentimentType;
+  keyPoints: string[];
+  customerIntention: string;
+  nextSteps: string[];
+  callOutcome?: string;
+  extractedCustomerData?: any;
+  dealProbability?: number;
+  conversationQuality?: number;
+  concerns?: string[];
+  optOut?: boolean;
+}
+
 @Injectable()
 export class GoogleCloudService {
   private readonly logger = new Logger(GoogleCloudService.name);
@@ -283,23 +298,45 @@ export class GoogleCloudService {
     }
   }
 
+  /**
+   * Google AI: Generate text embeddings (one vector per input text)
+   */
+  async generateEmbeddings(
+    texts: string[],
+    modelName: string = 'text-embedding-004',
+  ): Promise<number[][]> {
+    if (!this.genAI) {
+      throw new Error('Embeddings require GEMINI_API_KEY to be configured');
+    }
+
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const model = this.genAI.getGenerativeModel({ model: modelName });
+    const embeddings: number[][] = [];
+
+    // The API accepts at most 100 requests per batch
+    for (let i = 0; i < texts.length; i += 100) {
+      const batch = texts.slice(i, i + 100);
+      const result = await model.batchEmbedContents({
+        requests: batch.map((text) => ({
+          content: { role: 'user', parts: [{ text }] },
+        })),
+      });
+
+      embeddings.push(
+        ...result.embeddings.map((embedding) => embedding.values),
+      );
+    }
+
+    return embeddings;
+  }
+
   /**
    * Vertex AI: Analyze conversation for insights
    */
-  async analyzeConversation(
-    transcript: string,
-  ): Promise<{
-    summary: string;
-    sentiment: SentimentType;
-    keyPoints: string[];
-    customerIntention: string;
-    nextSteps: string[];
-    callOutcome?: string;
-    extractedCustomerData?: any;
-    dealProbability?: number;
-    conversationQuality?: number;
-    concerns?: string[];
-  }> {
+  async analyzeConversation(transcript: string): Promise<ConversationAnalysis> {
     const prompt = `Проанализируй следующий телефонный разговор максимально детально и предоставь:
 
 1. Краткое резюме разговора (2-3 предложения)
@@ -334,6 +371,9 @@ export class GoogleCloudService {
    - conversationQuality: качество разговора (0-10)
    - concerns: возражения или опасения клиента (массив строк)
 
+9. Отказ от звонков (optOut): true ТОЛЬКО если клиент явно попросил больше ему не звонить
+   или удалить его номер из базы. Простой отказ от предложения - это не optOut.
+
 Верни результат СТРОГО в формате JSON:
 {
   "summary": "краткое резюме",
@@ -354,7 +394,8 @@ export class GoogleCloudService {
   },
   "dealProbability": 85,
   "conversationQuality": 8,
-  "concerns": ["возражение1", "возражение2"] или []
+  "concerns": ["возражение1", "возражение2"] или [],
+  "optOut": false
 }
 
 Разговор:
@@ -373,7 +414,7 @@ ${transcript}`;
       throw new Error('Failed to parse AI analysis response');
     }
 
-    const analysis = JSON.parse(jsonMatch[0]);
+    const analysis = JSON.parse(jsonMatch[0]) as ConversationAnalysis;
 
     // Map sentiment to enum
     const sentimentMap: Record<string, SentimentType> = {
@@ -383,6 +424,7 @@ ${transcript}`;
     };
 
     analysis.sentiment = sentimentMap[analysis.sentiment.toLowerCase()] || SentimentType.NEUTRAL;
+    analysis.optOut = analysis.optOut === true;
 
     return analysis;
   }
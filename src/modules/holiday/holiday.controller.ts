@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { HolidayService } from './holiday.service';
+import { CreateHolidayDto } from './dto/holiday.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import type { AuthenticatedRequest } from '../../common/interfaces/authenticated-request.interface';
+import { UserRole } from '../../schemas/user.schema';
+
+@Controller('holidays')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class HolidayController {
+  constructor(private readonly holidayService: HolidayService) {}
+
+  @Get()
+  async findAll(@Request() req: AuthenticatedRequest) {
+    const holidays = await this.holidayService.findAll(req.user.companyId);
+
+    return {
+      success: true,
+      data: holidays,
+      count: holidays.length,
+    };
+  }
+
+  /**
+   * Add a day the company is closed; inbound calls get the after-hours handling
+   */
+  @Post()
+  @Roles(UserRole.COMPANY_ADMIN)
+  async create(
+    @Request() req: AuthenticatedRequest,
+    @Body() createDto: CreateHolidayDto,
+  ) {
+    const holiday = await this.holidayService.create(
+      req.user.companyId,
+      createDto,
+      req.user.userId,
+    );
+
+    return {
+      success: true,
+      data: holiday,
+      message: 'Holiday added successfully',
+    };
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.COMPANY_ADMIN)
+  async remove(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    await this.holidayService.remove(req.user.companyId, id);
+
+    return {
+      success: true,
+      message: 'Holiday deleted successfully',
+    };
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { HolidayService } from './holiday.service';
+import { HolidayController } from './holiday.controller';
+import { Holiday, HolidaySchema } from '../../schemas/holiday.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Holiday.name, schema: HolidaySchema }]),
+  ],
+  controllers: [HolidayController],
+  providers: [HolidayService],
+  exports: [HolidayService],
+})
+export class HolidayModule {}
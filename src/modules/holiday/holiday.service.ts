@@ -0,0 +1,80 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Holiday, HolidayDocument } from '../../schemas/holiday.schema';
+import { CreateHolidayDto } from './dto/holiday.dto';
+
+/**
+ * Holiday calendar of a company: days inbound calls are handled as after hours
+ */
+@Injectable()
+export class HolidayService {
+  constructor(
+    @InjectModel(Holiday.name) private holidayModel: Model<HolidayDocument>,
+  ) {}
+
+  async findAll(companyId: string): Promise<HolidayDocument[]> {
+    return this.holidayModel
+      .find({ companyId: new Types.ObjectId(companyId) })
+      .sort({ date: 1 })
+      .exec();
+  }
+
+  async create(
+    companyId: string,
+    createDto: CreateHolidayDto,
+    userId?: string,
+  ): Promise<HolidayDocument> {
+    const existing = await this.holidayModel.exists({
+      companyId: new Types.ObjectId(companyId),
+      date: createDto.date,
+    });
+
+    if (existing) {
+      throw new ConflictException('A holiday on this date already exists');
+    }
+
+    return this.holidayModel.create({
+      companyId: new Types.ObjectId(companyId),
+      date: createDto.date,
+      name: createDto.name,
+      recurring: createDto.recurring ?? false,
+      createdBy: userId ? new Types.ObjectId(userId) : undefined,
+    });
+  }
+
+  async remove(companyId: string, id: string): Promise<void> {
+    const result = await this.holidayModel.deleteOne({
+      _id: new Types.ObjectId(id),
+      companyId: new Types.ObjectId(companyId),
+    });
+
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Holiday not found');
+    }
+  }
+
+  /**
+   * Whether the local date (YYYY-MM-DD) is a holiday of the company
+   */
+  async isHolidayDate(
+    companyId: string | Types.ObjectId,
+    localDate: string,
+  ): Promise<boolean> {
+    const monthAndDay = localDate.slice(4); // -MM-DD
+
+    const holiday = await this.holidayModel.exists({
+      companyId: new Types.ObjectId(companyId),
+      $or: [
+        { date: localDate },
+        { recurring: true, date: { $regex: `${monthAndDay}$` } },
+      ],
+    });
+
+    return !!holiday;
+  }
+}
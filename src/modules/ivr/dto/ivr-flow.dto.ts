@@ -0,0 +1,193 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { IvrActionType } from '../../../schemas/ivr-flow.schema';
+
+const NODE_ID = /^[\w-]{1,50}$/;
+
+export class IvrPromptDto {
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  text?: string;
+
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  audioUrl?: string;
+}
+
+export class IvrActionDto {
+  @IsEnum(IvrActionType)
+  type: IvrActionType;
+
+  @Matches(NODE_ID, { message: 'nodeId must be a node id' })
+  @IsOptional()
+  nodeId?: string;
+
+  @IsMongoId()
+  @IsOptional()
+  agentId?: string;
+
+  @IsMongoId()
+  @IsOptional()
+  queueId?: string;
+
+  @IsMongoId({ each: true })
+  @IsArray()
+  @IsOptional()
+  managerIds?: string[];
+
+  @Matches(NODE_ID, { message: 'fallbackNodeId must be a node id' })
+  @IsOptional()
+  fallbackNodeId?: string;
+}
+
+export class IvrOptionDto {
+  @Matches(/^[0-9*]{1,10}$/, {
+    message: 'digits must contain only 0-9 and *',
+  })
+  digits: string;
+
+  @ValidateNested()
+  @Type(() => IvrActionDto)
+  action: IvrActionDto;
+}
+
+export class IvrNodeDto {
+  @Matches(NODE_ID, {
+    message: 'id must contain only letters, digits, _ and -',
+  })
+  id: string;
+
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @ValidateNested()
+  @Type(() => IvrPromptDto)
+  prompt: IvrPromptDto;
+
+  @IsArray()
+  @ArrayMaxSize(12)
+  @ValidateNested({ each: true })
+  @Type(() => IvrOptionDto)
+  @IsOptional()
+  options?: IvrOptionDto[];
+
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  @IsOptional()
+  maxDigits?: number;
+
+  @IsInt()
+  @Min(1000)
+  @Max(30000)
+  @IsOptional()
+  timeoutMs?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  @IsOptional()
+  retries?: number;
+
+  @ValidateNested()
+  @Type(() => IvrPromptDto)
+  @IsOptional()
+  invalidPrompt?: IvrPromptDto;
+
+  @ValidateNested()
+  @Type(() => IvrActionDto)
+  @IsOptional()
+  defaultAction?: IvrActionDto;
+}
+
+export class CreateIvrFlowDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsString({ each: true })
+  @IsArray()
+  @IsOptional()
+  phoneNumbers?: string[];
+
+  @Matches(NODE_ID, { message: 'startNodeId must be a node id' })
+  startNodeId: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => IvrNodeDto)
+  nodes: IvrNodeDto[];
+
+  @IsString()
+  @IsOptional()
+  language?: string;
+
+  @IsString()
+  @IsOptional()
+  voiceName?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
+
+export class UpdateIvrFlowDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @IsOptional()
+  name?: string;
+
+  @IsString({ each: true })
+  @IsArray()
+  @IsOptional()
+  phoneNumbers?: string[];
+
+  // Nodes and the start node are replaced together
+  @Matches(NODE_ID, { message: 'startNodeId must be a node id' })
+  @IsOptional()
+  startNodeId?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => IvrNodeDto)
+  @IsOptional()
+  nodes?: IvrNodeDto[];
+
+  @IsString()
+  @IsOptional()
+  language?: string;
+
+  @IsString()
+  @IsOptional()
+  voiceName?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
+}
@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { InboundCall, SipService } from '../sip/sip.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { CallTransferService } from '../call-transfer/call-transfer.service';
+import { InboundCallService } from '../call-transfer/inbound-call.service';
+import { VoicemailCallService } from '../voicemail/voicemail-call.service';
+import { CallQueueService } from '../call-queue/call-queue.service';
+import { QueueCallService } from '../call-queue/queue-call.service';
+import { IvrRunnerService } from './ivr-runner.service';
+import { IvrActionType, IvrFlowDocument } from '../../schemas/ivr-flow.schema';
+import {
+  CallerType,
+  CallStatus,
+  IvrLog,
+} from '../../schemas/conversation.schema';
+import { Agent, AgentRecord } from '../../schemas/agent.schema';
+
+/**
+ * Answers inbound calls with the IVR menu of their number and routes the
+ * caller where they chose
+ */
+@Injectable()
+export class IvrCallService {
+  private readonly logger = new Logger(IvrCallService.name);
+
+  constructor(
+    private sipService: SipService,
+    private conversationService: ConversationService,
+    private ivrRunnerService: IvrRunnerService,
+    private callTransferService: CallTransferService,
+    private inboundCallService: InboundCallService,
+    private voicemailCallService: VoicemailCallService,
+    private callQueueService: CallQueueService,
+    private queueCallService: QueueCallService,
+    @InjectModel(Agent.name) private agentModel: Model<Agent>,
+  ) {}
+
+  /**
+   * Run the menu and route the caller to the managers, queue or voicemail
+   * they chose. Returns the agent the caller is to be handed to, if any.
+   */
+  async handle(
+    call: InboundCall,
+    flow: IvrFlowDocument,
+  ): Promise<AgentRecord | null> {
+    const { session } = call;
+    const { callId } = session;
+    const companyId = flow.companyId;
+
+    const conversation = await this.inboundCallService.answer(call, companyId, {
+      callerType: CallerType.IVR,
+    });
+
+    const ivrLog: IvrLog = {
+      flowId: flow._id as Types.ObjectId,
+      flowName: flow.name,
+      steps: [],
+      exitAction: IvrActionType.HANGUP,
+    };
+
+    try {
+      let { action } = await this.ivrRunnerService.run(
+        callId,
+        flow,
+        flow.startNodeId,
+        ivrLog.steps,
+      );
+
+      // Nobody in the group answered: continue at the fallback node, or take a message
+      while (
+        action.type === IvrActionType.MANAGERS &&
+        this.sipService.getCall(callId)
+      ) {
+        if (
+          await this.callTransferService.ringManagers(
+            session,
+            companyId,
+            conversation,
+            `IVR: ${flow.name}`,
+            action.managerIds,
+          )
+        ) {
+          break;
+        }
+
+        action = action.fallbackNodeId
+          ? (
+              await this.ivrRunnerService.run(
+                callId,
+                flow,
+                action.fallbackNodeId,
+                ivrLog.steps,
+              )
+            ).action
+          : { type: IvrActionType.VOICEMAIL };
+      }
+
+      const agent =
+        action.type === IvrActionType.AGENT
+          ? await this.agentModel
+              .findOne({ _id: action.agentId, companyId, isActive: true })
+              .lean<AgentRecord>()
+          : null;
+
+      ivrLog.exitAction = action.type;
+      await this.conversationService.setIvrLog(
+        conversation._id,
+        companyId,
+        ivrLog,
+        agent?._id,
+      );
+
+      // The caller hung up in the menu
+      if (!this.sipService.getCall(callId)) {
+        await this.conversationService.updateStatus(
+          callId,
+          companyId,
+          CallStatus.MISSED,
+        );
+        return null;
+      }
+
+      switch (action.type) {
+        case IvrActionType.MANAGERS:
+          // Connected; CallTransferService closes the conversation when the call ends
+          return null;
+        case IvrActionType.AGENT:
+          if (agent) {
+            this.inboundCallService.release(callId);
+            return agent;
+          }
+          this.logger.warn(
+            `IVR agent ${action.agentId} is not available, taking a message on call ${callId}`,
+          );
+          await this.voicemailCallService.takeMessage(
+            session,
+            companyId,
+            conversation._id,
+          );
+          return null;
+        case IvrActionType.VOICEMAIL:
+          await this.voicemailCallService.takeMessage(
+            session,
+            companyId,
+            conversation._id,
+          );
+          return null;
+        case IvrActionType.QUEUE: {
+          const callQueue = await this.callQueueService.findActive(
+            companyId,
+            action.queueId as string,
+          );
+          if (callQueue) {
+            return this.queueCallService.handle(call, callQueue, conversation);
+          }
+          this.logger.warn(
+            `IVR queue ${action.queueId} is not active, taking a message on call ${callId}`,
+          );
+          await this.voicemailCallService.takeMessage(
+            session,
+            companyId,
+            conversation._id,
+          );
+          return null;
+        }
+        default:
+          await this.conversationService.updateStatus(
+            callId,
+            companyId,
+            CallStatus.COMPLETED,
+          );
+          await this.sipService.hangupCall(callId);
+          return null;
+      }
+    } catch (error) {
+      await this.conversationService.setIvrLog(
+        conversation._id,
+        companyId,
+        ivrLog,
+      );
+      await this.inboundCallService.fail(
+        callId,
+        companyId,
+        `IVR flow ${flow.name} failed on call ${callId}:`,
+        error,
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { IvrRunnerService } from './ivr-runner.service';
+import { MediaService } from '../media/media.service';
+import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+import { IvrActionType, IvrFlow, IvrNode } from '../../schemas/ivr-flow.schema';
+
+function node(overrides: Partial<IvrNode>): IvrNode {
+  return {
+    id: 'main',
+    prompt: { text: 'Press 1 for sales, 2 for support' },
+    options: [],
+    maxDigits: 1,
+    timeoutMs: 5000,
+    retries: 2,
+    ...overrides,
+  };
+}
+
+function flow(nodes: IvrNode[]): IvrFlow {
+  return {
+    name: 'Main menu',
+    startNodeId: nodes[0].id,
+    nodes,
+    language: 'ru-RU',
+    voiceName: 'ru-RU-Wavenet-A',
+  } as IvrFlow;
+}
+
+describe('IvrRunnerService', () => {
+  let service: IvrRunnerService;
+  let mediaService: {
+    collectDigits: jest.Mock;
+    playAudio: jest.Mock;
+    playTTS: jest.Mock;
+    isEndpointActive: jest.Mock;
+  };
+  let googleCloudService: { synthesizeSpeech: jest.Mock };
+
+  const menu = node({
+    options: [
+      { digits: '1', action: { type: IvrActionType.NODE, nodeId: 'sales' } },
+      { digits: '2', action: { type: IvrActionType.VOICEMAIL } },
+    ],
+    invalidPrompt: { audioUrl: '/sounds/invalid.wav' },
+    defaultAction: { type: IvrActionType.MANAGERS },
+  });
+  const sales = node({
+    id: 'sales',
+    prompt: { audioUrl: '/sounds/sales.wav' },
+    defaultAction: { type: IvrActionType.AGENT, agentId: 'agent-1' },
+  });
+
+  beforeEach(async () => {
+    mediaService = {
+      collectDigits: jest.fn(),
+      playAudio: jest.fn().mockResolvedValue(undefined),
+      playTTS: jest.fn().mockResolvedValue(undefined),
+      isEndpointActive: jest.fn().mockReturnValue(true),
+    };
+    googleCloudService = {
+      synthesizeSpeech: jest.fn().mockResolvedValue(Buffer.from('mp3')),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IvrRunnerService,
+        { provide: MediaService, useValue: mediaService },
+        { provide: GoogleCloudService, useValue: googleCloudService },
+      ],
+    }).compile();
+
+    service = module.get<IvrRunnerService>(IvrRunnerService);
+  });
+
+  it('should follow the chosen option through play-only nodes', async () => {
+    mediaService.collectDigits.mockResolvedValueOnce('1');
+
+    const result = await service.run('call-1', flow([menu, sales]));
+
+    expect(result.action).toEqual({
+      type: IvrActionType.AGENT,
+      agentId: 'agent-1',
+    });
+    expect(mediaService.playAudio).toHaveBeenCalledWith(
+      'call-1',
+      '/sounds/sales.wav',
+    );
+    expect(result.steps.map((step) => [step.nodeId, step.result])).toEqual([
+      ['main', 'matched'],
+      ['sales', 'played'],
+    ]);
+  });
+
+  it('should repeat the prompt after no or invalid input', async () => {
+    mediaService.collectDigits
+      .mockResolvedValueOnce('')
+      .mockResolvedValueOnce('7')
+      .mockResolvedValueOnce('2');
+
+    const result = await service.run('call-1', flow([menu, sales]));
+
+    expect(result.action.type).toBe(IvrActionType.VOICEMAIL);
+    expect(result.steps.map((step) => step.result)).toEqual([
+      'no_input',
+      'no_match',
+      'matched',
+    ]);
+    expect(mediaService.playAudio).toHaveBeenCalledTimes(2);
+    // The spoken prompt is synthesized once for all attempts
+    expect(googleCloudService.synthesizeSpeech).toHaveBeenCalledTimes(1);
+  });
+
+  it('should take the default action once retries are used up', async () => {
+    mediaService.collectDigits.mockResolvedValue('');
+
+    const result = await service.run('call-1', flow([menu, sales]));
+
+    expect(result.action.type).toBe(IvrActionType.MANAGERS);
+    expect(mediaService.collectDigits).toHaveBeenCalledTimes(3);
+  });
+
+  it('should hang up on menus that loop forever', async () => {
+    const loop = node({
+      id: 'loop',
+      defaultAction: { type: IvrActionType.NODE, nodeId: 'loop' },
+    });
+
+    const result = await service.run('call-1', flow([loop]));
+
+    expect(result.action.type).toBe(IvrActionType.HANGUP);
+    expect(result.steps).toHaveLength(20);
+  });
+
+  it('should stop when the caller hangs up', async () => {
+    mediaService.isEndpointActive.mockReturnValue(false);
+
+    const result = await service.run('call-1', flow([menu, sales]));
+
+    expect(result).toEqual({
+      action: { type: IvrActionType.HANGUP },
+      steps: [],
+    });
+  });
+});
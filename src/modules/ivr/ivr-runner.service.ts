@@ -0,0 +1,147 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MediaService } from '../media/media.service';
+import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+import {
+  IvrAction,
+  IvrActionType,
+  IvrFlow,
+  IvrNode,
+  IvrPrompt,
+} from '../../schemas/ivr-flow.schema';
+import { IvrStep } from '../../schemas/conversation.schema';
+
+// Guards against menus that send the caller around in circles forever
+const MAX_NODE_VISITS = 20;
+
+const HANGUP: IvrAction = { type: IvrActionType.HANGUP };
+
+export interface IvrRunResult {
+  action: IvrAction; // where the caller goes next; never a node action
+  steps: IvrStep[];
+}
+
+/**
+ * Plays IVR flows to callers: speaks or plays each prompt, collects DTMF
+ * digits with timeouts and retries, and follows the chosen options
+ */
+@Injectable()
+export class IvrRunnerService {
+  private readonly logger = new Logger(IvrRunnerService.name);
+
+  constructor(
+    private mediaService: MediaService,
+    private googleCloudService: GoogleCloudService,
+  ) {}
+
+  /**
+   * Walk the flow from the given node until the caller is handed over or
+   * the flow hangs up. `steps` continues the log of an earlier run.
+   */
+  async run(
+    callId: string,
+    flow: IvrFlow,
+    startNodeId: string = flow.startNodeId,
+    steps: IvrStep[] = [],
+  ): Promise<IvrRunResult> {
+    const nodes = new Map(flow.nodes.map((node) => [node.id, node]));
+    // TTS of each prompt text, synthesized once per run
+    const speech = new Map<string, Buffer>();
+    const toAudio = async (prompt: IvrPrompt): Promise<string | Buffer> => {
+      if (prompt.audioUrl) {
+        return prompt.audioUrl;
+      }
+
+      const text = prompt.text || '';
+      let audio = speech.get(text);
+      if (!audio) {
+        audio = await this.googleCloudService.synthesizeSpeech(
+          text,
+          flow.voiceName,
+          flow.language,
+        );
+        speech.set(text, audio);
+      }
+      return audio;
+    };
+
+    let node = nodes.get(startNodeId);
+    for (let visits = 0; node && visits < MAX_NODE_VISITS; visits++) {
+      // The caller hung up
+      if (!this.mediaService.isEndpointActive(callId)) {
+        break;
+      }
+
+      const action = await this.runNode(callId, node, steps, toAudio);
+      if (action.type !== IvrActionType.NODE) {
+        return { action, steps };
+      }
+
+      node = action.nodeId ? nodes.get(action.nodeId) : undefined;
+    }
+
+    if (node) {
+      this.logger.warn(
+        `IVR flow ${flow.name} looped too long on call ${callId}`,
+      );
+    }
+
+    return { action: HANGUP, steps };
+  }
+
+  /**
+   * Play one node and return the action the caller chose
+   */
+  private async runNode(
+    callId: string,
+    node: IvrNode,
+    steps: IvrStep[],
+    toAudio: (prompt: IvrPrompt) => Promise<string | Buffer>,
+  ): Promise<IvrAction> {
+    const prompt = await toAudio(node.prompt);
+
+    if (node.options.length === 0) {
+      await this.play(callId, prompt);
+      steps.push({
+        nodeId: node.id,
+        nodeName: node.name,
+        result: 'played',
+        at: new Date(),
+      });
+      return node.defaultAction ?? HANGUP;
+    }
+
+    for (let attempt = 0; attempt <= node.retries; attempt++) {
+      const digits = await this.mediaService.collectDigits(callId, prompt, {
+        maxDigits: node.maxDigits,
+        timeoutMs: node.timeoutMs,
+      });
+      const option = node.options.find((o) => o.digits === digits);
+
+      steps.push({
+        nodeId: node.id,
+        nodeName: node.name,
+        digits: digits || undefined,
+        result: option ? 'matched' : digits ? 'no_match' : 'no_input',
+        at: new Date(),
+      });
+
+      if (option) {
+        return option.action;
+      }
+
+      if (node.invalidPrompt && attempt < node.retries) {
+        await this.play(callId, await toAudio(node.invalidPrompt));
+      }
+    }
+
+    return node.defaultAction ?? HANGUP;
+  }
+
+  private async play(callId: string, audio: string | Buffer): Promise<void> {
+    if (typeof audio === 'string') {
+      await this.mediaService.playAudio(callId, audio);
+    } else {
+      await this.mediaService.playTTS(callId, audio);
+    }
+  }
+}
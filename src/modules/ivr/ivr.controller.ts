@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { IvrService } from './ivr.service';
+import { CreateIvrFlowDto, UpdateIvrFlowDto } from './dto/ivr-flow.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import type { AuthenticatedRequest } from '../../common/interfaces/authenticated-request.interface';
+import { UserRole } from '../../schemas/user.schema';
+
+@Controller('ivr-flows')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class IvrController {
+  constructor(private readonly ivrService: IvrService) {}
+
+  @Get()
+  async findAll(@Request() req: AuthenticatedRequest) {
+    const flows = await this.ivrService.findAll(req.user.companyId);
+
+    return {
+      success: true,
+      data: flows,
+      count: flows.length,
+    };
+  }
+
+  /**
+   * Create an IVR flow; its phone numbers are answered by the menu from then on
+   */
+  @Post()
+  @Roles(UserRole.COMPANY_ADMIN)
+  async create(
+    @Request() req: AuthenticatedRequest,
+    @Body() createDto: CreateIvrFlowDto,
+  ) {
+    const flow = await this.ivrService.create(
+      req.user.companyId,
+      createDto,
+      req.user.userId,
+    );
+
+    return {
+      success: true,
+      data: flow,
+      message: 'IVR flow created successfully',
+    };
+  }
+
+  @Get(':id')
+  async findOne(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const flow = await this.ivrService.findOne(req.user.companyId, id);
+
+    return {
+      success: true,
+      data: flow,
+    };
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.COMPANY_ADMIN)
+  async update(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateIvrFlowDto,
+  ) {
+    const flow = await this.ivrService.update(
+      req.user.companyId,
+      id,
+      updateDto,
+    );
+
+    return {
+      success: true,
+      data: flow,
+      message: 'IVR flow updated successfully',
+    };
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.COMPANY_ADMIN)
+  async remove(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    await this.ivrService.remove(req.user.companyId, id);
+
+    return {
+      success: true,
+      message: 'IVR flow deleted successfully',
+    };
+  }
+}
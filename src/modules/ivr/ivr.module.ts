@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { IvrService } from './ivr.service';
+import { IvrRunnerService } from './ivr-runner.service';
+import { IvrCallService } from './ivr-call.service';
+import { IvrController } from './ivr.controller';
+import { MediaModule } from '../media/media.module';
+import { GoogleCloudModule } from '../google-cloud/google-cloud.module';
+import { SipModule } from '../sip/sip.module';
+import { ConversationModule } from '../conversation/conversation.module';
+import { CallTransferModule } from '../call-transfer/call-transfer.module';
+import { VoicemailModule } from '../voicemail/voicemail.module';
+import { CallQueueModule } from '../call-queue/call-queue.module';
+import { IvrFlow, IvrFlowSchema } from '../../schemas/ivr-flow.schema';
+import { Agent, AgentSchema } from '../../schemas/agent.schema';
+import { CallQueue, CallQueueSchema } from '../../schemas/call-queue.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: IvrFlow.name, schema: IvrFlowSchema },
+      { name: Agent.name, schema: AgentSchema },
+      { name: CallQueue.name, schema: CallQueueSchema },
+    ]),
+    MediaModule,
+    GoogleCloudModule,
+    SipModule,
+    ConversationModule,
+    CallTransferModule,
+    VoicemailModule,
+    CallQueueModule,
+  ],
+  controllers: [IvrController],
+  providers: [IvrService, IvrRunnerService, IvrCallService],
+  exports: [IvrService, IvrRunnerService, IvrCallService],
+})
+export class IvrModule {}
@@ -0,0 +1,312 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  IvrAction,
+  IvrActionType,
+  IvrFlow,
+  IvrFlowDocument,
+  IvrNode,
+} from '../../schemas/ivr-flow.schema';
+import { Agent, AgentDocument } from '../../schemas/agent.schema';
+import { CallQueue, CallQueueDocument } from '../../schemas/call-queue.schema';
+import { normalizePhoneNumber } from '../../common/utils/phone.util';
+import {
+  CreateIvrFlowDto,
+  IvrNodeDto,
+  UpdateIvrFlowDto,
+} from './dto/ivr-flow.dto';
+
+const DEFAULT_MAX_DIGITS = 1;
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_RETRIES = 2;
+
+/**
+ * IVR flows of a company and the phone numbers they answer
+ */
+@Injectable()
+export class IvrService {
+  private readonly logger = new Logger(IvrService.name);
+
+  constructor(
+    @InjectModel(IvrFlow.name) private ivrFlowModel: Model<IvrFlowDocument>,
+    @InjectModel(Agent.name) private agentModel: Model<AgentDocument>,
+    @InjectModel(CallQueue.name)
+    private callQueueModel: Model<CallQueueDocument>,
+  ) {}
+
+  async create(
+    companyId: string,
+    createDto: CreateIvrFlowDto,
+    userId?: string,
+  ): Promise<IvrFlowDocument> {
+    const nodes = createDto.nodes.map((node) => this.toNode(node));
+    await this.validateNodes(companyId, createDto.startNodeId, nodes);
+
+    const phoneNumbers = this.normalizeNumbers(createDto.phoneNumbers || []);
+    await this.assertNumbersFree(phoneNumbers);
+
+    const flow = await this.ivrFlowModel.create({
+      companyId: new Types.ObjectId(companyId),
+      name: createDto.name,
+      phoneNumbers,
+      startNodeId: createDto.startNodeId,
+      nodes,
+      language: createDto.language,
+      voiceName: createDto.voiceName,
+      isActive: createDto.isActive ?? true,
+      createdBy: userId ? new Types.ObjectId(userId) : undefined,
+    });
+
+    this.logger.log(`IVR flow ${flow.name} created for company ${companyId}`);
+
+    return flow;
+  }
+
+  async findAll(companyId: string): Promise<IvrFlowDocument[]> {
+    return this.ivrFlowModel
+      .find({ companyId: new Types.ObjectId(companyId) })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async findOne(companyId: string, id: string): Promise<IvrFlowDocument> {
+    const flow = await this.ivrFlowModel.findOne({
+      _id: new Types.ObjectId(id),
+      companyId: new Types.ObjectId(companyId),
+    });
+
+    if (!flow) {
+      throw new NotFoundException('IVR flow not found');
+    }
+
+    return flow;
+  }
+
+  async update(
+    companyId: string,
+    id: string,
+    updateDto: UpdateIvrFlowDto,
+  ): Promise<IvrFlowDocument> {
+    const flow = await this.findOne(companyId, id);
+
+    if (updateDto.nodes || updateDto.startNodeId) {
+      const nodes = updateDto.nodes
+        ? updateDto.nodes.map((node) => this.toNode(node))
+        : flow.nodes;
+      const startNodeId = updateDto.startNodeId ?? flow.startNodeId;
+      await this.validateNodes(companyId, startNodeId, nodes);
+
+      flow.nodes = nodes;
+      flow.startNodeId = startNodeId;
+    }
+
+    if (updateDto.phoneNumbers) {
+      flow.phoneNumbers = this.normalizeNumbers(updateDto.phoneNumbers);
+    }
+
+    if ((updateDto.phoneNumbers || updateDto.isActive) && flow.isActive) {
+      await this.assertNumbersFree(
+        flow.phoneNumbers,
+        flow._id as Types.ObjectId,
+      );
+    }
+
+    if (updateDto.name !== undefined) flow.name = updateDto.name;
+    if (updateDto.language !== undefined) flow.language = updateDto.language;
+    if (updateDto.voiceName !== undefined) {
+      flow.voiceName = updateDto.voiceName;
+    }
+    if (updateDto.isActive !== undefined) flow.isActive = updateDto.isActive;
+
+    await flow.save();
+
+    return flow;
+  }
+
+  async remove(companyId: string, id: string): Promise<void> {
+    const flow = await this.findOne(companyId, id);
+    await flow.deleteOne();
+
+    this.logger.log(`IVR flow ${flow.name} deleted`);
+  }
+
+  /**
+   * Active flow answering calls to one of our phone numbers, if any
+   */
+  async findForNumber(phoneNumber: string): Promise<IvrFlowDocument | null> {
+    const phones = [phoneNumber, normalizePhoneNumber(phoneNumber)].filter(
+      (phone): phone is string => !!phone,
+    );
+
+    return this.ivrFlowModel.findOne({
+      phoneNumbers: { $in: phones },
+      isActive: true,
+    });
+  }
+
+  private toNode(node: IvrNodeDto): IvrNode {
+    return {
+      id: node.id,
+      name: node.name,
+      prompt: node.prompt,
+      options: node.options ?? [],
+      maxDigits: node.maxDigits ?? DEFAULT_MAX_DIGITS,
+      timeoutMs: node.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      retries: node.retries ?? DEFAULT_RETRIES,
+      invalidPrompt: node.invalidPrompt,
+      defaultAction: node.defaultAction,
+    };
+  }
+
+  /**
+   * Check that the flow is a consistent tree: every node can be played and
+   * every action points at an existing node or an agent or queue of the company
+   */
+  private async validateNodes(
+    companyId: string,
+    startNodeId: string,
+    nodes: IvrNode[],
+  ): Promise<void> {
+    const nodeIds = new Set<string>();
+    for (const node of nodes) {
+      if (nodeIds.has(node.id)) {
+        throw new BadRequestException(`Duplicate IVR node id ${node.id}`);
+      }
+      nodeIds.add(node.id);
+    }
+
+    if (!nodeIds.has(startNodeId)) {
+      throw new BadRequestException(`Start node ${startNodeId} does not exist`);
+    }
+
+    const agentIds = new Set<string>();
+    const queueIds = new Set<string>();
+    const checkAction = (node: IvrNode, action: IvrAction) => {
+      const targets = [action.nodeId, action.fallbackNodeId].filter(
+        (id): id is string => !!id,
+      );
+      const missing = targets.find((id) => !nodeIds.has(id));
+      if (missing) {
+        throw new BadRequestException(
+          `Node ${node.id} refers to missing node ${missing}`,
+        );
+      }
+
+      if (action.type === IvrActionType.NODE && !action.nodeId) {
+        throw new BadRequestException(
+          `Node ${node.id}: a node action needs nodeId`,
+        );
+      }
+
+      if (action.type === IvrActionType.AGENT) {
+        if (!action.agentId) {
+          throw new BadRequestException(
+            `Node ${node.id}: an agent action needs agentId`,
+          );
+        }
+        agentIds.add(action.agentId);
+      }
+
+      if (action.type === IvrActionType.QUEUE) {
+        if (!action.queueId) {
+          throw new BadRequestException(
+            `Node ${node.id}: a queue action needs queueId`,
+          );
+        }
+        queueIds.add(action.queueId);
+      }
+    };
+
+    for (const node of nodes) {
+      if (!node.prompt.text && !node.prompt.audioUrl) {
+        throw new BadRequestException(
+          `Node ${node.id}: the prompt needs text or audioUrl`,
+        );
+      }
+
+      const digits = new Set<string>();
+      for (const option of node.options) {
+        if (
+          digits.has(option.digits) ||
+          option.digits.length > node.maxDigits
+        ) {
+          throw new BadRequestException(
+            `Node ${node.id}: option ${option.digits} is duplicated or longer than maxDigits`,
+          );
+        }
+        digits.add(option.digits);
+        checkAction(node, option.action);
+      }
+
+      if (node.defaultAction) {
+        checkAction(node, node.defaultAction);
+      }
+    }
+
+    if (agentIds.size > 0) {
+      const agents = await this.agentModel.countDocuments({
+        _id: { $in: [...agentIds].map((id) => new Types.ObjectId(id)) },
+        companyId: new Types.ObjectId(companyId),
+      });
+      if (agents !== agentIds.size) {
+        throw new BadRequestException(
+          'IVR flow refers to an agent of another company or a missing agent',
+        );
+      }
+    }
+
+    if (queueIds.size > 0) {
+      const queues = await this.callQueueModel.countDocuments({
+        _id: { $in: [...queueIds].map((id) => new Types.ObjectId(id)) },
+        companyId: new Types.ObjectId(companyId),
+      });
+      if (queues !== queueIds.size) {
+        throw new BadRequestException(
+          'IVR flow refers to a call queue of another company or a missing queue',
+        );
+      }
+    }
+  }
+
+  private normalizeNumbers(phoneNumbers: string[]): string[] {
+    return [
+      ...new Set(
+        phoneNumbers.map((phone) => normalizePhoneNumber(phone) || phone),
+      ),
+    ];
+  }
+
+  /**
+   * A phone number is answered by one active flow at most
+   */
+  private async assertNumbersFree(
+    phoneNumbers: string[],
+    exceptFlowId?: Types.ObjectId,
+  ): Promise<void> {
+    if (phoneNumbers.length === 0) {
+      return;
+    }
+
+    const taken = await this.ivrFlowModel
+      .findOne({
+        phoneNumbers: { $in: phoneNumbers },
+        isActive: true,
+        ...(exceptFlowId && { _id: { $ne: exceptFlowId } }),
+      })
+      .select('name phoneNumbers')
+      .lean();
+
+    if (taken) {
+      throw new ConflictException(
+        `Phone number is already answered by IVR flow ${taken.name}`,
+      );
+    }
+  }
+}
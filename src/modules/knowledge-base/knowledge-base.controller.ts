@@ -16,8 +16,14 @@ import {
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { KnowledgeBaseService } from './knowledge-base.service';
-import { CreateKnowledgeBaseDto, UpdateKnowledgeBaseDto, AddTextDocumentDto, AddUrlDocumentDto } from './dto';
+import {
+  CreateKnowledgeBaseDto,
+  UpdateKnowledgeBaseDto,
+  AddTextDocumentDto,
+  AddUrlDocumentDto,
+} from './dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import type { AuthenticatedRequest } from '../../common/interfaces/authenticated-request.interface';
 
 @Controller('knowledge-bases')
 @UseGuards(JwtAuthGuard)
@@ -28,7 +34,10 @@ export class KnowledgeBaseController {
    * Create a new knowledge base
    */
   @Post()
-  async create(@Request() req, @Body() createDto: CreateKnowledgeBaseDto) {
+  async create(
+    @Request() req: AuthenticatedRequest,
+    @Body() createDto: CreateKnowledgeBaseDto,
+  ) {
     const knowledgeBase = await this.knowledgeBaseService.create(
       req.user.companyId,
       req.user.userId,
@@ -47,7 +56,7 @@ export class KnowledgeBaseController {
    */
   @Get()
   async findAll(
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
     @Query('page_size', new ParseIntPipe({ optional: true })) pageSize?: number,
   ) {
     const knowledgeBases = await this.knowledgeBaseService.findAll(
@@ -66,8 +75,11 @@ export class KnowledgeBaseController {
    * Get knowledge base by ID
    */
   @Get(':id')
-  async findOne(@Request() req, @Param('id') id: string) {
-    const knowledgeBase = await this.knowledgeBaseService.findOne(req.user.companyId, id);
+  async findOne(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const knowledgeBase = await this.knowledgeBaseService.findOne(
+      req.user.companyId,
+      id,
+    );
 
     return {
       success: true,
@@ -80,7 +92,7 @@ export class KnowledgeBaseController {
    */
   @Patch(':id')
   async update(
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
     @Param('id') id: string,
     @Body() updateDto: UpdateKnowledgeBaseDto,
   ) {
@@ -101,7 +113,7 @@ export class KnowledgeBaseController {
    * Delete knowledge base
    */
   @Delete(':id')
-  async remove(@Request() req, @Param('id') id: string) {
+  async remove(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
     await this.knowledgeBaseService.remove(req.user.companyId, id);
 
     return {
@@ -115,7 +127,7 @@ export class KnowledgeBaseController {
    */
   @Post(':id/documents/text')
   async addTextDocument(
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
     @Param('id') id: string,
     @Body() textDto: AddTextDocumentDto,
   ) {
@@ -137,7 +149,7 @@ export class KnowledgeBaseController {
    */
   @Post(':id/documents/url')
   async addUrlDocument(
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
     @Param('id') id: string,
     @Body() urlDto: AddUrlDocumentDto,
   ) {
@@ -160,7 +172,7 @@ export class KnowledgeBaseController {
   @Post(':id/documents/file')
   @UseInterceptors(FileInterceptor('file'))
   async uploadFileDocument(
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
     @Param('id') id: string,
     @UploadedFile() file: Express.Multer.File,
   ) {
@@ -206,8 +218,14 @@ export class KnowledgeBaseController {
    * Get documents from knowledge base
    */
   @Get(':id/documents')
-  async getDocuments(@Request() req, @Param('id') id: string) {
-    const knowledgeBase = await this.knowledgeBaseService.findOne(req.user.companyId, id);
+  async getDocuments(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+  ) {
+    const knowledgeBase = await this.knowledgeBaseService.findOne(
+      req.user.companyId,
+      id,
+    );
 
     return {
       success: true,
@@ -221,7 +239,7 @@ export class KnowledgeBaseController {
    */
   @Delete(':id/documents/:docIndex')
   async deleteDocument(
-    @Request() req,
+    @Request() req: AuthenticatedRequest,
     @Param('id') id: string,
     @Param('docIndex', ParseIntPipe) docIndex: number,
   ) {
@@ -237,4 +255,49 @@ export class KnowledgeBaseController {
       message: 'Document deleted successfully',
     };
   }
+
+  /**
+   * Search knowledge base chunks
+   */
+  @Get(':id/search')
+  async search(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Query('query') query: string,
+    @Query('top_k', new ParseIntPipe({ optional: true })) topK?: number,
+  ) {
+    if (!query) {
+      throw new BadRequestException('Query is required');
+    }
+
+    const results = await this.knowledgeBaseService.search(
+      req.user.companyId,
+      id,
+      query,
+      topK,
+    );
+
+    return {
+      success: true,
+      data: results,
+      count: results.length,
+    };
+  }
+
+  /**
+   * Rebuild chunks and embeddings for all documents
+   */
+  @Post(':id/reindex')
+  async reindex(@Request() req: AuthenticatedRequest, @Param('id') id: string) {
+    const knowledgeBase = await this.knowledgeBaseService.reindex(
+      req.user.companyId,
+      id,
+    );
+
+    return {
+      success: true,
+      data: knowledgeBase,
+      message: 'Knowledge base reindexed successfully',
+    };
+  }
 }
@@ -3,6 +3,7 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { KnowledgeBaseController } from './knowledge-base.controller';
 import { KnowledgeBaseService } from './knowledge-base.service';
 import { DocumentProcessorService } from './document-processor.service';
+import { KnowledgeSearchService } from './knowledge-search.service';
 import { KnowledgeBase, KnowledgeBaseSchema } from '../../schemas/knowledge-base.schema';
 import { GoogleCloudModule } from '../google-cloud/google-cloud.module';
 
@@ -14,7 +15,11 @@ import { GoogleCloudModule } from '../google-cloud/google-cloud.module';
     GoogleCloudModule,
   ],
   controllers: [KnowledgeBaseController],
-  providers: [KnowledgeBaseService, DocumentProcessorService],
-  exports: [KnowledgeBaseService],
+  providers: [
+    KnowledgeBaseService,
+    DocumentProcessorService,
+    KnowledgeSearchService,
+  ],
+  exports: [KnowledgeBaseService, KnowledgeSearchService],
 })
 export class KnowledgeBaseModule {}
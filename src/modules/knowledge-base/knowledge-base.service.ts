@@ -1,9 +1,19 @@
 import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { KnowledgeBase, KnowledgeBaseDocument, DocumentType, DocumentStatus } from '../../schemas/knowledge-base.schema';
+import {
+  KnowledgeBase,
+  KnowledgeBaseDocument,
+  KnowledgeBaseItem,
+  DocumentType,
+  DocumentStatus,
+} from '../../schemas/knowledge-base.schema';
 import { CreateKnowledgeBaseDto, UpdateKnowledgeBaseDto, AddTextDocumentDto, AddUrlDocumentDto } from './dto';
 import { DocumentProcessorService } from './document-processor.service';
+import {
+  KnowledgeSearchService,
+  KnowledgeSearchResult,
+} from './knowledge-search.service';
 import { GoogleCloudService } from '../google-cloud/google-cloud.service';
 
 @Injectable()
@@ -13,6 +23,7 @@ export class KnowledgeBaseService {
   constructor(
     @InjectModel(KnowledgeBase.name) private knowledgeBaseModel: Model<KnowledgeBaseDocument>,
     private documentProcessor: DocumentProcessorService,
+    private knowledgeSearchService: KnowledgeSearchService,
     private googleCloudService: GoogleCloudService,
   ) {}
 
@@ -119,7 +130,7 @@ export class KnowledgeBaseService {
 
     const wordCount = this.documentProcessor.countWords(textDto.content);
 
-    knowledgeBase.documents.push({
+    const doc: KnowledgeBaseItem = {
       type: DocumentType.TEXT,
       title: textDto.title,
       content: textDto.content,
@@ -131,7 +142,12 @@ export class KnowledgeBaseService {
       },
       createdAt: new Date(),
       updatedAt: new Date(),
-    });
+    };
+
+    // Split into chunks and embed for retrieval
+    await this.knowledgeSearchService.indexDocument(doc);
+
+    knowledgeBase.documents.push(doc);
 
     knowledgeBase.totalDocuments++;
     knowledgeBase.totalWordCount += wordCount;
@@ -192,6 +208,8 @@ export class KnowledgeBaseService {
       doc.metadata.wordCount = this.documentProcessor.countWords(result.text);
       doc.metadata.processedAt = new Date();
 
+      await this.knowledgeSearchService.indexDocument(doc);
+
       knowledgeBase.totalWordCount += doc.metadata.wordCount || 0;
       knowledgeBase.lastUpdatedAt = new Date();
 
@@ -280,6 +298,8 @@ export class KnowledgeBaseService {
         processedAt: new Date(),
       };
 
+      await this.knowledgeSearchService.indexDocument(doc);
+
       knowledgeBase.totalWordCount += result.metadata.wordCount;
       knowledgeBase.lastUpdatedAt = new Date();
 
@@ -362,4 +382,39 @@ export class KnowledgeBaseService {
 
     return content;
   }
+
+  /**
+   * Search knowledge base chunks (used by the Gemini Live searchKnowledgeBase tool)
+   */
+  async search(
+    companyId: string,
+    id: string,
+    query: string,
+    topK?: number,
+  ): Promise<KnowledgeSearchResult[]> {
+    const knowledgeBase = await this.findOne(companyId, id);
+
+    return this.knowledgeSearchService.search(
+      knowledgeBase._id as Types.ObjectId,
+      query,
+      topK,
+    );
+  }
+
+  /**
+   * Re-chunk and re-embed all completed documents
+   */
+  async reindex(companyId: string, id: string): Promise<KnowledgeBaseDocument> {
+    const knowledgeBase = await this.findOne(companyId, id);
+
+    for (const doc of knowledgeBase.documents) {
+      if (doc.status === DocumentStatus.COMPLETED && doc.content) {
+        await this.knowledgeSearchService.indexDocument(doc);
+      }
+    }
+
+    knowledgeBase.lastUpdatedAt = new Date();
+
+    return knowledgeBase.save();
+  }
 }
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { KnowledgeSearchService } from './knowledge-search.service';
+import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+import {
+  DocumentStatus,
+  KnowledgeBase,
+  KnowledgeBaseItem,
+} from '../../schemas/knowledge-base.schema';
+
+const words = (count: number, prefix = 'w') =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+function document(
+  title: string,
+  content: string,
+  extra: Partial<KnowledgeBaseItem> = {},
+): Partial<KnowledgeBaseItem> {
+  return { title, content, status: DocumentStatus.COMPLETED, ...extra };
+}
+
+// One chunk each, with embeddings pointing in different directions
+function embeddedDocuments(): Partial<KnowledgeBaseItem>[] {
+  const embedded = (title: string, content: string, embedding: number[]) =>
+    document(title, content, {
+      chunks: [{ index: 0, content, wordCount: 3, embedding }],
+    });
+
+  return [
+    embedded('Доставка', 'Курьер привезёт заказ', [1, 0]),
+    embedded('Оплата', 'Картой или наличными', [0, 1]),
+  ];
+}
+
+describe('KnowledgeSearchService', () => {
+  let service: KnowledgeSearchService;
+  let knowledgeBase: {
+    documents: Partial<KnowledgeBaseItem>[];
+    lastUpdatedAt?: Date;
+  };
+  let knowledgeBaseModel: { findById: jest.Mock };
+  let googleCloudService: { generateEmbeddings: jest.Mock };
+
+  beforeEach(async () => {
+    knowledgeBase = {
+      documents: [
+        document(
+          'Доставка',
+          'Доставка по Москве занимает один день. Доставка в регионы до пяти дней.',
+        ),
+        document('Оплата', 'Оплата картой или наличными при получении заказа.'),
+        document(
+          'Возврат',
+          'Возврат товара возможен в течение 14 дней, доставка возврата бесплатна.',
+        ),
+        document('Черновик', 'Доставка доставка доставка', {
+          status: DocumentStatus.PROCESSING,
+        }),
+      ],
+      lastUpdatedAt: new Date('2024-01-01T00:00:00Z'),
+    };
+    knowledgeBaseModel = {
+      findById: jest.fn(() => ({
+        lean: jest.fn().mockResolvedValue(knowledgeBase),
+      })),
+    };
+    googleCloudService = {
+      generateEmbeddings: jest.fn().mockRejectedValue(new Error('no quota')),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KnowledgeSearchService,
+        {
+          provide: getModelToken(KnowledgeBase.name),
+          useValue: knowledgeBaseModel,
+        },
+        { provide: GoogleCloudService, useValue: googleCloudService },
+      ],
+    }).compile();
+
+    service = module.get<KnowledgeSearchService>(KnowledgeSearchService);
+  });
+
+  describe('chunkText', () => {
+    it('should return no chunks for empty text', () => {
+      expect(service.chunkText('')).toEqual([]);
+      expect(service.chunkText(' \n\t ')).toEqual([]);
+    });
+
+    it('should keep text shorter than one chunk whole', () => {
+      expect(service.chunkText('  Один   два\nтри ')).toEqual(['Один два три']);
+      expect(service.chunkText(words(200))).toEqual([words(200)]);
+    });
+
+    it('should overlap consecutive chunks by 40 words', () => {
+      const chunks = service.chunkText(words(201));
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].split(' ')).toHaveLength(200);
+      // The second chunk starts 160 words in: 40 words shared with the first
+      expect(chunks[1].split(' ')).toEqual(words(201).split(' ').slice(160));
+      expect(chunks[0].split(' ').slice(-40)).toEqual(
+        chunks[1].split(' ').slice(0, 40),
+      );
+    });
+
+    it('should not add a chunk that only repeats the overlap', () => {
+      // The second chunk ends exactly on the last word
+      const chunks = service.chunkText(words(360));
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[1].split(' ').pop()).toBe('w359');
+    });
+  });
+
+  describe('search', () => {
+    it('should rank chunks by BM25 and skip unfinished documents', async () => {
+      const results = await service.search('kb', 'доставка в регионы', 5);
+
+      expect(results.map((r) => r.title)).toEqual(['Доставка', 'Возврат']);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect(results[0]).toEqual(
+        expect.objectContaining({ documentIndex: 0, chunkIndex: 0 }),
+      );
+    });
+
+    it('should return nothing for empty or unmatched queries', async () => {
+      expect(await service.search('kb', '   ')).toEqual([]);
+      expect(await service.search('kb', 'гарантия')).toEqual([]);
+    });
+
+    it('should rank by embeddings when every chunk has one', async () => {
+      knowledgeBase.documents = embeddedDocuments();
+      googleCloudService.generateEmbeddings.mockResolvedValueOnce([[0.2, 0.9]]);
+
+      const results = await service.search('kb', 'как заплатить');
+
+      expect(results[0]).toEqual(
+        expect.objectContaining({ title: 'Оплата', score: 0.976 }),
+      );
+    });
+
+    it('should fall back to BM25 when the query embedding fails', async () => {
+      knowledgeBase.documents = embeddedDocuments();
+
+      const results = await service.search('kb', 'курьер');
+
+      expect(googleCloudService.generateEmbeddings).toHaveBeenCalled();
+      expect(results.map((r) => r.title)).toEqual(['Доставка']);
+    });
+
+    it('should rebuild the index only when lastUpdatedAt changes', async () => {
+      expect(await service.search('kb', 'гарантия')).toEqual([]);
+
+      // Changed without bumping lastUpdatedAt: the cached index is used
+      knowledgeBase.documents = [document('Гарантия', 'Гарантия один год')];
+      expect(await service.search('kb', 'гарантия')).toEqual([]);
+
+      knowledgeBase.lastUpdatedAt = new Date('2024-01-02T00:00:00Z');
+      const results = await service.search('kb', 'гарантия');
+      expect(results.map((r) => r.title)).toEqual(['Гарантия']);
+    });
+  });
+
+  describe('indexDocument', () => {
+    it('should keep chunks without embeddings when embedding fails', async () => {
+      const doc = document('Доставка', words(250)) as KnowledgeBaseItem;
+
+      await service.indexDocument(doc);
+
+      expect(doc.chunks).toHaveLength(2);
+      expect(doc.chunks![0]).toEqual(
+        expect.objectContaining({ index: 0, wordCount: 200 }),
+      );
+      expect(doc.chunks![0].embedding).toBeUndefined();
+      expect(doc.embedding).toBeUndefined();
+      expect(doc.indexedAt).toBeInstanceOf(Date);
+    });
+
+    it('should attach chunk embeddings and their mean to the document', async () => {
+      googleCloudService.generateEmbeddings.mockResolvedValueOnce([
+        [1, 0],
+        [0, 1],
+      ]);
+      const doc = document('Доставка', words(250)) as KnowledgeBaseItem;
+
+      await service.indexDocument(doc);
+
+      expect(doc.chunks!.map((c) => c.embedding)).toEqual([
+        [1, 0],
+        [0, 1],
+      ]);
+      expect(doc.embedding).toEqual([0.5, 0.5]);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  KnowledgeBase,
+  KnowledgeBaseDocument,
+  KnowledgeBaseItem,
+  KnowledgeBaseChunk,
+  DocumentStatus,
+} from '../../schemas/knowledge-base.schema';
+import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+
+export interface KnowledgeSearchResult {
+  title: string;
+  content: string;
+  score: number;
+  documentIndex: number;
+  chunkIndex: number;
+}
+
+interface IndexedChunk {
+  title: string;
+  content: string;
+  documentIndex: number;
+  chunkIndex: number;
+  embedding?: number[];
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface SearchIndex {
+  version: number;
+  chunks: IndexedChunk[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+@Injectable()
+export class KnowledgeSearchService {
+  private readonly logger = new Logger(KnowledgeSearchService.name);
+  private indexCache: Map<string, SearchIndex> = new Map();
+
+  // Chunking settings (in words)
+  private readonly chunkSize = 200;
+  private readonly chunkOverlap = 40;
+
+  // BM25 parameters
+  private readonly k1 = 1.5;
+  private readonly b = 0.75;
+
+  constructor(
+    @InjectModel(KnowledgeBase.name)
+    private knowledgeBaseModel: Model<KnowledgeBaseDocument>,
+    private googleCloudService: GoogleCloudService,
+  ) {}
+
+  /**
+   * Split document content into overlapping word chunks
+   */
+  chunkText(content: string): string[] {
+    const words = content.split(/\s+/).filter(Boolean);
+
+    if (words.length === 0) {
+      return [];
+    }
+
+    const chunks: string[] = [];
+    const step = this.chunkSize - this.chunkOverlap;
+
+    for (let start = 0; start < words.length; start += step) {
+      chunks.push(words.slice(start, start + this.chunkSize).join(' '));
+
+      if (start + this.chunkSize >= words.length) {
+        break;
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Chunk a document and attach embeddings when available.
+   * Falls back to chunks without embeddings (BM25 only) if embedding fails.
+   */
+  async indexDocument(doc: KnowledgeBaseItem): Promise<void> {
+    if (!doc.content) {
+      doc.chunks = [];
+      return;
+    }
+
+    const texts = this.chunkText(doc.content);
+    const chunks: KnowledgeBaseChunk[] = texts.map((text, index) => ({
+      index,
+      content: text,
+      wordCount: text.split(' ').length,
+    }));
+
+    try {
+      const embeddings = await this.googleCloudService.generateEmbeddings(
+        texts.map((text) => `${doc.title}\n\n${text}`),
+      );
+
+      chunks.forEach((chunk, i) => {
+        chunk.embedding = embeddings[i];
+      });
+      doc.embedding = this.meanVector(embeddings);
+    } catch (error) {
+      this.logger.warn(
+        `Embedding failed for "${doc.title}", using BM25 only: ${(error as Error).message}`,
+      );
+      doc.embedding = undefined;
+    }
+
+    doc.chunks = chunks;
+    doc.indexedAt = new Date();
+  }
+
+  /**
+   * Search a knowledge base and return the top-k most relevant chunks
+   */
+  async search(
+    knowledgeBaseId: string | Types.ObjectId,
+    query: string,
+    topK: number = 3,
+  ): Promise<KnowledgeSearchResult[]> {
+    const index = await this.getIndex(knowledgeBaseId.toString());
+
+    if (!index || index.chunks.length === 0 || !query.trim()) {
+      return [];
+    }
+
+    let scored: Array<{ chunk: IndexedChunk; score: number }> | null = null;
+
+    if (index.chunks.every((chunk) => chunk.embedding?.length)) {
+      try {
+        const [queryEmbedding] =
+          await this.googleCloudService.generateEmbeddings([query]);
+        scored = index.chunks.map((chunk) => ({
+          chunk,
+          score: this.cosineSimilarity(queryEmbedding, chunk.embedding!),
+        }));
+      } catch (error) {
+        this.logger.warn(
+          `Query embedding failed, falling back to BM25: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (!scored) {
+      scored = this.scoreBm25(index, query);
+    }
+
+    return scored
+      .filter((item) => item.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ chunk, score }) => ({
+        title: chunk.title,
+        content: chunk.content,
+        score: Math.round(score * 1000) / 1000,
+        documentIndex: chunk.documentIndex,
+        chunkIndex: chunk.chunkIndex,
+      }));
+  }
+
+  /**
+   * Get (or build) the in-memory search index for a knowledge base
+   */
+  private async getIndex(knowledgeBaseId: string): Promise<SearchIndex | null> {
+    const knowledgeBase = await this.knowledgeBaseModel
+      .findById(knowledgeBaseId)
+      .lean();
+
+    if (!knowledgeBase) {
+      this.indexCache.delete(knowledgeBaseId);
+      return null;
+    }
+
+    // Every document change bumps lastUpdatedAt, which invalidates the cache
+    const version = knowledgeBase.lastUpdatedAt
+      ? new Date(knowledgeBase.lastUpdatedAt).getTime()
+      : 0;
+
+    const cached = this.indexCache.get(knowledgeBaseId);
+    if (cached && cached.version === version) {
+      return cached;
+    }
+
+    const chunks: IndexedChunk[] = [];
+
+    knowledgeBase.documents.forEach((doc, documentIndex) => {
+      if (doc.status !== DocumentStatus.COMPLETED || !doc.content) {
+        return;
+      }
+
+      // Documents added before indexing existed are chunked on the fly
+      const docChunks = doc.chunks?.length
+        ? doc.chunks
+        : this.chunkText(doc.content).map((content, index) => ({
+            index,
+            content,
+          }));
+
+      for (const chunk of docChunks) {
+        const tokens = this.tokenize(`${doc.title} ${chunk.content}`);
+        const terms = new Map<string, number>();
+        for (const token of tokens) {
+          terms.set(token, (terms.get(token) || 0) + 1);
+        }
+
+        chunks.push({
+          title: doc.title,
+          content: chunk.content,
+          documentIndex,
+          chunkIndex: chunk.index,
+          embedding: (chunk as KnowledgeBaseChunk).embedding,
+          terms,
+          length: tokens.length,
+        });
+      }
+    });
+
+    const documentFrequency = new Map<string, number>();
+    for (const chunk of chunks) {
+      for (const term of chunk.terms.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+    const index: SearchIndex = {
+      version,
+      chunks,
+      documentFrequency,
+      averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    };
+
+    this.indexCache.set(knowledgeBaseId, index);
+
+    return index;
+  }
+
+  /**
+   * Score all chunks against a query with Okapi BM25
+   */
+  private scoreBm25(
+    index: SearchIndex,
+    query: string,
+  ): Array<{ chunk: IndexedChunk; score: number }> {
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    const totalChunks = index.chunks.length;
+
+    return index.chunks.map((chunk) => {
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = chunk.terms.get(term);
+        if (!frequency) continue;
+
+        const df = index.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (totalChunks - df + 0.5) / (df + 0.5));
+        const norm =
+          1 - this.b + this.b * (chunk.length / (index.averageLength || 1));
+
+        score +=
+          idf * ((frequency * (this.k1 + 1)) / (frequency + this.k1 * norm));
+      }
+
+      return { chunk, score };
+    });
+  }
+
+  /**
+   * Lowercase and split text into word tokens (Unicode-aware for Russian/Kazakh)
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length > 1);
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+  }
+
+  private meanVector(vectors: number[][]): number[] | undefined {
+    if (vectors.length === 0) {
+      return undefined;
+    }
+
+    const mean = new Array<number>(vectors[0].length).fill(0);
+    for (const vector of vectors) {
+      vector.forEach((value, i) => {
+        mean[i] += value / vectors.length;
+      });
+    }
+
+    return mean;
+  }
+}
@@ -59,6 +59,11 @@ export class LeadController {
     @Query('source') source?: string,
     @Query('isInPool') isInPool?: string,
     @Query('search') search?: string,
+    @Query('tags') tags?: string,
+    @Query('minScore') minScore?: string,
+    @Query('maxScore') maxScore?: string,
+    @Query('followUpDue') followUpDue?: string,
+    @Query('assignedTo') assignedToFilter?: string,
     @Query('limit') limit?: string,
     @Query('offset') offset?: string,
   ) {
@@ -70,7 +75,10 @@ export class LeadController {
       : req.user.userId;
 
     // If manager, show only their leads unless they can view all
-    let assignedTo: Types.ObjectId | undefined;
+    let assignedTo: Types.ObjectId | undefined =
+      assignedToFilter && Types.ObjectId.isValid(assignedToFilter)
+        ? new Types.ObjectId(assignedToFilter)
+        : undefined;
     if (req.user.role === UserRole.MANAGER) {
       // Check manager permissions
       const canViewAll = req.user.manager?.permissions?.canViewAllLeads;
@@ -85,6 +93,15 @@ export class LeadController {
       isInPool: isInPool === 'true',
       assignedTo,
       search,
+      tags: tags
+        ? tags
+            .split(',')
+            .map((tag) => tag.trim())
+            .filter(Boolean)
+        : undefined,
+      minScore: minScore ? parseInt(minScore) : undefined,
+      maxScore: maxScore ? parseInt(maxScore) : undefined,
+      followUpDue: followUpDue === 'true',
       limit: limit ? parseInt(limit) : undefined,
       offset: offset ? parseInt(offset) : undefined,
     });
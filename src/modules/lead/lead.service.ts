@@ -6,10 +6,17 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
-import { Lead, LeadDocument, LeadStatus, AssignmentType } from '../../schemas/lead.schema';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  Lead,
+  LeadDocument,
+  LeadStatus,
+  LeadSource,
+  AssignmentType,
+} from '../../schemas/lead.schema';
 import { LeadHistory, LeadHistoryDocument, ChangedBy, ChangeType } from '../../schemas/lead-history.schema';
 import { Manager, ManagerDocument } from '../../schemas/manager.schema';
+import { normalizePhoneNumber } from '../../common/utils/phone.util';
 import {
   CreateLeadDto,
   UpdateLeadDto,
@@ -18,6 +25,18 @@ import {
   AddLeadNoteDto,
 } from './dto';
 
+export interface LeadFilters {
+  status?: LeadStatus;
+  assignedTo?: Types.ObjectId;
+  isInPool?: boolean;
+  source?: string;
+  search?: string;
+  tags?: string[]; // leads having any of the tags
+  minScore?: number;
+  maxScore?: number;
+  followUpDue?: boolean; // nextFollowUpAt has passed
+}
+
 @Injectable()
 export class LeadService {
   private readonly logger = new Logger(LeadService.name);
@@ -74,17 +93,43 @@ export class LeadService {
    */
   async getLeads(
     companyId: Types.ObjectId,
-    filters?: {
-      status?: LeadStatus;
-      assignedTo?: Types.ObjectId;
-      isInPool?: boolean;
-      source?: string;
-      search?: string;
+    filters?: LeadFilters & {
       limit?: number;
       offset?: number;
     },
   ) {
-    const query: any = { companyId };
+    const query = this.buildLeadQuery(companyId, filters);
+
+    const limit = filters?.limit || 50;
+    const offset = filters?.offset || 0;
+
+    const [leads, total] = await Promise.all([
+      this.leadModel
+        .find(query)
+        .populate('assignedTo', 'firstName lastName email')
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(offset)
+        .lean(),
+      this.leadModel.countDocuments(query),
+    ]);
+
+    return {
+      leads,
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Build the MongoDB query matching leads of a company by filters
+   */
+  buildLeadQuery(
+    companyId: Types.ObjectId,
+    filters?: LeadFilters,
+  ): FilterQuery<Lead> {
+    const query: FilterQuery<Lead> = { companyId };
 
     if (filters?.status) {
       query.status = filters.status;
@@ -112,26 +157,26 @@ export class LeadService {
       ];
     }
 
-    const limit = filters?.limit || 50;
-    const offset = filters?.offset || 0;
+    if (filters?.tags?.length) {
+      query.tags = { $in: filters.tags };
+    }
 
-    const [leads, total] = await Promise.all([
-      this.leadModel
-        .find(query)
-        .populate('assignedTo', 'firstName lastName email')
-        .sort({ createdAt: -1 })
-        .limit(limit)
-        .skip(offset)
-        .lean(),
-      this.leadModel.countDocuments(query),
-    ]);
+    if (filters?.minScore !== undefined || filters?.maxScore !== undefined) {
+      const score: { $gte?: number; $lte?: number } = {};
+      if (filters.minScore !== undefined) {
+        score.$gte = filters.minScore;
+      }
+      if (filters.maxScore !== undefined) {
+        score.$lte = filters.maxScore;
+      }
+      query.score = score;
+    }
 
-    return {
-      leads,
-      total,
-      limit,
-      offset,
-    };
+    if (filters?.followUpDue) {
+      query.nextFollowUpAt = { $lte: new Date() };
+    }
+
+    return query;
   }
 
   /**
@@ -496,6 +541,89 @@ export class LeadService {
     return history;
   }
 
+  /**
+   * Find a lead of the company by phone number, in any of its stored formats
+   */
+  async findByPhone(companyId: Types.ObjectId, phone: string) {
+    const phones = [phone, normalizePhoneNumber(phone)].filter(
+      (p): p is string => !!p,
+    );
+
+    return this.leadModel.findOne({ companyId, phone: { $in: phones } }).lean();
+  }
+
+  /**
+   * Lead of an inbound caller; unknown callers become new pool leads named by their number
+   * and known ones without a manager go back to the pool
+   */
+  async findOrCreateInboundLead(
+    companyId: Types.ObjectId,
+    phone: string,
+  ): Promise<Types.ObjectId> {
+    const existing = await this.findByPhone(companyId, phone);
+    if (existing) {
+      if (!existing.assignedTo && !existing.isInPool) {
+        await this.leadModel.updateOne(
+          { _id: existing._id },
+          { $set: { isInPool: true } },
+        );
+      }
+      return existing._id as Types.ObjectId;
+    }
+
+    const lead = await this.createLead(companyId, {
+      firstName: phone,
+      lastName: '-',
+      phone: normalizePhoneNumber(phone) || phone,
+      source: LeadSource.INBOUND,
+    });
+
+    return lead._id as Types.ObjectId;
+  }
+
+  /**
+   * Set the next follow-up of a lead and record it in the lead history
+   */
+  async scheduleFollowUp(
+    leadId: Types.ObjectId,
+    companyId: Types.ObjectId,
+    followUpAt: Date,
+    details: {
+      changedBy: ChangedBy;
+      userId?: Types.ObjectId;
+      conversationId?: Types.ObjectId;
+      description?: string;
+      metadata?: Record<string, any>;
+    },
+  ) {
+    const lead = await this.leadModel.findOneAndUpdate(
+      { _id: leadId, companyId },
+      { $set: { nextFollowUpAt: followUpAt } },
+    );
+
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    await this.leadHistoryModel.create({
+      leadId,
+      companyId,
+      changeType: ChangeType.FOLLOW_UP_SCHEDULED,
+      changedBy: details.changedBy,
+      userId: details.userId,
+      conversationId: details.conversationId,
+      fieldName: 'nextFollowUpAt',
+      oldValue: lead.nextFollowUpAt,
+      newValue: followUpAt,
+      description: details.description,
+      metadata: details.metadata,
+    });
+
+    this.logger.log(
+      `Follow-up for lead ${leadId.toString()} scheduled at ${followUpAt.toISOString()}`,
+    );
+  }
+
   /**
    * Get lead statistics for company
    */
@@ -3,13 +3,41 @@ import { ConfigService } from '@nestjs/config';
 import { EventEmitter } from 'events';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import type Srf from 'drachtio-srf';
 
 const Mrf = require('drachtio-fsmrf');
 
+// drachtio-fsmrf ships no typings; these are the parts of its objects we use
+export interface FreeswitchEndpoint {
+  uuid: string;
+  local: { sdp: string };
+  modify(sdp: string): Promise<unknown>;
+  play(file: string): Promise<unknown>;
+  playCollect(options: Record<string, unknown>): Promise<{ digits?: string }>;
+  record(file: string, options: Record<string, unknown>): Promise<unknown>;
+  api(command: string, args: string): Promise<unknown>;
+  bridge(other: FreeswitchEndpoint): Promise<unknown>;
+  forkAudioStart(options: Record<string, unknown>): Promise<unknown>;
+  forkAudioStop(bugname?: string): Promise<unknown>;
+  on(event: 'destroy', listener: () => void): this;
+  destroy(): void;
+}
+
+interface FreeswitchServer {
+  sip: unknown;
+  connectCaller(
+    req: unknown,
+    res: unknown,
+  ): Promise<{ endpoint: FreeswitchEndpoint; dialog: Srf.Dialog }>;
+  createEndpoint(): Promise<FreeswitchEndpoint>;
+  on(event: 'error', listener: (err: Error) => void): this;
+  disconnect(): void;
+}
+
 export interface MediaEndpoint {
   callId: string;
-  endpoint: any; // drachtio-fsmrf Endpoint
-  dialog: any; // SIP dialog
+  endpoint: FreeswitchEndpoint;
+  dialog: Srf.Dialog;
   isActive: boolean;
 }
 
@@ -17,7 +45,7 @@ export interface MediaEndpoint {
 export class MediaService extends EventEmitter implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(MediaService.name);
   private mrf: any; // Mrf instance
-  private mediaserver: any; // Freeswitch mediaserver
+  private mediaserver?: FreeswitchServer;
   private activeEndpoints: Map<string, MediaEndpoint> = new Map();
 
   // Freeswitch connection settings
@@ -115,11 +143,11 @@ export class MediaService extends EventEmitter implements OnModuleInit, OnModule
     try {
       this.logger.log(`Connecting to Freeswitch at ${this.freeswitchHost}:${this.freeswitchPort}`);
 
-      this.mediaserver = await this.mrf.connect({
+      this.mediaserver = (await this.mrf.connect({
         address: this.freeswitchHost,
         port: this.freeswitchPort,
         secret: this.freeswitchSecret,
-      });
+      })) as FreeswitchServer;
 
       this.logger.log(`Connected to Freeswitch media server: ${JSON.stringify(this.mediaserver.sip)}`);
 
@@ -144,6 +172,10 @@ export class MediaService extends EventEmitter implements OnModuleInit, OnModule
         await this.connectToMediaServer();
       }
 
+      if (!this.mediaserver) {
+        throw new Error('Media server is not available for inbound calls');
+      }
+
       this.logger.log(`Connecting call ${callId} to media server`);
 
       const { endpoint, dialog } = await this.mediaserver.connectCaller(req, res);
@@ -172,6 +204,62 @@ export class MediaService extends EventEmitter implements OnModuleInit, OnModule
     }
   }
 
+  /**
+   * Place an outbound call through a Freeswitch endpoint.
+   * The endpoint's local SDP (real RTP address and codec list) is used as the
+   * offer; `dial` sends the INVITE and returns the answered dialog, whose SDP
+   * answer is then applied to the endpoint so media flows both ways.
+   */
+  async connectOutbound(
+    callId: string,
+    dial: (localSdp: string) => Promise<Srf.Dialog>,
+  ): Promise<MediaEndpoint> {
+    // Ensure connected to media server
+    if (!this.mediaserver) {
+      await this.connectToMediaServer();
+    }
+
+    if (!this.mediaserver) {
+      throw new Error('Media server is not available for outbound calls');
+    }
+
+    const endpoint = await this.mediaserver.createEndpoint();
+
+    try {
+      this.logger.log(`Dialing call ${callId} from endpoint ${endpoint.uuid}`);
+
+      const dialog = await dial(endpoint.local.sdp);
+      await endpoint.modify(dialog.remote.sdp);
+
+      const mediaEndpoint: MediaEndpoint = {
+        callId,
+        endpoint,
+        dialog,
+        isActive: true,
+      };
+
+      this.activeEndpoints.set(callId, mediaEndpoint);
+
+      this.logger.log(
+        `Outbound call ${callId} connected to media server, endpoint UUID: ${endpoint.uuid}`,
+      );
+
+      endpoint.on('destroy', () => {
+        this.logger.log(`Endpoint destroyed for call ${callId}`);
+        this.activeEndpoints.delete(callId);
+      });
+
+      return mediaEndpoint;
+    } catch (error) {
+      this.logger.error(
+        `Failed to connect outbound call ${callId} to media server:`,
+        error,
+      );
+      endpoint.destroy();
+      throw error;
+    }
+  }
+
   /**
    * Play audio file on endpoint
    */
@@ -225,6 +313,117 @@ export class MediaService extends EventEmitter implements OnModuleInit, OnModule
     }
   }
 
+  /**
+   * Play a prompt (file path or TTS audio) and collect DTMF digits.
+   * Returns the digits entered, or an empty string when the caller entered
+   * nothing before the timeout.
+   */
+  async collectDigits(
+    callId: string,
+    prompt: string | Buffer,
+    options: { maxDigits: number; timeoutMs: number; terminators?: string },
+  ): Promise<string> {
+    const mediaEndpoint = this.activeEndpoints.get(callId);
+    if (!mediaEndpoint || !mediaEndpoint.isActive) {
+      throw new Error(`No active media endpoint for call ${callId}`);
+    }
+
+    return this.withAudioFile(callId, prompt, async (filePath) => {
+      const result = await mediaEndpoint.endpoint.playCollect({
+        file: filePath,
+        min: 1,
+        max: options.maxDigits,
+        tries: 1,
+        timeout: options.timeoutMs,
+        terminators: options.terminators || '#',
+        regexp: '[\\d*]+',
+        digitTimeout: 3000,
+      });
+
+      this.logger.log(
+        `Digits collected on call ${callId}: "${result.digits || ''}"`,
+      );
+
+      return result.digits || '';
+    });
+  }
+
+  /**
+   * Record what the caller says until silence or the time limit.
+   * Returns the WAV recording, or null when nothing was recorded.
+   */
+  async recordMessage(
+    callId: string,
+    options: { maxSeconds: number; silenceSeconds: number },
+  ): Promise<Buffer | null> {
+    const mediaEndpoint = this.activeEndpoints.get(callId);
+    if (!mediaEndpoint || !mediaEndpoint.isActive) {
+      throw new Error(`No active media endpoint for call ${callId}`);
+    }
+
+    const filePath = path.join(
+      this.tempAudioDir,
+      `message-${callId}-${Date.now()}.wav`,
+    );
+
+    try {
+      this.logger.log(`Recording message on call ${callId}`);
+
+      await mediaEndpoint.endpoint.record(filePath, {
+        timeLimitSecs: options.maxSeconds,
+        silenceThresh: 200,
+        silenceHits: options.silenceSeconds,
+      });
+
+      const recording = await fs.readFile(filePath);
+      return recording.length > 0 ? recording : null;
+    } catch (error) {
+      // The caller may hang up before anything was written
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    } finally {
+      await fs.unlink(filePath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Cut short whatever is playing to the caller, e.g. hold music once a manager answers
+   */
+  async stopPlayback(callId: string): Promise<void> {
+    const mediaEndpoint = this.activeEndpoints.get(callId);
+    if (!mediaEndpoint || !mediaEndpoint.isActive) {
+      return;
+    }
+
+    try {
+      await mediaEndpoint.endpoint.api(
+        'uuid_break',
+        `${mediaEndpoint.endpoint.uuid} all`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to stop playback on call ${callId}:`, error);
+    }
+  }
+
+  /**
+   * Connect the media of two calls to each other (e.g. a caller and a manager)
+   */
+  async bridgeEndpoints(callId: string, otherCallId: string): Promise<void> {
+    const mediaEndpoint = this.activeEndpoints.get(callId);
+    const otherEndpoint = this.activeEndpoints.get(otherCallId);
+    if (!mediaEndpoint?.isActive || !otherEndpoint?.isActive) {
+      throw new Error(
+        `No active media endpoints to bridge ${callId} and ${otherCallId}`,
+      );
+    }
+
+    this.logger.log(`Bridging call ${callId} with call ${otherCallId}`);
+
+    await mediaEndpoint.endpoint.bridge(otherEndpoint.endpoint);
+  }
+
   /**
    * Start audio forking for STT (WebSocket streaming)
    */
@@ -301,6 +500,32 @@ export class MediaService extends EventEmitter implements OnModuleInit, OnModule
     }
   }
 
+  /**
+   * Run an operation on an audio file; audio buffers (MP3 from TTS) are
+   * saved to a temporary file for the duration of the operation
+   */
+  private async withAudioFile<T>(
+    callId: string,
+    audio: string | Buffer,
+    run: (filePath: string) => Promise<T>,
+  ): Promise<T> {
+    if (typeof audio === 'string') {
+      return run(audio);
+    }
+
+    const filePath = path.join(
+      this.tempAudioDir,
+      `prompt-${callId}-${Date.now()}.mp3`,
+    );
+    await fs.writeFile(filePath, audio);
+
+    try {
+      return await run(filePath);
+    } finally {
+      await fs.unlink(filePath).catch(() => undefined);
+    }
+  }
+
   /**
    * Get media endpoint
    */
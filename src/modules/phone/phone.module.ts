@@ -4,17 +4,21 @@ import { PhoneController } from './phone.controller';
 import { PhoneService } from './phone.service';
 import { PhoneNumber, PhoneNumberSchema } from '../../schemas/phone-number.schema';
 import { Agent, AgentSchema } from '../../schemas/agent.schema';
+import { Company, CompanySchema } from '../../schemas/company.schema';
 import { SipModule } from '../sip/sip.module';
 import { ConversationModule } from '../conversation/conversation.module';
+import { PromptTemplateModule } from '../prompt-template/prompt-template.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: PhoneNumber.name, schema: PhoneNumberSchema },
       { name: Agent.name, schema: AgentSchema },
+      { name: Company.name, schema: CompanySchema },
     ]),
     SipModule,
     forwardRef(() => ConversationModule),
+    PromptTemplateModule,
   ],
   controllers: [PhoneController],
   providers: [PhoneService],
@@ -1,23 +1,85 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { PhoneNumber, PhoneNumberDocument } from '../../schemas/phone-number.schema';
+import { Company, CompanyDocument } from '../../schemas/company.schema';
 import { CreatePhoneNumberDto } from './dto/create-phone-number.dto';
 import { AssignAgentDto } from './dto/assign-agent.dto';
 import { OutboundCallDto } from './dto/outbound-call.dto';
-import { SipService } from '../sip/sip.service';
+import { SipService, CallSession } from '../sip/sip.service';
 import { ConversationService } from '../conversation/conversation.service';
 import { CallDirection, CallerType } from '../../schemas/conversation.schema';
+import { MachineDetectionSettings } from '../../schemas/batch-call.schema';
+import {
+  PromptTemplateService,
+  TemplateContext,
+} from '../prompt-template/prompt-template.service';
+
+export interface OutboundCallOptions {
+  callId?: string; // pre-generated SIP Call-ID
+  slotReserved?: boolean; // the caller already holds a slot from reserveCallSlot()
+  recipient?: Pick<TemplateContext, 'name' | 'customVariables'>; // campaign data for prompt templates
+  machineDetection?: MachineDetectionSettings; // campaign answering-machine handling
+}
+
+interface CallSlot {
+  phoneNumberId: Types.ObjectId;
+  companyId: Types.ObjectId;
+}
 
 @Injectable()
-export class PhoneService {
+export class PhoneService implements OnModuleInit {
   private readonly logger = new Logger(PhoneService.name);
+  private callSlots: Map<string, CallSlot> = new Map();
 
   constructor(
     @InjectModel(PhoneNumber.name) private phoneNumberModel: Model<PhoneNumberDocument>,
+    @InjectModel(Company.name) private companyModel: Model<CompanyDocument>,
     private sipService: SipService,
     private conversationService: ConversationService,
-  ) {}
+    private promptTemplateService: PromptTemplateService,
+  ) {
+    // Free the concurrency slot of an outbound call once it is over
+    this.sipService.on('call:ended', (session: CallSession) => {
+      void this.releaseTrackedCall(session.callId).catch((error) =>
+        this.logger.error(
+          `Failed to release call slot for ${session.callId}: ${(error as Error).message}`,
+        ),
+      );
+    });
+
+    this.sipService.on('call:failed', (session: CallSession) => {
+      void this.releaseTrackedCall(session.callId).catch((error) =>
+        this.logger.error(
+          `Failed to release call slot for ${session.callId}: ${(error as Error).message}`,
+        ),
+      );
+    });
+  }
+
+  async onModuleInit() {
+    // SIP calls do not survive a restart, so counters left by the previous process are stale
+    try {
+      await this.phoneNumberModel.updateMany(
+        { activeCallsCount: { $gt: 0 } },
+        { $set: { activeCallsCount: 0 } },
+      );
+      await this.companyModel.updateMany(
+        { activeCallsCount: { $gt: 0 } },
+        { $set: { activeCallsCount: 0 } },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to reset active call counters: ${(error as Error).message}`,
+      );
+    }
+  }
 
   /**
    * Create a new phone number
@@ -149,26 +211,73 @@ export class PhoneService {
   /**
    * Make an outbound call
    */
-  async makeOutboundCall(companyId: string, outboundCallDto: OutboundCallDto) {
+  async makeOutboundCall(
+    companyId: string,
+    outboundCallDto: OutboundCallDto,
+    options: OutboundCallOptions = {},
+  ) {
     try {
-      // Get phone number
-      const phoneNumber = await this.findOne(companyId, outboundCallDto.agent_phone_number_id);
+      // Tracked slots are released when the SIP call ends or fails
+      const callId = options.callId || this.sipService.generateCallId();
+      const slot: CallSlot = {
+        phoneNumberId: new Types.ObjectId(
+          outboundCallDto.agent_phone_number_id,
+        ),
+        companyId: new Types.ObjectId(companyId),
+      };
 
-      if (!phoneNumber.isActive) {
-        throw new BadRequestException('Номер телефона неактивен');
+      if (options.slotReserved) {
+        this.callSlots.set(callId, slot);
       }
 
-      // Check if max sessions reached
-      if (phoneNumber.activeCallsCount >= phoneNumber.sipConfig.maxSessions) {
-        throw new BadRequestException('Достигнуто максимальное количество одновременных звонков');
+      let sipSession: CallSession;
+      try {
+        // Get phone number
+        const phoneNumber = await this.findOne(
+          companyId,
+          outboundCallDto.agent_phone_number_id,
+        );
+
+        if (!phoneNumber.isActive) {
+          throw new BadRequestException('Номер телефона неактивен');
+        }
+
+        // Take a concurrency slot unless the caller (e.g. the campaign dialer) already holds one
+        if (!options.slotReserved) {
+          if (!(await this.reserveCallSlot(phoneNumber))) {
+            throw new BadRequestException(
+              'Достигнуто максимальное количество одновременных звонков',
+            );
+          }
+          this.callSlots.set(callId, slot);
+        }
+
+        // Personalize the agent prompt for this callee
+        const templateVariables =
+          await this.promptTemplateService.buildVariables({
+            companyId,
+            leadId: outboundCallDto.lead_id,
+            phoneNumber: outboundCallDto.to_number,
+            ...options.recipient,
+          });
+
+        // Make SIP call
+        sipSession = await this.sipService.makeCall(
+          outboundCallDto.to_number,
+          phoneNumber.phoneNumber,
+          {
+            companyId,
+            agentId: outboundCallDto.agent_id,
+            callId,
+            templateVariables,
+            machineDetection: options.machineDetection,
+          },
+        );
+      } catch (error) {
+        await this.releaseTrackedCall(callId);
+        throw error;
       }
 
-      // Make SIP call
-      const sipSession = await this.sipService.makeCall(
-        outboundCallDto.to_number,
-        phoneNumber.phoneNumber,
-      );
-
       // Create conversation record
       const conversation = await this.conversationService.createConversation(
         new Types.ObjectId(companyId),
@@ -186,9 +295,9 @@ export class PhoneService {
 
       // Update phone number stats
       await this.phoneNumberModel.updateOne(
-        { _id: phoneNumber._id },
+        { _id: slot.phoneNumberId },
         {
-          $inc: { totalCallsCount: 1, activeCallsCount: 1 },
+          $inc: { totalCallsCount: 1 },
           $set: { lastUsedAt: new Date() },
         },
       );
@@ -198,7 +307,7 @@ export class PhoneService {
       return {
         success: true,
         data: {
-          conversation_id: (conversation as any)._id.toString(),
+          conversation_id: (conversation._id as Types.ObjectId).toString(),
           call_id: sipSession.callId,
           to_number: outboundCallDto.to_number,
           status: sipSession.status,
@@ -210,6 +319,96 @@ export class PhoneService {
     }
   }
 
+  /**
+   * Atomically take one concurrent call slot on the phone number
+   * (sipConfig.maxSessions) and the company (sipConfig.maxConcurrentCalls).
+   * Returns false if either limit is reached.
+   */
+  async reserveCallSlot(phoneNumber: PhoneNumberDocument): Promise<boolean> {
+    const phoneResult = await this.phoneNumberModel.updateOne(
+      {
+        _id: phoneNumber._id,
+        isActive: true,
+        $expr: { $lt: ['$activeCallsCount', '$sipConfig.maxSessions'] },
+      },
+      { $inc: { activeCallsCount: 1 } },
+    );
+
+    if (phoneResult.modifiedCount === 0) {
+      return false;
+    }
+
+    const companyResult = await this.companyModel.updateOne(
+      {
+        _id: phoneNumber.companyId,
+        $expr: {
+          $lt: [
+            { $ifNull: ['$activeCallsCount', 0] },
+            {
+              $ifNull: [
+                '$sipConfig.maxConcurrentCalls',
+                Number.MAX_SAFE_INTEGER,
+              ],
+            },
+          ],
+        },
+      },
+      { $inc: { activeCallsCount: 1 } },
+    );
+
+    if (companyResult.modifiedCount === 0) {
+      await this.decrementCounter(
+        this.phoneNumberModel,
+        phoneNumber._id as Types.ObjectId,
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Give back a slot taken with reserveCallSlot() that was not used for a call
+   */
+  async releaseCallSlot(phoneNumber: PhoneNumberDocument): Promise<void> {
+    await this.decrementCounter(
+      this.phoneNumberModel,
+      phoneNumber._id as Types.ObjectId,
+    );
+    await this.decrementCounter(this.companyModel, phoneNumber.companyId);
+  }
+
+  /**
+   * Release the slot held by a tracked outbound call (no-op if already released)
+   */
+  private async releaseTrackedCall(callId: string): Promise<void> {
+    const slot = this.callSlots.get(callId);
+    if (!slot) {
+      return;
+    }
+
+    this.callSlots.delete(callId);
+
+    try {
+      await this.decrementCounter(this.phoneNumberModel, slot.phoneNumberId);
+      await this.decrementCounter(this.companyModel, slot.companyId);
+    } catch (error) {
+      this.logger.error(
+        `Failed to release call slot for ${callId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async decrementCounter(
+    model: Model<any>,
+    id: Types.ObjectId,
+  ): Promise<void> {
+    await model.updateOne(
+      { _id: id, activeCallsCount: { $gt: 0 } },
+      { $inc: { activeCallsCount: -1 } },
+    );
+  }
+
   /**
    * Decrement active calls count when call ends
    */
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PromptTemplateService } from './prompt-template.service';
+import { Agent, AgentSchema } from '../../schemas/agent.schema';
+import { Company, CompanySchema } from '../../schemas/company.schema';
+import { Lead, LeadSchema } from '../../schemas/lead.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Agent.name, schema: AgentSchema },
+      { name: Company.name, schema: CompanySchema },
+      { name: Lead.name, schema: LeadSchema },
+    ]),
+  ],
+  providers: [PromptTemplateService],
+  exports: [PromptTemplateService],
+})
+export class PromptTemplateModule {}
@@ -0,0 +1,169 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Agent, AgentDocument } from '../../schemas/agent.schema';
+import { Company, CompanyDocument } from '../../schemas/company.schema';
+import { Lead, LeadDocument } from '../../schemas/lead.schema';
+import { renderTemplate, TemplateVariables } from './template-renderer';
+
+/**
+ * Who the call is with: everything known about the other party
+ */
+export interface TemplateContext {
+  companyId: string | Types.ObjectId;
+  leadId?: string | Types.ObjectId;
+  phoneNumber?: string;
+  name?: string;
+  customVariables?: Record<string, any>;
+}
+
+type AgentTemplates = Pick<
+  Agent,
+  | 'aiSettings'
+  | 'inboundGreetingMessage'
+  | 'outboundGreetingMessage'
+  | 'fallbackMessage'
+  | 'endingMessage'
+>;
+
+export interface RenderedAgentTemplates {
+  systemPrompt?: string;
+  greetingMessages: {
+    inbound?: string;
+    outbound?: string;
+    fallback?: string;
+    ending?: string;
+  };
+  missingVariables: string[];
+}
+
+/**
+ * Personalizes agent prompts and greetings with recipient, lead and company data
+ */
+@Injectable()
+export class PromptTemplateService {
+  private readonly logger = new Logger(PromptTemplateService.name);
+
+  constructor(
+    @InjectModel(Agent.name) private agentModel: Model<AgentDocument>,
+    @InjectModel(Company.name) private companyModel: Model<CompanyDocument>,
+    @InjectModel(Lead.name) private leadModel: Model<LeadDocument>,
+  ) {}
+
+  /**
+   * Collect template variables for a call.
+   * Top-level names come from the lead (firstName, lastName, name and its
+   * custom fields) overridden by the recipient's customVariables;
+   * `lead.*` and `company.*` give access to the full records.
+   */
+  async buildVariables(context: TemplateContext): Promise<TemplateVariables> {
+    const [company, lead] = await Promise.all([
+      this.companyModel
+        .findById(context.companyId)
+        .select('name phone website address')
+        .lean(),
+      context.leadId && Types.ObjectId.isValid(context.leadId)
+        ? this.leadModel
+            .findOne({ _id: context.leadId, companyId: context.companyId })
+            .select(
+              'firstName lastName phone email company position customFields',
+            )
+            .lean()
+        : null,
+    ]);
+
+    const leadName = lead
+      ? `${lead.firstName} ${lead.lastName}`.trim()
+      : undefined;
+    const name = context.name || leadName;
+
+    return {
+      firstName: lead?.firstName || name?.split(/\s+/)[0],
+      lastName: lead?.lastName,
+      name,
+      phoneNumber: context.phoneNumber || lead?.phone,
+      ...(lead?.customFields || {}),
+      ...(context.customVariables || {}),
+      lead: lead
+        ? {
+            firstName: lead.firstName,
+            lastName: lead.lastName,
+            name: leadName,
+            phone: lead.phone,
+            email: lead.email,
+            company: lead.company,
+            position: lead.position,
+            customFields: lead.customFields || {},
+          }
+        : {},
+      company: company
+        ? {
+            name: company.name,
+            phone: company.phone,
+            website: company.website,
+            address: company.address,
+          }
+        : {},
+    };
+  }
+
+  /**
+   * Render the system prompt and greetings of an agent
+   */
+  renderAgent(
+    agent: AgentTemplates,
+    variables: TemplateVariables,
+  ): RenderedAgentTemplates {
+    const missing = new Set<string>();
+    const render = (template?: string) => {
+      if (!template) return template;
+
+      const result = renderTemplate(template, variables);
+      result.missingVariables.forEach((name) => missing.add(name));
+      return result.text;
+    };
+
+    const rendered: RenderedAgentTemplates = {
+      systemPrompt: render(agent.aiSettings?.systemPrompt),
+      greetingMessages: {
+        inbound: render(agent.inboundGreetingMessage),
+        outbound: render(agent.outboundGreetingMessage),
+        fallback: render(agent.fallbackMessage),
+        ending: render(agent.endingMessage),
+      },
+      missingVariables: [...missing],
+    };
+
+    if (rendered.missingVariables.length > 0) {
+      this.logger.warn(
+        `Template variables without value: ${rendered.missingVariables.join(', ')}`,
+      );
+    }
+
+    return rendered;
+  }
+
+  /**
+   * Render an agent's templates for a sample recipient without calling anyone
+   */
+  async preview(
+    companyId: string,
+    agentId: string,
+    context: Omit<TemplateContext, 'companyId'>,
+  ): Promise<RenderedAgentTemplates & { variables: TemplateVariables }> {
+    const agent = await this.agentModel
+      .findOne({
+        _id: new Types.ObjectId(agentId),
+        companyId: new Types.ObjectId(companyId),
+      })
+      .lean();
+
+    if (!agent) {
+      throw new NotFoundException('Agent not found');
+    }
+
+    const variables = await this.buildVariables({ ...context, companyId });
+
+    return { ...this.renderAgent(agent, variables), variables };
+  }
+}
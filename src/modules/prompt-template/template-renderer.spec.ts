@@ -0,0 +1,112 @@
+import { renderTemplate } from './template-renderer';
+
+describe('renderTemplate', () => {
+  const variables = {
+    firstName: 'Анна',
+    debtAmount: 0,
+    status: 'vip',
+    visits: 3,
+    tags: ['новый', 'горячий'],
+    consent: 'нет',
+    lastCallAt: new Date('2024-03-15T09:30:00Z'),
+    lead: { company: 'ООО Ромашка', address: { city: 'Казань' } },
+  };
+
+  it('should fill variables and nested values', () => {
+    expect(
+      renderTemplate(
+        'Здравствуйте, {{ firstName }} из {{lead.company}} ({{lead.address.city}})!',
+        variables,
+      ),
+    ).toEqual({
+      text: 'Здравствуйте, Анна из ООО Ромашка (Казань)!',
+      missingVariables: [],
+    });
+  });
+
+  it('should format dates, arrays and numbers', () => {
+    expect(
+      renderTemplate(
+        '{{lastCallAt}}; {{tags}}; {{visits}}; {{debtAmount}}',
+        variables,
+      ).text,
+    ).toBe('2024-03-15; новый, горячий; 3; 0');
+  });
+
+  it('should report missing variables and use defaults', () => {
+    const result = renderTemplate(
+      '{{middleName}} {{lead.phone}} {{nickname | "клиент"}} {{lead | "—"}}',
+      variables,
+    );
+
+    // Objects have no text form, so the default applies
+    expect(result.text).toBe('  клиент —');
+    expect(result.missingVariables).toEqual(['middleName', 'lead.phone']);
+  });
+
+  it('should pick the branch by truthiness', () => {
+    const template =
+      '{{#if debtAmount}}Долг {{debtAmount}}{{else}}Долга нет{{/if}}. ' +
+      '{{#if consent}}Согласие есть{{else}}Без согласия{{/if}}. ' +
+      '{{#if tags}}Теги{{/if}}{{#if emptyList}}Пусто{{/if}}';
+
+    expect(renderTemplate(template, { ...variables, emptyList: [] }).text).toBe(
+      'Долга нет. Без согласия. Теги',
+    );
+  });
+
+  it('should compare values with ==', () => {
+    const template =
+      '{{#if status == "vip"}}VIP{{else}}обычный{{/if}} ' +
+      '{{#if visits == "3"}}третий визит{{/if}}';
+
+    expect(renderTemplate(template, variables).text).toBe('VIP третий визит');
+    expect(renderTemplate(template, { status: 'new' }).text).toBe('обычный ');
+  });
+
+  it('should render nested blocks', () => {
+    const template =
+      '{{#if firstName}}{{firstName}}{{#if status == "vip"}}, ваш менеджер на связи' +
+      '{{else}}, спасибо за звонок{{/if}}.{{else}}Добрый день.{{/if}}';
+
+    expect(renderTemplate(template, variables).text).toBe(
+      'Анна, ваш менеджер на связи.',
+    );
+    expect(
+      renderTemplate(template, { firstName: 'Олег', status: 'new' }).text,
+    ).toBe('Олег, спасибо за звонок.');
+    expect(renderTemplate(template, {}).text).toBe('Добрый день.');
+  });
+
+  it('should only report missing variables of the rendered branch', () => {
+    expect(
+      renderTemplate('{{#if status}}{{company}}{{else}}{{city}}{{/if}}', {
+        status: 'vip',
+      }).missingVariables,
+    ).toEqual(['company']);
+  });
+
+  it('should end unclosed blocks with the template', () => {
+    expect(renderTemplate('Начало {{#if status}}VIP', variables).text).toBe(
+      'Начало VIP',
+    );
+    expect(renderTemplate('Начало {{#if missing}}VIP', variables).text).toBe(
+      'Начало ',
+    );
+  });
+
+  it('should drop unknown and stray tags', () => {
+    const result = renderTemplate(
+      'А{{/if}}Б{{else}}В{{#each tags}}Г{{}}Д{{#if}}Е',
+      variables,
+    );
+
+    expect(result).toEqual({ text: 'АБВГДЕ', missingVariables: [] });
+  });
+
+  it('should keep an unterminated tag as text', () => {
+    expect(renderTemplate('Привет, {{firstName', variables).text).toBe(
+      'Привет, {{firstName',
+    );
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Minimal template language for agent prompts and greetings:
+ *
+ *   {{firstName}}                   value, empty when missing
+ *   {{firstName | "клиент"}}        value with a default
+ *   {{lead.company}}                nested value
+ *   {{#if debtAmount}}...{{else}}...{{/if}}
+ *   {{#if status == "vip"}}...{{/if}}
+ *
+ * Rendering never throws: unknown tags are dropped and unclosed
+ * blocks end with the template, so a typo cannot break a live call.
+ */
+
+export type TemplateVariables = Record<string, any>;
+
+export interface RenderResult {
+  text: string;
+  missingVariables: string[]; // referenced without a value or default
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; path: string; fallback?: string }
+  | {
+      kind: 'if';
+      path: string;
+      equals?: string;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    };
+
+const TAG = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const VARIABLE = /^([\w.]+)\s*(?:\|\s*"([^"]*)")?$/;
+const IF_BLOCK = /^#if\s+([\w.]+)\s*(?:==\s*"([^"]*)")?$/;
+
+/**
+ * Render a template with the given variables
+ */
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+): RenderResult {
+  const missing = new Set<string>();
+  const text = renderNodes(parseTemplate(template), variables, missing);
+
+  return { text, missingVariables: [...missing] };
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open #if blocks; `target` is the branch new nodes are added to
+  const stack: {
+    node: Extract<TemplateNode, { kind: 'if' }>;
+    target: TemplateNode[];
+  }[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].target : root);
+
+  let position = 0;
+  for (const match of template.matchAll(TAG)) {
+    if (match.index > position) {
+      current().push({
+        kind: 'text',
+        text: template.slice(position, match.index),
+      });
+    }
+    position = match.index + match[0].length;
+
+    const tag = match[1];
+    const ifMatch = IF_BLOCK.exec(tag);
+    const variableMatch = VARIABLE.exec(tag);
+
+    if (ifMatch) {
+      const node: Extract<TemplateNode, { kind: 'if' }> = {
+        kind: 'if',
+        path: ifMatch[1],
+        equals: ifMatch[2],
+        then: [],
+        otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, target: node.then });
+    } else if (tag === 'else') {
+      // A stray else is dropped like other unknown tags, not read as a variable
+      if (stack.length) {
+        const top = stack[stack.length - 1];
+        top.target = top.node.otherwise;
+      }
+    } else if (tag === '/if') {
+      stack.pop();
+    } else if (variableMatch) {
+      current().push({
+        kind: 'variable',
+        path: variableMatch[1],
+        fallback: variableMatch[2],
+      });
+    }
+  }
+
+  if (position < template.length) {
+    current().push({ kind: 'text', text: template.slice(position) });
+  }
+
+  return root;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  variables: TemplateVariables,
+  missing: Set<string>,
+): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.text;
+    } else if (node.kind === 'variable') {
+      const value = formatValue(lookup(variables, node.path));
+
+      if (value) {
+        output += value;
+      } else if (node.fallback !== undefined) {
+        output += node.fallback;
+      } else {
+        missing.add(node.path);
+      }
+    } else {
+      const value = lookup(variables, node.path);
+      const matches =
+        node.equals !== undefined
+          ? formatValue(value) === node.equals
+          : isTruthy(value);
+
+      output += renderNodes(
+        matches ? node.then : node.otherwise,
+        variables,
+        missing,
+      );
+    }
+  }
+
+  return output;
+}
+
+function lookup(variables: TemplateVariables, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      variables,
+    );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value as string | number | boolean).trim();
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') {
+    return !['', '0', 'false', 'нет', 'no'].includes(
+      value.trim().toLowerCase(),
+    );
+  }
+  return Boolean(value);
+}
@@ -3,9 +3,17 @@ import { ConfigModule } from '@nestjs/config';
 import { SipService } from './sip.service';
 import { MediaModule } from '../media/media.module';
 import { GeminiLiveModule } from '../gemini-live/gemini-live.module';
+import { AudioPipelineModule } from '../audio-pipeline/audio-pipeline.module';
+import { DoNotCallModule } from '../do-not-call/do-not-call.module';
 
 @Module({
-  imports: [ConfigModule, MediaModule, GeminiLiveModule],
+  imports: [
+    ConfigModule,
+    MediaModule,
+    GeminiLiveModule,
+    AudioPipelineModule,
+    DoNotCallModule,
+  ],
   providers: [SipService],
   exports: [SipService],
 })
@@ -3,6 +3,13 @@ import { ConfigService } from '@nestjs/config';
 import Srf from 'drachtio-srf';
 import { EventEmitter } from 'events';
 import { MediaService } from '../media/media.service';
+import { DoNotCallService } from '../do-not-call/do-not-call.service';
+import {
+  AudioPipelineService,
+  SipCodec,
+} from '../audio-pipeline/audio-pipeline.service';
+import { MachineDetectionSettings } from '../../schemas/batch-call.schema';
+import { AnsweredBy } from '../../schemas/conversation.schema';
 
 export interface CallSession {
   callId: string;
@@ -12,10 +19,39 @@ export interface CallSession {
   to: string; // Destination number (our number for inbound, customer for outbound)
   status: 'ringing' | 'ongoing' | 'completed' | 'failed';
   startedAt: Date;
+  ringingAt?: Date;
   answeredAt?: Date;
   endedAt?: Date;
-  sipDialog?: any;
+  sipDialog?: Srf.Dialog;
   mediaStream?: any;
+  codec?: SipCodec; // codec negotiated in the SDP answer
+  agentId?: string; // AI agent handling an outbound call
+  failureStatus?: number; // final SIP status of a rejected outbound call (486, 480, ...)
+  templateVariables?: Record<string, any>; // values for the agent's prompt templates
+  transferOf?: string; // customer call this manager leg was dialed for
+  machineDetection?: MachineDetectionSettings; // screen the callee for an answering machine
+  answeredBy?: AnsweredBy; // result of answering-machine detection
+}
+
+// Payload of call:incoming; answered outbound calls come without the INVITE
+export interface IncomingCall {
+  session: CallSession;
+  req?: Srf.SrfRequest;
+  res?: Srf.SrfResponse;
+}
+
+// Inbound call whose INVITE is still to be answered through MediaService.connectCaller
+export type InboundCall = Required<IncomingCall>;
+
+export interface MakeCallOptions {
+  companyId: string; // whose do-not-call list applies
+  agentId?: string; // set for AI calls; manager calls leave it empty
+  callId?: string; // pre-generated Call-ID, so callers can track the call before it is answered
+  templateVariables?: Record<string, any>; // personalization of the agent prompt for this callee
+  transferOf?: string; // set when dialing a manager to take over this call
+  ringTimeout?: number; // seconds before an unanswered call is cancelled
+  machineDetection?: MachineDetectionSettings; // what to do when a machine answers
+  skipDoNotCall?: boolean; // internal legs to the company's own staff (transfers, queues)
 }
 
 @Injectable()
@@ -39,6 +75,8 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
   constructor(
     private configService: ConfigService,
     private mediaService: MediaService,
+    private audioPipelineService: AudioPipelineService,
+    private doNotCallService: DoNotCallService,
   ) {
     super();
 
@@ -103,7 +141,8 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
         resolve(); // Resolve to allow app to continue
       }, 5000);
 
-      this.srf.connect({
+      // drachtio reports the outcome through the 'connect' event below
+      void this.srf.connect({
         host: this.drachtioHost,
         port: this.drachtioPort,
         secret: this.drachtioSecret,
@@ -132,7 +171,7 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
         }
 
         // Handle incoming INVITE (incoming calls)
-        this.srf.invite(this.handleIncomingCall.bind(this));
+        this.srf.invite((req, res) => this.handleIncomingCall(req, res));
 
         resolve();
       });
@@ -146,7 +185,7 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
   /**
    * Handle incoming SIP call
    */
-  private async handleIncomingCall(req: any, res: any) {
+  private handleIncomingCall(req: Srf.SrfRequest, res: Srf.SrfResponse) {
     const callId = req.get('Call-ID');
     const fromNumber = this.extractPhoneNumber(req.get('From'));
     const toNumber = this.extractPhoneNumber(req.get('To'));
@@ -194,9 +233,18 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
 
   async makeCall(
     phoneNumber: string,
-    fromNumber?: string,
+    fromNumber: string | undefined,
+    options: MakeCallOptions,
   ): Promise<CallSession> {
-    const callId = this.generateCallId();
+    // Every outbound path goes through here, so the list is enforced in one place
+    if (!options.skipDoNotCall) {
+      await this.doNotCallService.assertCallable(
+        options.companyId,
+        phoneNumber,
+      );
+    }
+
+    const callId = options.callId || this.generateCallId();
     const from = this.formatPhoneNumberE164(fromNumber || this.sipNumber);
     const to = this.formatPhoneNumberE164(phoneNumber);
 
@@ -210,27 +258,56 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
       to: to, // Customer's destination number
       status: 'ringing',
       startedAt: new Date(),
+      agentId: options.agentId,
+      templateVariables: options.templateVariables,
+      transferOf: options.transferOf,
+      machineDetection: options.machineDetection,
     };
 
     this.activeCalls.set(callId, session);
 
+    let ringTimer: NodeJS.Timeout | undefined;
+
     try {
-      const dialog = await this.srf.createUAC(
-        `sip:${to}@${this.beelineTrunkHost}:${this.beelineTrunkPort}`,
-        {
-          localSdp: await this.generateSDP(),
-          headers: {
-            'From': `<sip:${from}@${this.beelineTrunkHost}>`,
-            'Call-ID': callId,
-          },
-        },
+      // Offer the Freeswitch endpoint's SDP so the callee sends RTP to our media server
+      const { dialog } = await this.mediaService.connectOutbound(
+        callId,
+        (localSdp) =>
+          this.srf.createUAC(
+            `sip:${to}@${this.beelineTrunkHost}:${this.beelineTrunkPort}`,
+            {
+              localSdp,
+              headers: {
+                From: `<sip:${from}@${this.beelineTrunkHost}>`,
+                'Call-ID': callId,
+              },
+            },
+            {
+              // drachtio calls cbRequest(err, req) although its typings declare only req
+              cbRequest: ((err: unknown, req: Srf.SrfRequest) => {
+                // A cancelled INVITE rejects createUAC with 487
+                if (!err && options.ringTimeout) {
+                  ringTimer = setTimeout(
+                    () => req.cancel(() => undefined),
+                    options.ringTimeout * 1000,
+                  );
+                }
+              }) as unknown as (req: Srf.SrfRequest) => void,
+              cbProvisional: (provisional: Srf.SrfResponse) => {
+                this.handleProvisionalResponse(session, provisional);
+              },
+            },
+          ),
       );
 
       session.status = 'ongoing';
       session.answeredAt = new Date();
       session.sipDialog = dialog;
+      session.codec = this.audioPipelineService.detectCodec(dialog.remote?.sdp);
 
-      this.logger.log(`Outbound call connected: ${callId}`);
+      this.logger.log(
+        `Outbound call connected: ${callId} (codec ${session.codec.name})`,
+      );
 
       // Emit event
       this.emit('call:connected', session);
@@ -246,10 +323,53 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
       this.logger.error(`Failed to make call to ${phoneNumber}:`, error);
       session.status = 'failed';
       session.endedAt = new Date();
+      session.failureStatus = (error as { status?: number }).status;
       this.emit('call:failed', session);
       this.activeCalls.delete(callId);
       throw error;
+    } finally {
+      clearTimeout(ringTimer);
+    }
+  }
+
+  /**
+   * Emit 'call:ringing' once when the callee starts ringing (180/183)
+   */
+  private handleProvisionalResponse(
+    session: CallSession,
+    res: Srf.SrfResponse,
+  ) {
+    if (session.status !== 'ringing' || session.ringingAt) {
+      return;
+    }
+
+    if (res.status === 180 || res.status === 183) {
+      session.ringingAt = new Date();
+      this.emit('call:ringing', session);
+    }
+  }
+
+  /**
+   * Attach the answered SIP dialog of an inbound call to its session,
+   * so hangups from either side emit 'call:ended'
+   */
+  attachDialog(callId: string, dialog: Srf.Dialog): void {
+    const session = this.activeCalls.get(callId);
+
+    if (!session) {
+      this.logger.warn(`Cannot attach dialog: call ${callId} not found`);
+      return;
     }
+
+    session.sipDialog = dialog;
+    session.status = 'ongoing';
+    session.answeredAt = new Date();
+
+    this.emit('call:answered', session);
+
+    dialog.on('destroy', () => {
+      this.handleCallEnd(callId, 'completed');
+    });
   }
 
   /**
@@ -296,6 +416,15 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
 
     // Remove from active calls
     this.activeCalls.delete(callId);
+
+    // Release the Freeswitch endpoint (no-op if already released)
+    this.mediaService
+      .destroyEndpoint(callId)
+      .catch((error) =>
+        this.logger.error(
+          `Failed to release media endpoint of call ${callId}: ${(error as Error).message}`,
+        ),
+      );
   }
 
   /**
@@ -310,14 +439,29 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
 
     this.logger.log(`Sending DTMF to ${callId}: ${digits}`);
 
-    // Send DTMF using SIP INFO method
+    // Send DTMF using SIP INFO method; drachtio takes plain request options here
     await session.sipDialog.request({
       method: 'INFO',
       headers: {
         'Content-Type': 'application/dtmf-relay',
       },
       body: `Signal=${digits}\r\nDuration=100`,
-    });
+    } as unknown as Srf.SrfRequest);
+  }
+
+  /**
+   * Put the remote party on hold (re-INVITE with sendonly) or resume the call
+   */
+  async holdCall(callId: string, onHold: boolean): Promise<void> {
+    const session = this.activeCalls.get(callId);
+
+    if (!session || !session.sipDialog) {
+      throw new Error(`Call ${callId} not found or not active`);
+    }
+
+    this.logger.log(`${onHold ? 'Holding' : 'Resuming'} call ${callId}`);
+
+    await session.sipDialog.modify(onHold ? 'hold' : 'unhold');
   }
 
   /**
@@ -327,6 +471,16 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
     return this.activeCalls.get(callId);
   }
 
+  /**
+   * Record who answered an outbound call, as told by answering-machine detection
+   */
+  setAnsweredBy(callId: string, answeredBy: AnsweredBy): void {
+    const session = this.activeCalls.get(callId);
+    if (session) {
+      session.answeredBy = answeredBy;
+    }
+  }
+
   /**
    * Get all active calls
    */
@@ -342,31 +496,11 @@ export class SipService extends EventEmitter implements OnModuleInit, OnModuleDe
   }
 
   /**
-   * Check if max sessions reached
-   */
-  isMaxSessionsReached(): boolean {
-    return this.activeCalls.size >= this.maxSessions;
-  }
-
-  /**
-   * Generate SDP for media negotiation
+   * Check if max sessions reached, counting `pending` calls that are about
+   * to start but are not active yet
    */
-  private async generateSDP(): Promise<string> {
-    // This is a simplified SDP - in production, you'd generate proper SDP
-    // with actual RTP endpoints
-    const sdp = `v=0
-o=- 0 0 IN IP4 ${this.beelineTrunkHost}
-s=Voxi
-c=IN IP4 ${this.beelineTrunkHost}
-t=0 0
-m=audio 20000 RTP/AVP 8 0 101
-a=rtpmap:8 PCMA/8000
-a=rtpmap:0 PCMU/8000
-a=rtpmap:101 telephone-event/8000
-a=fmtp:101 0-16
-a=sendrecv`;
-
-    return sdp;
+  isMaxSessionsReached(pending = 0): boolean {
+    return this.activeCalls.size + pending >= this.maxSessions;
   }
 
   /**
@@ -380,7 +514,7 @@ a=sendrecv`;
   /**
    * Generate unique call ID
    */
-  private generateCallId(): string {
+  generateCallId(): string {
     return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
@@ -0,0 +1,144 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CallSession, InboundCall, SipService } from '../sip/sip.service';
+import { MediaService } from '../media/media.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { CallTransferService } from '../call-transfer/call-transfer.service';
+import { ManagerPresenceService } from '../call-transfer/manager-presence.service';
+import { InboundCallService } from '../call-transfer/inbound-call.service';
+import {
+  DEFAULT_VOICEMAIL_GREETING,
+  VoicemailRecord,
+  VoicemailService,
+} from './voicemail.service';
+import { CallerType, CallStatus } from '../../schemas/conversation.schema';
+
+/**
+ * Takes voicemail messages on live calls and tells the company's online
+ * managers about them
+ */
+@Injectable()
+export class VoicemailCallService {
+  private readonly logger = new Logger(VoicemailCallService.name);
+
+  constructor(
+    private voicemailService: VoicemailService,
+    private sipService: SipService,
+    private mediaService: MediaService,
+    private conversationService: ConversationService,
+    private callTransferService: CallTransferService,
+    private managerPresence: ManagerPresenceService,
+    private inboundCallService: InboundCallService,
+  ) {}
+
+  /**
+   * Answer an inbound call to a company number that no agent, IVR menu or
+   * queue takes: ring the online managers and take a message when nobody answers
+   */
+  async handleUnroutedCall(
+    call: InboundCall,
+    companyId: Types.ObjectId,
+  ): Promise<void> {
+    const { callId } = call.session;
+
+    const conversation = await this.inboundCallService.answer(call, companyId, {
+      callerType: CallerType.VOICEMAIL,
+    });
+
+    try {
+      // Connected; CallTransferService closes the conversation when the call ends
+      if (
+        await this.callTransferService.ringManagers(
+          call.session,
+          companyId,
+          conversation,
+          'Inbound call',
+        )
+      ) {
+        return;
+      }
+
+      if (!this.sipService.getCall(callId)) {
+        await this.conversationService.updateStatus(
+          callId,
+          companyId,
+          CallStatus.MISSED,
+        );
+        return;
+      }
+
+      await this.takeMessage(
+        call.session,
+        companyId,
+        conversation._id,
+        DEFAULT_VOICEMAIL_GREETING,
+      );
+    } catch (error) {
+      await this.inboundCallService.fail(
+        callId,
+        companyId,
+        `Failed to handle unrouted call ${callId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Take a voicemail message from an inbound caller, tell the company's
+   * managers about it and hang up; null when no message was left
+   */
+  async takeMessage(
+    session: CallSession,
+    companyId: Types.ObjectId,
+    conversationId: Types.ObjectId,
+    greeting?: string,
+  ): Promise<VoicemailRecord | null> {
+    const { callId } = session;
+
+    // Recording stops at silence once the caller hangs up; the endpoint is released afterwards
+    this.inboundCallService.release(callId);
+
+    try {
+      const message = await this.voicemailService.takeMessage({
+        callId,
+        companyId,
+        conversationId,
+        phoneNumber: session.phoneNumber,
+        greeting,
+      });
+
+      if (message) {
+        this.managerPresence.notifyCompany(companyId, 'voicemail:new', {
+          callId,
+          conversationId: message.conversationId,
+          phoneNumber: session.phoneNumber,
+          leadId: message.leadId,
+          audioUrl: message.audioUrl,
+          transcript: message.transcript,
+          durationSeconds: message.durationSeconds,
+        });
+      }
+
+      return message;
+    } catch (error) {
+      const callerLeft = !this.sipService.getCall(callId);
+      if (!callerLeft) {
+        this.logger.error(
+          `Failed to take a voicemail message on call ${callId}:`,
+          error,
+        );
+      }
+      await this.conversationService.updateStatus(
+        callId,
+        companyId,
+        callerLeft ? CallStatus.MISSED : CallStatus.FAILED,
+      );
+      return null;
+    } finally {
+      if (this.sipService.getCall(callId)) {
+        await this.sipService.hangupCall(callId);
+      }
+      await this.mediaService.destroyEndpoint(callId);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { VoicemailService } from './voicemail.service';
+import { MarkVoicemailDto } from './dto/voicemail.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import type { AuthenticatedRequest } from '../../common/interfaces/authenticated-request.interface';
+import { UserRole } from '../../schemas/user.schema';
+
+@Controller('voicemails')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class VoicemailController {
+  constructor(private readonly voicemailService: VoicemailService) {}
+
+  /**
+   * Voicemail inbox; `unread=true` lists only messages nobody has listened to
+   */
+  @Get()
+  @Roles(UserRole.COMPANY_ADMIN, UserRole.MANAGER)
+  async findAll(
+    @Request() req: AuthenticatedRequest,
+    @Query('unread') unread?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ) {
+    const {
+      voicemails,
+      total,
+      unread: unreadCount,
+    } = await this.voicemailService.findAll(req.user.companyId, {
+      unread: unread === 'true',
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+
+    return {
+      success: true,
+      data: voicemails,
+      count: total,
+      unread: unreadCount,
+    };
+  }
+
+  @Patch(':id/read')
+  @Roles(UserRole.COMPANY_ADMIN, UserRole.MANAGER)
+  async markRead(
+    @Request() req: AuthenticatedRequest,
+    @Param('id') id: string,
+    @Body() markDto: MarkVoicemailDto,
+  ) {
+    const voicemail = await this.voicemailService.markRead(
+      req.user.companyId,
+      id,
+      markDto.isRead,
+      req.user.userId,
+    );
+
+    return {
+      success: true,
+      data: voicemail,
+      message: markDto.isRead
+        ? 'Voicemail marked as read'
+        : 'Voicemail marked as unread',
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { VoicemailService } from './voicemail.service';
+import { VoicemailCallService } from './voicemail-call.service';
+import { VoicemailController } from './voicemail.controller';
+import {
+  Conversation,
+  ConversationSchema,
+} from '../../schemas/conversation.schema';
+import { ConversationModule } from '../conversation/conversation.module';
+import { MediaModule } from '../media/media.module';
+import { GoogleCloudModule } from '../google-cloud/google-cloud.module';
+import { LeadModule } from '../lead/lead.module';
+import { SipModule } from '../sip/sip.module';
+import { CallTransferModule } from '../call-transfer/call-transfer.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Conversation.name, schema: ConversationSchema },
+    ]),
+    ConversationModule,
+    MediaModule,
+    GoogleCloudModule,
+    LeadModule,
+    SipModule,
+    CallTransferModule,
+  ],
+  controllers: [VoicemailController],
+  providers: [VoicemailService, VoicemailCallService],
+  exports: [VoicemailService, VoicemailCallService],
+})
+export class VoicemailModule {}
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { VoicemailService } from './voicemail.service';
+import { ConversationService } from '../conversation/conversation.service';
+import { MediaService } from '../media/media.service';
+import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+import { LeadService } from '../lead/lead.service';
+import { CallStatus, Conversation } from '../../schemas/conversation.schema';
+
+/**
+ * Mono 16-bit PCM WAV of the given length
+ */
+function wav(seconds: number, sampleRate = 8000): Buffer {
+  const data = Buffer.alloc(seconds * sampleRate * 2);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+describe('VoicemailService', () => {
+  let service: VoicemailService;
+  let conversationModel: { updateOne: jest.Mock };
+  let conversationService: { updateStatus: jest.Mock };
+  let mediaService: {
+    playTTS: jest.Mock;
+    playAudio: jest.Mock;
+    recordMessage: jest.Mock;
+    isEndpointActive: jest.Mock;
+  };
+  let googleCloudService: {
+    synthesizeSpeech: jest.Mock;
+    uploadAudioFile: jest.Mock;
+    transcribeAudioBuffer: jest.Mock;
+  };
+  let leadService: { findOrCreateInboundLead: jest.Mock };
+
+  const companyId = new Types.ObjectId();
+  const conversationId = new Types.ObjectId();
+  const leadId = new Types.ObjectId();
+  const params = {
+    callId: 'call-1',
+    companyId,
+    conversationId,
+    phoneNumber: '+79001234567',
+  };
+
+  beforeEach(async () => {
+    conversationModel = { updateOne: jest.fn().mockResolvedValue({}) };
+    conversationService = { updateStatus: jest.fn().mockResolvedValue({}) };
+    mediaService = {
+      playTTS: jest.fn().mockResolvedValue(undefined),
+      playAudio: jest.fn().mockResolvedValue(undefined),
+      recordMessage: jest.fn().mockResolvedValue(wav(4)),
+      isEndpointActive: jest.fn().mockReturnValue(true),
+    };
+    googleCloudService = {
+      synthesizeSpeech: jest.fn().mockResolvedValue(Buffer.from('mp3')),
+      uploadAudioFile: jest
+        .fn()
+        .mockResolvedValue('https://storage/call-1.wav'),
+      transcribeAudioBuffer: jest.fn().mockResolvedValue('Перезвоните мне'),
+    };
+    leadService = {
+      findOrCreateInboundLead: jest.fn().mockResolvedValue(leadId),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VoicemailService,
+        {
+          provide: getModelToken(Conversation.name),
+          useValue: conversationModel,
+        },
+        { provide: ConversationService, useValue: conversationService },
+        { provide: MediaService, useValue: mediaService },
+        { provide: GoogleCloudService, useValue: googleCloudService },
+        { provide: LeadService, useValue: leadService },
+      ],
+    }).compile();
+
+    service = module.get<VoicemailService>(VoicemailService);
+  });
+
+  it('should store the message with its transcript and lead', async () => {
+    const message = await service.takeMessage({
+      ...params,
+      greeting: 'Оставьте сообщение',
+    });
+
+    expect(message).toEqual({
+      conversationId,
+      leadId,
+      audioUrl: 'https://storage/call-1.wav',
+      transcript: 'Перезвоните мне',
+      durationSeconds: 4,
+    });
+    expect(mediaService.playTTS).toHaveBeenCalledTimes(1);
+    // Transcribed at the rate of the recording
+    expect(googleCloudService.transcribeAudioBuffer).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      'ru-RU',
+      8000,
+    );
+    expect(leadService.findOrCreateInboundLead).toHaveBeenCalledWith(
+      companyId,
+      '+79001234567',
+    );
+    const [filter, update] = conversationModel.updateOne.mock.calls[0] as [
+      object,
+      { $set: object },
+    ];
+    expect(filter).toEqual({ _id: conversationId, companyId });
+    expect(update.$set).toMatchObject({
+      leadId,
+      voicemail: { durationSeconds: 4, isRead: false },
+    });
+    expect(conversationService.updateStatus).toHaveBeenCalledWith(
+      'call-1',
+      companyId,
+      CallStatus.VOICEMAIL,
+    );
+  });
+
+  it('should treat a hang-up right after the beep as a missed call', async () => {
+    mediaService.recordMessage.mockResolvedValueOnce(wav(0));
+
+    const message = await service.takeMessage(params);
+
+    expect(message).toBeNull();
+    expect(mediaService.playTTS).not.toHaveBeenCalled();
+    expect(googleCloudService.uploadAudioFile).not.toHaveBeenCalled();
+    expect(conversationService.updateStatus).toHaveBeenCalledWith(
+      'call-1',
+      companyId,
+      CallStatus.MISSED,
+    );
+  });
+
+  it('should not record when the caller hung up during the greeting', async () => {
+    mediaService.isEndpointActive.mockReturnValue(false);
+
+    const message = await service.takeMessage({
+      ...params,
+      greeting: 'Оставьте сообщение',
+    });
+
+    expect(message).toBeNull();
+    expect(mediaService.recordMessage).not.toHaveBeenCalled();
+  });
+
+  it('should keep the message when transcription fails', async () => {
+    googleCloudService.transcribeAudioBuffer.mockRejectedValueOnce(
+      new Error('quota exceeded'),
+    );
+
+    const message = await service.takeMessage(params);
+
+    expect(message?.transcript).toBe('');
+    expect(conversationService.updateStatus).toHaveBeenCalledWith(
+      'call-1',
+      companyId,
+      CallStatus.VOICEMAIL,
+    );
+  });
+});
@@ -0,0 +1,257 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  CallStatus,
+  Conversation,
+  ConversationDocument,
+} from '../../schemas/conversation.schema';
+import { ConversationService } from '../conversation/conversation.service';
+import { MediaService } from '../media/media.service';
+import { GoogleCloudService } from '../google-cloud/google-cloud.service';
+import { LeadService } from '../lead/lead.service';
+
+// Speech-to-text transcribes up to a minute of audio in one request
+const MAX_MESSAGE_SECONDS = 60;
+// Pause that ends the message
+const END_SILENCE_SECONDS = 5;
+// Shorter recordings are hang-ups after the beep
+const MIN_MESSAGE_SECONDS = 1;
+// Played by Freeswitch right before recording starts
+const BEEP = 'tone_stream://%(500,0,800)';
+const WAV_HEADER_BYTES = 44;
+
+export const DEFAULT_VOICEMAIL_GREETING =
+  'Здравствуйте! Сейчас никто не может ответить. Оставьте, пожалуйста, сообщение после сигнала, и мы вам перезвоним.';
+
+export interface VoicemailRecord {
+  conversationId: Types.ObjectId;
+  leadId?: Types.ObjectId;
+  audioUrl: string;
+  transcript: string;
+  durationSeconds: number;
+}
+
+/**
+ * Sample rate and length of the PCM WAV files Freeswitch records
+ */
+function readWavInfo(
+  wav: Buffer,
+): { sampleRate: number; durationSeconds: number } | null {
+  if (
+    wav.length < WAV_HEADER_BYTES ||
+    wav.toString('ascii', 0, 4) !== 'RIFF' ||
+    wav.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    return null;
+  }
+
+  const channels = wav.readUInt16LE(22);
+  const sampleRate = wav.readUInt32LE(24);
+  const bitsPerSample = wav.readUInt16LE(34);
+  const bytesPerSecond = sampleRate * channels * (bitsPerSample / 8);
+
+  return {
+    sampleRate,
+    durationSeconds: (wav.length - WAV_HEADER_BYTES) / bytesPerSecond,
+  };
+}
+
+/**
+ * Messages inbound callers leave when nobody takes the call, and the
+ * voicemail inbox managers work through
+ */
+@Injectable()
+export class VoicemailService {
+  private readonly logger = new Logger(VoicemailService.name);
+
+  constructor(
+    @InjectModel(Conversation.name)
+    private conversationModel: Model<ConversationDocument>,
+    private conversationService: ConversationService,
+    private mediaService: MediaService,
+    private googleCloudService: GoogleCloudService,
+    private leadService: LeadService,
+  ) {}
+
+  /**
+   * Play the greeting and a beep, then record the caller until silence or
+   * the time limit. The recording and its transcript are stored on the
+   * conversation and the caller's lead is put in the pool.
+   * Returns null when the caller hung up without leaving a message.
+   */
+  async takeMessage(params: {
+    callId: string;
+    companyId: Types.ObjectId;
+    conversationId: Types.ObjectId;
+    phoneNumber: string;
+    greeting?: string; // skipped when the caller was already told to leave a message
+  }): Promise<VoicemailRecord | null> {
+    const { callId, companyId, conversationId } = params;
+
+    if (params.greeting) {
+      const greeting = await this.googleCloudService.synthesizeSpeech(
+        params.greeting,
+      );
+      await this.mediaService.playTTS(callId, greeting);
+    }
+
+    const recording = this.mediaService.isEndpointActive(callId)
+      ? await this.recordAfterBeep(callId)
+      : null;
+    const wav = recording && readWavInfo(recording);
+
+    if (!recording || !wav || wav.durationSeconds < MIN_MESSAGE_SECONDS) {
+      await this.conversationService.updateStatus(
+        callId,
+        companyId,
+        CallStatus.MISSED,
+      );
+      return null;
+    }
+
+    const durationSeconds = Math.round(wav.durationSeconds);
+    const audioUrl = await this.googleCloudService.uploadAudioFile(
+      recording,
+      `${callId}.wav`,
+      'audio/wav',
+    );
+
+    // The message is kept even when transcription or the lead fail
+    let transcript = '';
+    try {
+      transcript = await this.googleCloudService.transcribeAudioBuffer(
+        recording,
+        'ru-RU',
+        wav.sampleRate,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to transcribe the voicemail of call ${callId}:`,
+        error,
+      );
+    }
+
+    let leadId: Types.ObjectId | undefined;
+    try {
+      leadId = await this.leadService.findOrCreateInboundLead(
+        companyId,
+        params.phoneNumber,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to file the lead of voicemail call ${callId}:`,
+        error,
+      );
+    }
+
+    await this.conversationModel.updateOne(
+      { _id: conversationId, companyId },
+      {
+        $set: {
+          audioUrl,
+          audioFormat: 'wav',
+          transcript,
+          ...(leadId && { leadId }),
+          voicemail: { durationSeconds, isRead: false },
+        },
+      },
+    );
+    await this.conversationService.updateStatus(
+      callId,
+      companyId,
+      CallStatus.VOICEMAIL,
+    );
+
+    this.logger.log(
+      `Voicemail of ${durationSeconds}s left on call ${callId} by ${params.phoneNumber}`,
+    );
+
+    return { conversationId, leadId, audioUrl, transcript, durationSeconds };
+  }
+
+  /**
+   * Voicemail inbox of a company, newest first
+   */
+  async findAll(
+    companyId: string,
+    filters: { unread?: boolean; limit?: number; offset?: number } = {},
+  ) {
+    const company = new Types.ObjectId(companyId);
+    const query = {
+      companyId: company,
+      voicemail: { $exists: true },
+      ...(filters.unread && { 'voicemail.isRead': false }),
+    };
+    const limit = filters.limit || 50;
+    const offset = filters.offset || 0;
+
+    const [voicemails, total, unread] = await Promise.all([
+      this.conversationModel
+        .find(query)
+        .select(
+          'callId phoneNumber direction callerType agentId leadId startedAt audioUrl transcript voicemail ivr',
+        )
+        .populate('leadId', 'firstName lastName phone status')
+        .sort({ startedAt: -1 })
+        .skip(offset)
+        .limit(limit)
+        .lean(),
+      this.conversationModel.countDocuments(query),
+      this.conversationModel.countDocuments({
+        companyId: company,
+        'voicemail.isRead': false,
+      }),
+    ]);
+
+    return { voicemails, total, unread, limit, offset };
+  }
+
+  /**
+   * Mark a message read or back to unread
+   */
+  async markRead(
+    companyId: string,
+    id: string,
+    isRead: boolean,
+    userId?: string,
+  ): Promise<ConversationDocument> {
+    const conversation = await this.conversationModel.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(id),
+        companyId: new Types.ObjectId(companyId),
+        voicemail: { $exists: true },
+      },
+      isRead
+        ? {
+            $set: {
+              'voicemail.isRead': true,
+              'voicemail.readAt': new Date(),
+              ...(userId && {
+                'voicemail.readBy': new Types.ObjectId(userId),
+              }),
+            },
+          }
+        : {
+            $set: { 'voicemail.isRead': false },
+            $unset: { 'voicemail.readAt': '', 'voicemail.readBy': '' },
+          },
+      { new: true },
+    );
+
+    if (!conversation) {
+      throw new NotFoundException('Voicemail not found');
+    }
+
+    return conversation;
+  }
+
+  private async recordAfterBeep(callId: string): Promise<Buffer | null> {
+    await this.mediaService.playAudio(callId, BEEP);
+
+    return this.mediaService.recordMessage(callId, {
+      maxSeconds: MAX_MESSAGE_SECONDS,
+      silenceSeconds: END_SILENCE_SECONDS,
+    });
+  }
+}
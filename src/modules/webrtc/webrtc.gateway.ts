@@ -11,17 +11,66 @@ import {
 import { Logger, UseGuards } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { SipService } from '../sip/sip.service';
+import { Model, Types } from 'mongoose';
+import {
+  CallSession,
+  InboundCall,
+  IncomingCall,
+  SipService,
+} from '../sip/sip.service';
 import { ConversationService } from '../conversation/conversation.service';
 import { GoogleCloudService } from '../google-cloud/google-cloud.service';
 import { AIConversationService } from '../ai-conversation/ai-conversation.service';
 import { MediaService } from '../media/media.service';
-import { SipGeminiBridge } from '../gemini-live/sip-gemini-bridge.service';
+import { PromptTemplateService } from '../prompt-template/prompt-template.service';
+import { renderTemplate } from '../prompt-template/template-renderer';
+import { DoNotCallService } from '../do-not-call/do-not-call.service';
+import { AppointmentService } from '../appointment/appointment.service';
+import { IvrService } from '../ivr/ivr.service';
+import { IvrCallService } from '../ivr/ivr-call.service';
+import { AgentService } from '../agent/agent.service';
+import { AfterHoursCallService } from '../agent/after-hours-call.service';
+import { CallQueueService } from '../call-queue/call-queue.service';
+import { QueueCallService } from '../call-queue/queue-call.service';
+import { VoicemailCallService } from '../voicemail/voicemail-call.service';
+import {
+  ScheduleAppointmentArgs,
+  TransferToHumanArgs,
+} from '../gemini-live/gemini-live.service';
+import {
+  CallTransferService,
+  TransferConversation,
+  TransferTarget,
+  TRANSFER_HOLD_MESSAGE,
+} from '../call-transfer/call-transfer.service';
+import {
+  ManagerPresenceService,
+  ManagerSession,
+} from '../call-transfer/manager-presence.service';
+import {
+  SipGeminiBridge,
+  SipGeminiBridgeFactory,
+  BridgeEndedEvent,
+  BridgeTranscriptSegment,
+} from '../gemini-live/sip-gemini-bridge.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
-import { CallDirection, CallerType, CallStatus } from '../../schemas/conversation.schema';
-import { Agent } from '../../schemas/agent.schema';
-import { KnowledgeBase } from '../../schemas/knowledge-base.schema';
+import {
+  CallDirection,
+  CallerType,
+  CallStatus,
+  TranscriptSegment,
+  AIAnalysis,
+  AnsweredBy,
+  MachineDetection,
+} from '../../schemas/conversation.schema';
+import { DoNotCallSource } from '../../schemas/do-not-call.schema';
+import { User } from '../../schemas/user.schema';
+import { Agent, AgentRecord } from '../../schemas/agent.schema';
+import { PhoneNumber } from '../../schemas/phone-number.schema';
+import {
+  KnowledgeBase,
+  DocumentStatus,
+} from '../../schemas/knowledge-base.schema';
 
 interface CallData {
   phoneNumber: string;
@@ -29,15 +78,6 @@ interface CallData {
   leadId?: string;
 }
 
-interface ManagerSession {
-  socket: Socket;
-  managerId: string;
-  managerName: string;
-  currentCallId?: string;
-  isRecording: boolean;
-  audioChunks: Buffer[];
-}
-
 @WebSocketGateway({
   cors: {
     origin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3001'],
@@ -52,7 +92,6 @@ export class WebRtcGateway
   server: Server;
 
   private readonly logger = new Logger(WebRtcGateway.name);
-  private managerSessions: Map<string, ManagerSession> = new Map();
   private activeBridges: Map<string, SipGeminiBridge> = new Map();
 
   constructor(
@@ -61,28 +100,43 @@ export class WebRtcGateway
     private googleCloudService: GoogleCloudService,
     private aiConversationService: AIConversationService,
     private mediaService: MediaService,
-    private sipGeminiBridge: SipGeminiBridge,
+    private sipGeminiBridgeFactory: SipGeminiBridgeFactory,
+    private promptTemplateService: PromptTemplateService,
+    private doNotCallService: DoNotCallService,
+    private callTransferService: CallTransferService,
+    private managerPresence: ManagerPresenceService,
+    private appointmentService: AppointmentService,
+    private ivrService: IvrService,
+    private ivrCallService: IvrCallService,
+    private agentService: AgentService,
+    private afterHoursCallService: AfterHoursCallService,
+    private voicemailCallService: VoicemailCallService,
+    private callQueueService: CallQueueService,
+    private queueCallService: QueueCallService,
     @InjectModel('Agent') private agentModel: Model<Agent>,
-    @InjectModel('KnowledgeBase') private knowledgeBaseModel: Model<KnowledgeBase>,
+    @InjectModel('User') private userModel: Model<User>,
+    @InjectModel('KnowledgeBase')
+    private knowledgeBaseModel: Model<KnowledgeBase>,
+    @InjectModel('PhoneNumber') private phoneNumberModel: Model<PhoneNumber>,
   ) {
     // Listen to SIP service events
-    this.sipService.on('call:incoming', (data) => {
-      this.handleIncomingCall(data);
+    this.sipService.on('call:incoming', (call: IncomingCall) => {
+      void this.handleIncomingCall(call);
     });
 
-    this.sipService.on('call:answered', (session) => {
+    this.sipService.on('call:answered', (session: CallSession) => {
       this.notifyCallStatus(session.callId, 'answered');
     });
 
-    this.sipService.on('call:connected', (session) => {
-      this.handleIncomingCall({ session });
+    this.sipService.on('call:connected', (session: CallSession) => {
+      void this.handleIncomingCall({ session });
     });
 
-    this.sipService.on('call:ended', (session) => {
-      this.handleCallEnded(session);
+    this.sipService.on('call:ended', (session: CallSession) => {
+      void this.handleCallEnded(session);
     });
 
-    this.sipService.on('call:failed', (session) => {
+    this.sipService.on('call:failed', (session: CallSession) => {
       this.notifyCallStatus(session.callId, 'failed');
     });
 
@@ -117,16 +171,14 @@ export class WebRtcGateway
     this.logger.log(`Client disconnected: ${client.id}`);
 
     // Find and cleanup manager session
-    for (const [managerId, session] of this.managerSessions.entries()) {
-      if (session.socket.id === client.id) {
-        // Hangup active call if any
-        if (session.currentCallId) {
-          await this.sipService.hangupCall(session.currentCallId);
-        }
-
-        this.managerSessions.delete(managerId);
-        break;
+    const session = this.managerPresence.findBySocket(client);
+    if (session) {
+      // Hangup active call if any
+      if (session.currentCallId) {
+        await this.sipService.hangupCall(session.currentCallId);
       }
+
+      this.managerPresence.unregister(session.managerId);
     }
   }
 
@@ -138,17 +190,29 @@ export class WebRtcGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() data: { managerId: string; managerName: string },
   ) {
+    // Calls and conversations belong to the manager's company
+    const user = Types.ObjectId.isValid(data.managerId)
+      ? await this.userModel.findById(data.managerId).select('companyId').lean()
+      : null;
+
+    if (!user?.companyId) {
+      client.emit('error', { message: 'Unknown manager' });
+      return;
+    }
+
     this.logger.log(`Manager registered: ${data.managerId}`);
 
     const session: ManagerSession = {
       socket: client,
       managerId: data.managerId,
       managerName: data.managerName,
+      companyId: user.companyId,
+      registeredAt: new Date(),
       isRecording: false,
       audioChunks: [],
     };
 
-    this.managerSessions.set(data.managerId, session);
+    this.managerPresence.register(session);
 
     client.emit('registered', {
       success: true,
@@ -164,7 +228,7 @@ export class WebRtcGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() data: CallData,
   ) {
-    const session = this.findSessionBySocket(client);
+    const session = this.managerPresence.findBySocket(client);
 
     if (!session) {
       client.emit('error', { message: 'Session not registered' });
@@ -172,14 +236,22 @@ export class WebRtcGateway
     }
 
     try {
-      this.logger.log(`Starting call to ${data.phoneNumber} by manager ${session.managerId}`);
+      this.logger.log(
+        `Starting call to ${data.phoneNumber} by manager ${session.managerId}`,
+      );
 
       // Create SIP call
-      const sipSession = await this.sipService.makeCall(data.phoneNumber);
+      const sipSession = await this.sipService.makeCall(
+        data.phoneNumber,
+        undefined,
+        {
+          companyId: session.companyId.toString(),
+        },
+      );
 
       // Create conversation record
       const conversation = await this.conversationService.createConversation(
-        session.managerId as any, // companyId will be extracted from JWT
+        session.companyId,
         {
           callId: sipSession.callId,
           phoneNumber: data.phoneNumber,
@@ -200,11 +272,10 @@ export class WebRtcGateway
         callId: sipSession.callId,
         conversationId: conversation._id,
       });
-
     } catch (error) {
       this.logger.error('Failed to start call:', error);
       client.emit('call:failed', {
-        error: error.message,
+        error: (error as Error).message,
       });
     }
   }
@@ -217,7 +288,7 @@ export class WebRtcGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() data: { callId: string },
   ) {
-    const session = this.findSessionBySocket(client);
+    const session = this.managerPresence.findBySocket(client);
 
     if (!session) {
       return;
@@ -232,10 +303,9 @@ export class WebRtcGateway
       client.emit('call:ended', {
         callId: data.callId,
       });
-
     } catch (error) {
       this.logger.error('Failed to end call:', error);
-      client.emit('error', { message: error.message });
+      client.emit('error', { message: (error as Error).message });
     }
   }
 
@@ -247,7 +317,7 @@ export class WebRtcGateway
     @ConnectedSocket() client: Socket,
     @MessageBody() data: { callId: string; audio: ArrayBuffer },
   ) {
-    const session = this.findSessionBySocket(client);
+    const session = this.managerPresence.findBySocket(client);
 
     if (!session || !session.isRecording) {
       return;
@@ -273,42 +343,136 @@ export class WebRtcGateway
         callId: data.callId,
         digits: data.digits,
       });
-
     } catch (error) {
       this.logger.error('Failed to send DTMF:', error);
-      client.emit('error', { message: error.message });
+      client.emit('error', { message: (error as Error).message });
     }
   }
 
   /**
    * Handle incoming call notification
    */
-  private async handleIncomingCall(data: { session: any; req?: any; res?: any }) {
-    const { session: sipSession, req, res } = data;
+  private async handleIncomingCall(call: IncomingCall) {
+    const { session: sipSession } = call;
+
+    // Manager legs of transfers are bridged by CallTransferService
+    if (sipSession.transferOf) {
+      return;
+    }
 
-    this.logger.log(`Incoming call: ${sipSession.callId} from ${sipSession.phoneNumber}`);
+    this.logger.log(
+      `Incoming call: ${sipSession.callId} from ${sipSession.phoneNumber}`,
+    );
 
     try {
       // Determine the phone number to check for agent assignment
       // For inbound calls: check 'to' (the number being called)
       // For outbound calls: check 'from' (our number making the call)
-      const phoneToCheck = sipSession.direction === 'inbound'
-        ? sipSession.to
-        : sipSession.from;
+      const phoneToCheck =
+        sipSession.direction === 'inbound' ? sipSession.to : sipSession.from;
 
-      // Find agent assigned to this phone number
-      const agent = await this.agentModel.findOne({
-        phoneNumbers: phoneToCheck,
-        isActive: true,
-      }).lean();
+      // Outbound AI calls carry their agent; manager calls have none and stay manual
+      const isOutbound = sipSession.direction === 'outbound';
+      if (isOutbound && !sipSession.agentId) {
+        return;
+      }
+
+      // Inbound calls still to be answered; IVR menus, queues and voicemail answer them
+      const inbound: InboundCall | null =
+        !isOutbound && call.req && call.res
+          ? { session: sipSession, req: call.req, res: call.res }
+          : null;
+
+      // Numbers with an IVR menu let the caller choose where the call goes
+      const ivrFlow = inbound
+        ? await this.ivrService.findForNumber(phoneToCheck)
+        : null;
+
+      if (inbound && ivrFlow) {
+        this.logger.log(
+          `IVR flow ${ivrFlow.name} answers phone number ${phoneToCheck}`,
+        );
+        const ivrAgent = await this.ivrCallService.handle(inbound, ivrFlow);
+        if (ivrAgent) {
+          await this.handleGeminiLiveCall(inbound, ivrAgent);
+        }
+        return;
+      }
 
-      if (agent && req && res) {
-        this.logger.log(`Agent ${agent.name} found for phone number ${phoneToCheck}`);
+      // Numbers with a call queue are answered by the company's managers in turn
+      const callQueue = inbound
+        ? await this.callQueueService.findForNumber(phoneToCheck)
+        : null;
+
+      if (inbound && callQueue) {
+        this.logger.log(
+          `Call queue ${callQueue.name} answers phone number ${phoneToCheck}`,
+        );
+        const overflowAgent = await this.queueCallService.handle(
+          inbound,
+          callQueue,
+        );
+        if (overflowAgent) {
+          await this.handleGeminiLiveCall(inbound, overflowAgent);
+        }
+        return;
+      }
+
+      const agent = isOutbound
+        ? await this.agentModel
+            .findOne({ _id: sipSession.agentId, isActive: true })
+            .lean<AgentRecord>()
+        : await this.agentModel
+            .findOne({
+              phoneNumbers: phoneToCheck,
+              isActive: true,
+            })
+            .lean<AgentRecord>();
+
+      if (agent && (isOutbound || inbound)) {
+        this.logger.log(
+          `Agent ${agent.name} found for phone number ${phoneToCheck}`,
+        );
+
+        // Outside working hours and on holidays callers get the agent's after-hours action
+        if (inbound && !(await this.agentService.isWithinSchedule(agent))) {
+          this.logger.log(
+            `Call ${sipSession.callId} to agent ${agent.name} is outside working hours`,
+          );
+          const afterHoursAgent = await this.afterHoursCallService.handle(
+            inbound,
+            agent,
+          );
+          if (afterHoursAgent) {
+            await this.handleGeminiLiveCall(inbound, afterHoursAgent);
+          }
+          return;
+        }
 
         // Always use Gemini Live for natural conversations
-        await this.handleGeminiLiveCall(sipSession, req, res, agent);
+        await this.handleGeminiLiveCall(call, agent);
       } else {
-        this.logger.log(`No agent found for phone number ${phoneToCheck}, notifying managers`);
+        // Our number without an agent: ring the company's managers, then take a message
+        const phoneNumber = inbound
+          ? await this.phoneNumberModel
+              .findOne({ phoneNumber: phoneToCheck, isActive: true })
+              .lean()
+          : null;
+
+        if (inbound && phoneNumber) {
+          this.logger.log(
+            `No agent found for phone number ${phoneToCheck}, ringing managers`,
+          );
+          await this.voicemailCallService.handleUnroutedCall(
+            inbound,
+            phoneNumber.companyId,
+          );
+          return;
+        }
+
+        this.logger.log(
+          `No agent found for phone number ${phoneToCheck}, notifying managers`,
+        );
 
         // No agent assigned - notify managers for manual handling
         this.server.emit('call:incoming', {
@@ -318,7 +482,10 @@ export class WebRtcGateway
         });
       }
     } catch (error) {
-      this.logger.error(`Failed to handle incoming call ${sipSession.callId}:`, error);
+      this.logger.error(
+        `Failed to handle incoming call ${sipSession.callId}:`,
+        error,
+      );
 
       // Fallback: notify managers
       this.server.emit('call:incoming', {
@@ -332,20 +499,25 @@ export class WebRtcGateway
   /**
    * Handle call ended - save recording and transcript
    */
-  private async handleCallEnded(sipSession: any) {
+  private async handleCallEnded(sipSession: CallSession) {
     this.logger.log(`Call ended: ${sipSession.callId}`);
 
     // Check if there's an active Gemini Live bridge and end it
     const bridge = this.activeBridges.get(sipSession.callId);
     if (bridge) {
       try {
-        await bridge.stop();
         this.activeBridges.delete(sipSession.callId);
-        this.logger.log(`Gemini Live bridge stopped for call ${sipSession.callId}`);
+        await bridge.stop();
+        this.logger.log(
+          `Gemini Live bridge stopped for call ${sipSession.callId}`,
+        );
         // Bridge will emit 'bridgeEnded' event which handles conversation saving
         return; // Exit early as bridge handles saving
       } catch (error) {
-        this.logger.error(`Failed to stop Gemini Live bridge for call ${sipSession.callId}:`, error);
+        this.logger.error(
+          `Failed to stop Gemini Live bridge for call ${sipSession.callId}:`,
+          error,
+        );
       }
     }
 
@@ -353,14 +525,19 @@ export class WebRtcGateway
     if (this.aiConversationService.isSessionActive(sipSession.callId)) {
       try {
         await this.aiConversationService.endSession(sipSession.callId);
-        this.logger.log(`AI conversation session ended for call ${sipSession.callId}`);
+        this.logger.log(
+          `AI conversation session ended for call ${sipSession.callId}`,
+        );
       } catch (error) {
-        this.logger.error(`Failed to end AI session for call ${sipSession.callId}:`, error);
+        this.logger.error(
+          `Failed to end AI session for call ${sipSession.callId}:`,
+          error,
+        );
       }
     }
 
     // Find manager session
-    for (const session of this.managerSessions.values()) {
+    for (const session of this.managerPresence.list()) {
       if (session.currentCallId === sipSession.callId) {
         try {
           // Combine audio chunks
@@ -374,28 +551,52 @@ export class WebRtcGateway
           );
 
           // Transcribe audio
-          const transcript = await this.googleCloudService.transcribeAudioBuffer(
-            fullAudio,
-            'ru-RU',
-          );
+          const transcript =
+            await this.googleCloudService.transcribeAudioBuffer(
+              fullAudio,
+              'ru-RU',
+            );
 
           // Analyze conversation
-          const analysis = await this.googleCloudService.analyzeConversation(transcript);
+          const analysis =
+            await this.googleCloudService.analyzeConversation(transcript);
 
           // Update conversation record
+          const conversation = await this.findConversationByCallId(
+            sipSession.callId,
+            session.companyId,
+          );
+          if (!conversation) {
+            throw new Error(
+              `Conversation for call ${sipSession.callId} not found`,
+            );
+          }
+          const conversationId = conversation._id as Types.ObjectId;
+
           await this.conversationService.updateConversation(
-            sipSession.callId as any,
-            session.managerId as any,
+            conversationId,
+            session.companyId,
             {
               status: CallStatus.COMPLETED,
               endedAt: sipSession.endedAt?.toISOString(),
-              duration: sipSession.duration,
+              duration: sipSession.endedAt
+                ? (sipSession.endedAt.getTime() -
+                    sipSession.startedAt.getTime()) /
+                  1000
+                : undefined,
               audioUrl,
               transcript,
               aiAnalysis: analysis,
             },
           );
 
+          await this.recordOptOut(
+            session.companyId,
+            sipSession.phoneNumber,
+            analysis,
+            conversationId,
+          );
+
           // Notify manager
           session.socket.emit('call:processed', {
             callId: sipSession.callId,
@@ -408,7 +609,6 @@ export class WebRtcGateway
           session.currentCallId = undefined;
           session.isRecording = false;
           session.audioChunks = [];
-
         } catch (error) {
           this.logger.error('Failed to process call recording:', error);
         }
@@ -422,145 +622,188 @@ export class WebRtcGateway
    * Handle incoming call with Gemini Live API for natural conversations
    */
   private async handleGeminiLiveCall(
-    sipSession: any,
-    req: any,
-    res: any,
-    agent: any,
+    call: IncomingCall,
+    agent: AgentRecord,
   ): Promise<void> {
+    const { session: sipSession } = call;
+    let bridge: SipGeminiBridge | null = null;
+
     try {
-      this.logger.log(`Starting Gemini Live session for call ${sipSession.callId}`);
+      if (this.activeBridges.has(sipSession.callId)) {
+        this.logger.warn(
+          `Gemini Live bridge already active for call ${sipSession.callId}`,
+        );
+        return;
+      }
+
+      this.logger.log(
+        `Starting Gemini Live session for call ${sipSession.callId}`,
+      );
 
       // Get knowledge base if configured
-      let knowledgeBase: any = null;
-      if (agent.knowledgeBaseId) {
-        knowledgeBase = await this.knowledgeBaseModel.findById(agent.knowledgeBaseId).lean();
+      const knowledgeBase = agent.knowledgeBaseId
+        ? await this.knowledgeBaseModel
+            .findById(agent.knowledgeBaseId)
+            .select('name documents.title documents.status')
+            .lean<
+              Pick<KnowledgeBase, 'name' | 'documents'> & {
+                _id: Types.ObjectId;
+              }
+            >()
+        : null;
+
+      // Dates the agent books appointments for are in the company's booking timezone
+      const appointmentSettings = await this.appointmentService.getSettings(
+        agent.companyId,
+      );
+
+      // Inbound calls are connected to Freeswitch here unless an IVR menu answered them;
+      // outbound calls were dialed from an endpoint
+      const connectCaller =
+        sipSession.direction === 'inbound' &&
+        !this.mediaService.getEndpoint(sipSession.callId);
+      const mediaEndpoint = connectCaller
+        ? await this.mediaService.connectCaller(
+            sipSession.callId,
+            call.req,
+            call.res,
+          )
+        : this.mediaService.getEndpoint(sipSession.callId);
+
+      if (!mediaEndpoint) {
+        throw new Error(`No media endpoint for call ${sipSession.callId}`);
       }
 
-      // Connect call to Freeswitch to get media endpoint
-      const mediaEndpoint = await this.mediaService.connectCaller(
-        sipSession.callId,
-        req,
-        res,
+      this.logger.log(
+        `Call ${sipSession.callId} connected to Freeswitch for Gemini Live`,
       );
 
-      this.logger.log(`Call ${sipSession.callId} connected to Freeswitch for Gemini Live`);
+      // Inbound dialogs are answered by Freeswitch; track them so hangups emit call:ended
+      if (connectCaller) {
+        this.sipService.attachDialog(sipSession.callId, mediaEndpoint.dialog);
+      }
 
-      // Use the injected bridge service (we'll need to clone/create instances differently)
-      // For now, use the injected instance (in production, might need a factory)
-      const bridge = this.sipGeminiBridge;
+      // Each call gets its own bridge so buffers and transcripts are never shared
+      bridge = this.sipGeminiBridgeFactory.create(sipSession.callId);
+
+      // Fill prompt and greeting templates; inbound callers only get company data
+      const templateVariables =
+        sipSession.templateVariables ||
+        (await this.promptTemplateService.buildVariables({
+          companyId: agent.companyId,
+          phoneNumber: sipSession.phoneNumber,
+        }));
+      const templates = this.promptTemplateService.renderAgent(
+        agent,
+        templateVariables,
+      );
 
       // Prepare configuration for Gemini Live
       const config = {
         sipCallId: sipSession.callId,
         phoneNumber: sipSession.phoneNumber,
         direction: sipSession.direction,
+        codec: sipSession.codec,
         agentId: agent._id.toString(),
-        systemPrompt: agent.aiSettings?.systemPrompt || 'You are a helpful AI assistant.',
+        systemPrompt:
+          templates.systemPrompt || 'You are a helpful AI assistant.',
         voiceSettings: agent.voiceSettings || {
           voiceName: 'Aoede', // Default Russian-friendly voice
           language: 'ru',
           speakingRate: 1.0,
           pitch: 0,
         },
-        greetingMessages: {
-          inbound: agent.inboundGreetingMessage,
-          outbound: agent.outboundGreetingMessage,
-          fallback: agent.fallbackMessage,
-          ending: agent.endingMessage,
+        greetingMessages: templates.greetingMessages,
+        callActions: {
+          transferToHuman: (args: TransferToHumanArgs) =>
+            this.transferToHuman(sipSession, agent, args),
+          scheduleAppointment: (args: ScheduleAppointmentArgs) =>
+            this.scheduleAppointment(sipSession, agent, args),
+        },
+        timeZone: appointmentSettings.timezone,
+        machineDetection: sipSession.machineDetection && {
+          ...sipSession.machineDetection,
+          voicemailMessage: sipSession.machineDetection.voicemailMessage
+            ? renderTemplate(
+                sipSession.machineDetection.voicemailMessage,
+                templateVariables,
+              ).text
+            : undefined,
         },
-        knowledgeBase: knowledgeBase ? {
-          name: knowledgeBase.name,
-          documents: knowledgeBase.documents,
-          metadata: knowledgeBase.metadata,
-        } : null,
+        callControl: {
+          hangup: () => this.sipService.hangupCall(sipSession.callId),
+          sendDtmf: (digits: string) =>
+            this.sipService.sendDTMF(sipSession.callId, digits),
+          hold: (onHold: boolean) =>
+            this.sipService.holdCall(sipSession.callId, onHold),
+        },
+        customTools: agent.tools || [],
+        knowledgeBase: knowledgeBase
+          ? {
+              id: knowledgeBase._id.toString(),
+              name: knowledgeBase.name,
+              documentTitles: knowledgeBase.documents
+                .filter((doc) => doc.status === DocumentStatus.COMPLETED)
+                .map((doc) => doc.title),
+            }
+          : null,
         temperature: agent.aiSettings?.temperature || 0.7,
       };
 
       // Set up bridge event handlers
-      bridge.on('transcript', (data) => {
+      bridge.on('transcript', (data: BridgeTranscriptSegment) => {
         this.logger.debug(`Transcript: ${data.text}`);
       });
 
-      bridge.on('bridgeEnded', async (data) => {
-        this.logger.log(`Gemini Live bridge ended for call ${sipSession.callId}`);
-
-        try {
-          // Process the conversation data
-          const transcript = data.transcriptSegments
-            .map((seg: any) => `${seg.role === 'user' ? 'Пользователь' : 'Ассистент'}: ${seg.text}`)
-            .join('\n\n');
-
-          // Upload audio recording to Google Cloud Storage
-          let audioUrl: string | null = null;
-          if (data.recordingBuffer && data.recordingBuffer.length > 0) {
-            audioUrl = await this.googleCloudService.uploadAudioFile(
-              data.recordingBuffer,
-              `${sipSession.callId}.pcm`,
-              'audio/pcm',
-            );
-          }
-
-          // Analyze conversation
-          const analysis = await this.googleCloudService.analyzeConversation(transcript);
-
-          // Create conversation record (first create with basic info)
-          const conversation = await this.conversationService.createConversation(
-            agent.companyId,
-            {
-              callId: sipSession.callId,
-              phoneNumber: sipSession.phoneNumber,
-              direction: sipSession.direction === 'inbound' ? CallDirection.INBOUND : CallDirection.OUTBOUND,
-              callerType: CallerType.AI_AGENT,
-              agentId: agent._id.toString(),
-              startedAt: sipSession.startedAt?.toISOString() || new Date().toISOString(),
-            },
-          );
-
-          // Then update with complete data
-          await this.conversationService.updateConversation(
-            conversation._id as any,
-            agent._id.toString() as any,
-            {
-              status: CallStatus.COMPLETED,
-              endedAt: new Date().toISOString(),
-              duration: data.duration,
-              audioUrl: audioUrl || undefined,
-              transcript,
-              aiAnalysis: analysis,
-              metadata: {
-                isGeminiLive: true,
-                transcriptSegments: data.transcriptSegments.length,
-              },
-            },
-          );
-
-          this.logger.log(`Conversation saved for Gemini Live call ${sipSession.callId}`);
-        } catch (error) {
-          this.logger.error(`Failed to save Gemini Live conversation:`, error);
-        }
-
-        // Remove from active bridges
-        this.activeBridges.delete(sipSession.callId);
+      // Lets the campaign dialer retry calls picked up by an answering machine
+      bridge.on('machineDetection', (detection: MachineDetection) => {
+        this.sipService.setAnsweredBy(sipSession.callId, detection.answeredBy);
       });
 
-      bridge.on('error', (error) => {
-        this.logger.error(`Gemini Live bridge error for call ${sipSession.callId}:`, error);
-        this.activeBridges.delete(sipSession.callId);
+      const endedBridge = bridge;
+      bridge.on('bridgeEnded', (data: BridgeEndedEvent) => {
+        this.logger.log(
+          `Gemini Live bridge ended for call ${sipSession.callId}`,
+        );
+        void this.saveGeminiLiveCall(sipSession, agent, endedBridge, data);
       });
 
-      // Start the bridge
-      await bridge.start(mediaEndpoint.endpoint, config);
+      bridge.on('error', (error: Error) => {
+        // The bridge stops itself on fatal errors; cleanup happens in 'bridgeEnded'
+        this.logger.error(
+          `Gemini Live bridge error for call ${sipSession.callId}:`,
+          error,
+        );
+      });
 
-      // Store the bridge for later cleanup
+      // Track before starting so call:ended during setup still finds the bridge
       this.activeBridges.set(sipSession.callId, bridge);
 
-      this.logger.log(`Gemini Live session active for call ${sipSession.callId}`);
+      // Start the bridge
+      await bridge.start(mediaEndpoint.endpoint, config);
 
+      this.logger.log(
+        `Gemini Live session active for call ${sipSession.callId} (${this.activeBridges.size} active bridge(s))`,
+      );
     } catch (error) {
-      this.logger.error(`Failed to start Gemini Live session for call ${sipSession.callId}:`, error);
+      this.logger.error(
+        `Failed to start Gemini Live session for call ${sipSession.callId}:`,
+        error,
+      );
+
+      if (bridge) {
+        // Discard the half-started bridge without saving a conversation
+        bridge.removeAllListeners();
+        if (this.activeBridges.get(sipSession.callId) === bridge) {
+          this.activeBridges.delete(sipSession.callId);
+        }
+        await bridge.stop();
+      }
 
       // Fall back to traditional AI conversation if Gemini Live fails
-      this.logger.log(`Falling back to traditional AI conversation for call ${sipSession.callId}`);
+      this.logger.log(
+        `Falling back to traditional AI conversation for call ${sipSession.callId}`,
+      );
 
       // Start traditional AI conversation session as fallback
       await this.aiConversationService.startSession(
@@ -571,11 +814,418 @@ export class WebRtcGateway
     }
   }
 
+  /**
+   * transferToHuman tool: pick an online manager and transfer the call in the background.
+   * The AI keeps the caller company with a hold message until the manager answers.
+   */
+  private async transferToHuman(
+    sipSession: CallSession,
+    agent: AgentRecord,
+    args: TransferToHumanArgs,
+  ): Promise<Record<string, unknown>> {
+    const callId: string = sipSession.callId;
+
+    if (this.callTransferService.isTransferring(callId)) {
+      return {
+        success: false,
+        message: 'The call is already being transferred',
+      };
+    }
+
+    const candidates = this.callTransferService.freeManagers(agent.companyId);
+    const [target, conversation] = await Promise.all([
+      this.callTransferService.findAvailableManager(
+        agent.companyId,
+        candidates,
+      ),
+      this.ensureConversation(sipSession, agent),
+    ]);
+
+    await this.callTransferService.requestTransfer(conversation._id, args);
+
+    if (!target) {
+      this.logger.log(`No manager available to take call ${callId}`);
+      const callbackAt = await this.scheduleTransferCallback(
+        sipSession,
+        agent,
+        conversation,
+        args,
+      );
+
+      return {
+        success: false,
+        callbackAt: callbackAt.toISOString(),
+        message:
+          'No manager is available right now. Tell the customer that a manager will call them back soon.',
+      };
+    }
+
+    this.runTransfer(sipSession, agent, conversation, target, args).catch(
+      (error) => {
+        this.logger.error(`Failed to transfer call ${callId}:`, error);
+      },
+    );
+
+    return {
+      success: true,
+      status: 'connecting',
+      managerName: target.managerName,
+      message: `Say to the customer: "${TRANSFER_HOLD_MESSAGE}" Then wait silently until the call is connected.`,
+    };
+  }
+
+  /**
+   * Ring the manager with the AI transcript on their screen, then hand the call
+   * over; fall back to a callback when they do not pick up
+   */
+  private async runTransfer(
+    sipSession: CallSession,
+    agent: AgentRecord,
+    conversation: TransferConversation,
+    target: TransferTarget,
+    args: TransferToHumanArgs,
+  ): Promise<void> {
+    const { callId } = sipSession;
+
+    const connected = await this.callTransferService.offer(
+      {
+        callId,
+        companyId: agent.companyId,
+        conversation,
+        target,
+        onAnswered: async () => {
+          // Saves the AI part of the conversation but leaves the SIP leg up
+          await this.activeBridges.get(callId)?.stop({ handedOff: true });
+        },
+      },
+      {
+        phoneNumber: sipSession.phoneNumber,
+        reason: args.reason,
+        summary: args.summary,
+        transcript: this.activeBridges.get(callId)?.getTranscript() || [],
+      },
+    );
+
+    if (connected) {
+      return;
+    }
+
+    const callbackAt = await this.scheduleTransferCallback(
+      sipSession,
+      agent,
+      conversation,
+      args,
+    );
+
+    this.activeBridges
+      .get(callId)
+      ?.notify(
+        `The manager did not answer. Apologize to the customer and tell them a manager will call them back at ${callbackAt.toISOString()}.`,
+      );
+  }
+
+  /**
+   * scheduleAppointment tool: book the slot for the caller, or return the nearest free ones
+   */
+  private async scheduleAppointment(
+    sipSession: CallSession,
+    agent: AgentRecord,
+    args: ScheduleAppointmentArgs,
+  ): Promise<Record<string, unknown>> {
+    if (!args.date || !args.time) {
+      return { success: false, error: 'Both date and time are required' };
+    }
+
+    const conversation = await this.ensureConversation(sipSession, agent);
+
+    return this.appointmentService.bookFromCall(agent.companyId, {
+      date: args.date,
+      time: args.time,
+      purpose: args.purpose,
+      phoneNumber: sipSession.phoneNumber,
+      agentId: agent._id,
+      conversationId: conversation._id,
+      leadId: conversation.leadId,
+    });
+  }
+
+  /**
+   * Schedule a callback for a caller nobody could take and let the company's managers know
+   */
+  private async scheduleTransferCallback(
+    sipSession: CallSession,
+    agent: AgentRecord,
+    conversation: TransferConversation,
+    args: TransferToHumanArgs,
+  ): Promise<Date> {
+    const callbackAt = await this.callTransferService.scheduleCallback(
+      agent.companyId,
+      conversation,
+      sipSession.phoneNumber,
+    );
+
+    this.managerPresence.notifyCompany(agent.companyId, 'callback:scheduled', {
+      conversationId: conversation._id,
+      phoneNumber: sipSession.phoneNumber,
+      callbackAt,
+      reason: args.reason,
+      summary: args.summary,
+    });
+
+    return callbackAt;
+  }
+
+  /**
+   * Save the conversation of a finished Gemini Live call and release its bridge
+   */
+  private async saveGeminiLiveCall(
+    sipSession: CallSession,
+    agent: AgentRecord,
+    bridge: SipGeminiBridge,
+    data: BridgeEndedEvent,
+  ): Promise<void> {
+    try {
+      // Process the conversation data (both sides of the dialogue)
+      const transcriptSegments = this.toConversationSegments(
+        data.transcriptSegments,
+        sipSession.direction,
+      );
+      const transcript = data.transcriptSegments
+        .map(
+          (seg) =>
+            `${seg.role === 'user' ? 'Клиент' : 'Ассистент'}: ${seg.text}`,
+        )
+        .join('\n\n');
+
+      // Upload stereo WAV recording (caller left, agent right) to Google Cloud Storage
+      let audioUrl: string | null = null;
+      if (data.recording) {
+        try {
+          audioUrl = await this.googleCloudService.uploadAudioFile(
+            data.recording,
+            `${sipSession.callId}.wav`,
+            data.recordingMimeType,
+          );
+        } catch (uploadError) {
+          this.logger.error(
+            `Failed to upload recording for call ${sipSession.callId}:`,
+            uploadError,
+          );
+          // Continue even if upload fails
+        }
+      }
+
+      // Nothing to analyze when only an answering machine picked up
+      const { machineDetection } = data;
+      const answeredByMachine =
+        machineDetection?.answeredBy === AnsweredBy.MACHINE;
+      const analysis = answeredByMachine
+        ? undefined
+        : await this.googleCloudService.analyzeConversation(transcript);
+
+      const conversation = await this.ensureConversation(sipSession, agent);
+
+      // Then update with complete data; a handed-off call is closed by CallTransferService
+      await this.conversationService.updateConversation(
+        conversation._id,
+        agent.companyId,
+        {
+          ...(data.handedOff
+            ? { status: CallStatus.ONGOING }
+            : {
+                status: answeredByMachine
+                  ? CallStatus.VOICEMAIL
+                  : CallStatus.COMPLETED,
+                endedAt: new Date().toISOString(),
+                duration: data.duration,
+              }),
+          audioUrl: audioUrl || undefined,
+          audioFormat: audioUrl ? 'wav' : undefined,
+          transcript,
+          transcriptSegments,
+          aiAnalysis: analysis,
+          metadata: {
+            isGeminiLive: true,
+            transcriptSegments: data.transcriptSegments.length,
+            ...(data.endCallReason && {
+              endedBy: 'agent',
+              endCallReason: data.endCallReason,
+            }),
+          },
+        },
+      );
+
+      await this.conversationService.appendToolCalls(
+        conversation._id,
+        agent.companyId,
+        data.toolCalls,
+      );
+
+      if (machineDetection) {
+        await this.conversationService.setMachineDetection(
+          conversation._id,
+          agent.companyId,
+          machineDetection,
+        );
+      }
+
+      if (analysis) {
+        await this.recordOptOut(
+          agent.companyId,
+          sipSession.phoneNumber,
+          analysis,
+          conversation._id,
+        );
+      }
+
+      this.logger.log(
+        `Conversation saved for Gemini Live call ${sipSession.callId}`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to save Gemini Live conversation:`, error);
+    }
+
+    // Tear down this call's bridge and media endpoint (kept for the manager after a hand-off)
+    await this.releaseBridge(sipSession.callId, bridge, !data.handedOff);
+  }
+
+  /**
+   * Conversation of an AI call. Outbound calls already have one; inbound ones get one now.
+   */
+  private async ensureConversation(
+    sipSession: CallSession,
+    agent: AgentRecord,
+  ): Promise<TransferConversation> {
+    const conversation =
+      (await this.findConversationByCallId(
+        sipSession.callId,
+        agent.companyId,
+      )) ||
+      (await this.conversationService.createConversation(agent.companyId, {
+        callId: sipSession.callId,
+        phoneNumber: sipSession.phoneNumber,
+        direction:
+          sipSession.direction === 'inbound'
+            ? CallDirection.INBOUND
+            : CallDirection.OUTBOUND,
+        callerType: CallerType.AI_AGENT,
+        agentId: agent._id.toString(),
+        startedAt: sipSession.startedAt.toISOString(),
+      }));
+    // Existing conversations come with their lead populated
+    const lead = conversation.leadId as { _id: Types.ObjectId } | undefined;
+
+    return {
+      _id: conversation._id as Types.ObjectId,
+      startedAt: conversation.startedAt,
+      agentId: agent._id,
+      leadId: lead?._id,
+    };
+  }
+
+  /**
+   * Put the caller on the do-not-call list when they asked not to be called again
+   */
+  private async recordOptOut(
+    companyId: Types.ObjectId,
+    phoneNumber: string,
+    analysis: Pick<AIAnalysis, 'optOut'>,
+    conversationId: Types.ObjectId,
+  ) {
+    if (!analysis.optOut) {
+      return;
+    }
+
+    try {
+      await this.doNotCallService.add(
+        companyId,
+        {
+          phoneNumber,
+          reason: 'Customer asked not to be called during the call',
+        },
+        DoNotCallSource.OPT_OUT,
+        { conversationId },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to add ${phoneNumber} to the do-not-call list:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Find an existing conversation for a SIP call, or null if there is none
+   */
+  private async findConversationByCallId(
+    callId: string,
+    companyId: Types.ObjectId,
+  ) {
+    try {
+      return await this.conversationService.getConversationByCallId(
+        callId,
+        companyId,
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Map bridge turns to conversation speakers.
+   * Inbound: the customer is the caller; outbound: the AI agent is the caller.
+   */
+  private toConversationSegments(
+    segments: BridgeTranscriptSegment[],
+    direction: 'inbound' | 'outbound',
+  ): TranscriptSegment[] {
+    return segments.map((segment) => {
+      const isCustomer = segment.role === 'user';
+      const isCaller = direction === 'inbound' ? isCustomer : !isCustomer;
+
+      return {
+        speaker: isCaller ? 'caller' : 'callee',
+        text: segment.text,
+        timestamp: segment.timestamp,
+        confidence: segment.confidence,
+      };
+    });
+  }
+
+  /**
+   * Release a finished bridge: stop tracking it, drop its listeners
+   * and destroy the Freeswitch endpoint unless the call continues without the AI
+   */
+  private async releaseBridge(
+    callId: string,
+    bridge: SipGeminiBridge,
+    destroyEndpoint = true,
+  ): Promise<void> {
+    if (this.activeBridges.get(callId) === bridge) {
+      this.activeBridges.delete(callId);
+    }
+
+    bridge.removeAllListeners();
+    if (destroyEndpoint) {
+      await this.mediaService.destroyEndpoint(callId);
+    }
+
+    this.logger.log(
+      `Gemini Live bridge released for call ${callId} (${this.activeBridges.size} active bridge(s))`,
+    );
+  }
+
   /**
    * Handle AI audio playback (TTS)
    */
-  private handleAIAudioPlayback(data: { callId: string; audioContent: Buffer; message: string }) {
-    this.logger.log(`AI audio playback for call ${data.callId}: "${data.message}"`);
+  private handleAIAudioPlayback(data: {
+    callId: string;
+    audioContent: Buffer;
+    message: string;
+  }) {
+    this.logger.log(
+      `AI audio playback for call ${data.callId}: "${data.message}"`,
+    );
 
     // TODO: Implement actual audio playback through SIP dialog
     // This requires media server (Freeswitch/Asterisk) integration
@@ -595,7 +1245,7 @@ export class WebRtcGateway
    * Notify call status to relevant manager
    */
   private notifyCallStatus(callId: string, status: string) {
-    for (const session of this.managerSessions.values()) {
+    for (const session of this.managerPresence.list()) {
       if (session.currentCallId === callId) {
         session.socket.emit('call:status', {
           callId,
@@ -607,22 +1257,17 @@ export class WebRtcGateway
   }
 
   /**
-   * Find session by socket
+   * Get active manager sessions count
    */
-  private findSessionBySocket(socket: Socket): ManagerSession | undefined {
-    for (const session of this.managerSessions.values()) {
-      if (session.socket.id === socket.id) {
-        return session;
-      }
-    }
-    return undefined;
+  getActiveSessions(): number {
+    return this.managerPresence.list().length;
   }
 
   /**
-   * Get active manager sessions count
+   * Get active Gemini Live bridges count
    */
-  getActiveSessions(): number {
-    return this.managerSessions.size;
+  getActiveBridges(): number {
+    return this.activeBridges.size;
   }
 
   /**
@@ -630,7 +1275,7 @@ export class WebRtcGateway
    */
   getActiveCalls(): number {
     let count = 0;
-    for (const session of this.managerSessions.values()) {
+    for (const session of this.managerPresence.list()) {
       if (session.currentCallId) {
         count++;
       }
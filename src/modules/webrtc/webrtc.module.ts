@@ -7,14 +7,26 @@ import { GoogleCloudModule } from '../google-cloud/google-cloud.module';
 import { AIConversationModule } from '../ai-conversation/ai-conversation.module';
 import { MediaModule } from '../media/media.module';
 import { GeminiLiveModule } from '../gemini-live/gemini-live.module';
+import { PromptTemplateModule } from '../prompt-template/prompt-template.module';
+import { DoNotCallModule } from '../do-not-call/do-not-call.module';
+import { AppointmentModule } from '../appointment/appointment.module';
+import { IvrModule } from '../ivr/ivr.module';
+import { AgentModule } from '../agent/agent.module';
+import { VoicemailModule } from '../voicemail/voicemail.module';
+import { CallQueueModule } from '../call-queue/call-queue.module';
+import { CallTransferModule } from '../call-transfer/call-transfer.module';
 import { AgentSchema } from '../../schemas/agent.schema';
 import { KnowledgeBaseSchema } from '../../schemas/knowledge-base.schema';
+import { UserSchema } from '../../schemas/user.schema';
+import { PhoneNumberSchema } from '../../schemas/phone-number.schema';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: 'Agent', schema: AgentSchema },
       { name: 'KnowledgeBase', schema: KnowledgeBaseSchema },
+      { name: 'User', schema: UserSchema },
+      { name: 'PhoneNumber', schema: PhoneNumberSchema },
     ]),
     SipModule,
     ConversationModule,
@@ -22,6 +34,14 @@ import { KnowledgeBaseSchema } from '../../schemas/knowledge-base.schema';
     AIConversationModule,
     MediaModule,
     GeminiLiveModule,
+    PromptTemplateModule,
+    DoNotCallModule,
+    AppointmentModule,
+    IvrModule,
+    AgentModule,
+    VoicemailModule,
+    CallQueueModule,
+    CallTransferModule,
   ],
   providers: [WebRtcGateway],
   exports: [WebRtcGateway],
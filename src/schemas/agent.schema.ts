@@ -2,6 +2,8 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 
 export type AgentDocument = Agent & Document;
+// Agent read with lean()
+export type AgentRecord = Agent & { _id: Types.ObjectId };
 
 export enum AgentLanguage {
   RU = 'ru', // Russian
@@ -45,6 +47,39 @@ export interface WorkingHours {
   workDays: number[]; // [1,2,3,4,5] for Mon-Fri
 }
 
+export enum AfterHoursAction {
+  MESSAGE = 'message', // play a closed message and hang up
+  AGENT = 'agent', // hand the call to the after-hours agent
+  VOICEMAIL = 'voicemail', // take a message and schedule a callback
+}
+
+// What inbound calls get outside working hours and on company holidays
+export interface AfterHoursSettings {
+  action: AfterHoursAction;
+  message?: string; // closed message or voicemail greeting
+  agentId?: string; // AGENT
+}
+
+export enum ToolHttpMethod {
+  GET = 'GET',
+  POST = 'POST',
+  PUT = 'PUT',
+  PATCH = 'PATCH',
+  DELETE = 'DELETE',
+}
+
+// Function the model can call during a call; runs an HTTP request to the client's system
+export interface AgentTool {
+  name: string; // function name shown to the model
+  description: string;
+  parameters?: Record<string, any>; // JSON schema of the arguments (type: object)
+  method: ToolHttpMethod;
+  url: string; // {{argument}} placeholders are filled from the call arguments
+  headers?: Record<string, string>;
+  secret?: string; // signs requests with X-Webhook-Signature; never returned by the API
+  timeoutMs?: number;
+}
+
 @Schema({ timestamps: true })
 export class Agent {
   @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
@@ -65,9 +100,15 @@ export class Agent {
   @Prop({ type: Object })
   workingHours?: WorkingHours;
 
+  @Prop({ type: Object })
+  afterHours?: AfterHoursSettings;
+
   @Prop({ type: Types.ObjectId, ref: 'KnowledgeBase' })
   knowledgeBaseId?: Types.ObjectId;
 
+  @Prop({ type: [Object], default: [] })
+  tools: AgentTool[];
+
   @Prop({ trim: true })
   inboundGreetingMessage?: string;
 
@@ -0,0 +1,117 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AppointmentDocument = Appointment & Document;
+export type AppointmentSettingsDocument = AppointmentSettings & Document;
+
+export enum AppointmentStatus {
+  SCHEDULED = 'scheduled',
+  CANCELLED = 'cancelled',
+  COMPLETED = 'completed',
+}
+
+export enum AppointmentSource {
+  AI_AGENT = 'ai_agent', // booked by the agent during a call
+  MANUAL = 'manual', // booked by a user
+}
+
+@Schema({ timestamps: true })
+export class Appointment {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Lead' })
+  leadId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Conversation' })
+  conversationId?: Types.ObjectId; // call in which it was booked
+
+  @Prop({ type: Types.ObjectId, ref: 'Agent' })
+  agentId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  startsAt: Date;
+
+  @Prop({ required: true })
+  endsAt: Date;
+
+  @Prop({
+    type: String,
+    enum: AppointmentStatus,
+    default: AppointmentStatus.SCHEDULED,
+  })
+  status: AppointmentStatus;
+
+  @Prop({ type: String, enum: AppointmentSource, required: true })
+  source: AppointmentSource;
+
+  @Prop({ trim: true })
+  purpose?: string;
+
+  @Prop({ trim: true })
+  customerName?: string;
+
+  @Prop({ trim: true })
+  phoneNumber?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @Prop()
+  rescheduledFrom?: Date; // previous start time
+
+  @Prop()
+  cancelledAt?: Date;
+
+  @Prop({ trim: true })
+  cancelReason?: string;
+}
+
+export const AppointmentSchema = SchemaFactory.createForClass(Appointment);
+
+// Indexes
+AppointmentSchema.index({ companyId: 1, status: 1, startsAt: 1 });
+AppointmentSchema.index({ leadId: 1, startsAt: -1 });
+AppointmentSchema.index({ conversationId: 1 });
+
+export interface BookingWindow {
+  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  start: string; // HH:mm
+  end: string; // HH:mm, after start
+}
+
+/**
+ * When appointments of a company may be booked
+ */
+@Schema({ timestamps: true })
+export class AppointmentSettings {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId;
+
+  @Prop({ required: true })
+  timezone: string;
+
+  @Prop({ default: 30 })
+  slotDurationMinutes: number;
+
+  @Prop({ default: 1 })
+  capacity: number; // appointments that may share a slot
+
+  @Prop({ default: 60 })
+  minNoticeMinutes: number; // how soon the earliest slot may start
+
+  @Prop({ default: 30 })
+  bookingHorizonDays: number; // how far ahead slots may be booked
+
+  @Prop({
+    type: [{ dayOfWeek: Number, start: String, end: String }],
+    default: [],
+  })
+  windows: BookingWindow[];
+}
+
+export const AppointmentSettingsSchema =
+  SchemaFactory.createForClass(AppointmentSettings);
+
+// Indexes
+AppointmentSettingsSchema.index({ companyId: 1 }, { unique: true });
@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import type { WorkingHours } from './agent.schema';
+import { LeadSource, LeadStatus } from './lead.schema';
 
 export type BatchCallDocument = BatchCall & Document;
 export type BatchCallRecipientDocument = BatchCallRecipient & Document;
@@ -7,6 +9,7 @@ export type BatchCallRecipientDocument = BatchCallRecipient & Document;
 export enum BatchCallStatus {
   SCHEDULED = 'scheduled',
   IN_PROGRESS = 'in_progress',
+  PAUSED = 'paused',
   COMPLETED = 'completed',
   CANCELLED = 'cancelled',
 }
@@ -14,19 +17,212 @@ export enum BatchCallStatus {
 export enum RecipientCallStatus {
   PENDING = 'pending',
   CALLING = 'calling',
+  RINGING = 'ringing',
+  ANSWERED = 'answered',
   COMPLETED = 'completed',
   FAILED = 'failed',
   CANCELLED = 'cancelled',
+  DO_NOT_CALL = 'do_not_call', // skipped: the number is on the company do-not-call list
 }
 
+export enum BatchCallEventType {
+  CREATED = 'created',
+  STARTED = 'started',
+  PAUSED = 'paused',
+  RESUMED = 'resumed',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+// Entry of the campaign activity log
+@Schema({ _id: false })
+export class BatchCallEvent {
+  @Prop({
+    type: String,
+    enum: Object.values(BatchCallEventType),
+    required: true,
+  })
+  type: BatchCallEventType;
+
+  @Prop({ type: Date, default: Date.now })
+  occurredAt: Date;
+
+  // User who triggered the event; empty for events raised by the dialer
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+}
+
+export const BatchCallEventSchema =
+  SchemaFactory.createForClass(BatchCallEvent);
+
+// Outcome of a single call attempt
+export enum CallAttemptOutcome {
+  ANSWERED = 'answered',
+  BUSY = 'busy',
+  NO_ANSWER = 'no_answer',
+  FAILED = 'failed',
+  MACHINE = 'machine', // answered by an answering machine
+}
+
+@Schema({ _id: false })
+export class CallAttempt {
+  @Prop({ required: true, trim: true })
+  callId: string;
+
+  @Prop({ type: Date, required: true })
+  startedAt: Date;
+
+  @Prop({ type: Date })
+  answeredAt?: Date;
+
+  @Prop({ type: Date })
+  endedAt?: Date;
+
+  @Prop({ type: String, enum: Object.values(CallAttemptOutcome) })
+  outcome?: CallAttemptOutcome;
+
+  // Final SIP response code of an unanswered attempt
+  @Prop()
+  sipStatus?: number;
+
+  @Prop({ trim: true })
+  failureReason?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Conversation' })
+  conversationId?: Types.ObjectId;
+}
+
+export const CallAttemptSchema = SchemaFactory.createForClass(CallAttempt);
+
+@Schema({ _id: false })
+export class RetryPolicy {
+  // Total number of attempts per recipient, including the first one
+  @Prop({ default: 1, min: 1 })
+  maxAttempts: number;
+
+  // Delay before the second attempt
+  @Prop({ default: 30, min: 0 })
+  retryIntervalMinutes: number;
+
+  // Each following delay is multiplied by this factor (1 = fixed interval)
+  @Prop({ default: 1, min: 1 })
+  backoffMultiplier: number;
+
+  @Prop({
+    type: [String],
+    enum: [
+      CallAttemptOutcome.BUSY,
+      CallAttemptOutcome.NO_ANSWER,
+      CallAttemptOutcome.FAILED,
+      CallAttemptOutcome.MACHINE,
+    ],
+    default: [CallAttemptOutcome.BUSY, CallAttemptOutcome.NO_ANSWER],
+  })
+  retryOn: CallAttemptOutcome[];
+}
+
+export const RetryPolicySchema = SchemaFactory.createForClass(RetryPolicy);
+
+export enum MachineDetectionAction {
+  HANG_UP = 'hang_up',
+  LEAVE_VOICEMAIL = 'leave_voicemail',
+}
+
+/**
+ * What to do when an outbound call reaches an answering machine
+ */
+@Schema({ _id: false })
+export class MachineDetectionSettings {
+  @Prop({ default: false })
+  enabled: boolean;
+
+  @Prop({
+    type: String,
+    enum: Object.values(MachineDetectionAction),
+    default: MachineDetectionAction.HANG_UP,
+  })
+  action: MachineDetectionAction;
+
+  // Spoken after the beep; supports the same {{variables}} as agent prompts
+  @Prop({ trim: true })
+  voicemailMessage?: string;
+}
+
+export const MachineDetectionSettingsSchema = SchemaFactory.createForClass(
+  MachineDetectionSettings,
+);
+
+/**
+ * One of the agents compared in an A/B test
+ */
+@Schema({ _id: false })
+export class AgentVariant {
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Agent', required: true })
+  agentId: Types.ObjectId;
+
+  // Share of recipients, relative to the weights of the other variants
+  @Prop({ default: 1, min: 0 })
+  weight: number;
+}
+
+export const AgentVariantSchema = SchemaFactory.createForClass(AgentVariant);
+
+/**
+ * Leads a campaign calls, with the filters of the lead list
+ */
+@Schema({ _id: false })
+export class LeadSegment {
+  @Prop({ type: String, enum: LeadStatus })
+  status?: LeadStatus;
+
+  @Prop({ type: String, enum: LeadSource })
+  source?: LeadSource;
+
+  @Prop({ type: [String], default: undefined })
+  tags?: string[];
+
+  @Prop({ min: 0, max: 100 })
+  minScore?: number;
+
+  @Prop({ min: 0, max: 100 })
+  maxScore?: number;
+
+  // Only leads whose follow-up time has come
+  @Prop()
+  followUpDue?: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  assignedTo?: Types.ObjectId;
+
+  // Keep adding leads that start matching while the campaign runs
+  @Prop({ default: false })
+  dynamic: boolean;
+}
+
+export const LeadSegmentSchema = SchemaFactory.createForClass(LeadSegment);
+
 @Schema({ _id: false })
 export class BatchCallRecipient {
   @Prop({ required: true, trim: true })
   phoneNumber: string;
 
+  @Prop({ trim: true })
+  name?: string;
+
   @Prop({ type: Types.ObjectId, ref: 'Lead' })
   leadId?: Types.ObjectId;
 
+  // IANA timezone of the recipient; the campaign calling window timezone is used when empty
+  @Prop({ trim: true })
+  timezone?: string;
+
+  // Name of the agent variant that calls this recipient in an A/B test
+  @Prop({ trim: true })
+  variant?: string;
+
   @Prop({ type: String, enum: Object.values(RecipientCallStatus), default: RecipientCallStatus.PENDING })
   status: RecipientCallStatus;
 
@@ -39,6 +235,29 @@ export class BatchCallRecipient {
   @Prop({ type: Date })
   calledAt?: Date;
 
+  // SIP Call-ID of the current attempt, used to match SIP events to the recipient
+  @Prop({ trim: true })
+  callId?: string;
+
+  @Prop({ type: Date })
+  answeredAt?: Date;
+
+  @Prop({ type: Date })
+  endedAt?: Date;
+
+  @Prop({ trim: true })
+  failureReason?: string;
+
+  @Prop({ default: 0 })
+  attemptsCount: number;
+
+  // Earliest time of the next retry; empty for the first attempt
+  @Prop({ type: Date })
+  nextAttemptAt?: Date;
+
+  @Prop({ type: [CallAttemptSchema], default: [] })
+  attempts: CallAttempt[];
+
   @Prop({ type: Object, default: {} })
   customVariables: Record<string, any>;
 }
@@ -53,9 +272,14 @@ export class BatchCall {
   @Prop({ required: true, trim: true })
   name: string;
 
+  // The only agent, or the first variant of an A/B test
   @Prop({ type: Types.ObjectId, ref: 'Agent', required: true })
   agentId: Types.ObjectId;
 
+  // Agents compared in an A/B test; recipients are split between them by weight
+  @Prop({ type: [AgentVariantSchema], default: [] })
+  agentVariants: AgentVariant[];
+
   @Prop({ type: Types.ObjectId, ref: 'PhoneNumber', required: true })
   phoneNumberId: Types.ObjectId;
 
@@ -65,6 +289,24 @@ export class BatchCall {
   @Prop({ type: String, enum: Object.values(BatchCallStatus), default: BatchCallStatus.SCHEDULED })
   status: BatchCallStatus;
 
+  // Hours and days when recipients may be called, in their local time
+  @Prop({ type: Object })
+  callingWindow?: WorkingHours;
+
+  @Prop({ type: RetryPolicySchema, default: () => ({}) })
+  retryPolicy: RetryPolicy;
+
+  @Prop({ type: MachineDetectionSettingsSchema, default: () => ({}) })
+  machineDetection: MachineDetectionSettings;
+
+  // Recipients are taken from these leads when the campaign starts
+  @Prop({ type: LeadSegmentSchema })
+  leadSegment?: LeadSegment;
+
+  // Last time the lead segment was turned into recipients
+  @Prop({ type: Date })
+  segmentSyncedAt?: Date;
+
   @Prop({ default: 0 })
   totalRecipientsCount: number;
 
@@ -80,6 +322,9 @@ export class BatchCall {
   @Prop({ type: [BatchCallRecipientSchema], default: [] })
   recipients: BatchCallRecipient[];
 
+  @Prop({ type: [BatchCallEventSchema], default: [] })
+  activityLog: BatchCallEvent[];
+
   @Prop({ type: Date })
   startedAt?: Date;
 
@@ -88,3 +333,7 @@ export class BatchCall {
 }
 
 export const BatchCallSchema = SchemaFactory.createForClass(BatchCall);
+
+// Indexes
+BatchCallSchema.index({ status: 1, scheduledTime: 1 });
+BatchCallSchema.index({ 'recipients.callId': 1 });
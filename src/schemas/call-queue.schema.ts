@@ -0,0 +1,82 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CallQueueDocument = CallQueue & Document;
+
+// Which free manager gets the caller at the head of the queue
+export enum QueueStrategy {
+  LONGEST_IDLE = 'longest_idle', // the manager whose last call ended longest ago
+  ROUND_ROBIN = 'round_robin', // the next manager after the one served last
+  LEAST_CALLS = 'least_calls', // the manager with the fewest calls today
+}
+
+export enum QueueOverflowAction {
+  AGENT = 'agent', // hand the caller to an AI agent
+  VOICEMAIL = 'voicemail', // take a message
+  HANGUP = 'hangup',
+}
+
+// Where callers go when nobody answers within the queue's wait limit
+export interface QueueOverflow {
+  action: QueueOverflowAction;
+  agentId?: string; // AGENT
+}
+
+/**
+ * Automatic call distribution: inbound callers wait on hold and are
+ * offered to the free managers of the group in turn
+ */
+@Schema({ timestamps: true })
+export class CallQueue {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ type: [String], default: [] })
+  phoneNumbers: string[];
+
+  @Prop({ type: [String], default: [] })
+  managerIds: string[]; // skill group; empty means any manager of the company
+
+  @Prop({
+    type: String,
+    enum: QueueStrategy,
+    default: QueueStrategy.LONGEST_IDLE,
+  })
+  strategy: QueueStrategy;
+
+  @Prop({ trim: true })
+  holdMusicUrl?: string; // file path or URL Freeswitch can play
+
+  @Prop({ trim: true })
+  holdMessage?: string; // spoken between silences when there is no music
+
+  @Prop({ default: true })
+  announceWaitTime: boolean; // position and estimated wait when the caller joins
+
+  @Prop({ default: 20 })
+  ringTimeoutSeconds: number; // per manager
+
+  @Prop({ default: 180 })
+  maxWaitSeconds: number;
+
+  @Prop({
+    type: Object,
+    default: () => ({ action: QueueOverflowAction.VOICEMAIL }),
+  })
+  overflow: QueueOverflow;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const CallQueueSchema = SchemaFactory.createForClass(CallQueue);
+
+// Indexes
+CallQueueSchema.index({ companyId: 1 });
+CallQueueSchema.index({ phoneNumbers: 1, isActive: 1 });
@@ -53,6 +53,10 @@ export class Company {
     maxConcurrentCalls?: number;
   };
 
+  // Outbound calls in progress across all company numbers (limited by sipConfig.maxConcurrentCalls)
+  @Prop({ default: 0 })
+  activeCallsCount: number;
+
   // Google Cloud Storage bucket for this company's recordings
   @Prop({ trim: true })
   storageBucket?: string;
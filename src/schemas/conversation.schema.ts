@@ -17,11 +17,15 @@ export enum CallStatus {
   MISSED = 'missed',
   NO_ANSWER = 'no_answer',
   BUSY = 'busy',
+  VOICEMAIL = 'voicemail', // reached an answering machine or the caller left a message
 }
 
 export enum CallerType {
   AI_AGENT = 'ai_agent',
   HUMAN_MANAGER = 'human_manager',
+  IVR = 'ivr', // answered by an IVR menu or after-hours message, not by an agent
+  VOICEMAIL = 'voicemail', // unrouted inbound call: rang the managers, then took a message
+  QUEUE = 'queue', // inbound call distributed to managers by a call queue
 }
 
 export enum SentimentType {
@@ -30,6 +34,12 @@ export enum SentimentType {
   NEGATIVE = 'negative',
 }
 
+export enum TransferStatus {
+  REQUESTED = 'requested', // the AI agent is looking for a manager
+  CONNECTED = 'connected', // the caller is talking to a manager
+  CALLBACK_SCHEDULED = 'callback_scheduled', // nobody picked up
+}
+
 export interface TranscriptSegment {
   speaker: 'caller' | 'callee';
   text: string;
@@ -37,6 +47,107 @@ export interface TranscriptSegment {
   confidence: number;
 }
 
+// Part of a call handled by one party; transferred calls have an AI and a human segment
+export interface CallSegment {
+  handledBy: CallerType;
+  agentId?: Types.ObjectId;
+  managerId?: Types.ObjectId;
+  managerName?: string;
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+export interface CallTransfer {
+  status: TransferStatus;
+  reason?: string; // why the caller wanted a human
+  summary?: string; // AI summary handed to the manager
+  managerId?: Types.ObjectId;
+  managerName?: string;
+  managerCallId?: string; // SIP call to the manager's phone
+  requestedAt: Date;
+  connectedAt?: Date;
+  callbackAt?: Date;
+}
+
+export enum AnsweredBy {
+  HUMAN = 'human',
+  MACHINE = 'machine',
+  UNKNOWN = 'unknown', // no clear cue within the analysis time; treated as a person
+}
+
+// What gave the answer away
+export type MachineDetectionCue =
+  | 'initial_silence' // nobody spoke
+  | 'short_greeting' // a short greeting followed by a pause
+  | 'long_greeting'
+  | 'many_words'
+  | 'beep'
+  | 'timeout';
+
+// Answering-machine detection on the first seconds of an outbound call
+export interface MachineDetection {
+  answeredBy: AnsweredBy;
+  cue: MachineDetectionCue;
+  detectedAfterMs: number; // callee audio analyzed before the decision
+  voicemailLeft?: boolean;
+}
+
+// One prompt of an IVR menu and what the caller entered
+export interface IvrStep {
+  nodeId: string;
+  nodeName?: string;
+  digits?: string;
+  result: 'matched' | 'no_input' | 'no_match' | 'played';
+  at: Date;
+}
+
+// Path of an inbound call through an IVR flow
+export interface IvrLog {
+  flowId: Types.ObjectId;
+  flowName: string;
+  steps: IvrStep[];
+  exitAction: string; // IvrActionType the caller left the menu with
+}
+
+export type QueueOutcome =
+  | 'answered' // a manager took the call
+  | 'abandoned' // the caller hung up while waiting
+  | 'overflow'; // nobody answered in time or no manager was online
+
+// Wait of an inbound caller in a call queue
+export interface QueueLog {
+  queueId: Types.ObjectId;
+  queueName: string;
+  enqueuedAt: Date;
+  answeredAt?: Date;
+  waitSeconds: number;
+  outcome: QueueOutcome;
+  managerId?: Types.ObjectId; // who answered
+  overflowAction?: string; // QueueOverflowAction taken
+}
+
+// Message an inbound caller left; the recording and its transcript are on the conversation
+export interface VoicemailMessage {
+  durationSeconds: number;
+  isRead: boolean; // unread messages wait in the voicemail inbox
+  readAt?: Date;
+  readBy?: Types.ObjectId;
+}
+
+// Custom agent tool called during the call
+export interface ToolCallLog {
+  name: string;
+  method: string;
+  url: string;
+  arguments: Record<string, any>;
+  status?: number; // HTTP status; missing when the request failed
+  success: boolean;
+  error?: string;
+  response?: string; // JSON response, truncated
+  durationMs: number;
+  calledAt: Date;
+}
+
 export enum CallOutcome {
   AGREED_TO_BUY = 'agreed_to_buy',
   REJECTED = 'rejected',
@@ -72,6 +183,7 @@ export interface AIAnalysis {
   dealProbability?: number; // 0-100
   conversationQuality?: number; // 0-10
   concerns?: string[]; // Customer concerns or objections
+  optOut?: boolean; // Customer explicitly asked not to be called again
 }
 
 @Schema({ timestamps: true })
@@ -134,6 +246,28 @@ export class Conversation {
   @Prop({ type: [Object], default: [] })
   transcriptSegments: TranscriptSegment[];
 
+  // Hand-off from the AI agent to a manager
+  @Prop({ type: [Object], default: [] })
+  callSegments: CallSegment[];
+
+  @Prop({ type: Object })
+  transfer?: CallTransfer;
+
+  @Prop({ type: [Object], default: [] })
+  toolCalls: ToolCallLog[];
+
+  @Prop({ type: Object })
+  machineDetection?: MachineDetection;
+
+  @Prop({ type: Object })
+  ivr?: IvrLog;
+
+  @Prop({ type: Object })
+  voicemail?: VoicemailMessage;
+
+  @Prop({ type: Object })
+  queue?: QueueLog;
+
   // AI analysis
   @Prop({ type: Object })
   aiAnalysis?: AIAnalysis;
@@ -193,3 +327,9 @@ ConversationSchema.index({ companyId: 1, status: 1 });
 ConversationSchema.index({ companyId: 1, startedAt: -1 });
 ConversationSchema.index({ companyId: 1, leadId: 1 });
 ConversationSchema.index({ companyId: 1, callerType: 1, startedAt: -1 });
+ConversationSchema.index({
+  companyId: 1,
+  'voicemail.isRead': 1,
+  startedAt: -1,
+});
+ConversationSchema.index({ companyId: 1, 'queue.queueId': 1, startedAt: -1 });
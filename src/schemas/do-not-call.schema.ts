@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type DoNotCallEntryDocument = DoNotCallEntry & Document;
+
+export enum DoNotCallSource {
+  MANUAL = 'manual', // added by a user
+  IMPORT = 'import', // bulk import
+  OPT_OUT = 'opt_out', // callee asked not to be called during a call
+}
+
+@Schema({ timestamps: true })
+export class DoNotCallEntry {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  phoneNumber: string; // normalized E.164
+
+  @Prop({ trim: true })
+  reason?: string;
+
+  @Prop({ type: String, enum: DoNotCallSource, required: true })
+  source: DoNotCallSource;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  addedBy?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Conversation' })
+  conversationId?: Types.ObjectId; // call in which the opt-out was detected
+}
+
+export const DoNotCallEntrySchema =
+  SchemaFactory.createForClass(DoNotCallEntry);
+
+// Indexes
+DoNotCallEntrySchema.index({ companyId: 1, phoneNumber: 1 }, { unique: true });
+DoNotCallEntrySchema.index({ companyId: 1, createdAt: -1 });
@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type HolidayDocument = Holiday & Document;
+
+/**
+ * Day the company is closed; inbound calls get the after-hours handling
+ */
+@Schema({ timestamps: true })
+export class Holiday {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId;
+
+  @Prop({ required: true })
+  date: string; // YYYY-MM-DD, local to the timezone of the working hours
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ default: false })
+  recurring: boolean; // every year on the same month and day
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const HolidaySchema = SchemaFactory.createForClass(Holiday);
+
+// Indexes
+HolidaySchema.index({ companyId: 1, date: 1 }, { unique: true });
@@ -0,0 +1,92 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type IvrFlowDocument = IvrFlow & Document;
+
+export enum IvrActionType {
+  NODE = 'node', // continue with another node of the flow
+  AGENT = 'agent', // hand the caller to an AI agent
+  MANAGERS = 'managers', // ring a group of managers
+  QUEUE = 'queue', // wait in a call queue for a manager
+  VOICEMAIL = 'voicemail', // record a message
+  HANGUP = 'hangup',
+}
+
+export interface IvrAction {
+  type: IvrActionType;
+  nodeId?: string; // NODE
+  agentId?: string; // AGENT
+  queueId?: string; // QUEUE
+  managerIds?: string[]; // MANAGERS; empty means any manager of the company
+  fallbackNodeId?: string; // MANAGERS: where to continue when nobody answers
+}
+
+/**
+ * What the caller hears: text spoken by TTS or an audio file
+ */
+export interface IvrPrompt {
+  text?: string;
+  audioUrl?: string; // file path or URL Freeswitch can play
+}
+
+export interface IvrOption {
+  digits: string; // keys the caller presses, e.g. "1" or "12"; "#" ends the input
+  action: IvrAction;
+}
+
+/**
+ * A node plays its prompt and, when it has options, collects digits and
+ * takes the matching option. Without options, or when the caller enters
+ * nothing valid after all retries, `defaultAction` is taken.
+ */
+export interface IvrNode {
+  id: string;
+  name?: string;
+  prompt: IvrPrompt;
+  options: IvrOption[];
+  maxDigits: number;
+  timeoutMs: number; // wait for the first digit after the prompt
+  retries: number; // repeats of the prompt after no or invalid input
+  invalidPrompt?: IvrPrompt; // played before a repeat
+  defaultAction?: IvrAction; // hang up when not set
+}
+
+/**
+ * Menu played to inbound callers of the flow's phone numbers before they
+ * reach an agent, a manager or voicemail
+ */
+@Schema({ timestamps: true })
+export class IvrFlow {
+  @Prop({ type: Types.ObjectId, ref: 'Company', required: true })
+  companyId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop({ type: [String], default: [] })
+  phoneNumbers: string[];
+
+  @Prop({ required: true })
+  startNodeId: string;
+
+  @Prop({ type: [Object], default: [] })
+  nodes: IvrNode[];
+
+  @Prop({ default: 'ru-RU' })
+  language: string; // TTS language of text prompts
+
+  @Prop({ default: 'ru-RU-Wavenet-A' })
+  voiceName: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const IvrFlowSchema = SchemaFactory.createForClass(IvrFlow);
+
+// Indexes
+IvrFlowSchema.index({ companyId: 1 });
+IvrFlowSchema.index({ phoneNumbers: 1, isActive: 1 });
@@ -3,6 +3,7 @@ import { Document, Types } from 'mongoose';
 
 export type KnowledgeBaseDocument = KnowledgeBase & Document;
 export type KnowledgeBaseItemDocument = KnowledgeBaseItem & Document;
+export type KnowledgeBaseChunkDocument = KnowledgeBaseChunk & Document;
 
 export enum DocumentType {
   TEXT = 'text',
@@ -18,6 +19,24 @@ export enum DocumentStatus {
   FAILED = 'failed',
 }
 
+@Schema({ _id: false })
+export class KnowledgeBaseChunk {
+  @Prop({ required: true })
+  index: number;
+
+  @Prop({ type: String, required: true })
+  content: string;
+
+  @Prop({ default: 0 })
+  wordCount: number;
+
+  @Prop({ type: [Number] })
+  embedding?: number[];
+}
+
+export const KnowledgeBaseChunkSchema =
+  SchemaFactory.createForClass(KnowledgeBaseChunk);
+
 @Schema({ _id: false, timestamps: true })
 export class KnowledgeBaseItem {
   @Prop({ type: String, enum: Object.values(DocumentType), required: true })
@@ -54,7 +73,13 @@ export class KnowledgeBaseItem {
   };
 
   @Prop({ type: [Number] })
-  embedding?: number[];
+  embedding?: number[]; // Mean of chunk embeddings (document-level vector)
+
+  @Prop({ type: [KnowledgeBaseChunkSchema], default: [] })
+  chunks?: KnowledgeBaseChunk[];
+
+  @Prop({ type: Date })
+  indexedAt?: Date;
 
   @Prop({ type: Date, default: Date.now })
   createdAt: Date;